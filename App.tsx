@@ -1,14 +1,57 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Account, Transaction, AccountType, ViewMode, RecurringTransaction, StorageAdapter } from './types';
-import { INITIAL_ACCOUNTS, MOCK_TRANSACTIONS } from './constants';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Account, Transaction, AccountType, ViewMode, RecurringTransaction, StorageAdapter, ExchangeRateTable, LedgerIssue, SplitRef, SplitStatus, ReconciliationItem, LedgerCommand, AuditEntry, ImportResult, BankImportProfile, DuplicatePair, DuplicateResolution, CategorizationRule, BackupSchedule, MergeConflict, MergeSide, SavedView } from './types';
+import { INITIAL_ACCOUNTS, MOCK_TRANSACTIONS, DEFAULT_EXCHANGE_RATES } from './constants';
 import { 
     buildAccountTree, 
     generateId, 
     exportToCSV, 
-    serializeTransactionsToCSV, 
-    parseTransactionsFromCSV, 
-    processDueRecurringTransactions
+    processDueRecurringTransactions,
+    reassignSplits,
+    LedgerData,
+    getAccountDeletionBlocker,
+    deleteAccount,
+    getMoveBlocker,
+    moveAccount,
+    getMergeBlocker,
+    mergeAccounts,
+    setAccountArchived
 } from './services/ledgerService';
+import { getAvailableCurrencies } from './services/currencyService';
+import { formatMoney } from './services/moneyService';
+import { 
+    setSplitStatus, 
+    finishReconciliation, 
+    carryOverSplitStatus, 
+    getReconciledChangeBlocker 
+} from './services/reconciliationService';
+import { loadLedger, LedgerContents, LedgerFiles, LoadedLedger, saveLedgerChanges, TransactionLayout, LEDGER_FILES, isTransactionShard } from './services/storageService';
+import { mergeLedgerData, resolveMergeConflicts } from './services/mergeService';
+import { LedgerIndex, syncLedgerIndex } from './services/ledgerIndexService';
+import { DEFAULT_BACKUP_SCHEDULE, createBackup, listBackups, runScheduledBackup, readBackupBundle, summarizeRestore } from './services/backupService';
+import { DirectoryHandleAdapter, LocalStorageAdapter } from './webAdapter';
+import { exportToLedgerJournal, importLedgerJournal } from './services/plainTextLedgerService';
+import { BANK_PROFILES_FILE } from './services/bankImportService';
+import { exportToQif, importQif } from './services/qifService';
+import { exportToBeancount, verifyBeancountExport } from './services/beancountService';
+import { findImportDuplicates, scanForDuplicates, resolveDuplicates } from './services/duplicateService';
+import { RULES_FILE, applyRulesToImport, getRuleChanges, applyRuleChanges } from './services/rulesService';
+import { VIEWS_FILE } from './services/viewService';
+import { HISTORY_LIMIT, createLedgerCommand, applyLedgerCommand, revertLedgerCommand } from './services/historyService';
+import { 
+    AUDIT_FILE, 
+    UNKNOWN_AUTHOR, 
+    createAuditEntries, 
+    serializeAuditEntries, 
+    parseAuditLog, 
+    describeAuditEntity, 
+    restoreAuditVersion 
+} from './services/auditService';
+import { 
+    validateLedger, 
+    addBalancingSplit, 
+    setTransactionDate, 
+    reattachAccountToRoot 
+} from './services/validationService';
 import { AccountTree } from './components/AccountTree';
 import { TransactionForm } from './components/TransactionForm';
 import { ExpenseDashboard } from './components/Dashboard'; 
@@ -16,6 +59,16 @@ import { NetWorthDashboard } from './components/AssetDashboard';
 import { RecurringManager } from './components/RecurringManager';
 import { JournalView } from './components/JournalView';
 import { ConfirmDialog } from './components/ConfirmDialog';
+import { ExchangeRatesPanel } from './components/ExchangeRatesPanel';
+import { IntegrityView } from './components/IntegrityView';
+import { ReconciliationView } from './components/ReconciliationView';
+import { AuditView } from './components/AuditView';
+import { BankImportWizard } from './components/BankImportWizard';
+import { OfxImportDialog } from './components/OfxImportDialog';
+import { DuplicateReview } from './components/DuplicateReview';
+import { RulesView } from './components/RulesView';
+import { BackupView } from './components/BackupView';
+import { MergeConflictDialog } from './components/MergeConflictDialog';
 import { 
     BookOpen, 
     ScrollText, 
@@ -24,14 +77,29 @@ import {
     Landmark, 
     PieChart, 
     CalendarClock,
-    Bell
+    Bell,
+    ShieldCheck,
+    ListChecks,
+    Undo2,
+    Redo2,
+    History,
+    FileDown,
+    FileUp,
+    Upload,
+    Wand2,
+    Archive
 } from 'lucide-react';
 
+// Wait after a file change on disk before reading it, so edits that touch several files arrive together
+const EXTERNAL_CHANGE_DELAY = 500;
+
 interface AppProps {
     adapter?: StorageAdapter;
+    author?: string; // Name recorded in the audit log, configured in the plugin settings
+    backupSchedule?: BackupSchedule; // Configured in the plugin settings
 }
 
-const App: React.FC<AppProps> = ({ adapter }) => {
+const App: React.FC<AppProps> = ({ adapter, author, backupSchedule }) => {
   const [view, setView] = useState<ViewMode>('dashboard_expense');
   
   // Data State
@@ -50,9 +118,48 @@ const App: React.FC<AppProps> = ({ adapter }) => {
     const saved = localStorage.getItem('recurring');
     return saved ? JSON.parse(saved) : [];
   });
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRateTable>(() => {
+    if (adapter) return DEFAULT_EXCHANGE_RATES;
+    const saved = localStorage.getItem('exchangeRates');
+    return saved ? JSON.parse(saved) : DEFAULT_EXCHANGE_RATES;
+  });
+  const [importProfiles, setImportProfiles] = useState<BankImportProfile[]>(() => {
+    if (adapter) return [];
+    const saved = localStorage.getItem('importProfiles');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [rules, setRules] = useState<CategorizationRule[]>(() => {
+    if (adapter) return [];
+    const saved = localStorage.getItem('rules');
+    return saved ? JSON.parse(saved) : [];
+  });
+  const [savedViews, setSavedViews] = useState<SavedView[]>(() => {
+    if (adapter) return [];
+    const saved = localStorage.getItem('views');
+    return saved ? JSON.parse(saved) : [];
+  });
+  // A saved view opened from the Obsidian command, until its screen has applied it
+  const [viewRequest, setViewRequest] = useState<SavedView | null>(null);
+
+  // Currency used by the dashboards; amounts are booked in exchangeRates.baseCurrency
+  const [reportingCurrency, setReportingCurrency] = useState<string>(exchangeRates.baseCurrency);
 
   const [showTxForm, setShowTxForm] = useState(false);
   const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [showBankImport, setShowBankImport] = useState(false);
+  const [showOfxImport, setShowOfxImport] = useState(false);
+  // Entries changed both in the view and on disk, waiting for the user to pick a version
+  const [mergeReview, setMergeReview] = useState<{
+      disk: LoadedLedger;
+      merged: LedgerData;
+      conflicts: MergeConflict[];
+  } | null>(null);
+  const [duplicateReview, setDuplicateReview] = useState<{
+      mode: 'import' | 'scan';
+      pairs: DuplicatePair[];
+      fileName?: string;
+      result?: ImportResult; // Held back until the import pairs are resolved
+  } | null>(null);
 
   // Notification State
   const [toast, setToast] = useState<{ message: string, type: 'info' | 'success' } | null>(null);
@@ -62,6 +169,7 @@ const App: React.FC<AppProps> = ({ adapter }) => {
       isOpen: boolean;
       title: string;
       message: string;
+      confirmLabel?: string;
       onConfirm: () => void;
   }>({
       isOpen: false,
@@ -71,12 +179,63 @@ const App: React.FC<AppProps> = ({ adapter }) => {
   });
 
   // File System State (Web)
-  const [dirHandle, setDirHandle] = useState<any>(null);
+  const [dirHandle, setDirHandle] = useState<FileSystemDirectoryHandle | null>(null);
   const [lastSyncTime, setLastSyncTime] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
 
+  // Where the ledger is saved: the vault, or the folder connected in the web app
+  const ledgerStorage = useMemo<StorageAdapter | null>(
+      () => adapter || (dirHandle ? new DirectoryHandleAdapter(dirHandle) : null),
+      [adapter, dirHandle]
+  );
+  // File layout of the open ledger; a ref, since saves queued before a reload must use the new one
+  const ledgerLayoutRef = useRef<TransactionLayout>('single');
+  // The ledger as last loaded or saved; saves only write the files that differ from it
+  const savedLedgerRef = useRef<LedgerData | null>(null);
+  // File contents as last loaded or saved, to tell edits made outside LedgerFlow from our own writes.
+  // null while unknown (a folder connected in the web app is never read), which turns the checks off.
+  const diskFilesRef = useRef<LedgerFiles | null>(null);
+  // Saves queued or in flight; change checks wait for them, since vault events also fire for our own writes
+  const savingCountRef = useRef(0);
+  // Saves run one after another, so each compares against what the one before it wrote
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
+  // Newest ledger waiting in the queue; edits made while a save runs are written together
+  const pendingSaveRef = useRef<LedgerData | null>(null);
+  useEffect(() => {
+      // A newly connected folder has not been written yet
+      savedLedgerRef.current = null;
+      diskFilesRef.current = null;
+  }, [ledgerStorage]);
+
+  const rememberDiskFiles = (files: LedgerFiles) => {
+      if (diskFilesRef.current) diskFilesRef.current = { ...diskFilesRef.current, ...files };
+  };
+
+  // Integrity State (refreshed on every load and save)
+  const [integrityIssues, setIntegrityIssues] = useState<LedgerIssue[]>([]);
+
   // Journal View specific state to allow external linking (e.g. from Net Worth Dashboard)
   const [journalFocusId, setJournalFocusId] = useState<string | null>(null);
+  const [reconcileAccountId, setReconcileAccountId] = useState<string | null>(null);
+
+  // Undo / Redo stacks of ledger commands (newest last)
+  const [undoStack, setUndoStack] = useState<LedgerCommand[]>([]);
+  const [redoStack, setRedoStack] = useState<LedgerCommand[]>([]);
+
+  // Audit State. Without a configured author the name is kept in localStorage.
+  const [localAuthor, setLocalAuthor] = useState(() => localStorage.getItem('auditAuthor') || '');
+  const auditAuthor = author || localAuthor || UNKNOWN_AUTHOR;
+  const [auditRefreshKey, setAuditRefreshKey] = useState(0);
+
+  // Backup State. Without a configured schedule it is kept in localStorage.
+  const [localBackupSchedule, setLocalBackupSchedule] = useState<BackupSchedule>(() => {
+    const saved = localStorage.getItem('backupSchedule');
+    return saved ? JSON.parse(saved) : DEFAULT_BACKUP_SCHEDULE;
+  });
+  const activeBackupSchedule = backupSchedule || localBackupSchedule;
+  const [backupRefreshKey, setBackupRefreshKey] = useState(0);
+  // Saves and scheduled backups wait until the vault files are loaded, so an empty state never replaces them
+  const [isLoaded, setIsLoaded] = useState(!adapter);
 
   // Command Event Listeners
   useEffect(() => {
@@ -108,8 +267,12 @@ const App: React.FC<AppProps> = ({ adapter }) => {
         localStorage.setItem('accounts', JSON.stringify(accounts));
         localStorage.setItem('transactions', JSON.stringify(transactions));
         localStorage.setItem('recurring', JSON.stringify(recurringTransactions));
+        localStorage.setItem('exchangeRates', JSON.stringify(exchangeRates));
+        localStorage.setItem('importProfiles', JSON.stringify(importProfiles));
+        localStorage.setItem('rules', JSON.stringify(rules));
+        localStorage.setItem('views', JSON.stringify(savedViews));
     }
-  }, [accounts, transactions, recurringTransactions, adapter]);
+  }, [accounts, transactions, recurringTransactions, exchangeRates, importProfiles, rules, savedViews, adapter]);
 
   // Inject Tailwind for Obsidian Environment
   useEffect(() => {
@@ -125,35 +288,55 @@ const App: React.FC<AppProps> = ({ adapter }) => {
 
   // --- Adapter (Plugin) Loading Logic ---
   
+  const runIntegrityCheck = (accs: Account[], txs: Transaction[]) => {
+      const issues = validateLedger(accs, txs);
+      setIntegrityIssues(issues);
+      return issues;
+  };
+
   const loadData = useCallback(async () => {
       if (!adapter) return;
       setIsSyncing(true);
       try {
-          if (await adapter.exists('Accounts.json')) {
-              const accText = await adapter.read('Accounts.json');
-              if (accText) setAccounts(JSON.parse(accText));
-          } else {
-              await adapter.write('Accounts.json', JSON.stringify(INITIAL_ACCOUNTS, null, 2));
-          }
+          // Older formats are upgraded (after a backup) before anything is parsed
+          const ledger = await loadLedger(adapter);
+          const loadedAccounts = ledger.accounts;
+          const loadedTransactions = ledger.transactions;
+          setAccounts(loadedAccounts);
+          setTransactions(loadedTransactions);
+          setRecurringTransactions(ledger.recurring);
+          setExchangeRates(ledger.exchangeRates);
+          setReportingCurrency(ledger.exchangeRates.baseCurrency);
+          setImportProfiles(ledger.importProfiles);
+          setRules(ledger.rules);
+          setSavedViews(ledger.views);
+          ledgerLayoutRef.current = ledger.layout;
+          savedLedgerRef.current = { accounts: loadedAccounts, transactions: loadedTransactions, recurring: ledger.recurring };
+          diskFilesRef.current = ledger.files;
+          setIsLoaded(true);
 
-          if (await adapter.exists('Transaction.csv')) {
-              const txText = await adapter.read('Transaction.csv');
-              if (txText) setTransactions(parseTransactionsFromCSV(txText));
-          }
+          // Commands recorded against the previous file contents no longer apply
+          setUndoStack([]);
+          setRedoStack([]);
 
-          if (await adapter.exists('Recurring.json')) {
-              const recText = await adapter.read('Recurring.json');
-              if (recText) setRecurringTransactions(JSON.parse(recText));
+          const issues = runIntegrityCheck(loadedAccounts, loadedTransactions);
+          // Upgrades that only bump the version change no file and are not announced
+          if (ledger.migration && ledger.migration.backupFile) {
+              setToast({ message: `Ledger files upgraded from format ${ledger.migration.fromVersion}. Originals saved to ${ledger.migration.backupFile}.`, type: 'info' });
+          } else if (issues.length > 0) {
+              setToast({ message: `Integrity check found ${issues.length} problem(s). Open the Integrity view to fix them.`, type: 'info' });
           }
           setLastSyncTime(new Date().toLocaleTimeString());
       } catch (e) {
           console.error("Failed to load data from vault:", e);
+          setToast({ message: `Could not load ledger: ${e instanceof Error ? e.message : e}`, type: 'info' });
       } finally {
           setIsSyncing(false);
       }
   }, [adapter]);
 
   useEffect(() => {
+    if (!adapter) runIntegrityCheck(accounts, transactions);
     loadData();
 
     // Listen for external updates (e.g. from the New Transaction Modal via Command Palette)
@@ -177,6 +360,11 @@ const App: React.FC<AppProps> = ({ adapter }) => {
               if (adapter) {
                   saveToDiskInternal([...newTransactions, ...transactions], updatedRecurring, accounts);
               }
+              appendAuditInternal(createAuditEntries(createLedgerCommand(
+                  'Generate recurring transactions',
+                  { accounts, transactions, recurring: recurringTransactions },
+                  { accounts, transactions: [...newTransactions, ...transactions], recurring: updatedRecurring }
+              ), auditAuthor));
           }
       }
       // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -197,36 +385,127 @@ const App: React.FC<AppProps> = ({ adapter }) => {
       recs: RecurringTransaction[], 
       accs: Account[]
   ) => {
+      // After a failed load the files are still intact on disk; writing now would replace them
+      if (!isLoaded) {
+          setToast({ message: 'Not saved: the ledger could not be loaded. Fix the reported problem and reopen the ledger.', type: 'info' });
+          return;
+      }
+      runIntegrityCheck(accs, txs);
+      if (!ledgerStorage) return;
+      const storage = ledgerStorage;
       setIsSyncing(true);
+      pendingSaveRef.current = { accounts: accs, transactions: txs, recurring: recs };
+      savingCountRef.current++;
+      saveQueueRef.current = saveQueueRef.current.then(async () => {
+          let refused: { fileNames: string[]; data: LedgerData } | null = null;
+          try {
+              refused = await writePendingLedger(storage);
+          } finally {
+              savingCountRef.current--;
+              if (savingCountRef.current === 0) setIsSyncing(false);
+          }
+          if (refused) checkExternalChangesRef.current(refused.fileNames, refused.data);
+      });
+      await saveQueueRef.current;
+  };
+
+  // Runs from the save queue: `previous`, the known files and the layout are read only now,
+  // after the save before it has recorded what it wrote
+  const writePendingLedger = async (storage: StorageAdapter) => {
+      const next = pendingSaveRef.current;
+      // Already written by an earlier save in the queue
+      if (!next) return null;
+      pendingSaveRef.current = null;
       try {
-          if (adapter) {
-            await adapter.write('Accounts.json', JSON.stringify(accs, null, 2));
-            await adapter.write('Transaction.csv', serializeTransactionsToCSV(txs));
-            await adapter.write('Recurring.json', JSON.stringify(recs, null, 2));
-          } else if (dirHandle) {
-             const accFileHandle = await dirHandle.getFileHandle('Accounts.json', { create: true });
-             const accWritable = await accFileHandle.createWritable();
-             await accWritable.write(JSON.stringify(accs, null, 2));
-             await accWritable.close();
-
-             const txFileHandle = await dirHandle.getFileHandle('Transaction.csv', { create: true });
-             const txWritable = await txFileHandle.createWritable();
-             await txWritable.write(serializeTransactionsToCSV(txs));
-             await txWritable.close();
-
-             const recFileHandle = await dirHandle.getFileHandle('Recurring.json', { create: true });
-             const recWritable = await recFileHandle.createWritable();
-             await recWritable.write(JSON.stringify(recs, null, 2));
-             await recWritable.close();
+          const result = await saveLedgerChanges(storage, ledgerLayoutRef.current, savedLedgerRef.current, next, diskFilesRef.current);
+          if (result.changedOnDisk.length > 0) {
+              // Nothing was written; the edits made outside LedgerFlow are merged with ours
+              return { fileNames: result.changedOnDisk, data: next };
           }
+          savedLedgerRef.current = next;
+          rememberDiskFiles(result.written);
           setLastSyncTime(new Date().toLocaleTimeString());
       } catch (err) {
+          // What is on disk is unknown now, so the next save writes everything
+          savedLedgerRef.current = null;
           console.error("Failed to save:", err);
+      }
+      return null;
+  };
+
+  // Settings files (exchange rates, import profiles, rules, views) are written whole, on their own
+  const saveSettingsFile = async (name: string, content: string) => {
+      if (!ledgerStorage) return;
+      await ledgerStorage.write(name, content);
+      rememberDiskFiles({ [name]: content });
+  };
+
+  // Exchange rates change independently of the ledger, so they are written on their own
+  const saveExchangeRatesInternal = async (table: ExchangeRateTable) => {
+      if (!isLoaded) return;
+      setIsSyncing(true);
+      try {
+          await saveSettingsFile('ExchangeRates.json', JSON.stringify(table, null, 2));
+          setLastSyncTime(new Date().toLocaleTimeString());
+      } catch (err) {
+          console.error("Failed to save exchange rates:", err);
       } finally {
           setIsSyncing(false);
       }
   };
 
+  // Bank import profiles are settings, not ledger data, so they are neither undoable nor audited
+  const saveImportProfilesInternal = async (profiles: BankImportProfile[]) => {
+      if (!isLoaded) return;
+      try {
+          await saveSettingsFile(BANK_PROFILES_FILE, JSON.stringify(profiles, null, 2));
+      } catch (err) {
+          console.error("Failed to save import profiles:", err);
+      }
+  };
+
+  // Rules are settings as well; re-categorizing entries with them goes through commitChange
+  const saveRulesInternal = async (next: CategorizationRule[]) => {
+      if (!isLoaded) return;
+      try {
+          await saveSettingsFile(RULES_FILE, JSON.stringify(next, null, 2));
+      } catch (err) {
+          console.error("Failed to save rules:", err);
+      }
+  };
+
+  // Saved views are settings as well
+  const saveViewsInternal = async (next: SavedView[]) => {
+      if (!isLoaded) return;
+      try {
+          await saveSettingsFile(VIEWS_FILE, JSON.stringify(next, null, 2));
+      } catch (err) {
+          console.error("Failed to save views:", err);
+      }
+  };
+
+  // Audit entries are only ever appended, never rewritten
+  const appendAuditInternal = async (entries: AuditEntry[]) => {
+      if (entries.length === 0) return;
+      const content = serializeAuditEntries(entries);
+      try {
+          if (ledgerStorage) {
+            await ledgerStorage.append(AUDIT_FILE, content);
+          } else {
+             localStorage.setItem('audit', (localStorage.getItem('audit') || '') + content);
+          }
+          setAuditRefreshKey(k => k + 1);
+      } catch (err) {
+          console.error("Failed to write audit log:", err);
+      }
+  };
+
+  const readAuditLogInternal = async (): Promise<AuditEntry[]> => {
+      // A folder without changes recorded yet has no audit file
+      const content = ledgerStorage ? await ledgerStorage.read(AUDIT_FILE) : localStorage.getItem('audit');
+      return parseAuditLog(content || '');
+  };
+
   const triggerSave = useCallback(() => {
       saveToDiskInternal(transactions, recurringTransactions, accounts);
   }, [transactions, recurringTransactions, accounts, adapter, dirHandle]);
@@ -242,42 +521,196 @@ const App: React.FC<AppProps> = ({ adapter }) => {
       } catch (err) { console.log(err); }
   };
 
+  // --- History (Undo / Redo) ---
+
+  // Current ledger state as one value, the unit that history commands diff and restore
+  const ledgerData: LedgerData = { accounts, transactions, recurring: recurringTransactions };
+
+  // Balances for the dashboards. Edits re-book only the transactions that changed; a new account
+  // list rebuilds the index. Every change yields a new index object for the views' memos.
+  const ledgerIndexRef = useRef<LedgerIndex | null>(null);
+  const ledgerIndex = useMemo(() => {
+      ledgerIndexRef.current = syncLedgerIndex(ledgerIndexRef.current, accounts, transactions);
+      return ledgerIndexRef.current;
+  }, [accounts, transactions]);
+
+  const applyLedgerData = (data: LedgerData) => {
+    setAccounts(data.accounts);
+    setTransactions(data.transactions);
+    setRecurringTransactions(data.recurring);
+    saveToDiskInternal(data.transactions, data.recurring, data.accounts);
+  };
+
+  // Every ledger mutation goes through here so that it can be undone and is audited.
+  // Returns false when nothing changed.
+  const commitChange = (label: string, next: LedgerData): boolean => {
+    const command = createLedgerCommand(label, ledgerData, next);
+    if (command.changes.length === 0) return false;
+    setUndoStack(prev => [...prev, command].slice(-HISTORY_LIMIT));
+    setRedoStack([]);
+    applyLedgerData(next);
+    appendAuditInternal(createAuditEntries(command, auditAuthor));
+    return true;
+  };
+
+  const handleUndo = () => {
+    const command = undoStack[undoStack.length - 1];
+    if (!command) return;
+    applyLedgerData(revertLedgerCommand(ledgerData, command));
+    appendAuditInternal(createAuditEntries(command, auditAuthor, 'undo'));
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, command]);
+    setToast({ message: `Undone: ${command.label}`, type: 'info' });
+  };
+
+  const handleRedo = () => {
+    const command = redoStack[redoStack.length - 1];
+    if (!command) return;
+    applyLedgerData(applyLedgerCommand(ledgerData, command));
+    appendAuditInternal(createAuditEntries(command, auditAuthor));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, command]);
+    setToast({ message: `Redone: ${command.label}`, type: 'info' });
+  };
+
+  // Keyboard shortcuts, handled on the view's own element so that keys pressed in other Obsidian
+  // panes (or another ledger view) never undo here. Text fields keep their own native undo.
+  const handleUndoKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!(e.ctrlKey || e.metaKey)) return;
+    const target = e.target as HTMLElement;
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+    }
+  };
+
+  // Obsidian commands
+  useEffect(() => {
+    window.addEventListener('ledger-flow:undo', handleUndo);
+    window.addEventListener('ledger-flow:redo', handleRedo);
+    return () => {
+        window.removeEventListener('ledger-flow:undo', handleUndo);
+        window.removeEventListener('ledger-flow:redo', handleRedo);
+    };
+  });
+
   // --- Handlers ---
 
   const treeRoots = buildAccountTree(accounts);
 
-  const handleAddAccount = (parentId: string, name: string, type: AccountType, budget: number) => {
+  const handleAddAccount = (parentId: string, name: string, type: AccountType, budget: number, currency?: string) => {
     const newAccount: Account = {
       id: generateId(),
       parentId,
       name,
       type,
-      budget
+      budget,
+      currency
     };
-    const updatedAccounts = [...accounts, newAccount];
-    setAccounts(updatedAccounts);
-    saveToDiskInternal(transactions, recurringTransactions, updatedAccounts);
+    commitChange(`Add account "${name}"`, { ...ledgerData, accounts: [...accounts, newAccount] });
   };
 
-  const handleUpdateAccount = (accountId: string, newName: string, newBudget: number) => {
+  const handleUpdateAccount = (accountId: string, newName: string, newBudget: number, currency?: string) => {
     const updatedAccounts = accounts.map(acc => 
-      acc.id === accountId ? { ...acc, name: newName, budget: newBudget } : acc
+      acc.id === accountId ? { ...acc, name: newName, budget: newBudget, currency } : acc
     );
-    setAccounts(updatedAccounts);
-    saveToDiskInternal(transactions, recurringTransactions, updatedAccounts);
+    commitChange(`Edit account "${newName}"`, { ...ledgerData, accounts: updatedAccounts });
+  };
+
+  const handleDeleteAccount = (accountId: string, reassignToId?: string) => {
+    const blocker = getAccountDeletionBlocker(accountId, ledgerData, reassignToId);
+    if (blocker) {
+        setToast({ message: blocker, type: 'info' });
+        return;
+    }
+    const name = accounts.find(a => a.id === accountId)?.name;
+    const target = reassignToId ? accounts.find(a => a.id === reassignToId)?.name : null;
+    setConfirmState({
+        isOpen: true,
+        title: 'Delete Account',
+        message: target
+            ? `Delete "${name}" and move all of its transactions to "${target}"?`
+            : `Delete the empty account "${name}"?`,
+        onConfirm: () => {
+            commitChange(`Delete account "${name}"`, deleteAccount(accountId, ledgerData, reassignToId));
+            setConfirmState(prev => ({ ...prev, isOpen: false }));
+            setToast({ message: 'Account deleted', type: 'info' });
+        }
+    });
+  };
+
+  const handleMoveAccount = (accountId: string, newParentId: string) => {
+    const blocker = getMoveBlocker(accountId, newParentId, accounts);
+    if (blocker) {
+        setToast({ message: blocker, type: 'info' });
+        return;
+    }
+    const name = accounts.find(a => a.id === accountId)?.name;
+    commitChange(`Move account "${name}"`, { ...ledgerData, accounts: moveAccount(accountId, newParentId, accounts) });
+  };
+
+  const handleMergeAccounts = (sourceId: string, targetId: string) => {
+    const blocker = getMergeBlocker(sourceId, targetId, accounts);
+    if (blocker) {
+        setToast({ message: blocker, type: 'info' });
+        return;
+    }
+    const source = accounts.find(a => a.id === sourceId)?.name;
+    const target = accounts.find(a => a.id === targetId)?.name;
+    setConfirmState({
+        isOpen: true,
+        title: 'Merge Accounts',
+        message: `Move all transactions, recurring rules and sub-accounts of "${source}" into "${target}" and remove "${source}"?`,
+        confirmLabel: 'Merge',
+        onConfirm: () => {
+            commitChange(`Merge "${source}" into "${target}"`, mergeAccounts(sourceId, targetId, ledgerData));
+            setConfirmState(prev => ({ ...prev, isOpen: false }));
+            setToast({ message: `Merged "${source}" into "${target}"`, type: 'success' });
+        }
+    });
+  };
+
+  const handleArchiveAccount = (accountId: string, archived: boolean) => {
+    const name = accounts.find(a => a.id === accountId)?.name;
+    commitChange(`${archived ? 'Archive' : 'Unarchive'} account "${name}"`, { ...ledgerData, accounts: setAccountArchived(accountId, archived, accounts) });
+  };
+
+  const handleUpdateExchangeRates = (table: ExchangeRateTable) => {
+    setExchangeRates(table);
+    if (!getAvailableCurrencies(table, accounts).includes(reportingCurrency)) {
+        setReportingCurrency(table.baseCurrency);
+    }
+    saveExchangeRatesInternal(table);
   };
 
   const handleSaveTransaction = (tx: Transaction) => {
     let updatedTransactions;
     if (editingTransaction) {
-        updatedTransactions = transactions.map(t => t.id === tx.id ? tx : t);
+        // The form rebuilds splits, so statuses are carried over and reconciled lines must stay intact
+        const merged = carryOverSplitStatus(editingTransaction, tx);
+        const blocker = getReconciledChangeBlocker(editingTransaction, merged);
+        if (blocker) {
+            setToast({ message: blocker, type: 'info' });
+            return;
+        }
+        updatedTransactions = transactions.map(t => t.id === merged.id ? merged : t);
     } else {
         updatedTransactions = [tx, ...transactions];
     }
-    setTransactions(updatedTransactions);
     setShowTxForm(false);
     setEditingTransaction(null);
-    saveToDiskInternal(updatedTransactions, recurringTransactions, accounts);
+    commitChange(`${editingTransaction ? 'Edit' : 'Add'} transaction "${tx.payee || tx.description || tx.date}"`, { ...ledgerData, transactions: updatedTransactions });
+  };
+
+  // Entries typed into the account register bypass the form
+  const handleAddRegisterEntry = (tx: Transaction) => {
+    commitChange(`Add transaction "${tx.payee || tx.description || tx.date}"`, { ...ledgerData, transactions: [tx, ...transactions] });
   };
 
   const handleEditTransaction = (tx: Transaction) => {
@@ -286,14 +719,18 @@ const App: React.FC<AppProps> = ({ adapter }) => {
   };
 
   const handleDeleteTransaction = (id: string) => {
+    const existing = transactions.find(t => t.id === id);
+    const blocker = existing ? getReconciledChangeBlocker(existing, null) : null;
+    if (blocker) {
+        setToast({ message: blocker, type: 'info' });
+        return;
+    }
     setConfirmState({
         isOpen: true,
         title: 'Delete Transaction',
-        message: 'Are you sure you want to delete this transaction? This action cannot be undone.',
+        message: 'Are you sure you want to delete this transaction? You can undo this with Ctrl+Z.',
         onConfirm: () => {
-            const updatedTransactions = transactions.filter(t => t.id !== id);
-            setTransactions(updatedTransactions);
-            saveToDiskInternal(updatedTransactions, recurringTransactions, accounts);
+            commitChange(`Delete transaction "${existing?.payee || existing?.description || existing?.date}"`, { ...ledgerData, transactions: transactions.filter(t => t.id !== id) });
             setConfirmState(prev => ({ ...prev, isOpen: false }));
             setToast({ message: 'Transaction deleted', type: 'info' });
         }
@@ -301,15 +738,11 @@ const App: React.FC<AppProps> = ({ adapter }) => {
   };
 
   const handleAddRecurring = (rt: RecurringTransaction) => {
-      const updated = [...recurringTransactions, rt];
-      setRecurringTransactions(updated);
-      saveToDiskInternal(transactions, updated, accounts);
+      commitChange(`Add recurring rule "${rt.payee}"`, { ...ledgerData, recurring: [...recurringTransactions, rt] });
   };
 
   const handleUpdateRecurring = (rt: RecurringTransaction) => {
-      const updated = recurringTransactions.map(r => r.id === rt.id ? rt : r);
-      setRecurringTransactions(updated);
-      saveToDiskInternal(transactions, updated, accounts);
+      commitChange(`Edit recurring rule "${rt.payee}"`, { ...ledgerData, recurring: recurringTransactions.map(r => r.id === rt.id ? rt : r) });
   };
 
   const handleDeleteRecurring = (id: string) => {
@@ -318,9 +751,8 @@ const App: React.FC<AppProps> = ({ adapter }) => {
         title: 'Delete Recurring Rule',
         message: 'Are you sure you want to delete this recurring rule? Future transactions will not be generated.',
         onConfirm: () => {
-            const updated = recurringTransactions.filter(rt => rt.id !== id);
-            setRecurringTransactions(updated);
-            saveToDiskInternal(transactions, updated, accounts);
+            const rule = recurringTransactions.find(rt => rt.id === id);
+            commitChange(`Delete recurring rule "${rule?.payee}"`, { ...ledgerData, recurring: recurringTransactions.filter(rt => rt.id !== id) });
             setConfirmState(prev => ({ ...prev, isOpen: false }));
             setToast({ message: 'Recurring rule deleted', type: 'info' });
         }
@@ -331,8 +763,8 @@ const App: React.FC<AppProps> = ({ adapter }) => {
       const updated = recurringTransactions.map(rt => 
         rt.id === id ? { ...rt, active: !rt.active } : rt
       );
-      setRecurringTransactions(updated);
-      saveToDiskInternal(transactions, updated, accounts);
+      const rule = updated.find(rt => rt.id === id);
+      commitChange(`${rule?.active ? 'Resume' : 'Pause'} recurring rule "${rule?.payee}"`, { ...ledgerData, recurring: updated });
   };
 
   const handleExport = () => {
@@ -345,14 +777,515 @@ const App: React.FC<AppProps> = ({ adapter }) => {
     a.click();
   };
 
+  // --- Imports ---
+
+  // Shared save path for every importer that returns an ImportResult.
+  // Entries are categorized by the rules first; likely doubles of existing entries are shown for review before anything is saved.
+  const applyImportResult = (fileName: string, imported: ImportResult) => {
+    const result = applyRulesToImport(imported, rules);
+    const pairs = findImportDuplicates(result.transactions, transactions);
+    if (pairs.length > 0) {
+        setDuplicateReview({ mode: 'import', pairs, fileName, result });
+        return;
+    }
+    commitChange(`Import ${result.transactions.length} transaction(s) from ${fileName}`, {
+        ...ledgerData,
+        accounts: result.accounts,
+        transactions: [...transactions, ...result.transactions]
+    });
+    setToast({ message: `Imported ${result.transactions.length} transaction(s) from ${fileName}`, type: 'success' });
+  };
+
+  // Show what a file import will do, with the first warnings, before committing it
+  const confirmImport = (title: string, fileName: string, result: ImportResult) => {
+    if (result.transactions.length === 0 && result.createdAccounts.length === 0) {
+        setToast({ message: result.warnings[0] || `No transactions found in ${fileName}`, type: 'info' });
+        return;
+    }
+
+    const warningText = result.warnings.length > 0
+        ? `\n\n${result.warnings.length} warning(s):\n${result.warnings.slice(0, 5).join('\n')}${result.warnings.length > 5 ? '\n...' : ''}`
+        : '';
+    setConfirmState({
+        isOpen: true,
+        title,
+        message: `Import ${result.transactions.length} transaction(s) and create ${result.createdAccounts.length} account(s) from ${fileName}?${warningText}`,
+        confirmLabel: 'Import',
+        onConfirm: () => {
+            applyImportResult(fileName, result);
+            setConfirmState(prev => ({ ...prev, isOpen: false }));
+        }
+    });
+  };
+
+  const handleOfxImport = (fileName: string, result: ImportResult) => {
+    applyImportResult(fileName, result);
+    setShowOfxImport(false);
+  };
+
+  // --- Plain-Text Journal ---
+
+  const journalInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportJournal = () => {
+    const journal = exportToLedgerJournal(transactions, accounts, exchangeRates.baseCurrency);
+    const blob = new Blob([journal], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ledger_${new Date().toISOString().split('T')[0]}.journal`;
+    a.click();
+  };
+
+  const handleImportJournalFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    confirmImport('Import Journal', file.name, importLedgerJournal(await file.text(), accounts, exchangeRates));
+  };
+
+  // --- QIF ---
+
+  const qifInputRef = useRef<HTMLInputElement>(null);
+
+  const handleExportQif = () => {
+    const qif = exportToQif(transactions, accounts, exchangeRates);
+    const blob = new Blob([qif], { type: 'application/qif' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ledger_${new Date().toISOString().split('T')[0]}.qif`;
+    a.click();
+  };
+
+  const handleImportQifFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    // Records without an !Account header go to an account named after the file
+    const accountName = file.name.replace(/\.qif$/i, '');
+    confirmImport('Import QIF', file.name, importQif(await file.text(), accounts, exchangeRates, accountName));
+  };
+
+  // --- Beancount ---
+
+  // The written file is read back and its balances compared with the ledger before it is offered
+  const handleExportBeancount = () => {
+    const content = exportToBeancount(transactions, accounts, exchangeRates.baseCurrency);
+    const mismatches = verifyBeancountExport(content, accounts, transactions, exchangeRates.baseCurrency);
+    const blob = new Blob([content], { type: 'text/plain' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `ledger_${new Date().toISOString().split('T')[0]}.beancount`;
+    a.click();
+    if (mismatches.length > 0) {
+        const first = mismatches[0];
+        setToast({ message: `Beancount balances differ for ${mismatches.length} account(s), e.g. ${first.name}: ${formatMoney(first.exported)} instead of ${formatMoney(first.expected)}. Check the Integrity view.`, type: 'info' });
+    } else {
+        setToast({ message: 'Beancount export written; all account balances match the ledger', type: 'success' });
+    }
+  };
+
+  // --- External Changes ---
+
+  // Take over what is on disk, then save `data` on top of it when it differs (a merge result)
+  const applyDiskLedger = (disk: LoadedLedger, data: LedgerData) => {
+    const theirs: LedgerData = { accounts: disk.accounts, transactions: disk.transactions, recurring: disk.recurring };
+    savedLedgerRef.current = theirs;
+    diskFilesRef.current = disk.files;
+    setExchangeRates(disk.exchangeRates);
+    setImportProfiles(disk.importProfiles);
+    setRules(disk.rules);
+    setSavedViews(disk.views);
+    ledgerLayoutRef.current = disk.layout;
+    setAccounts(data.accounts);
+    setTransactions(data.transactions);
+    setRecurringTransactions(data.recurring);
+    // Commands recorded against the previous file contents no longer apply
+    setUndoStack([]);
+    setRedoStack([]);
+    if (data === theirs) runIntegrityCheck(data.accounts, data.transactions);
+    else saveToDiskInternal(data.transactions, data.recurring, data.accounts);
+  };
+
+  // Called with the files reported by the vault watcher, or refused by a save. Our own writes are
+  // recognized by their content. Without unsaved changes the view simply reloads; otherwise the
+  // disk version is merged into ours by id and conflicting entries are shown to the user.
+  const checkExternalChanges = async (fileNames: string[], ours: LedgerData = ledgerData) => {
+    if (!ledgerStorage || !diskFilesRef.current || !isLoaded) return;
+    if (savingCountRef.current > 0) {
+        setTimeout(() => checkExternalChangesRef.current(fileNames), EXTERNAL_CHANGE_DELAY);
+        return;
+    }
+    const known = diskFilesRef.current;
+    const candidates = Array.from(new Set(fileNames)).filter(name => LEDGER_FILES.includes(name) || isTransactionShard(name));
+    const changed: string[] = [];
+    for (const name of candidates) {
+        if ((await ledgerStorage.read(name)) !== (known[name] ?? null)) changed.push(name);
+    }
+    if (changed.length === 0) return;
+
+    let disk: LoadedLedger;
+    try {
+        disk = await loadLedger(ledgerStorage);
+    } catch (e) {
+        // Saves keep refusing to overwrite the files until they can be read again
+        setToast({ message: `${changed.join(', ')} changed on disk but could not be read: ${e instanceof Error ? e.message : e}`, type: 'info' });
+        return;
+    }
+    const theirs: LedgerData = { accounts: disk.accounts, transactions: disk.transactions, recurring: disk.recurring };
+    const base = savedLedgerRef.current;
+    const hasUnsavedChanges = base !== null && (base.accounts !== ours.accounts || base.transactions !== ours.transactions || base.recurring !== ours.recurring);
+
+    if (!hasUnsavedChanges) {
+        applyDiskLedger(disk, theirs);
+        setToast({ message: `Reloaded ${changed.join(', ')} after a change outside LedgerFlow`, type: 'info' });
+        return;
+    }
+    const { merged, conflicts } = mergeLedgerData(base!, ours, theirs);
+    if (conflicts.length === 0) {
+        applyDiskLedger(disk, merged);
+        setToast({ message: `Merged your changes with the edits to ${changed.join(', ')}`, type: 'success' });
+    } else {
+        setMergeReview({ disk, merged, conflicts });
+    }
+  };
+
+  // The watcher and the save path outlive a render, so they call the latest version through a ref
+  const checkExternalChangesRef = useRef(checkExternalChanges);
+  checkExternalChangesRef.current = checkExternalChanges;
+
+  useEffect(() => {
+    if (!ledgerStorage || !ledgerStorage.watch) return;
+    // Sync tools and spreadsheets touch several files in a row; check them together
+    let pending = new Set<string>();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = ledgerStorage.watch(fileName => {
+        pending.add(fileName);
+        if (timer) clearTimeout(timer);
+        timer = setTimeout(() => {
+            const fileNames = Array.from(pending);
+            pending = new Set();
+            timer = null;
+            checkExternalChangesRef.current(fileNames);
+        }, EXTERNAL_CHANGE_DELAY);
+    });
+    return () => {
+        unsubscribe();
+        if (timer) clearTimeout(timer);
+    };
+  }, [ledgerStorage]);
+
+  const handleResolveMerge = (choices: Record<string, MergeSide>) => {
+    if (!mergeReview) return;
+    const { disk, merged, conflicts } = mergeReview;
+    setMergeReview(null);
+    applyDiskLedger(disk, resolveMergeConflicts(merged, conflicts, choices));
+    setToast({ message: `Merged ${conflicts.length} conflicting entr${conflicts.length === 1 ? 'y' : 'ies'}`, type: 'success' });
+  };
+
+  // --- Backups ---
+
+  // Backups go through a StorageAdapter in every mode: the vault, a connected folder, or localStorage
+  const backupStorage = useMemo(() => ledgerStorage || new LocalStorageAdapter(), [ledgerStorage]);
+
+  const getLedgerContents = (): LedgerContents => ({
+    accounts, transactions, recurring: recurringTransactions, exchangeRates, importProfiles, rules, views: savedViews
+  });
+
+  // The schedule check runs on an interval, so it reads the latest state through a ref
+  const ledgerContentsRef = useRef<LedgerContents | null>(null);
+  ledgerContentsRef.current = getLedgerContents();
+
+  useEffect(() => {
+    if (!isLoaded || activeBackupSchedule.interval === 'off') return;
+    const check = async () => {
+        try {
+            const fileName = await runScheduledBackup(backupStorage, ledgerContentsRef.current!, activeBackupSchedule);
+            if (fileName) setBackupRefreshKey(k => k + 1);
+        } catch (err) {
+            console.error("Scheduled backup failed:", err);
+        }
+    };
+    check();
+    const timer = setInterval(check, 60 * 60 * 1000);
+    return () => clearInterval(timer);
+  }, [isLoaded, backupStorage, activeBackupSchedule.interval, activeBackupSchedule.keep]);
+
+  const handleCreateBackup = async () => {
+    try {
+        const fileName = await createBackup(backupStorage, getLedgerContents(), 'manual');
+        setBackupRefreshKey(k => k + 1);
+        setToast({ message: `Backup saved as ${fileName}`, type: 'success' });
+    } catch (err) {
+        setToast({ message: `Could not create backup: ${err instanceof Error ? err.message : err}`, type: 'info' });
+    }
+  };
+
+  // Show what a restore changes, then replace the data. The replaced state is saved as a backup first,
+  // and the ledger part of the restore can be undone like any other change.
+  const confirmRestore = async (name: string, text: string) => {
+    let backup: Awaited<ReturnType<typeof readBackupBundle>>;
+    try {
+        backup = await readBackupBundle(text);
+    } catch (err) {
+        setToast({ message: err instanceof Error ? err.message : String(err), type: 'info' });
+        return;
+    }
+    const current = getLedgerContents();
+    const summary = summarizeRestore(current, backup.contents);
+    const { transactions: txs, netWorth } = summary;
+    const base = exchangeRates.baseCurrency;
+    setConfirmState({
+        isOpen: true,
+        title: 'Restore Backup',
+        message: [
+            `Replace the current data with ${name}${backup.createdAt ? ` (${new Date(backup.createdAt).toLocaleString()})` : ''}?`,
+            '',
+            `Accounts: ${summary.accounts.current} → ${summary.accounts.backup}`,
+            `Transactions: ${txs.current} → ${txs.backup} (${txs.added} added, ${txs.removed} removed, ${txs.changed} changed)`,
+            `Recurring rules: ${summary.recurring.current} → ${summary.recurring.backup}`,
+            `Categorization rules: ${summary.rules.current} → ${summary.rules.backup}`,
+            `Net worth: ${formatMoney(netWorth.current)} → ${formatMoney(netWorth.backup)} ${base} (${netWorth.delta >= 0 ? '+' : ''}${formatMoney(netWorth.delta)})`,
+            '',
+            'The current data is saved as a backup first.'
+        ].join('\n'),
+        confirmLabel: 'Restore',
+        onConfirm: async () => {
+            setConfirmState(prev => ({ ...prev, isOpen: false }));
+            try {
+                await createBackup(backupStorage, current, 'restore');
+            } catch (err) {
+                setToast({ message: `Restore cancelled, could not back up the current data: ${err instanceof Error ? err.message : err}`, type: 'info' });
+                return;
+            }
+            const restored = backup.contents;
+            commitChange(`Restore backup ${name}`, { accounts: restored.accounts, transactions: restored.transactions, recurring: restored.recurring });
+            handleUpdateExchangeRates(restored.exchangeRates);
+            setReportingCurrency(restored.exchangeRates.baseCurrency);
+            handleSaveImportProfiles(restored.importProfiles);
+            handleSaveRules(restored.rules);
+            handleSaveViews(restored.views);
+            setBackupRefreshKey(k => k + 1);
+            setToast({ message: `Restored ${name}`, type: 'success' });
+        }
+    });
+  };
+
+  const handleRestoreBackup = async (fileName: string) => {
+    const text = await backupStorage.read(fileName);
+    if (text === null) {
+        setToast({ message: `${fileName} no longer exists`, type: 'info' });
+        setBackupRefreshKey(k => k + 1);
+        return;
+    }
+    confirmRestore(fileName, text);
+  };
+
+  const handleRestoreBackupFile = async (file: File) => {
+    confirmRestore(file.name, await file.text());
+  };
+
+  const handleDownloadBackup = async (fileName: string) => {
+    const text = await backupStorage.read(fileName);
+    if (text === null) return;
+    const blob = new Blob([text], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+  };
+
+  const handleBackupScheduleChange = (schedule: BackupSchedule) => {
+    setLocalBackupSchedule(schedule);
+    localStorage.setItem('backupSchedule', JSON.stringify(schedule));
+  };
+
+  // --- Bank Statement Import ---
+
+  const handleSaveImportProfiles = (profiles: BankImportProfile[]) => {
+    setImportProfiles(profiles);
+    saveImportProfilesInternal(profiles);
+  };
+
+  const handleBankImport = (fileName: string, imported: Transaction[]) => {
+    applyImportResult(fileName, { transactions: imported, accounts, createdAccounts: [], warnings: [] });
+    setShowBankImport(false);
+  };
+
+  // --- Categorization Rules ---
+
+  const handleSaveRules = (next: CategorizationRule[]) => {
+    setRules(next);
+    saveRulesInternal(next);
+  };
+
+  // --- Saved Views ---
+
+  const handleSaveViews = (next: SavedView[]) => {
+    setSavedViews(next);
+    saveViewsInternal(next);
+  };
+
+  // Bulk re-categorize the transactions shown in the journal
+  const handleApplyRules = (scope: Transaction[]) => {
+    const changes = getRuleChanges(scope, rules, accounts);
+    if (changes.length === 0) {
+        setToast({ message: 'No transaction in the current view would change', type: 'info' });
+        return;
+    }
+    const byRule = new Map<string, number>();
+    changes.forEach(c => byRule.set(c.rule.name, (byRule.get(c.rule.name) || 0) + 1));
+    setConfirmState({
+        isOpen: true,
+        title: 'Apply Rules',
+        message: `Re-categorize ${changes.length} transaction(s) in the current view?\n\n${Array.from(byRule, ([name, count]) => `${name}: ${count}`).join('\n')}`,
+        confirmLabel: 'Apply',
+        onConfirm: () => {
+            if (commitChange(`Apply rules to ${changes.length} transaction(s)`, { ...ledgerData, transactions: applyRuleChanges(transactions, changes) })) {
+                setToast({ message: `Re-categorized ${changes.length} transaction(s)`, type: 'success' });
+            }
+            setConfirmState(prev => ({ ...prev, isOpen: false }));
+        }
+    });
+  };
+
+  // --- Duplicates ---
+
+  const handleFindDuplicates = (scope: Transaction[]) => {
+    const pairs = scanForDuplicates(scope);
+    if (pairs.length === 0) {
+        setToast({ message: 'No likely duplicates found in the current view', type: 'info' });
+        return;
+    }
+    setDuplicateReview({ mode: 'scan', pairs });
+  };
+
+  const handleApplyDuplicateDecisions = (decisions: Record<string, DuplicateResolution>) => {
+    if (!duplicateReview) return;
+    const { mode, pairs, fileName, result } = duplicateReview;
+    const skipped = pairs.filter(p => decisions[p.incoming.id] === 'skip').length;
+    const merged = pairs.filter(p => decisions[p.incoming.id] === 'merge').length;
+
+    if (mode === 'import' && result) {
+        const resolved = resolveDuplicates([...transactions, ...result.transactions], pairs, decisions);
+        const added = resolved.transactions.length - transactions.length;
+        commitChange(`Import ${added} transaction(s) from ${fileName}`, { ...ledgerData, accounts: result.accounts, transactions: resolved.transactions });
+        setToast({ message: `Imported ${added} transaction(s) from ${fileName}; ${merged} merged, ${skipped} skipped.${resolved.warnings.length ? ' ' + resolved.warnings.join(' ') : ''}`, type: 'success' });
+    } else {
+        const resolved = resolveDuplicates(transactions, pairs, decisions);
+        if (commitChange(`Resolve ${merged + skipped} duplicate(s)`, { ...ledgerData, transactions: resolved.transactions })) {
+            setToast({ message: `${merged} merged, ${skipped} removed.${resolved.warnings.length ? ' ' + resolved.warnings.join(' ') : ''}`, type: 'success' });
+        }
+    }
+    setDuplicateReview(null);
+  };
+
+  // Obsidian commands
+  useEffect(() => {
+    const handleExportEvent = () => handleExportJournal();
+    const handleImportEvent = () => journalInputRef.current?.click();
+    const handleExportQifEvent = () => handleExportQif();
+    const handleImportQifEvent = () => qifInputRef.current?.click();
+    const handleExportBeancountEvent = () => handleExportBeancount();
+    const handleCreateBackupEvent = () => handleCreateBackup();
+    const handleRestoreBackupEvent = () => setView('backups');
+    const handleBankImportEvent = () => setShowBankImport(true);
+    const handleOfxImportEvent = () => setShowOfxImport(true);
+    const handleOpenViewEvent = (e: Event) => {
+        const saved = savedViews.find(v => v.id === (e as CustomEvent<{ id: string }>).detail?.id);
+        if (!saved) return;
+        setView(saved.screen === 'journal' ? 'journal' : 'dashboard_expense');
+        setViewRequest(saved);
+    };
+    window.addEventListener('ledger-flow:export-journal', handleExportEvent);
+    window.addEventListener('ledger-flow:import-journal', handleImportEvent);
+    window.addEventListener('ledger-flow:export-qif', handleExportQifEvent);
+    window.addEventListener('ledger-flow:import-qif', handleImportQifEvent);
+    window.addEventListener('ledger-flow:export-beancount', handleExportBeancountEvent);
+    window.addEventListener('ledger-flow:create-backup', handleCreateBackupEvent);
+    window.addEventListener('ledger-flow:restore-backup', handleRestoreBackupEvent);
+    window.addEventListener('ledger-flow:import-bank-csv', handleBankImportEvent);
+    window.addEventListener('ledger-flow:import-ofx', handleOfxImportEvent);
+    window.addEventListener('ledger-flow:open-view', handleOpenViewEvent);
+    return () => {
+        window.removeEventListener('ledger-flow:export-journal', handleExportEvent);
+        window.removeEventListener('ledger-flow:import-journal', handleImportEvent);
+        window.removeEventListener('ledger-flow:export-qif', handleExportQifEvent);
+        window.removeEventListener('ledger-flow:import-qif', handleImportQifEvent);
+        window.removeEventListener('ledger-flow:export-beancount', handleExportBeancountEvent);
+        window.removeEventListener('ledger-flow:create-backup', handleCreateBackupEvent);
+        window.removeEventListener('ledger-flow:restore-backup', handleRestoreBackupEvent);
+        window.removeEventListener('ledger-flow:import-bank-csv', handleBankImportEvent);
+        window.removeEventListener('ledger-flow:import-ofx', handleOfxImportEvent);
+        window.removeEventListener('ledger-flow:open-view', handleOpenViewEvent);
+    };
+  });
+
+  // --- Integrity Fixes ---
+
+  const handleReassignSplits = (fromAccountId: string, toAccountId: string) => {
+      commitChange('Reassign splits', { ...ledgerData, transactions: reassignSplits(transactions, fromAccountId, toAccountId) });
+      setToast({ message: 'Splits reassigned', type: 'success' });
+  };
+
+  const handleAddBalancingSplit = (transactionId: string, accountId: string) => {
+      commitChange('Add balancing split', { ...ledgerData, transactions: addBalancingSplit(transactions, transactionId, accountId) });
+      setToast({ message: 'Balancing split added', type: 'success' });
+  };
+
+  const handleSetTransactionDate = (transactionId: string, date: string) => {
+      commitChange('Fix transaction date', { ...ledgerData, transactions: setTransactionDate(transactions, transactionId, date) });
+  };
+
+  const handleReattachAccount = (accountId: string) => {
+      commitChange('Move account to root', { ...ledgerData, accounts: reattachAccountToRoot(accounts, accountId) });
+  };
+
+  // --- Reconciliation ---
+
+  const handleSetSplitStatus = (refs: SplitRef[], status: SplitStatus) => {
+      commitChange(`Mark ${refs.length} split(s) ${status}`, { ...ledgerData, transactions: setSplitStatus(transactions, refs, status) });
+  };
+
+  const handleFinishReconciliation = (accountId: string, items: ReconciliationItem[]) => {
+      const name = accounts.find(a => a.id === accountId)?.name;
+      commitChange(`Reconcile "${name}"`, { ...ledgerData, transactions: finishReconciliation(transactions, items) });
+      setToast({ message: `"${name}" reconciled. ${items.filter(i => i.status === 'cleared').length} entries locked.`, type: 'success' });
+  };
+
+  // --- Audit ---
+
+  const handleRestoreAuditVersion = (entry: AuditEntry, version: 'before' | 'after') => {
+      const label = `Restore ${entry.entity} "${describeAuditEntity(entry)}" from audit log`;
+      if (commitChange(label, restoreAuditVersion(ledgerData, entry, version))) {
+          setToast({ message: 'Version restored', type: 'success' });
+      } else {
+          setToast({ message: 'Already at this version', type: 'info' });
+      }
+  };
+
+  const handleAuthorChange = (name: string) => {
+      setLocalAuthor(name);
+      localStorage.setItem('auditAuthor', name);
+  };
+
   // --- NAVIGATION HELPERS ---
   const handleViewJournalForAccount = (accountId: string) => {
       setJournalFocusId(accountId);
       setView('journal');
   };
 
+  const handleReconcileAccount = (accountId: string) => {
+      setReconcileAccountId(accountId);
+      setView('reconcile');
+  };
+
   return (
-    <div className="flex h-screen bg-slate-100 text-slate-800 font-sans relative">
+    // Focusable, so that a click anywhere in the view makes it receive the shortcuts
+    <div className="flex h-screen bg-slate-100 text-slate-800 font-sans relative outline-none" tabIndex={-1} onKeyDown={handleUndoKeyDown}>
       {/* Toast Notification */}
       {toast && (
         <div className="absolute top-6 right-6 z-[60] animate-in slide-in-from-top-2 fade-in duration-300">
@@ -377,6 +1310,7 @@ const App: React.FC<AppProps> = ({ adapter }) => {
         isOpen={confirmState.isOpen}
         title={confirmState.title}
         message={confirmState.message}
+        confirmLabel={confirmState.confirmLabel}
         onConfirm={confirmState.onConfirm}
         onCancel={() => setConfirmState(prev => ({ ...prev, isOpen: false }))}
       />
@@ -417,6 +1351,29 @@ const App: React.FC<AppProps> = ({ adapter }) => {
             <div className="w-5 flex justify-start"><CalendarClock size={18} /></div>
             <span>Recurring</span>
           </button>
+          <button onClick={() => setView('rules')} className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg transition-colors text-sm font-medium ${view === 'rules' ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+            <div className="w-5 flex justify-start"><Wand2 size={18} /></div>
+            <span>Rules</span>
+          </button>
+          <button onClick={() => setView('reconcile')} className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg transition-colors text-sm font-medium ${view === 'reconcile' ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+            <div className="w-5 flex justify-start"><ListChecks size={18} /></div>
+            <span>Reconcile</span>
+          </button>
+          <button onClick={() => setView('audit')} className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg transition-colors text-sm font-medium ${view === 'audit' ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+            <div className="w-5 flex justify-start"><History size={18} /></div>
+            <span>Audit Log</span>
+          </button>
+          <button onClick={() => setView('backups')} className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg transition-colors text-sm font-medium ${view === 'backups' ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+            <div className="w-5 flex justify-start"><Archive size={18} /></div>
+            <span>Backups</span>
+          </button>
+          <button onClick={() => setView('integrity')} className={`flex items-center gap-3 w-full px-3 py-2 rounded-lg transition-colors text-sm font-medium ${view === 'integrity' ? 'bg-blue-50 text-blue-700' : 'text-slate-600 hover:bg-slate-50'}`}>
+            <div className="w-5 flex justify-start"><ShieldCheck size={18} /></div>
+            <span>Integrity</span>
+            {integrityIssues.length > 0 && (
+                <span className="ml-auto text-[10px] font-bold bg-red-100 text-red-600 px-1.5 py-0.5 rounded-full">{integrityIssues.length}</span>
+            )}
+          </button>
         </nav>
         
         {/* Footer actions */}
@@ -424,6 +1381,33 @@ const App: React.FC<AppProps> = ({ adapter }) => {
           <button onClick={handleExport} className="flex items-center justify-center gap-2 w-full px-4 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm">
             <FileSpreadsheet size={14} /> Export View CSV
           </button>
+          <div className="flex gap-2">
+            <button onClick={handleExportJournal} className="flex items-center justify-center gap-2 flex-1 px-2 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm" title="Export as ledger/hledger journal">
+              <FileDown size={14} /> Export Journal
+            </button>
+            <button onClick={() => journalInputRef.current?.click()} className="flex items-center justify-center gap-2 flex-1 px-2 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm" title="Import a ledger/hledger journal">
+              <FileUp size={14} /> Import Journal
+            </button>
+          </div>
+          <button onClick={() => setShowBankImport(true)} className="flex items-center justify-center gap-2 w-full px-4 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm">
+            <Upload size={14} /> Import Bank CSV
+          </button>
+          <button onClick={() => setShowOfxImport(true)} className="flex items-center justify-center gap-2 w-full px-4 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm">
+            <Landmark size={14} /> Import OFX / QFX
+          </button>
+          <div className="flex gap-2">
+            <button onClick={handleExportQif} className="flex items-center justify-center gap-2 flex-1 px-2 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm" title="Export as QIF (Quicken Interchange Format)">
+              <FileDown size={14} /> Export QIF
+            </button>
+            <button onClick={() => qifInputRef.current?.click()} className="flex items-center justify-center gap-2 flex-1 px-2 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm" title="Import a QIF file">
+              <FileUp size={14} /> Import QIF
+            </button>
+          </div>
+          <button onClick={handleExportBeancount} className="flex items-center justify-center gap-2 w-full px-4 py-2 text-xs font-semibold text-slate-600 bg-white hover:bg-slate-50 rounded border border-slate-200 shadow-sm" title="Export for beancount / Fava">
+            <FileDown size={14} /> Export Beancount
+          </button>
+          <input ref={journalInputRef} type="file" accept=".journal,.ledger,.hledger,.dat,.txt" className="hidden" onChange={handleImportJournalFile} />
+          <input ref={qifInputRef} type="file" accept=".qif" className="hidden" onChange={handleImportQifFile} />
         </div>
       </aside>
 
@@ -436,10 +1420,45 @@ const App: React.FC<AppProps> = ({ adapter }) => {
             {view === 'ledger' && 'Chart of Accounts'}
             {view === 'journal' && 'General Journal'}
             {view === 'recurring' && 'Recurring Rules'}
+            {view === 'rules' && 'Categorization Rules'}
+            {view === 'integrity' && 'Ledger Integrity'}
+            {view === 'reconcile' && 'Bank Reconciliation'}
+            {view === 'audit' && 'Audit Log'}
+            {view === 'backups' && 'Backup & Restore'}
           </h2>
+          <div className="flex items-center gap-3">
+          {(view === 'dashboard_expense' || view === 'dashboard_networth') && (
+              <select
+                value={reportingCurrency}
+                onChange={(e) => setReportingCurrency(e.target.value)}
+                className="text-xs font-mono border border-slate-200 rounded px-2 py-1.5 bg-white text-slate-600"
+                title="Reporting currency"
+              >
+                  {getAvailableCurrencies(exchangeRates, accounts).map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+          )}
+          <div className="flex items-center border border-slate-200 rounded-full overflow-hidden">
+              <button 
+                onClick={handleUndo} 
+                disabled={undoStack.length === 0}
+                className="p-2 text-slate-500 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-transparent"
+                title={undoStack.length > 0 ? `Undo: ${undoStack[undoStack.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                  <Undo2 size={16} />
+              </button>
+              <button 
+                onClick={handleRedo} 
+                disabled={redoStack.length === 0}
+                className="p-2 text-slate-500 hover:bg-slate-50 disabled:text-slate-300 disabled:hover:bg-transparent border-l border-slate-200"
+                title={redoStack.length > 0 ? `Redo: ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                  <Redo2 size={16} />
+              </button>
+          </div>
           <button onClick={() => { setEditingTransaction(null); setShowTxForm(true); }} className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-full shadow-sm transition-transform hover:scale-105 active:scale-95 text-sm font-bold">
             <PlusCircle size={18} /> New Transaction
           </button>
+          </div>
         </header>
 
         {/* Content Wrapper - Conditionals for Full Screen Journal */}
@@ -450,6 +1469,8 @@ const App: React.FC<AppProps> = ({ adapter }) => {
                     <TransactionForm 
                         accounts={accounts} 
                         transactions={transactions}
+                        exchangeRates={exchangeRates}
+                        rules={rules}
                         initialData={editingTransaction}
                         onSave={handleSaveTransaction} 
                         onCancel={() => { setShowTxForm(false); setEditingTransaction(null); }} 
@@ -458,9 +1479,64 @@ const App: React.FC<AppProps> = ({ adapter }) => {
             </div>
           )}
 
+          {showBankImport && (
+            <div className="absolute inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-start justify-center pt-20">
+                <div className="w-full max-w-3xl animate-in fade-in zoom-in duration-200">
+                    <BankImportWizard
+                        accounts={accounts}
+                        exchangeRates={exchangeRates}
+                        profiles={importProfiles}
+                        onSaveProfiles={handleSaveImportProfiles}
+                        onImport={handleBankImport}
+                        onCancel={() => setShowBankImport(false)}
+                    />
+                </div>
+            </div>
+          )}
+
+          {showOfxImport && (
+            <div className="absolute inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-start justify-center pt-20">
+                <div className="w-full max-w-2xl animate-in fade-in zoom-in duration-200">
+                    <OfxImportDialog
+                        accounts={accounts}
+                        transactions={transactions}
+                        exchangeRates={exchangeRates}
+                        onImport={handleOfxImport}
+                        onCancel={() => setShowOfxImport(false)}
+                    />
+                </div>
+            </div>
+          )}
+
+          {mergeReview && (
+            <div className="absolute inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-start justify-center pt-20">
+                <div className="w-full max-w-4xl animate-in fade-in zoom-in duration-200">
+                    <MergeConflictDialog
+                        conflicts={mergeReview.conflicts}
+                        accounts={mergeReview.merged.accounts}
+                        onApply={handleResolveMerge}
+                    />
+                </div>
+            </div>
+          )}
+
+          {duplicateReview && (
+            <div className="absolute inset-0 z-[60] bg-slate-900/20 backdrop-blur-sm flex items-start justify-center pt-20">
+                <div className="w-full max-w-4xl animate-in fade-in zoom-in duration-200">
+                    <DuplicateReview
+                        pairs={duplicateReview.pairs}
+                        accounts={duplicateReview.result ? duplicateReview.result.accounts : accounts}
+                        mode={duplicateReview.mode}
+                        onApply={handleApplyDuplicateDecisions}
+                        onCancel={() => setDuplicateReview(null)}
+                    />
+                </div>
+            </div>
+          )}
+
           <div className={`mx-auto w-full transition-all duration-300 ${view === 'journal' ? 'h-full flex flex-col' : 'max-w-5xl'}`}>
-            {view === 'dashboard_expense' && <ExpenseDashboard accounts={accounts} transactions={transactions} />}
-            {view === 'dashboard_networth' && <NetWorthDashboard accounts={accounts} transactions={transactions} onViewJournal={handleViewJournalForAccount} />}
+            {view === 'dashboard_expense' && <ExpenseDashboard accounts={accounts} transactions={transactions} ledgerIndex={ledgerIndex} exchangeRates={exchangeRates} reportingCurrency={reportingCurrency} savedViews={savedViews} onSaveViews={handleSaveViews} viewRequest={viewRequest} onViewRequestHandled={() => setViewRequest(null)} />}
+            {view === 'dashboard_networth' && <NetWorthDashboard accounts={accounts} transactions={transactions} ledgerIndex={ledgerIndex} exchangeRates={exchangeRates} reportingCurrency={reportingCurrency} onViewJournal={handleViewJournalForAccount} onReconcile={handleReconcileAccount} />}
             {view === 'recurring' && (
                 <RecurringManager 
                     accounts={accounts}
@@ -472,27 +1548,103 @@ const App: React.FC<AppProps> = ({ adapter }) => {
                     onToggle={handleToggleRecurring}
                 />
             )}
+            {view === 'rules' && (
+                <RulesView
+                    rules={rules}
+                    accounts={accounts}
+                    transactions={transactions}
+                    onChange={handleSaveRules}
+                />
+            )}
+            {view === 'reconcile' && (
+                <ReconciliationView
+                    accounts={accounts}
+                    transactions={transactions}
+                    exchangeRates={exchangeRates}
+                    initialAccountId={reconcileAccountId}
+                    onSetStatus={handleSetSplitStatus}
+                    onFinish={handleFinishReconciliation}
+                />
+            )}
+            {view === 'audit' && (
+                <AuditView
+                    loadEntries={readAuditLogInternal}
+                    refreshKey={auditRefreshKey}
+                    author={auditAuthor}
+                    onAuthorChange={author ? undefined : handleAuthorChange}
+                    onRestore={handleRestoreAuditVersion}
+                />
+            )}
+            {view === 'backups' && (
+                <BackupView
+                    loadBackups={() => listBackups(backupStorage)}
+                    refreshKey={backupRefreshKey}
+                    schedule={activeBackupSchedule}
+                    onScheduleChange={backupSchedule ? undefined : handleBackupScheduleChange}
+                    onCreate={handleCreateBackup}
+                    onRestore={handleRestoreBackup}
+                    onRestoreFile={handleRestoreBackupFile}
+                    onDownload={handleDownloadBackup}
+                />
+            )}
+            {view === 'integrity' && (
+                <IntegrityView
+                    issues={integrityIssues}
+                    accounts={accounts}
+                    transactions={transactions}
+                    onRevalidate={() => runIntegrityCheck(accounts, transactions)}
+                    onReassignSplits={handleReassignSplits}
+                    onAddBalancingSplit={handleAddBalancingSplit}
+                    onSetDate={handleSetTransactionDate}
+                    onReattachAccount={handleReattachAccount}
+                    onEditTransaction={handleEditTransaction}
+                />
+            )}
             {view === 'ledger' && (
                 <div className="bg-white rounded-lg shadow-sm border border-slate-200 min-h-[500px] flex flex-col">
                     <div className="p-4 border-b border-slate-100 bg-slate-50/50">
                         <h3 className="font-bold text-slate-700">Chart of Accounts</h3>
-                        <p className="text-xs text-slate-500">Manage your account structure. Click '+' to add sub-accounts.</p>
+                        <p className="text-xs text-slate-500">Manage your account structure. Click '+' to add sub-accounts; hover an account to move, merge, archive or delete it.</p>
                     </div>
                     <div className="p-4 flex-1">
-                        <AccountTree accounts={treeRoots} onAddAccount={handleAddAccount} onUpdateAccount={handleUpdateAccount} />
+                        <AccountTree 
+                            accounts={treeRoots} 
+                            allAccounts={accounts}
+                            transactions={transactions}
+                            recurring={recurringTransactions}
+                            onAddAccount={handleAddAccount} 
+                            onUpdateAccount={handleUpdateAccount}
+                            onDeleteAccount={handleDeleteAccount}
+                            onMoveAccount={handleMoveAccount}
+                            onMergeAccount={handleMergeAccounts}
+                            onArchiveAccount={handleArchiveAccount}
+                        />
                     </div>
                 </div>
             )}
+            {view === 'ledger' && (
+                <div className="mt-6">
+                    <ExchangeRatesPanel table={exchangeRates} accounts={accounts} onChange={handleUpdateExchangeRates} />
+                </div>
+            )}
             
             {/* FULL SCREEN JOURNAL VIEW */}
             {view === 'journal' && (
                <JournalView 
                     transactions={transactions}
                     accounts={accounts}
+                    ledgerIndex={ledgerIndex}
+                    savedViews={savedViews}
+                    onSaveViews={handleSaveViews}
+                    viewRequest={viewRequest}
+                    onViewRequestHandled={() => setViewRequest(null)}
                     focusedAccountId={journalFocusId}
                     onClearFocus={() => setJournalFocusId(null)}
                     onEditTransaction={handleEditTransaction}
                     onDeleteTransaction={handleDeleteTransaction}
+                    onAddTransaction={handleAddRegisterEntry}
+                    onFindDuplicates={handleFindDuplicates}
+                    onApplyRules={rules.length > 0 ? handleApplyRules : undefined}
                />
             )}
           </div>
@@ -1,4 +1,4 @@
-import { Vault, normalizePath } from 'obsidian';
+import { TAbstractFile, Vault, normalizePath } from 'obsidian';
 import { StorageAdapter } from './types';
 
 export class ObsidianVaultAdapter implements StorageAdapter {
@@ -19,9 +19,68 @@ export class ObsidianVaultAdapter implements StorageAdapter {
 
     async write(filename: string, content: string): Promise<void> {
         const path = this.getPath(filename);
-        
-        // Ensure folder exists
-        const folderPath = normalizePath(this.basePath);
+        await this.ensureFolder(filename);
+
+        const fileExists = await this.vault.adapter.exists(path);
+        if (fileExists) {
+            // If file exists, use adapter.write which overwrites
+            await this.vault.adapter.write(path, content);
+        } else {
+            // If file doesn't exist, use vault.create which creates a new TFile
+            await this.vault.create(path, content);
+        }
+    }
+
+    async append(filename: string, content: string): Promise<void> {
+        const path = this.getPath(filename);
+        await this.ensureFolder(filename);
+
+        if (await this.vault.adapter.exists(path)) {
+            await this.vault.adapter.append(path, content);
+        } else {
+            await this.vault.create(path, content);
+        }
+    }
+
+    async exists(filename: string): Promise<boolean> {
+        return await this.vault.adapter.exists(this.getPath(filename));
+    }
+
+    async list(folder?: string): Promise<string[]> {
+        const folderPath = folder ? this.getPath(folder) : normalizePath(this.basePath);
+        if (!(await this.vault.adapter.exists(folderPath))) return [];
+        const listing = await this.vault.adapter.list(folderPath);
+        return listing.files.map(path => path.slice(path.lastIndexOf('/') + 1));
+    }
+
+    async remove(filename: string): Promise<void> {
+        const path = this.getPath(filename);
+        if (await this.vault.adapter.exists(path)) {
+            await this.vault.adapter.remove(path);
+        }
+    }
+
+    // Vault events also fire for our own writes; the view compares contents to tell them apart
+    watch(onChange: (filename: string) => void): () => void {
+        const prefix = `${normalizePath(this.basePath)}/`;
+        const notify = (file: TAbstractFile, oldPath?: string) => {
+            [file.path, oldPath].forEach(path => {
+                if (path && path.startsWith(prefix)) onChange(path.slice(prefix.length));
+            });
+        };
+        const refs = [
+            this.vault.on('modify', notify),
+            this.vault.on('create', notify),
+            this.vault.on('delete', notify),
+            this.vault.on('rename', notify)
+        ];
+        return () => refs.forEach(ref => this.vault.offref(ref));
+    }
+
+    // Create the ledger folder (and the subfolder of `filename`, if any) on first write
+    private async ensureFolder(filename: string): Promise<void> {
+        const subfolder = filename.includes('/') ? filename.slice(0, filename.lastIndexOf('/')) : '';
+        const folderPath = normalizePath(subfolder ? `${this.basePath}/${subfolder}` : this.basePath);
         
         // Check if folder exists in cache, if not try to create
         // We use getAbstractFileByPath for folder check as createFolder works on the abstract tree
@@ -40,18 +99,5 @@ export class ObsidianVaultAdapter implements StorageAdapter {
                 }
             }
         }
-
-        const fileExists = await this.vault.adapter.exists(path);
-        if (fileExists) {
-            // If file exists, use adapter.write which overwrites
-            await this.vault.adapter.write(path, content);
-        } else {
-            // If file doesn't exist, use vault.create which creates a new TFile
-            await this.vault.create(path, content);
-        }
-    }
-
-    async exists(filename: string): Promise<boolean> {
-        return await this.vault.adapter.exists(this.getPath(filename));
     }
 }
\ No newline at end of file
@@ -1,31 +1,90 @@
-import React, { useState } from 'react';
-import { Account, AccountType } from '../types';
-import { ChevronRight, ChevronDown, Plus, Folder, Wallet, TrendingUp, TrendingDown, PiggyBank, Edit2, Check, X } from 'lucide-react';
+import React, { useState, useMemo } from 'react';
+import { Account, AccountType, RecurringTransaction, Transaction } from '../types';
+import { getAccountPath, getDescendantAccountIds } from '../services/ledgerService';
+import { ChevronRight, ChevronDown, Plus, Folder, Wallet, TrendingUp, TrendingDown, PiggyBank, Edit2, Check, X, FolderInput, GitMerge, Archive, ArchiveRestore, Trash2 } from 'lucide-react';
 
 interface AccountTreeProps {
   accounts: Account[];
-  onAddAccount: (parentId: string, name: string, type: AccountType, budget: number) => void;
-  onUpdateAccount: (accountId: string, newName: string, newBudget: number) => void;
+  allAccounts: Account[];
+  transactions: Transaction[];
+  recurring: RecurringTransaction[]; // Deleting an account they use needs a reassignment target too
+  onAddAccount: (parentId: string, name: string, type: AccountType, budget: number, currency?: string) => void;
+  onUpdateAccount: (accountId: string, newName: string, newBudget: number, currency?: string) => void;
+  onDeleteAccount: (accountId: string, reassignToId?: string) => void;
+  onMoveAccount: (accountId: string, newParentId: string) => void;
+  onMergeAccount: (sourceId: string, targetId: string) => void;
+  onArchiveAccount: (accountId: string, archived: boolean) => void;
 }
 
+// Shared lookups for every node, computed once per render of the tree
+interface TreeInfo {
+  allAccounts: Account[];
+  accountPaths: Map<string, string>;
+  splitCounts: Map<string, number>;
+  recurringCounts: Map<string, number>; // Recurring rules per account
+  showArchived: boolean;
+}
+
+type OpsPanel = 'move' | 'merge' | 'delete' | null;
+
+// The tree's callbacks, handed down to every node
+type AccountActions = Pick<AccountTreeProps, 'onAddAccount' | 'onUpdateAccount' | 'onDeleteAccount' | 'onMoveAccount' | 'onMergeAccount' | 'onArchiveAccount'>;
+
 const AccountNode: React.FC<{ 
   node: Account; 
   level: number;
+  treeInfo: TreeInfo;
+  actions: AccountActions;
   onAdd: (id: string, type: AccountType) => void 
-}> = ({ node, level, onAdd }) => {
+}> = ({ node, level, treeInfo, actions, onAdd }) => {
   const [isOpen, setIsOpen] = useState(true);
   const [showAdd, setShowAdd] = useState(false);
   const [isEditing, setIsEditing] = useState(false);
+
+  // Move / Merge / Delete State
+  const [opsPanel, setOpsPanel] = useState<OpsPanel>(null);
+  const [opsTargetId, setOpsTargetId] = useState('');
   
   // Add Account State
   const [newName, setNewName] = useState('');
   const [newBudget, setNewBudget] = useState(0);
+  const [newCurrency, setNewCurrency] = useState(node.currency || '');
 
   // Edit State
   const [editNameVal, setEditNameVal] = useState(node.name);
   const [editBudgetVal, setEditBudgetVal] = useState(node.budget || 0);
+  const [editCurrencyVal, setEditCurrencyVal] = useState(node.currency || '');
+
+  const visibleChildren = (node.children || []).filter(c => treeInfo.showArchived || !c.archived);
+  const hasChildren = visibleChildren.length > 0;
+  const splitCount = treeInfo.splitCounts.get(node.id) || 0;
+  const recurringCount = treeInfo.recurringCounts.get(node.id) || 0;
+  // Same condition as getAccountDeletionBlocker
+  const needsTarget = opsPanel !== 'delete' || splitCount > 0 || recurringCount > 0;
+  const isRoot = !node.parentId;
 
-  const hasChildren = node.children && node.children.length > 0;
+  // Candidate targets for the open panel: same type, never the node's own branch
+  const opsOptions = useMemo(() => {
+      if (!opsPanel) return [];
+      const ownBranch = getDescendantAccountIds(node.id, treeInfo.allAccounts);
+      return treeInfo.allAccounts
+        .filter(a => a.type === node.type && !a.archived)
+        .filter(a => opsPanel === 'move' ? !ownBranch.has(a.id) && a.id !== node.parentId : !ownBranch.has(a.id))
+        .map(a => ({ id: a.id, fullPath: treeInfo.accountPaths.get(a.id) || a.name }))
+        .sort((a, b) => a.fullPath.localeCompare(b.fullPath));
+  }, [opsPanel, node, treeInfo]);
+
+  const toggleOpsPanel = (panel: OpsPanel) => {
+      setOpsTargetId('');
+      setOpsPanel(opsPanel === panel ? null : panel);
+  };
+
+  const submitOps = () => {
+      if (opsPanel === 'move') actions.onMoveAccount(node.id, opsTargetId);
+      if (opsPanel === 'merge') actions.onMergeAccount(node.id, opsTargetId);
+      if (opsPanel === 'delete') actions.onDeleteAccount(node.id, opsTargetId || undefined);
+      setOpsPanel(null);
+  };
 
   const getIcon = (type: AccountType) => {
     switch(type) {
@@ -38,13 +97,14 @@ const AccountNode: React.FC<{
   }
 
   const handleSave = () => {
-    (window as any).triggerUpdateAccount(node.id, editNameVal, Number(editBudgetVal));
+    actions.onUpdateAccount(node.id, editNameVal, Number(editBudgetVal), editCurrencyVal.trim().toUpperCase() || undefined);
     setIsEditing(false);
   };
 
   const startEditing = () => {
       setEditNameVal(node.name);
       setEditBudgetVal(node.budget || 0);
+      setEditCurrencyVal(node.currency || '');
       setIsEditing(true);
   };
 
@@ -82,13 +142,23 @@ const AccountNode: React.FC<{
                           placeholder="Budget"
                        />
                     )}
+                    <input 
+                       type="text" 
+                       maxLength={3}
+                       className="w-12 border rounded px-1 py-0.5 text-xs text-slate-700 font-mono uppercase focus:outline-blue-500"
+                       value={editCurrencyVal}
+                       onChange={(e) => setEditCurrencyVal(e.target.value)}
+                       placeholder="CUR"
+                       title="Account currency (empty = base currency)"
+                    />
                     <button onClick={handleSave} className="text-green-600 hover:bg-green-100 p-0.5 rounded"><Check size={14}/></button>
                     <button onClick={() => setIsEditing(false)} className="text-red-500 hover:bg-red-100 p-0.5 rounded"><X size={14}/></button>
                 </div>
             ) : (
                 <>
                     <div className="flex items-center gap-2 group/item">
-                        <span className="font-medium text-slate-700 text-sm">{node.name}</span>
+                        <span className={`font-medium text-sm ${node.archived ? 'text-slate-400 line-through' : 'text-slate-700'}`}>{node.name}</span>
+                        {node.archived && <span className="text-[10px] bg-slate-100 text-slate-400 px-1.5 rounded">archived</span>}
                         <button 
                             onClick={startEditing}
                             className="opacity-0 group-hover/item:opacity-100 group-hover:opacity-100 hover:text-blue-600 text-slate-400 p-1 transition-opacity"
@@ -99,11 +169,34 @@ const AccountNode: React.FC<{
                     </div>
                     
                     <div className="flex items-center gap-4 text-xs text-slate-400">
+                        {node.currency && (
+                           <span className="font-mono text-[10px] bg-amber-50 text-amber-600 px-1.5 rounded">{node.currency}</span>
+                        )}
                         {node.type === AccountType.EXPENSE && node.budget && (
                            <span className="flex items-center gap-1">
                               <span>${node.budget}/mo</span>
                            </span>
                         )}
+                        {!isRoot && (
+                            <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => toggleOpsPanel('move')} className="p-1 hover:bg-slate-200 text-slate-500 rounded" title="Move under another account">
+                                    <FolderInput size={14} />
+                                </button>
+                                <button onClick={() => toggleOpsPanel('merge')} className="p-1 hover:bg-slate-200 text-slate-500 rounded" title="Merge into another account">
+                                    <GitMerge size={14} />
+                                </button>
+                                <button 
+                                    onClick={() => actions.onArchiveAccount(node.id, !node.archived)} 
+                                    className="p-1 hover:bg-slate-200 text-slate-500 rounded" 
+                                    title={node.archived ? 'Unarchive' : 'Archive (hide from pickers)'}
+                                >
+                                    {node.archived ? <ArchiveRestore size={14} /> : <Archive size={14} />}
+                                </button>
+                                <button onClick={() => toggleOpsPanel('delete')} className="p-1 hover:bg-red-100 text-red-500 rounded" title="Delete Account">
+                                    <Trash2 size={14} />
+                                </button>
+                            </div>
+                        )}
                         <button 
                             onClick={() => setShowAdd(!showAdd)}
                             className="opacity-0 group-hover:opacity-100 p-1 hover:bg-blue-100 text-blue-600 rounded transition-opacity"
@@ -135,13 +228,23 @@ const AccountNode: React.FC<{
                     value={newBudget}
                     onChange={(e) => setNewBudget(Number(e.target.value))}
                  />
+                 <input 
+                    type="text" 
+                    maxLength={3}
+                    placeholder="Currency"
+                    title="Account currency (empty = base currency)"
+                    className="border p-1 rounded text-sm w-20 font-mono uppercase"
+                    value={newCurrency}
+                    onChange={(e) => setNewCurrency(e.target.value)}
+                 />
              </div>
              <div className="flex gap-2">
                  <button 
                     onClick={() => {
-                        (window as any).triggerAddAccount(node.id, newName, node.type, newBudget);
+                        actions.onAddAccount(node.id, newName, node.type, newBudget, newCurrency.trim().toUpperCase() || undefined);
                         setNewName('');
                         setNewBudget(0);
+                        setNewCurrency(node.currency || '');
                         setShowAdd(false);
                         setIsOpen(true);
                     }}
@@ -159,13 +262,53 @@ const AccountNode: React.FC<{
          </div>
       )}
 
-      {isOpen && node.children && (
+      {opsPanel && (
+         <div className="ml-8 p-3 bg-slate-50 border rounded-md my-1 shadow-inner">
+             <div className="text-xs font-bold text-slate-500 mb-2">
+                 {opsPanel === 'move' && `Move "${node.name}" under...`}
+                 {opsPanel === 'merge' && `Merge "${node.name}" into... (${splitCount} split(s) will be reassigned)`}
+                 {opsPanel === 'delete' && (needsTarget
+                    ? `"${node.name}" has ${splitCount} split(s) and ${recurringCount} recurring rule(s). Reassign them to...`
+                    : `"${node.name}" has no transactions and can be deleted.`)}
+             </div>
+             {hasChildren && opsPanel === 'delete' ? (
+                 <div className="text-xs text-orange-600 mb-2">Move or delete the sub-accounts first.</div>
+             ) : (
+                 <div className="flex gap-2">
+                     {needsTarget && (
+                         <select 
+                            className="border p-1 rounded text-sm flex-1 bg-white"
+                            value={opsTargetId}
+                            onChange={(e) => setOpsTargetId(e.target.value)}
+                         >
+                             <option value="">Select Account...</option>
+                             {opsOptions.map(a => <option key={a.id} value={a.id}>{a.fullPath}</option>)}
+                         </select>
+                     )}
+                     <button 
+                        onClick={submitOps}
+                        disabled={needsTarget && !opsTargetId}
+                        className={`text-white text-xs px-3 py-1 rounded disabled:bg-slate-300 ${opsPanel === 'delete' ? 'bg-red-600' : 'bg-blue-600'}`}
+                     >
+                         {opsPanel === 'move' && 'Move'}
+                         {opsPanel === 'merge' && 'Merge'}
+                         {opsPanel === 'delete' && 'Delete'}
+                     </button>
+                     <button onClick={() => setOpsPanel(null)} className="text-slate-500 text-xs px-3 py-1">Cancel</button>
+                 </div>
+             )}
+         </div>
+      )}
+
+      {isOpen && hasChildren && (
         <div className="border-l border-slate-100 ml-4">
-          {node.children.map(child => (
+          {visibleChildren.map(child => (
             <AccountNode 
                 key={child.id} 
                 node={child} 
                 level={level + 1} 
+                treeInfo={treeInfo}
+                actions={actions}
                 onAdd={onAdd}
             />
           ))}
@@ -175,17 +318,51 @@ const AccountNode: React.FC<{
   );
 };
 
-export const AccountTree: React.FC<AccountTreeProps> = ({ accounts, onAddAccount, onUpdateAccount }) => {
-    // Expose the trigger to window for the deep nested component to access without prop drill hell in this specific simple demo structure
-    React.useEffect(() => {
-        (window as any).triggerAddAccount = onAddAccount;
-        (window as any).triggerUpdateAccount = onUpdateAccount;
-    }, [onAddAccount, onUpdateAccount]);
+export const AccountTree: React.FC<AccountTreeProps> = ({ 
+    accounts, 
+    allAccounts, 
+    transactions, 
+    recurring,
+    onAddAccount, 
+    onUpdateAccount,
+    onDeleteAccount,
+    onMoveAccount,
+    onMergeAccount,
+    onArchiveAccount
+}) => {
+    const [showArchived, setShowArchived] = useState(true);
+
+    const actions = useMemo<AccountActions>(
+        () => ({ onAddAccount, onUpdateAccount, onDeleteAccount, onMoveAccount, onMergeAccount, onArchiveAccount }),
+        [onAddAccount, onUpdateAccount, onDeleteAccount, onMoveAccount, onMergeAccount, onArchiveAccount]
+    );
+
+    const treeInfo = useMemo<TreeInfo>(() => {
+        const splitCounts = new Map<string, number>();
+        transactions.forEach(tx => tx.splits.forEach(s => splitCounts.set(s.accountId, (splitCounts.get(s.accountId) || 0) + 1)));
+        const recurringCounts = new Map<string, number>();
+        recurring.forEach(rt => new Set(rt.splits.map(s => s.accountId)).forEach(id => recurringCounts.set(id, (recurringCounts.get(id) || 0) + 1)));
+        return {
+            allAccounts,
+            accountPaths: new Map(allAccounts.map(a => [a.id, getAccountPath(a, allAccounts)])),
+            splitCounts,
+            recurringCounts,
+            showArchived
+        };
+    }, [allAccounts, transactions, recurring, showArchived]);
+
+    const archivedCount = allAccounts.filter(a => a.archived).length;
 
   return (
     <div className="h-full overflow-y-auto pr-2">
+      {archivedCount > 0 && (
+        <label className="flex items-center justify-end gap-2 text-xs text-slate-500 mb-2 cursor-pointer">
+            <input type="checkbox" checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />
+            Show {archivedCount} archived account(s)
+        </label>
+      )}
       {accounts.map(root => (
-        <AccountNode key={root.id} node={root} level={0} onAdd={() => {}} />
+        <AccountNode key={root.id} node={root} level={0} treeInfo={treeInfo} actions={actions} onAdd={() => {}} />
       ))}
     </div>
   );
@@ -1,13 +1,20 @@
 import React, { useState, useMemo } from 'react';
-import { Account, Transaction, AccountType } from '../types';
-import { getFlattenedBalances, getDescendantAccountIds } from '../services/ledgerService';
+import { Account, Transaction, AccountType, ExchangeRateTable } from '../types';
+import { getDescendantAccountIds } from '../services/ledgerService';
+import { getIndexedReportingBalances, convertCurrency, formatCurrency } from '../services/currencyService';
+import { MinorUnits, fromMinorUnits, sumMoney, roundMoney, formatMoney } from '../services/moneyService';
+import { LedgerIndex } from '../services/ledgerIndexService';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend, LineChart, Line, XAxis, YAxis, CartesianGrid } from 'recharts';
-import { Wallet, Landmark, ChevronRight, ChevronDown, FolderOpen, ExternalLink, ArrowRight, TrendingUp, TrendingDown, DollarSign } from 'lucide-react';
+import { Wallet, Landmark, ChevronRight, ChevronDown, FolderOpen, ExternalLink, ArrowRight, TrendingUp, TrendingDown, DollarSign, ListChecks } from 'lucide-react';
 
 interface NetWorthDashboardProps {
   accounts: Account[];
   transactions: Transaction[];
+  ledgerIndex: LedgerIndex; // Kept in sync with accounts and transactions by the caller
+  exchangeRates: ExchangeRateTable;
+  reportingCurrency: string;
   onViewJournal: (accountId: string) => void;
+  onReconcile: (accountId: string) => void;
 }
 
 // Internal component for the recursive tree sidebar
@@ -16,13 +23,14 @@ const AccountTreeNav: React.FC<{
     allAccounts: Account[];
     selectedId: string;
     onSelect: (id: string) => void;
-    balances: { id: string; balance: number }[];
+    balances: Map<string, number>;
+    currency: string;
     level?: number;
-}> = ({ node, allAccounts, selectedId, onSelect, balances, level = 0 }) => {
+}> = ({ node, allAccounts, selectedId, onSelect, balances, currency, level = 0 }) => {
     const [expanded, setExpanded] = useState(true);
     const children = allAccounts.filter(a => a.parentId === node.id);
     const hasChildren = children.length > 0;
-    const balance = balances.find(b => b.id === node.id)?.balance || 0;
+    const balance = balances.get(node.id) || 0;
 
     const isSelected = selectedId === node.id;
 
@@ -51,7 +59,7 @@ const AccountTreeNav: React.FC<{
                 </div>
                 {/* Tiny indicator of balance in the tree */}
                 <span className={`text-xs font-mono opacity-60 ml-2 ${displayBalance < 0 ? 'text-red-500' : ''}`}>
-                   ${Math.abs(displayBalance).toLocaleString(undefined, { maximumFractionDigits: 0 })}
+                   {formatCurrency(Math.abs(displayBalance), currency, { minimumFractionDigits: 0, maximumFractionDigits: 0 })}
                 </span>
             </div>
             
@@ -65,6 +73,7 @@ const AccountTreeNav: React.FC<{
                             selectedId={selectedId}
                             onSelect={onSelect}
                             balances={balances}
+                            currency={currency}
                             level={level + 1}
                         />
                     ))}
@@ -74,9 +83,17 @@ const AccountTreeNav: React.FC<{
     );
 };
 
-export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts, transactions, onViewJournal }) => {
-  // 1. Calculate all balances (Tree-based)
-  const balances = useMemo(() => getFlattenedBalances(accounts, transactions), [accounts, transactions]);
+export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts, transactions, ledgerIndex, exchangeRates, reportingCurrency, onViewJournal, onReconcile }) => {
+  const today = new Date().toISOString().split('T')[0];
+
+  // 1. Calculate all balances (Tree-based, foreign accounts revalued at today's rate)
+  const balances = useMemo(
+      () => new Map(getIndexedReportingBalances(ledgerIndex, exchangeRates, reportingCurrency, today).map(b => [b.id, b.balance])),
+      // The index is updated in place, so its transactions stand in for it
+      [ledgerIndex, exchangeRates, reportingCurrency, today]
+  );
+  const toReporting = (amount: number) => roundMoney(convertCurrency(amount, exchangeRates.baseCurrency, reportingCurrency, exchangeRates, today));
+  const fmt = (amount: number) => formatCurrency(amount, reportingCurrency);
 
   // 2. Identify Roots
   const rootAsset = accounts.find(a => a.type === AccountType.ASSET && a.parentId === null);
@@ -93,14 +110,14 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
   // 4. Data Derivation based on Selection
   
   // A: The total value of the selected branch
-  const rawBranchBalance = balances.find(b => b.id === currentAccount.id)?.balance || 0;
+  const rawBranchBalance = balances.get(currentAccount.id) || 0;
   // Invert for display if liability (so debt looks positive "amount owed")
   const displayBranchBalance = currentAccount.type === AccountType.LIABILITY ? -rawBranchBalance : rawBranchBalance;
 
   // B: Immediate Children (for Pie Chart breakdown)
   const immediateChildren = accounts.filter(a => a.parentId === currentAccount.id);
   const pieData = immediateChildren.map(child => {
-      const childBal = balances.find(b => b.id === child.id)?.balance || 0;
+      const childBal = balances.get(child.id) || 0;
       // Normalization for charts: Chart slices must be positive
       return { 
           name: child.name, 
@@ -124,57 +141,30 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
         .slice(0, 50);
   }, [currentAccount, accounts, transactions]);
 
-  // D: Year-to-Year Net Worth History
+  // D: Year-to-Year Net Worth History (as-of balances at each year end)
   const historicalNetWorth = useMemo(() => {
-      const nwAccountIds = new Set(accounts.filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY).map(a => a.id));
-      
-      const yearlyChanges = new Map<string, number>();
-      let minYear = new Date().getFullYear();
-      let maxYear = new Date().getFullYear();
-
-      if (transactions.length > 0) {
-          const years = transactions.map(t => new Date(t.date).getFullYear());
-          minYear = Math.min(...years);
-          maxYear = Math.max(...years);
-      } else {
-          // If no transactions, at least show current year
-          yearlyChanges.set(minYear.toString(), 0);
-      }
-
-      // Initialize range
-      for(let y = minYear; y <= maxYear; y++) {
-          yearlyChanges.set(y.toString(), 0);
-      }
-
-      transactions.forEach(tx => {
-          const year = new Date(tx.date).getFullYear().toString();
-          let change = 0;
-          tx.splits.forEach(s => {
-              if (nwAccountIds.has(s.accountId)) {
-                  change += s.amount;
-              }
-          });
-          if (yearlyChanges.has(year)) {
-              yearlyChanges.set(year, yearlyChanges.get(year)! + change);
-          }
-      });
+      const nwAccounts = accounts.filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY);
+      const bounds = ledgerIndex.getDateBounds();
+      const currentYear = new Date().getFullYear();
+      // If no transactions, at least show current year
+      const minYear = bounds ? parseInt(bounds.first.slice(0, 4), 10) : currentYear;
+      const maxYear = bounds ? parseInt(bounds.last.slice(0, 4), 10) : currentYear;
 
       const result = [];
-      let runningTotal = 0;
-      const sortedYears = Array.from(yearlyChanges.keys()).sort();
-      
-      for (const year of sortedYears) {
-          runningTotal += yearlyChanges.get(year) || 0;
-          result.push({ year, netWorth: runningTotal });
+      for (let y = minYear; y <= maxYear; y++) {
+          const yearEnd = `${y}-12-31`;
+          let total: MinorUnits = 0;
+          nwAccounts.forEach(a => { total += ledgerIndex.getBalance(a.id, { to: yearEnd }); });
+          result.push({ year: y.toString(), netWorth: convertCurrency(fromMinorUnits(total), exchangeRates.baseCurrency, reportingCurrency, exchangeRates, yearEnd) });
       }
       
       return result;
-  }, [accounts, transactions]);
+  }, [accounts, ledgerIndex, exchangeRates, reportingCurrency]);
 
   // Global Net Worth Stats
-  const globalAssets = balances.find(b => b.id === rootAsset.id)?.balance || 0;
-  const globalLiabilities = balances.find(b => b.id === rootLiability?.id)?.balance || 0;
-  const netWorth = globalAssets + globalLiabilities; // Liab is negative
+  const globalAssets = balances.get(rootAsset.id) || 0;
+  const globalLiabilities = (rootLiability && balances.get(rootLiability.id)) || 0;
+  const netWorth = sumMoney([globalAssets, globalLiabilities]); // Liab is negative
 
   const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#6366f1'];
 
@@ -194,7 +184,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                         <XAxis dataKey="year" tick={{fontSize: 11, fill: '#64748b'}} axisLine={false} tickLine={false} />
                         <YAxis tick={{fontSize: 11, fill: '#64748b'}} axisLine={false} tickLine={false} />
                         <Tooltip 
-                        formatter={(value: number) => [`$${value.toLocaleString()}`, 'Net Worth']}
+                        formatter={(value: number) => [fmt(value), 'Net Worth']}
                         contentStyle={{ borderRadius: '8px', border: '1px solid #e2e8f0', boxShadow: '0 2px 4px rgba(0,0,0,0.05)' }}
                         />
                         <Line 
@@ -215,14 +205,14 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
            <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex items-center justify-between">
                 <div>
                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Total Assets</div>
-                   <div className="text-xl font-bold text-blue-600">${globalAssets.toLocaleString()}</div>
+                   <div className="text-xl font-bold text-blue-600">{fmt(globalAssets)}</div>
                 </div>
                 <Wallet className="text-blue-100" />
            </div>
            <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex items-center justify-between">
                 <div>
                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Total Liabilities</div>
-                   <div className="text-xl font-bold text-red-600">${Math.abs(globalLiabilities).toLocaleString()}</div>
+                   <div className="text-xl font-bold text-red-600">{fmt(Math.abs(globalLiabilities))}</div>
                 </div>
                 <TrendingDown className="text-red-100" />
            </div>
@@ -230,7 +220,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                 <div>
                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Global Net Worth</div>
                    <div className={`text-xl font-bold ${netWorth >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                       ${netWorth.toLocaleString()}
+                       {fmt(netWorth)}
                    </div>
                 </div>
                 <Landmark className="text-slate-300" />
@@ -253,6 +243,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                         selectedId={selectedAccountId} 
                         onSelect={setSelectedAccountId}
                         balances={balances}
+                        currency={reportingCurrency}
                    />
                    
                    {rootLiability && (
@@ -264,6 +255,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                                 selectedId={selectedAccountId} 
                                 onSelect={setSelectedAccountId}
                                 balances={balances}
+                                currency={reportingCurrency}
                         />
                        </>
                    )}
@@ -279,6 +271,12 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                         <div className="text-blue-600 text-xs font-bold uppercase mb-1">Current Selection</div>
                         <div className="text-xl font-bold text-slate-800">{currentAccount.name}</div>
                         <div className="text-xs text-slate-400">{currentAccount.type}</div>
+                        <button 
+                            onClick={() => onReconcile(currentAccount.id)}
+                            className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 mt-1"
+                        >
+                            <ListChecks size={12} /> Reconcile against statement
+                        </button>
                     </div>
                     <FolderOpen className="text-blue-100" />
                 </div>
@@ -304,7 +302,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                                             <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
                                         ))}
                                     </Pie>
-                                    <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+                                    <Tooltip formatter={(value: number) => fmt(value)} />
                                     <Legend 
                                         layout="vertical" 
                                         verticalAlign="middle" 
@@ -326,7 +324,7 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                     <div>
                         <div className="text-slate-600 text-xs font-bold uppercase mb-1">Selection Balance</div>
                         <div className={`text-2xl font-bold ${rawBranchBalance >= 0 ? 'text-blue-700' : 'text-orange-700'}`}>
-                            ${displayBranchBalance.toLocaleString(undefined, {minimumFractionDigits: 2})}
+                            {fmt(displayBranchBalance)}
                         </div>
                     </div>
                     <DollarSign className="text-slate-200" />
@@ -356,16 +354,16 @@ export const NetWorthDashboard: React.FC<NetWorthDashboardProps> = ({ accounts,
                                     {branchTransactions.length > 0 ? (
                                         branchTransactions.map(tx => {
                                             const descendantIds = getDescendantAccountIds(currentAccount.id, accounts);
-                                            const relevantAmount = tx.splits
+                                            const relevantAmount = toReporting(sumMoney(tx.splits
                                                 .filter(s => descendantIds.has(s.accountId))
-                                                .reduce((sum, s) => sum + s.amount, 0);
+                                                .map(s => s.amount)));
 
                                             return (
                                                 <tr key={tx.id} className="border-b border-slate-50 hover:bg-slate-50">
                                                     <td className="p-2 pl-4 text-slate-500 whitespace-nowrap">{tx.date}</td>
                                                     <td className="p-2 text-slate-700 font-medium truncate max-w-[150px]">{tx.payee}</td>
                                                     <td className={`p-2 pr-4 text-right font-bold ${relevantAmount > 0 ? 'text-blue-600' : 'text-slate-700'}`}>
-                                                        {relevantAmount.toFixed(2)}
+                                                        {formatMoney(relevantAmount)}
                                                     </td>
                                                 </tr>
                                             );
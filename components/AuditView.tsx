@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AuditEntry, LedgerEntity } from '../types';
+import { filterAuditEntries, describeAuditEntity, AUDIT_FILE } from '../services/auditService';
+import { History, RotateCcw, ChevronRight, ChevronDown, X, RefreshCw } from 'lucide-react';
+
+interface AuditViewProps {
+  loadEntries: () => Promise<AuditEntry[]>;
+  refreshKey: number; // Changes whenever new entries were appended
+  author: string;
+  onAuthorChange?: (author: string) => void; // Only offered when the host does not configure the author
+  onRestore: (entry: AuditEntry, version: 'before' | 'after') => void;
+}
+
+const ENTITY_LABELS: Record<LedgerEntity, string> = {
+  transaction: 'Transaction',
+  account: 'Account',
+  recurring: 'Recurring Rule'
+};
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  create: 'bg-green-100 text-green-700',
+  update: 'bg-blue-100 text-blue-700',
+  delete: 'bg-red-100 text-red-700'
+};
+
+const Snapshot: React.FC<{ title: string; value: unknown }> = ({ title, value }) => (
+    <div className="flex-1 min-w-0">
+        <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">{title}</div>
+        <pre className="text-[11px] bg-slate-50 border border-slate-100 rounded p-2 overflow-auto max-h-64 text-slate-600">
+            {value ? JSON.stringify(value, null, 2) : '(none)'}
+        </pre>
+    </div>
+);
+
+export const AuditView: React.FC<AuditViewProps> = ({ loadEntries, refreshKey, author, onAuthorChange, onRestore }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [entityFilter, setEntityFilter] = useState<LedgerEntity | ''>('');
+  const [entityIdFilter, setEntityIdFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const reload = async () => {
+      setIsLoading(true);
+      try {
+          setEntries(await loadEntries());
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => {
+      reload();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  const filtered = useMemo(
+      () => filterAuditEntries(entries, { entity: entityFilter, entityId: entityIdFilter, search }),
+      [entries, entityFilter, entityIdFilter, search]
+  );
+
+  const showHistoryOf = (entry: AuditEntry) => {
+      setEntityFilter(entry.entity);
+      setEntityIdFilter(entry.entityId);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm flex justify-between items-center gap-4">
+            <div className="flex items-center gap-3">
+                <History size={28} className="text-slate-500" />
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800">Audit Log</h2>
+                    <p className="text-sm text-slate-500">Every create, update and delete is appended to {AUDIT_FILE}. Restoring a version is logged as a new change.</p>
+                </div>
+            </div>
+            <div className="text-xs text-slate-500 shrink-0">
+                {onAuthorChange ? (
+                    <label className="flex items-center gap-2">
+                        Recording as
+                        <input
+                            key={author}
+                            type="text"
+                            className="border border-slate-300 rounded px-2 py-1 text-sm w-32"
+                            defaultValue={author}
+                            placeholder="Your name"
+                            onBlur={e => onAuthorChange(e.target.value.trim())}
+                        />
+                    </label>
+                ) : (
+                    <span>Recording as <span className="font-bold text-slate-700">{author}</span></span>
+                )}
+            </div>
+        </div>
+
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-3 border-b border-slate-100 bg-slate-50 flex flex-wrap gap-3 items-center">
+                <select
+                    className="border border-slate-300 rounded px-2 py-1.5 text-sm bg-white"
+                    value={entityFilter}
+                    onChange={e => { setEntityFilter(e.target.value as LedgerEntity | ''); setEntityIdFilter(''); }}
+                >
+                    <option value="">All Entities</option>
+                    {(Object.keys(ENTITY_LABELS) as LedgerEntity[]).map(e => <option key={e} value={e}>{ENTITY_LABELS[e]}s</option>)}
+                </select>
+                <input
+                    type="text"
+                    placeholder="Search changes, authors, values..."
+                    className="flex-1 min-w-[200px] border border-slate-300 rounded px-3 py-1.5 text-sm"
+                    value={search}
+                    onChange={e => setSearch(e.target.value)}
+                />
+                {entityIdFilter && (
+                    <div className="flex items-center gap-2 bg-blue-100 text-blue-700 px-3 py-1 rounded text-xs font-bold">
+                        History of {entityIdFilter}
+                        <button onClick={() => setEntityIdFilter('')} className="hover:bg-blue-200 rounded p-0.5"><X size={12} /></button>
+                    </div>
+                )}
+                <button onClick={reload} className="p-1.5 text-slate-400 hover:text-blue-600" title="Reload">
+                    <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+
+            <div className="divide-y divide-slate-50">
+                {filtered.length === 0 ? (
+                    <div className="p-12 text-center text-slate-400 text-sm">
+                        {entries.length === 0 ? 'No changes recorded yet.' : 'No changes match your filters.'}
+                    </div>
+                ) : filtered.map(entry => {
+                    const isExpanded = expandedId === entry.id;
+                    return (
+                        <div key={entry.id} className="text-sm">
+                            <div
+                                className="p-3 flex items-center gap-3 cursor-pointer hover:bg-slate-50"
+                                onClick={() => setExpandedId(isExpanded ? null : entry.id)}
+                            >
+                                {isExpanded ? <ChevronDown size={14} className="text-slate-400" /> : <ChevronRight size={14} className="text-slate-400" />}
+                                <span className="text-xs text-slate-400 font-mono w-36 shrink-0">{new Date(entry.timestamp).toLocaleString()}</span>
+                                <span className="text-xs font-medium text-slate-600 w-24 shrink-0 truncate">{entry.author}</span>
+                                <span className={`text-[10px] font-bold uppercase px-1.5 py-0.5 rounded ${ACTION_STYLES[entry.action]}`}>{entry.action}</span>
+                                <span className="text-xs text-slate-400 shrink-0">{ENTITY_LABELS[entry.entity]}</span>
+                                <span className="text-slate-700 truncate">{describeAuditEntity(entry)}</span>
+                                <span className="ml-auto text-xs text-slate-400 truncate max-w-[40%]">{entry.label}</span>
+                            </div>
+                            {isExpanded && (
+                                <div className="px-10 pb-4">
+                                    <div className="flex gap-4">
+                                        <Snapshot title="Before" value={entry.before} />
+                                        <Snapshot title="After" value={entry.after} />
+                                    </div>
+                                    <div className="flex gap-2 mt-3">
+                                        <button
+                                            onClick={() => onRestore(entry, 'before')}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded"
+                                        >
+                                            <RotateCcw size={12} /> {entry.before ? 'Restore Before Version' : 'Remove (Undo Create)'}
+                                        </button>
+                                        {entry.after && (
+                                            <button
+                                                onClick={() => onRestore(entry, 'after')}
+                                                className="flex items-center gap-1 px-3 py-1.5 text-xs text-blue-600 border border-blue-200 hover:bg-blue-50 rounded"
+                                            >
+                                                <RotateCcw size={12} /> Restore After Version
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => showHistoryOf(entry)}
+                                            className="flex items-center gap-1 px-3 py-1.5 text-xs text-slate-500 hover:bg-slate-100 rounded"
+                                        >
+                                            <History size={12} /> Full History
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    </div>
+  );
+};
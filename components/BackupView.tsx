@@ -0,0 +1,144 @@
+import React, { useState, useEffect } from 'react';
+import { BackupInterval, BackupSchedule } from '../types';
+import { BackupInfo } from '../services/backupService';
+import { Archive, RotateCcw, Download, Upload, RefreshCw, Plus } from 'lucide-react';
+
+interface BackupViewProps {
+  loadBackups: () => Promise<BackupInfo[]>;
+  refreshKey: number; // Changes whenever a backup was written or deleted
+  schedule: BackupSchedule;
+  onScheduleChange?: (schedule: BackupSchedule) => void; // Only offered when the host does not configure the schedule
+  onCreate: () => void;
+  onRestore: (fileName: string) => void;
+  onRestoreFile: (file: File) => void;
+  onDownload: (fileName: string) => void;
+}
+
+const REASON_LABELS: Record<BackupInfo['reason'], string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  restore: 'Before Restore',
+  upgrade: 'Before Upgrade'
+};
+
+const INTERVAL_LABELS: Record<BackupInterval, string> = {
+  off: 'Off',
+  daily: 'Daily',
+  weekly: 'Weekly'
+};
+
+export const BackupView: React.FC<BackupViewProps> = ({ loadBackups, refreshKey, schedule, onScheduleChange, onCreate, onRestore, onRestoreFile, onDownload }) => {
+  const [backups, setBackups] = useState<BackupInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reload = async () => {
+      setIsLoading(true);
+      try {
+          setBackups(await loadBackups());
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  useEffect(() => {
+      reload();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (file) onRestoreFile(file);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm flex flex-col md:flex-row justify-between items-center gap-4">
+            <div className="flex items-center gap-3">
+                <Archive size={28} className="text-slate-500" />
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800">Backups</h2>
+                    <p className="text-sm text-slate-500">Each backup is one JSON file with every ledger file, a manifest and checksums, saved next to your data.</p>
+                </div>
+            </div>
+            <div className="flex gap-2 shrink-0">
+                <label className="flex items-center gap-2 px-4 py-2 text-sm text-slate-600 border border-slate-200 hover:bg-slate-50 rounded-lg cursor-pointer">
+                    <Upload size={16} /> Restore From File
+                    <input type="file" accept=".json" className="hidden" onChange={handleFile} />
+                </label>
+                <button
+                    onClick={onCreate}
+                    className="flex items-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-bold shadow-sm transition-colors"
+                >
+                    <Plus size={18} /> Create Backup
+                </button>
+            </div>
+        </div>
+
+        <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex flex-wrap items-center gap-4 text-sm">
+            <span className="font-bold text-slate-700">Automatic Backups</span>
+            {onScheduleChange ? (
+                <>
+                    <select
+                        className="border border-slate-300 rounded px-2 py-1 text-sm bg-white"
+                        value={schedule.interval}
+                        onChange={e => onScheduleChange({ ...schedule, interval: e.target.value as BackupInterval })}
+                    >
+                        {(Object.keys(INTERVAL_LABELS) as BackupInterval[]).map(i => <option key={i} value={i}>{INTERVAL_LABELS[i]}</option>)}
+                    </select>
+                    <label className="flex items-center gap-2 text-slate-600">
+                        Keep the last
+                        <input
+                            type="number"
+                            min="1"
+                            className="border border-slate-300 rounded px-2 py-1 text-sm w-16"
+                            value={schedule.keep}
+                            onChange={e => onScheduleChange({ ...schedule, keep: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                        />
+                    </label>
+                </>
+            ) : (
+                <span className="text-slate-600">
+                    {INTERVAL_LABELS[schedule.interval]}{schedule.interval !== 'off' && `, keeping the last ${schedule.keep}`} <span className="text-slate-400">(plugin settings)</span>
+                </span>
+            )}
+            <span className="text-xs text-slate-400">Only scheduled backups are deleted by the retention; manual ones stay until you remove them.</span>
+        </div>
+
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+            <div className="p-3 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                <span className="text-xs font-bold text-slate-500 uppercase">{backups.length} Backup(s)</span>
+                <button onClick={reload} className="p-1.5 text-slate-400 hover:text-blue-600" title="Reload">
+                    <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} />
+                </button>
+            </div>
+            <div className="divide-y divide-slate-50">
+                {backups.length === 0 ? (
+                    <div className="p-12 text-center text-slate-400 text-sm">No backups yet.</div>
+                ) : backups.map(backup => (
+                    <div key={backup.fileName} className="p-3 flex items-center gap-3 text-sm">
+                        <span className="text-xs text-slate-500 font-mono w-40 shrink-0">{backup.createdAt ? new Date(backup.createdAt).toLocaleString() : '—'}</span>
+                        <span className="text-[10px] font-bold uppercase px-1.5 py-0.5 rounded bg-slate-100 text-slate-500 shrink-0">{REASON_LABELS[backup.reason]}</span>
+                        <span className="text-slate-600 truncate">{backup.fileName}</span>
+                        <div className="ml-auto flex gap-2 shrink-0">
+                            <button
+                                onClick={() => onDownload(backup.fileName)}
+                                className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"
+                                title="Download"
+                            >
+                                <Download size={16} />
+                            </button>
+                            <button
+                                onClick={() => onRestore(backup.fileName)}
+                                className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded"
+                            >
+                                <RotateCcw size={12} /> Restore
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,293 @@
+import React, { useState, useMemo } from 'react';
+import { Account, AccountType, BankDateFormat, BankImportProfile, ExchangeRateTable, Transaction } from '../types';
+import { Upload, Save, AlertCircle, CheckCircle2, FileSpreadsheet } from 'lucide-react';
+import { getAccountPath, getSelectableAccounts } from '../services/ledgerService';
+import { formatMoney } from '../services/moneyService';
+import {
+    BANK_DATE_FORMATS,
+    createBankImportProfile,
+    detectDelimiter,
+    parseDelimitedRows,
+    getStatementColumns,
+    mapBankStatement
+} from '../services/bankImportService';
+
+interface BankImportWizardProps {
+  accounts: Account[];
+  exchangeRates: ExchangeRateTable;
+  profiles: BankImportProfile[];
+  onSaveProfiles: (profiles: BankImportProfile[]) => void;
+  onImport: (fileName: string, transactions: Transaction[]) => void;
+  onCancel: () => void;
+}
+
+// Last profile used, so that the monthly import only needs the file
+const LAST_PROFILE_KEY = 'bankImportProfileId';
+const PREVIEW_LIMIT = 200;
+
+const DELIMITER_LABELS: Record<BankImportProfile['delimiter'], string> = {
+  ',': 'Comma',
+  ';': 'Semicolon',
+  '\t': 'Tab'
+};
+
+const labelClass = 'block text-xs font-semibold text-slate-500 mb-1';
+const inputClass = 'w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white';
+
+export const BankImportWizard: React.FC<BankImportWizardProps> = ({ accounts, exchangeRates, profiles, onSaveProfiles, onImport, onCancel }) => {
+  const [fileName, setFileName] = useState('');
+  const [fileText, setFileText] = useState('');
+  const [profile, setProfile] = useState<BankImportProfile>(() => {
+      const last = profiles.find(p => p.id === localStorage.getItem(LAST_PROFILE_KEY));
+      return last ? { ...last } : createBankImportProfile('');
+  });
+
+  const update = (changes: Partial<BankImportProfile>) => setProfile(prev => ({ ...prev, ...changes }));
+
+  const rows = useMemo(() => parseDelimitedRows(fileText, profile.delimiter), [fileText, profile.delimiter]);
+  const columns = useMemo(() => getStatementColumns(rows, profile), [rows, profile]);
+  const mapped = useMemo(() => mapBankStatement(rows, profile, accounts, exchangeRates), [rows, profile, accounts, exchangeRates]);
+  const ready = mapped.filter(r => r.transaction);
+
+  const statementAccounts = getSelectableAccounts(accounts, [profile.accountId])
+      .filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY);
+  const counterAccounts = getSelectableAccounts(accounts, [profile.counterAccountId])
+      .filter(a => a.id !== profile.accountId);
+  const sortByPath = (list: Account[]) => list
+      .map(a => ({ id: a.id, path: getAccountPath(a, accounts) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const text = await file.text();
+      setFileName(file.name);
+      setFileText(text);
+      // A saved profile keeps its own settings; a new one starts from what the file looks like
+      if (!profiles.some(p => p.id === profile.id)) {
+          const delimiter = detectDelimiter(text);
+          setProfile(prev => ({ ...prev, delimiter, decimalSeparator: delimiter === ';' ? ',' : '.' }));
+      }
+  };
+
+  const handleSelectProfile = (id: string) => {
+      const selected = profiles.find(p => p.id === id);
+      setProfile(selected ? { ...selected } : createBankImportProfile('', fileText ? detectDelimiter(fileText) : ','));
+  };
+
+  const saveProfile = () => {
+      if (!profile.name.trim()) return;
+      const exists = profiles.some(p => p.id === profile.id);
+      onSaveProfiles(exists ? profiles.map(p => p.id === profile.id ? profile : p) : [...profiles, profile]);
+      localStorage.setItem(LAST_PROFILE_KEY, profile.id);
+  };
+
+  const handleImport = () => {
+      saveProfile();
+      onImport(fileName, ready.map(r => r.transaction!));
+  };
+
+  // Plain render helper rather than a nested component, so selects keep focus across renders
+  const renderColumnSelect = (label: string, value: number, onChange: (column: number) => void, optional = false) => (
+      <div>
+          <label className={labelClass}>{label}</label>
+          <select className={inputClass} value={value} onChange={e => onChange(Number(e.target.value))}>
+              {optional && <option value={-1}>(none)</option>}
+              {columns.map((name, i) => <option key={i} value={i}>{name}</option>)}
+          </select>
+      </div>
+  );
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 max-h-[80vh] overflow-y-auto">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><FileSpreadsheet size={20} /> Import Bank Statement (CSV)</h3>
+      </div>
+
+      {/* Step 1: file and profile */}
+      <div className="grid grid-cols-12 gap-4 mb-4">
+          <div className="col-span-5">
+              <label className={labelClass}>Statement File *</label>
+              <label className="flex items-center gap-2 border border-dashed border-slate-300 rounded px-3 py-1.5 text-sm text-slate-600 cursor-pointer hover:bg-slate-50">
+                  <Upload size={14} /> <span className="truncate">{fileName || 'Choose CSV file...'}</span>
+                  <input type="file" accept=".csv,.txt,.tsv" className="hidden" onChange={handleFile} />
+              </label>
+          </div>
+          <div className="col-span-4">
+              <label className={labelClass}>Profile</label>
+              <select className={inputClass} value={profiles.some(p => p.id === profile.id) ? profile.id : ''} onChange={e => handleSelectProfile(e.target.value)}>
+                  <option value="">New profile...</option>
+                  {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+          </div>
+          <div className="col-span-3">
+              <label className={labelClass}>Profile Name</label>
+              <input type="text" className={inputClass} placeholder="e.g. My Bank" value={profile.name} onChange={e => update({ name: e.target.value })} />
+          </div>
+      </div>
+
+      {/* Step 2: accounts */}
+      <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+              <label className={labelClass}>Statement Account (Asset / Liability) *</label>
+              <select className={inputClass} value={profile.accountId} onChange={e => update({ accountId: e.target.value })}>
+                  <option value="">Select account...</option>
+                  {sortByPath(statementAccounts).map(a => <option key={a.id} value={a.id}>{a.path}</option>)}
+              </select>
+          </div>
+          <div>
+              <label className={labelClass}>Book Other Side To *</label>
+              <select className={inputClass} value={profile.counterAccountId} onChange={e => update({ counterAccountId: e.target.value })}>
+                  <option value="">Select account...</option>
+                  {sortByPath(counterAccounts).map(a => <option key={a.id} value={a.id}>{a.path}</option>)}
+              </select>
+          </div>
+      </div>
+
+      {/* Step 3: file layout and column mapping */}
+      {fileText && (
+          <div className="bg-slate-50 p-4 rounded border border-slate-200 mb-4 space-y-3">
+              <div className="grid grid-cols-4 gap-3">
+                  <div>
+                      <label className={labelClass}>Separator</label>
+                      <select className={inputClass} value={profile.delimiter} onChange={e => update({ delimiter: e.target.value as BankImportProfile['delimiter'] })}>
+                          {(Object.keys(DELIMITER_LABELS) as BankImportProfile['delimiter'][]).map(d => <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>)}
+                      </select>
+                  </div>
+                  <div>
+                      <label className={labelClass}>Skip Lines</label>
+                      <input type="number" min={0} className={inputClass} value={profile.skipRows} onChange={e => update({ skipRows: Math.max(0, Number(e.target.value) || 0) })} />
+                  </div>
+                  <div>
+                      <label className={labelClass}>Date Format</label>
+                      <select className={inputClass} value={profile.dateFormat} onChange={e => update({ dateFormat: e.target.value as BankDateFormat })}>
+                          {BANK_DATE_FORMATS.map(f => <option key={f} value={f}>{f}</option>)}
+                      </select>
+                  </div>
+                  <div>
+                      <label className={labelClass}>Decimal Separator</label>
+                      <select className={inputClass} value={profile.decimalSeparator} onChange={e => update({ decimalSeparator: e.target.value as BankImportProfile['decimalSeparator'] })}>
+                          <option value=".">1,234.56</option>
+                          <option value=",">1.234,56</option>
+                      </select>
+                  </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                  {renderColumnSelect('Date Column', profile.dateColumn, dateColumn => update({ dateColumn }))}
+                  <div>
+                      <label className={labelClass}>Amounts</label>
+                      <select className={inputClass} value={profile.amountMode} onChange={e => update({ amountMode: e.target.value as BankImportProfile['amountMode'] })}>
+                          <option value="single">One signed column</option>
+                          <option value="debitCredit">Money out / money in</option>
+                      </select>
+                  </div>
+                  {profile.amountMode === 'single' ? (
+                      renderColumnSelect('Amount Column', profile.amountColumn, amountColumn => update({ amountColumn }))
+                  ) : (
+                      <>
+                          {renderColumnSelect('Money Out (Debit)', profile.debitColumn, debitColumn => update({ debitColumn }), true)}
+                          {renderColumnSelect('Money In (Credit)', profile.creditColumn, creditColumn => update({ creditColumn }), true)}
+                      </>
+                  )}
+              </div>
+
+              <div className="grid grid-cols-4 gap-3 items-end">
+                  {renderColumnSelect('Payee Column', profile.payeeColumn, payeeColumn => update({ payeeColumn }), true)}
+                  {renderColumnSelect('Memo Column', profile.memoColumn, memoColumn => update({ memoColumn }), true)}
+                  <label className="flex items-center gap-2 text-xs text-slate-600 pb-2">
+                      <input type="checkbox" checked={profile.hasHeader} onChange={e => update({ hasHeader: e.target.checked })} />
+                      First line is a header
+                  </label>
+                  <label className="flex items-center gap-2 text-xs text-slate-600 pb-2" title="Use when spending appears as positive numbers, as on most credit card statements">
+                      <input type="checkbox" checked={profile.invertSign} onChange={e => update({ invertSign: e.target.checked })} />
+                      Spending is positive
+                  </label>
+              </div>
+          </div>
+      )}
+
+      {/* Step 4: preview */}
+      {fileText && (
+          <div className="mb-4">
+              <div className="flex justify-between items-center mb-2 text-xs">
+                  <span className="font-bold text-slate-500 uppercase">Preview</span>
+                  <span className="text-slate-500">
+                      <span className="text-green-600 font-bold">{ready.length} ready</span>
+                      {mapped.length > ready.length && <span className="text-orange-600 font-bold"> · {mapped.length - ready.length} skipped</span>}
+                  </span>
+              </div>
+              <div className="border border-slate-200 rounded max-h-64 overflow-y-auto">
+                  <table className="w-full text-xs">
+                      <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                          <tr>
+                              <th className="text-left px-2 py-1 w-10">Row</th>
+                              <th className="text-left px-2 py-1 w-24">Date</th>
+                              <th className="text-left px-2 py-1">Payee / Memo</th>
+                              <th className="text-right px-2 py-1 w-28">Amount</th>
+                              <th className="px-2 py-1 w-8"></th>
+                          </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-50">
+                          {mapped.slice(0, PREVIEW_LIMIT).map(row => {
+                              const split = row.transaction?.splits[0];
+                              const amount = split ? (split.originalAmount ?? split.amount) : null;
+                              return (
+                                  <tr key={row.line} className={row.error ? 'bg-orange-50/50 text-slate-400' : ''}>
+                                      <td className="px-2 py-1 font-mono">{row.line}</td>
+                                      <td className="px-2 py-1 font-mono">{row.transaction?.date || '-'}</td>
+                                      <td className="px-2 py-1 truncate max-w-0">
+                                          {row.transaction
+                                              ? [row.transaction.payee, row.transaction.description].filter(Boolean).join(' — ')
+                                              : <span className="text-orange-600">{row.error}</span>}
+                                      </td>
+                                      <td className={`px-2 py-1 text-right font-mono ${amount !== null && amount < 0 ? 'text-red-600' : 'text-green-700'}`}>
+                                          {amount !== null ? formatMoney(amount) : ''}
+                                      </td>
+                                      <td className="px-2 py-1">
+                                          {row.error ? <AlertCircle size={12} className="text-orange-500" /> : <CheckCircle2 size={12} className="text-green-500" />}
+                                      </td>
+                                  </tr>
+                              );
+                          })}
+                      </tbody>
+                  </table>
+                  {mapped.length > PREVIEW_LIMIT && (
+                      <div className="text-center text-xs text-slate-400 py-2">Showing the first {PREVIEW_LIMIT} of {mapped.length} rows</div>
+                  )}
+              </div>
+          </div>
+      )}
+
+      <div className="flex justify-between items-center gap-3 pt-4 border-t border-slate-100 mt-4">
+           <button
+              type="button"
+              onClick={saveProfile}
+              disabled={!profile.name.trim()}
+              className="flex items-center gap-1 px-3 py-2 text-xs text-slate-600 hover:bg-slate-100 rounded disabled:opacity-40"
+           >
+               <Save size={14} /> Save Profile
+           </button>
+           <div className="flex gap-3">
+               <button
+                  type="button"
+                  onClick={onCancel}
+                  className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded"
+               >
+                   Cancel
+               </button>
+               <button
+                  type="button"
+                  onClick={handleImport}
+                  disabled={ready.length === 0}
+                  className={`flex items-center gap-2 px-6 py-2 text-sm font-bold text-white rounded shadow-sm
+                      ${ready.length === 0 ? 'bg-slate-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}
+                  `}
+               >
+                   <Upload size={16} /> Import {ready.length} Transaction(s)
+               </button>
+           </div>
+      </div>
+    </div>
+  );
+};
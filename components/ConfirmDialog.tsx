@@ -5,11 +5,12 @@ interface ConfirmDialogProps {
   isOpen: boolean;
   title?: string;
   message: string;
+  confirmLabel?: string;
   onConfirm: () => void;
   onCancel: () => void;
 }
 
-export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ isOpen, title = "Confirm Action", message, onConfirm, onCancel }) => {
+export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ isOpen, title = "Confirm Action", message, confirmLabel = "Delete", onConfirm, onCancel }) => {
   if (!isOpen) return null;
 
   return (
@@ -22,7 +23,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ isOpen, title = "C
             <h3 className="text-lg font-bold text-slate-800">{title}</h3>
         </div>
         
-        <p className="text-slate-600 mb-6 text-sm leading-relaxed">
+        <p className="text-slate-600 mb-6 text-sm leading-relaxed whitespace-pre-line">
             {message}
         </p>
 
@@ -37,7 +38,7 @@ export const ConfirmDialog: React.FC<ConfirmDialogProps> = ({ isOpen, title = "C
                 onClick={onConfirm}
                 className="px-4 py-2 text-sm font-bold text-white bg-red-600 hover:bg-red-700 rounded-md shadow-sm transition-colors"
             >
-                Delete
+                {confirmLabel}
             </button>
         </div>
       </div>
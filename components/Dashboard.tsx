@@ -1,6 +1,13 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Account, Transaction, AccountType } from '../types';
-import { getFlattenedBalances, filterTransactions, getDescendantAccountIds } from '../services/ledgerService';
+import { Account, Transaction, AccountType, ExchangeRateTable, DatePreset, SavedView } from '../types';
+import { filterTransactions, getDescendantAccountIds, getAllTags } from '../services/ledgerService';
+import { filterTransactionsByQuery, parseQuery } from '../services/queryService';
+import { QueryInput } from './QueryInput';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { createSavedView, getDefaultView, resolveDatePreset, resolveViewRange } from '../services/viewService';
+import { getIndexedReportingBalances, convertCurrency, formatCurrency } from '../services/currencyService';
+import { LedgerIndex, createLedgerIndex } from '../services/ledgerIndexService';
+import { sumMoney, roundMoney } from '../services/moneyService';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Cell } from 'recharts';
 import { analyzeFinances } from '../services/geminiService';
 import { Sparkles, Loader2, Calendar, BarChart2, Search, Filter, ChevronDown, ChevronRight, ArrowUpCircle, ArrowDownCircle, Wallet, Folder, FileText } from 'lucide-react';
@@ -8,29 +15,34 @@ import { Sparkles, Loader2, Calendar, BarChart2, Search, Filter, ChevronDown, Ch
 interface ExpenseDashboardProps {
   accounts: Account[];
   transactions: Transaction[];
+  ledgerIndex: LedgerIndex; // Kept in sync with accounts and transactions by the caller
+  exchangeRates: ExchangeRateTable;
+  reportingCurrency: string;
+  savedViews: SavedView[];
+  onSaveViews: (views: SavedView[]) => void;
+  viewRequest: SavedView | null; // A view to open, e.g. from the Obsidian command
+  onViewRequestHandled: () => void;
 }
 
-export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, transactions }) => {
+export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, transactions, ledgerIndex, exchangeRates, reportingCurrency, savedViews, onSaveViews, viewRequest, onViewRequestHandled }) => {
   const [aiAnalysis, setAiAnalysis] = useState<string>('');
   const [loadingAi, setLoadingAi] = useState(false);
   
-  // Helper to get local date string YYYY-MM-DD
-  const toLocalYMD = (d: Date) => {
-      return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-  };
+  // The pinned default view, if any, replaces the month-to-date overview
+  const [initialView] = useState(() => getDefaultView(savedViews, 'expense'));
 
   // Filter States
-  const [startDate, setStartDate] = useState(() => {
-    const d = new Date();
-    d.setDate(1); // MTD default
-    return toLocalYMD(d);
+  const [initialRange] = useState(() => initialView ? resolveViewRange(initialView) : resolveDatePreset('MTD'));
+  const [startDate, setStartDate] = useState(initialRange.start);
+  const [endDate, setEndDate] = useState(initialRange.end);
+  const [activeRangeBtn, setActiveRangeBtn] = useState<string>(() => {
+    if (!initialView) return 'MTD';
+    return 'preset' in initialView.range ? initialView.range.preset : '';
   });
-  const [endDate, setEndDate] = useState(() => toLocalYMD(new Date()));
-  const [activeRangeBtn, setActiveRangeBtn] = useState<string>('MTD');
-  const [payeeFilter, setPayeeFilter] = useState('');
+  const [queryText, setQueryText] = useState(initialView?.query || ''); // Search query, same language as the journal
 
   // State for the drill-down selection
-  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(null);
+  const [selectedCategoryId, setSelectedCategoryId] = useState<string | null>(initialView?.accountId || null);
 
   // Get unique payees for autocomplete
   const uniquePayees = useMemo(() => {
@@ -41,35 +53,44 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
     return Array.from(payees).sort();
   }, [transactions]);
 
+  const querySources = useMemo(
+      () => ({ accounts, payees: uniquePayees, tags: getAllTags(transactions) }),
+      [accounts, uniquePayees, transactions]
+  );
+  const parsedQuery = useMemo(() => parseQuery(queryText), [queryText]);
+
   // Helper to set preset ranges
-  const setPresetRange = (range: 'MTD' | '1M' | '3M' | '6M' | '1Y') => {
-      const now = new Date();
-      let start = new Date();
-      let end = new Date();
-      
-      if (range === 'MTD') {
-          start.setDate(1);
-          end = now;
-      } else {
-          // For 1M, 3M, 6M, 1Y we use "Previous Full Months" logic
-          // End date is the last day of the previous month
-          end = new Date(now.getFullYear(), now.getMonth(), 0);
-          
-          let monthsToSubtract = 1;
-          if (range === '3M') monthsToSubtract = 3;
-          if (range === '6M') monthsToSubtract = 6;
-          if (range === '1Y') monthsToSubtract = 12;
-          
-          // Start date is 1st of (CurrentMonth - X)
-          // e.g. If now is Dec (11), 1M -> Start: Nov 1 (11-1=10), End: Nov 30
-          // e.g. If now is Dec (11), 3M -> Start: Sep 1 (11-3=8), End: Nov 30
-          start = new Date(now.getFullYear(), now.getMonth() - monthsToSubtract, 1);
-      }
-      setStartDate(toLocalYMD(start));
-      setEndDate(toLocalYMD(end));
+  // 1M, 3M, 6M and 1Y are previous full months, e.g. in December 3M is Sep 1 to Nov 30
+  const setPresetRange = (range: DatePreset) => {
+      const { start, end } = resolveDatePreset(range);
+      setStartDate(start);
+      setEndDate(end);
       setActiveRangeBtn(range);
   };
 
+  const applyView = (view: SavedView) => {
+      const { start, end } = resolveViewRange(view);
+      setStartDate(start);
+      setEndDate(end);
+      setActiveRangeBtn('preset' in view.range ? view.range.preset : '');
+      setQueryText(view.query);
+      setSelectedCategoryId(view.accountId || null);
+  };
+
+  useEffect(() => {
+    if (viewRequest?.screen === 'expense') {
+        applyView(viewRequest);
+        onViewRequestHandled();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewRequest]);
+
+  const captureView = (name: string) => createSavedView(name, 'expense', {
+      range: activeRangeBtn ? { preset: activeRangeBtn as DatePreset } : { start: startDate, end: endDate },
+      query: queryText.trim(),
+      accountId: selectedCategoryId || undefined
+  });
+
   const handleCustomDateChange = (type: 'start' | 'end', val: string) => {
       if (type === 'start') setStartDate(val);
       else setEndDate(val);
@@ -78,8 +99,8 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
 
   // 1. Filter Transactions
   const filteredTransactions = useMemo(() => {
-      return filterTransactions(transactions, startDate, endDate, payeeFilter);
-  }, [transactions, startDate, endDate, payeeFilter]);
+      return filterTransactionsByQuery(filterTransactions(transactions, startDate, endDate), parsedQuery, accounts);
+  }, [transactions, startDate, endDate, parsedQuery, accounts]);
 
   // 2. Calculate Budget Multiplier
   const budgetMultiplier = useMemo(() => {
@@ -90,27 +111,28 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
       return Math.max(0.1, diffDays / 30);
   }, [startDate, endDate]);
 
-  // 3. Calculate Balances
+  // 3. Calculate Balances (converted to the reporting currency at the end of the range).
+  // Date ranges are answered by the shared index (updated in place, so its transactions are the
+  // dependency); a search query needs an index of its own.
   const filteredBalances = useMemo(() => {
-      return getFlattenedBalances(accounts, filteredTransactions);
-  }, [accounts, filteredTransactions]);
+      const balances = parsedQuery.terms.length > 0
+          ? getIndexedReportingBalances(createLedgerIndex(accounts, filteredTransactions), exchangeRates, reportingCurrency, endDate)
+          : getIndexedReportingBalances(ledgerIndex, exchangeRates, reportingCurrency, endDate, { from: startDate, to: endDate });
+      return new Map(balances.map(b => [b.id, b]));
+  }, [accounts, filteredTransactions, ledgerIndex, parsedQuery, exchangeRates, reportingCurrency, startDate, endDate]);
+
+  const toReporting = (amount: number) => roundMoney(convertCurrency(amount, exchangeRates.baseCurrency, reportingCurrency, exchangeRates, endDate));
+  const fmt = (amount: number) => formatCurrency(amount, reportingCurrency);
 
   // 4. Calculate Income vs Expense Totals
   const { totalIncome, totalExpense, netSavings } = useMemo(() => {
       const incomeRoots = accounts.filter(a => a.type === AccountType.INCOME && !a.parentId);
       const expenseRoots = accounts.filter(a => a.type === AccountType.EXPENSE && !a.parentId);
 
-      const incomeVal = incomeRoots.reduce((acc, root) => {
-          const bal = filteredBalances.find(b => b.id === root.id)?.balance || 0;
-          return acc + bal;
-      }, 0);
-
-      const expenseVal = expenseRoots.reduce((acc, root) => {
-          const bal = filteredBalances.find(b => b.id === root.id)?.balance || 0;
-          return acc + bal;
-      }, 0);
+      const incomeVal = sumMoney(incomeRoots.map(root => filteredBalances.get(root.id)?.balance || 0));
+      const expenseVal = sumMoney(expenseRoots.map(root => filteredBalances.get(root.id)?.balance || 0));
 
-      return { totalIncome: Math.abs(incomeVal), totalExpense: expenseVal, netSavings: Math.abs(incomeVal) - expenseVal };
+      return { totalIncome: Math.abs(incomeVal), totalExpense: expenseVal, netSavings: sumMoney([Math.abs(incomeVal), -expenseVal]) };
   }, [accounts, filteredBalances]);
 
   // Main Chart Data
@@ -119,13 +141,13 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
       const childAccounts = accounts.filter(a => a.parentId === parentId);
       
       return childAccounts.map(acc => {
-          const balObj = filteredBalances.find(fb => fb.id === acc.id);
+          const balObj = filteredBalances.get(acc.id);
           const hasChildren = accounts.some(a => a.parentId === acc.id);
           return {
               id: acc.id,
               name: acc.name,
               Actual: balObj ? balObj.balance : 0,
-              Budget: (acc.budget || 0) * budgetMultiplier,
+              Budget: (balObj ? balObj.budget : 0) * budgetMultiplier,
               hasChildren
           };
       }).filter(d => d.Actual > 0 || d.Budget > 0);
@@ -147,19 +169,19 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
           const relevantTxs = filteredTransactions.reduce((accTxs, tx) => {
               const relevantSplits = tx.splits.filter(s => allIdsInBranch.has(s.accountId));
               if (relevantSplits.length > 0) {
-                  const totalForTx = relevantSplits.reduce((sum, s) => sum + s.amount, 0);
+                  const totalForTx = toReporting(sumMoney(relevantSplits.map(s => s.amount)));
                   accTxs.push({ ...tx, relevantAmount: totalForTx, _specificAccountId: relevantSplits[0].accountId });
               }
               return accTxs;
           }, [] as (Transaction & { relevantAmount: number, _specificAccountId?: string })[]);
 
-          const totalActual = relevantTxs.reduce((sum, t) => sum + t.relevantAmount, 0);
+          const totalActual = sumMoney(relevantTxs.map(t => t.relevantAmount));
           
           return {
               account: acc,
               transactions: relevantTxs.sort((a, b) => b.date.localeCompare(a.date)),
               totalActual,
-              budget: (acc.budget || 0) * budgetMultiplier,
+              budget: toReporting(acc.budget || 0) * budgetMultiplier,
           };
       }).filter(g => g.totalActual > 0 || g.budget > 0).sort((a, b) => b.totalActual - a.totalActual);
 
@@ -170,7 +192,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
           total: c.totalActual
       }));
 
-      const childrenTotal = childSummaries.reduce((sum, c) => sum + c.total, 0);
+      const childrenTotal = sumMoney(childSummaries.map(c => c.total));
 
       // 3. Parent Node Group (Direct Transactions)
       const parentGroup = (() => {
@@ -178,19 +200,19 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
         const relevantTxs = filteredTransactions.reduce((accTxs, tx) => {
             const relevantSplits = tx.splits.filter(s => s.accountId === acc.id);
             if (relevantSplits.length > 0) {
-                const totalForTx = relevantSplits.reduce((sum, s) => sum + s.amount, 0);
+                const totalForTx = toReporting(sumMoney(relevantSplits.map(s => s.amount)));
                 accTxs.push({ ...tx, relevantAmount: totalForTx });
             }
             return accTxs;
         }, [] as (Transaction & { relevantAmount: number })[]);
 
-        const directTotal = relevantTxs.reduce((sum, t) => sum + t.relevantAmount, 0);
+        const directTotal = sumMoney(relevantTxs.map(t => t.relevantAmount));
 
         return {
             account: acc,
             transactions: relevantTxs.sort((a, b) => b.date.localeCompare(a.date)),
-            totalActual: directTotal + childrenTotal, 
-            budget: (acc.budget || 0) * budgetMultiplier,
+            totalActual: sumMoney([directTotal, childrenTotal]), 
+            budget: toReporting(acc.budget || 0) * budgetMultiplier,
             childSummaries // Attach summaries here
         };
       })();
@@ -201,13 +223,13 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
           result.push(parentGroup);
       }
       return [...result, ...childGroups];
-  }, [selectedAccount, accounts, filteredTransactions, budgetMultiplier]);
+  }, [selectedAccount, accounts, filteredTransactions, budgetMultiplier, exchangeRates, reportingCurrency, endDate]);
 
   const handleAiAnalysis = async () => {
     setLoadingAi(true);
     const context = selectedAccount 
         ? `Analyze spending for the category '${selectedAccount.name}' and its sub-categories.`
-        : `Analyze my top-level expense spending patterns from ${startDate} to ${endDate}. Total Income: ${totalIncome}, Total Expense: ${totalExpense}.`;
+        : `Analyze my top-level expense spending patterns from ${startDate} to ${endDate}. Total Income: ${totalIncome} ${reportingCurrency}, Total Expense: ${totalExpense} ${reportingCurrency}.`;
 
     const result = await analyzeFinances(filteredTransactions, accounts, context);
     setAiAnalysis(result);
@@ -223,20 +245,20 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
                 Financial Overview
             </h2>
             <div className="flex items-center gap-2 mt-2">
-                <div> 
-                    <input 
-                        type="text" 
-                        list="dashboard-payee-suggestions"
-                        placeholder="Filter Payee..." 
-                        value={payeeFilter}
-                        onChange={(e) => setPayeeFilter(e.target.value)}
-                        className="pl-2 pr-3 py-1 text-xs border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none w-40"
+                <SavedViewsMenu
+                    screen="expense"
+                    views={savedViews}
+                    onChange={onSaveViews}
+                    onApply={applyView}
+                    captureView={captureView}
+                />
+                <div className="w-96">
+                    <QueryInput
+                        value={queryText}
+                        onChange={setQueryText}
+                        sources={querySources}
+                        placeholder="Filter, e.g. payee:~super -tag:work"
                     />
-                    <datalist id="dashboard-payee-suggestions">
-                        {uniquePayees.map(p => (
-                            <option key={p} value={p} />
-                        ))}
-                    </datalist>
                 </div>
             </div>
           </div>
@@ -278,14 +300,14 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
           <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex items-center justify-between">
               <div>
                   <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Income</p>
-                  <p className="text-2xl font-bold text-green-600">+${totalIncome.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
+                  <p className="text-2xl font-bold text-green-600">+{fmt(totalIncome)}</p>
               </div>
               <ArrowUpCircle className="text-green-100" size={40} />
           </div>
           <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm flex items-center justify-between">
               <div>
                   <p className="text-slate-500 text-xs font-bold uppercase mb-1">Total Expenses</p>
-                  <p className="text-2xl font-bold text-red-600">-${totalExpense.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
+                  <p className="text-2xl font-bold text-red-600">-{fmt(totalExpense)}</p>
               </div>
               <ArrowDownCircle className="text-red-100" size={40} />
           </div>
@@ -293,7 +315,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
               <div>
                   <p className="text-slate-500 text-xs font-bold uppercase mb-1">Net Savings</p>
                   <p className={`text-2xl font-bold ${netSavings >= 0 ? 'text-blue-600' : 'text-orange-600'}`}>
-                      {netSavings >= 0 ? '+' : ''}${netSavings.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}
+                      {netSavings >= 0 ? '+' : ''}{fmt(netSavings)}
                   </p>
               </div>
               <Wallet className="text-blue-100" size={40} />
@@ -316,7 +338,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
                       <XAxis dataKey="name" tick={{fontSize: 11}} interval={0} />
                       <YAxis tick={{fontSize: 12}} />
                       <Tooltip 
-                        formatter={(value: number) => `$${value.toFixed(2)}`}
+                        formatter={(value: number) => fmt(value)}
                         cursor={{fill: 'transparent'}}
                       />
                       <Legend />
@@ -367,7 +389,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
                                     </div>
                                     <div className="text-right">
                                         <div className="text-sm font-bold text-slate-800">
-                                            ${group.totalActual.toFixed(2)} <span className="text-slate-400 text-xs font-normal">/ ${group.budget.toFixed(2)}</span>
+                                            {fmt(group.totalActual)} <span className="text-slate-400 text-xs font-normal">/ {fmt(group.budget)}</span>
                                         </div>
                                         <div className="w-32 h-1.5 bg-slate-200 rounded-full mt-1 overflow-hidden ml-auto">
                                             <div 
@@ -399,7 +421,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
                                                 </div>
                                             </div>
                                             <div className="font-mono font-bold text-slate-700">
-                                                ${tx.relevantAmount.toFixed(2)}
+                                                {fmt(tx.relevantAmount)}
                                             </div>
                                         </div>
                                     )})}
@@ -415,7 +437,7 @@ export const ExpenseDashboard: React.FC<ExpenseDashboardProps> = ({ accounts, tr
                                                 </div>
                                             </div>
                                             <div className="font-mono font-bold text-slate-500">
-                                                ${summary.total.toFixed(2)}
+                                                {fmt(summary.total)}
                                             </div>
                                         </div>
                                     ))}
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Account, DuplicatePair, DuplicateResolution, Transaction } from '../types';
+import { Copy, Lock } from 'lucide-react';
+import { getAccountPath } from '../services/ledgerService';
+import { formatMoney } from '../services/moneyService';
+
+interface DuplicateReviewProps {
+  pairs: DuplicatePair[];
+  accounts: Account[];
+  mode: 'import' | 'scan'; // Import: `incoming` is not saved yet. Scan: both entries are in the ledger.
+  onApply: (decisions: Record<string, DuplicateResolution>) => void;
+  onCancel: () => void;
+}
+
+const TransactionCard: React.FC<{ title: string; tx: Transaction; accounts: Account[] }> = ({ title, tx, accounts }) => {
+    const accountPath = (id: string) => {
+        const account = accounts.find(a => a.id === id);
+        return account ? getAccountPath(account, accounts) : 'Unknown Account';
+    };
+    return (
+        <div className="flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded p-3">
+            <div className="text-[10px] font-bold text-slate-400 uppercase mb-1">{title}</div>
+            <div className="flex justify-between text-sm">
+                <span className="font-medium text-slate-700 truncate">{tx.payee || tx.description || '(no payee)'}</span>
+                <span className="font-mono text-xs text-slate-500 shrink-0 ml-2">{tx.date}</span>
+            </div>
+            {tx.payee && tx.description && <div className="text-xs text-slate-500 truncate">{tx.description}</div>}
+            <div className="mt-2 space-y-0.5">
+                {tx.splits.map((split, i) => (
+                    <div key={i} className="flex justify-between text-xs gap-2">
+                        <span className="text-slate-600 truncate">
+                            {accountPath(split.accountId)}
+                            {split.memo && <span className="text-slate-400"> · {split.memo}</span>}
+                        </span>
+                        <span className={`font-mono shrink-0 flex items-center gap-1 ${split.amount < 0 ? 'text-red-600' : 'text-slate-700'}`}>
+                            {split.status === 'reconciled' && <Lock size={10} className="text-slate-400" />}
+                            {formatMoney(split.amount)}
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export const DuplicateReview: React.FC<DuplicateReviewProps> = ({ pairs, accounts, mode, onApply, onCancel }) => {
+  // Imports default to merging, so the bank id is kept; a scan changes nothing unless asked
+  const [decisions, setDecisions] = useState<Record<string, DuplicateResolution>>(() =>
+      Object.fromEntries(pairs.map(p => [p.incoming.id, mode === 'import' ? 'merge' : 'keep']))
+  );
+
+  const options: { value: DuplicateResolution; label: string }[] = [
+      { value: 'skip', label: mode === 'import' ? 'Skip imported' : 'Delete later entry' },
+      { value: 'merge', label: 'Merge' },
+      { value: 'keep', label: 'Keep both' }
+  ];
+
+  const setAll = (decision: DuplicateResolution) => {
+      setDecisions(Object.fromEntries(pairs.map(p => [p.incoming.id, decision])));
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 max-h-[80vh] flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Copy size={20} /> Possible Duplicates</h3>
+            <p className="text-xs text-slate-500">
+                {pairs.length} pair(s) share an account and amount within a few days. Merge keeps the richer split breakdown.
+            </p>
+        </div>
+        <div className="flex gap-1 text-xs">
+            {options.map(o => (
+                <button key={o.value} onClick={() => setAll(o.value)} className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded">
+                    All: {o.label}
+                </button>
+            ))}
+        </div>
+      </div>
+
+      <div className="overflow-y-auto space-y-4 flex-1">
+          {pairs.map(pair => (
+              <div key={pair.incoming.id} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex gap-3">
+                      <TransactionCard title={mode === 'import' ? 'In Ledger' : 'Earlier Entry'} tx={pair.existing} accounts={accounts} />
+                      <TransactionCard title={mode === 'import' ? 'Imported' : 'Later Entry'} tx={pair.incoming} accounts={accounts} />
+                  </div>
+                  <div className="flex justify-between items-center mt-2">
+                      <span className="text-[11px] text-slate-400">
+                          {Math.round(pair.score * 100)}% match · {pair.reasons.join(' · ')}
+                      </span>
+                      <div className="flex bg-slate-100 p-1 rounded-lg">
+                          {options.map(o => (
+                              <button
+                                  key={o.value}
+                                  onClick={() => setDecisions(prev => ({ ...prev, [pair.incoming.id]: o.value }))}
+                                  className={`px-3 py-1 rounded-md text-xs font-medium transition-all ${decisions[pair.incoming.id] === o.value ? 'bg-white text-blue-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+                              >
+                                  {o.label}
+                              </button>
+                          ))}
+                      </div>
+                  </div>
+              </div>
+          ))}
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 mt-4">
+           <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded"
+           >
+               {mode === 'import' ? 'Cancel Import' : 'Close'}
+           </button>
+           <button
+              type="button"
+              onClick={() => onApply(decisions)}
+              className="px-6 py-2 text-sm font-bold text-white rounded shadow-sm bg-blue-600 hover:bg-blue-700"
+           >
+               {mode === 'import' ? 'Apply & Import' : 'Apply'}
+           </button>
+      </div>
+    </div>
+  );
+};
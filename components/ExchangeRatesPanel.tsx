@@ -0,0 +1,115 @@
+import React, { useState, useMemo } from 'react';
+import { Account, ExchangeRateTable } from '../types';
+import { getAvailableCurrencies, getExchangeRate } from '../services/currencyService';
+import { Coins, Plus, Trash2, AlertTriangle } from 'lucide-react';
+
+interface ExchangeRatesPanelProps {
+  table: ExchangeRateTable;
+  accounts: Account[];
+  onChange: (table: ExchangeRateTable) => void;
+}
+
+export const ExchangeRatesPanel: React.FC<ExchangeRatesPanelProps> = ({ table, accounts, onChange }) => {
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+  const [currency, setCurrency] = useState('');
+  const [rate, setRate] = useState('');
+
+  const sortedRates = useMemo(() => {
+      return table.rates
+        .map((r, index) => ({ ...r, index }))
+        .sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date));
+  }, [table.rates]);
+
+  // Account currencies without any rate entry cannot be converted
+  const missingCurrencies = useMemo(() => {
+      const today = new Date().toISOString().split('T')[0];
+      return getAvailableCurrencies(table, accounts).filter(c => getExchangeRate(table, c, today) === null);
+  }, [table, accounts]);
+
+  const handleAdd = (e: React.FormEvent) => {
+      e.preventDefault();
+      const code = currency.trim().toUpperCase();
+      const value = Number(rate);
+      if (!code || !date || !(value > 0) || code === table.baseCurrency) return;
+
+      // Replace an existing entry for the same currency and date
+      const rates = table.rates.filter(r => !(r.currency === code && r.date === date));
+      onChange({ ...table, rates: [...rates, { date, currency: code, rate: value }] });
+      setCurrency('');
+      setRate('');
+  };
+
+  const handleRemove = (index: number) => {
+      onChange({ ...table, rates: table.rates.filter((_, i) => i !== index) });
+  };
+
+  const handleBaseChange = (value: string) => {
+      const code = value.trim().toUpperCase();
+      if (code) onChange({ ...table, baseCurrency: code });
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-slate-200 flex flex-col">
+        <div className="p-4 border-b border-slate-100 bg-slate-50/50 flex justify-between items-center">
+            <div>
+                <h3 className="font-bold text-slate-700 flex items-center gap-2"><Coins size={16} className="text-amber-500" /> Exchange Rates</h3>
+                <p className="text-xs text-slate-500">Rates are stored in ExchangeRates.json as base currency units per 1 unit of foreign currency.</p>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-slate-500">
+                Base currency
+                <input
+                    key={table.baseCurrency}
+                    type="text"
+                    maxLength={3}
+                    className="w-16 border border-slate-300 rounded px-2 py-1 text-sm font-mono uppercase"
+                    defaultValue={table.baseCurrency}
+                    onBlur={(e) => handleBaseChange(e.target.value)}
+                />
+            </div>
+        </div>
+
+        {missingCurrencies.length > 0 && (
+            <div className="mx-4 mt-4 flex items-center gap-2 text-xs text-orange-600 bg-orange-50 p-2 rounded">
+                <AlertTriangle size={14} />
+                No rate defined for {missingCurrencies.join(', ')}. Amounts are converted 1:1 until a rate is added.
+            </div>
+        )}
+
+        <div className="p-4">
+            <form onSubmit={handleAdd} className="grid grid-cols-12 gap-2 mb-3">
+                <input type="date" className="col-span-4 border border-slate-300 rounded p-1.5 text-sm" value={date} onChange={e => setDate(e.target.value)} required />
+                <input type="text" maxLength={3} placeholder="EUR" className="col-span-3 border border-slate-300 rounded p-1.5 text-sm font-mono uppercase" value={currency} onChange={e => setCurrency(e.target.value)} required />
+                <input type="number" step="any" min="0" placeholder="Rate" className="col-span-3 border border-slate-300 rounded p-1.5 text-sm font-mono" value={rate} onChange={e => setRate(e.target.value)} required />
+                <button type="submit" className="col-span-2 flex items-center justify-center gap-1 bg-blue-600 text-white text-xs font-bold rounded hover:bg-blue-700">
+                    <Plus size={14} /> Add
+                </button>
+            </form>
+
+            <table className="w-full text-sm text-left">
+                <thead>
+                    <tr className="text-xs text-slate-400 border-b border-slate-100">
+                        <th className="py-1">Currency</th>
+                        <th className="py-1">Valid From</th>
+                        <th className="py-1 text-right">Rate ({table.baseCurrency})</th>
+                        <th className="py-1 w-8"></th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {sortedRates.length === 0 ? (
+                        <tr><td colSpan={4} className="py-4 text-center text-xs text-slate-400">No exchange rates yet. All accounts use {table.baseCurrency}.</td></tr>
+                    ) : sortedRates.map(r => (
+                        <tr key={`${r.currency}-${r.date}-${r.index}`} className="border-b border-slate-50">
+                            <td className="py-1.5 font-mono font-bold text-slate-700">{r.currency}</td>
+                            <td className="py-1.5 text-slate-500">{r.date}</td>
+                            <td className="py-1.5 text-right font-mono text-slate-700">{r.rate}</td>
+                            <td className="py-1.5 text-right">
+                                <button onClick={() => handleRemove(r.index)} className="text-slate-300 hover:text-red-500"><Trash2 size={14} /></button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import React, { useState, useMemo } from 'react';
+import { Account, LedgerIssue, LedgerIssueType, Transaction } from '../types';
+import { getAccountPath } from '../services/ledgerService';
+import { ShieldCheck, ShieldAlert, AlertTriangle, Wrench, Edit2, RefreshCw } from 'lucide-react';
+
+interface IntegrityViewProps {
+  issues: LedgerIssue[];
+  accounts: Account[];
+  transactions: Transaction[];
+  onRevalidate: () => void;
+  onReassignSplits: (fromAccountId: string, toAccountId: string) => void;
+  onAddBalancingSplit: (transactionId: string, accountId: string) => void;
+  onSetDate: (transactionId: string, date: string) => void;
+  onReattachAccount: (accountId: string) => void;
+  onEditTransaction: (tx: Transaction) => void;
+}
+
+const ISSUE_LABELS: Record<LedgerIssueType, string> = {
+  unbalanced_transaction: 'Unbalanced Transactions',
+  orphan_split: 'Splits on Unknown Accounts',
+  invalid_date: 'Invalid Dates',
+  empty_transaction: 'Incomplete Transactions',
+  missing_parent: 'Missing Parent Accounts',
+  account_cycle: 'Circular Account Hierarchy',
+  duplicate_account: 'Duplicate Account IDs'
+};
+
+// Inline fix controls for a single issue
+const IssueFix: React.FC<{
+  issue: LedgerIssue;
+  accountOptions: { id: string; fullPath: string }[];
+  transaction?: Transaction;
+  handlers: IntegrityViewProps;
+}> = ({ issue, accountOptions, transaction, handlers }) => {
+  const [targetAccountId, setTargetAccountId] = useState('');
+  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const accountSelect = (
+      <select
+        className="border border-slate-300 rounded px-1 py-1 text-xs bg-white max-w-[220px]"
+        value={targetAccountId}
+        onChange={e => setTargetAccountId(e.target.value)}
+      >
+          <option value="">Select Account...</option>
+          {accountOptions.map(a => <option key={a.id} value={a.id}>{a.fullPath}</option>)}
+      </select>
+  );
+
+  const fixButton = (label: string, onClick: () => void, disabled = false) => (
+      <button
+        onClick={onClick}
+        disabled={disabled}
+        className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded disabled:bg-slate-300"
+      >
+          <Wrench size={12} /> {label}
+      </button>
+  );
+
+  switch (issue.type) {
+      case 'orphan_split':
+          return (
+              <div className="flex items-center gap-2">
+                  {accountSelect}
+                  {fixButton('Reassign all', () => handlers.onReassignSplits(issue.accountId!, targetAccountId), !targetAccountId)}
+              </div>
+          );
+      case 'unbalanced_transaction':
+          return (
+              <div className="flex items-center gap-2">
+                  {accountSelect}
+                  {fixButton('Add balancing split', () => handlers.onAddBalancingSplit(issue.transactionId!, targetAccountId), !targetAccountId)}
+                  {transaction && (
+                      <button onClick={() => handlers.onEditTransaction(transaction)} className="p-1 text-slate-400 hover:text-blue-600" title="Edit Transaction">
+                          <Edit2 size={14} />
+                      </button>
+                  )}
+              </div>
+          );
+      case 'invalid_date':
+          return (
+              <div className="flex items-center gap-2">
+                  <input type="date" className="border border-slate-300 rounded px-1 py-0.5 text-xs" value={date} onChange={e => setDate(e.target.value)} />
+                  {fixButton('Set date', () => handlers.onSetDate(issue.transactionId!, date), !date)}
+              </div>
+          );
+      case 'missing_parent':
+      case 'account_cycle':
+          return fixButton('Move to root', () => handlers.onReattachAccount(issue.accountId!));
+      case 'empty_transaction':
+          return transaction ? (
+              <button onClick={() => handlers.onEditTransaction(transaction)} className="flex items-center gap-1 px-2 py-1 text-xs text-blue-600 hover:bg-blue-50 rounded">
+                  <Edit2 size={12} /> Edit
+              </button>
+          ) : null;
+      default:
+          return <span className="text-xs text-slate-400">Fix manually in Accounts.json</span>;
+  }
+};
+
+export const IntegrityView: React.FC<IntegrityViewProps> = (props) => {
+  const { issues, accounts, transactions, onRevalidate } = props;
+
+  const accountOptions = useMemo(() => {
+    return accounts.map(acc => ({
+        id: acc.id,
+        fullPath: getAccountPath(acc, accounts)
+    })).sort((a, b) => a.fullPath.localeCompare(b.fullPath));
+  }, [accounts]);
+
+  const txMap = useMemo(() => new Map(transactions.map(t => [t.id, t])), [transactions]);
+
+  const groups = useMemo(() => {
+      const map = new Map<LedgerIssueType, LedgerIssue[]>();
+      issues.forEach(issue => {
+          if (!map.has(issue.type)) map.set(issue.type, []);
+          map.get(issue.type)!.push(issue);
+      });
+      return Array.from(map.entries());
+  }, [issues]);
+
+  const errorCount = issues.filter(i => i.severity === 'error').length;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm flex justify-between items-center">
+            <div className="flex items-center gap-3">
+                {issues.length === 0
+                    ? <ShieldCheck size={32} className="text-green-500" />
+                    : <ShieldAlert size={32} className={errorCount > 0 ? 'text-red-500' : 'text-amber-500'} />}
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800">Ledger Integrity</h2>
+                    <p className="text-sm text-slate-500">
+                        {issues.length === 0
+                            ? 'No problems found. Every transaction balances and points to a known account.'
+                            : `${errorCount} error(s) and ${issues.length - errorCount} warning(s) found. Checked on every load and save.`}
+                    </p>
+                </div>
+            </div>
+            <button onClick={onRevalidate} className="flex items-center gap-2 px-3 py-2 text-sm text-slate-600 border border-slate-200 rounded hover:bg-slate-50">
+                <RefreshCw size={14} /> Re-check
+            </button>
+        </div>
+
+        {groups.map(([type, groupIssues]) => (
+            <div key={type} className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+                <div className="p-3 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                    <h3 className="font-bold text-slate-700 text-sm flex items-center gap-2">
+                        <AlertTriangle size={14} className={groupIssues[0].severity === 'error' ? 'text-red-500' : 'text-amber-500'} />
+                        {ISSUE_LABELS[type]}
+                    </h3>
+                    <span className="text-xs text-slate-400">{groupIssues.length}</span>
+                </div>
+                <div className="divide-y divide-slate-50">
+                    {groupIssues.map(issue => (
+                        <div key={issue.id} className="p-3 flex justify-between items-center gap-4 text-sm">
+                            <span className="text-slate-600">{issue.message}</span>
+                            <div className="shrink-0">
+                                <IssueFix
+                                    issue={issue}
+                                    accountOptions={accountOptions}
+                                    transaction={issue.transactionId ? txMap.get(issue.transactionId) : undefined}
+                                    handlers={props}
+                                />
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        ))}
+    </div>
+  );
+};
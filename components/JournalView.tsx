@@ -1,43 +1,72 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { Transaction, Account } from '../types';
-import { getDescendantAccountIds } from '../services/ledgerService';
-import { Search, Filter, ChevronLeft, ChevronRight, X, ArrowUp, ArrowDown, Edit2, Trash2, AlertTriangle } from 'lucide-react';
+import React, { useState, useMemo, useEffect, useRef, useDeferredValue } from 'react';
+import { Transaction, Account, DatePreset, SavedView } from '../types';
+import { getDescendantAccountIds, isTransactionBalanced, getAllTags } from '../services/ledgerService';
+import { sumMoney, formatMoney } from '../services/moneyService';
+import { filterTransactionsByQuery, formatQueryValue, getQueryDateRange, parseQuery } from '../services/queryService';
+import { LedgerIndex } from '../services/ledgerIndexService';
+import { buildAccountRegister } from '../services/registerService';
+import { createSavedView, getDefaultView, resolveDatePreset, resolveViewRange } from '../services/viewService';
+import { RegisterTable } from './RegisterTable';
+import { QueryInput } from './QueryInput';
+import { SavedViewsMenu } from './SavedViewsMenu';
+import { useVirtualRows } from './useVirtualRows';
+import { Search, Filter, ChevronLeft, ChevronRight, X, ArrowUp, ArrowDown, Edit2, Trash2, AlertTriangle, Tag, Lock, Copy, Wand2, BookOpen } from 'lucide-react';
 
 interface JournalViewProps {
   transactions: Transaction[];
   accounts: Account[];
+  ledgerIndex: LedgerIndex; // For the register's opening balance
+  savedViews: SavedView[];
+  onSaveViews: (views: SavedView[]) => void;
+  viewRequest: SavedView | null; // A view to open, e.g. from the Obsidian command
+  onViewRequestHandled: () => void;
   focusedAccountId: string | null;
   onClearFocus: () => void;
   onEditTransaction: (tx: Transaction) => void;
   onDeleteTransaction: (id: string) => void;
+  onAddTransaction?: (tx: Transaction) => void; // Entries typed into the register
+  onFindDuplicates?: (scope: Transaction[]) => void; // Scans the transactions matching the current filters
+  onApplyRules?: (scope: Transaction[]) => void; // Re-categorizes the transactions matching the current filters
 }
 
+// Starting height of a transaction's rows before they are measured
+const estimateTransactionHeight = (tx: Transaction) =>
+  tx.splits.length * 45 + tx.splits.filter(s => s.memo).length * 16 + (tx.tags && tx.tags.length > 0 ? 22 : 0) + 4;
+
 export const JournalView: React.FC<JournalViewProps> = ({
   transactions,
   accounts,
+  ledgerIndex,
+  savedViews,
+  onSaveViews,
+  viewRequest,
+  onViewRequestHandled,
   focusedAccountId,
   onClearFocus,
   onEditTransaction,
-  onDeleteTransaction
+  onDeleteTransaction,
+  onAddTransaction,
+  onFindDuplicates,
+  onApplyRules
 }) => {
   // State
-  const [journalSearch, setJournalSearch] = useState('');
-  const [journalPayeeFilter, setJournalPayeeFilter] = useState('');
-  const [journalMinAmount, setJournalMinAmount] = useState('');
-  const [journalMaxAmount, setJournalMaxAmount] = useState('');
-  const [journalAccountFilter, setJournalAccountFilter] = useState<string | null>(null);
+  // The pinned default view, if any, replaces the built-in filters when the journal opens
+  const [initialView] = useState(() => getDefaultView(savedViews, 'journal'));
+
+  // Search query, e.g. `payee:~super amount:>50 -tag:work` (see queryService)
+  const [journalQueryText, setJournalQueryText] = useState(initialView?.query || '');
+  const [journalAccountFilter, setJournalAccountFilter] = useState<string | null>(initialView?.accountId || null);
+  // Register mode: one line per entry with a running balance, while an account is selected
+  const [isRegister, setIsRegister] = useState(!!initialView?.register);
   
-  const [journalSort, setJournalSort] = useState<{ key: keyof Transaction | 'amount', direction: 'asc' | 'desc' }>({ key: 'date', direction: 'desc' });
+  const [journalSort, setJournalSort] = useState<{ key: keyof Transaction | 'amount', direction: 'asc' | 'desc' }>(initialView?.sort || { key: 'date', direction: 'desc' });
   
   // Default to last 3 months
-  const [journalRange, setJournalRange] = useState(() => {
-    const end = new Date();
-    const start = new Date();
-    start.setMonth(end.getMonth() - 3);
-    return { 
-        start: `${start.getFullYear()}-${String(start.getMonth() + 1).padStart(2, '0')}-${String(start.getDate()).padStart(2, '0')}`,
-        end: `${end.getFullYear()}-${String(end.getMonth() + 1).padStart(2, '0')}-${String(end.getDate()).padStart(2, '0')}`
-    };
+  const [journalRange, setJournalRange] = useState(() => initialView ? resolveViewRange(initialView) : resolveDatePreset('rolling3M'));
+  // The relative range the dates came from, saved with a view instead of fixed dates; null once shifted
+  const [journalPreset, setJournalPreset] = useState<DatePreset | null>(() => {
+    if (!initialView) return 'rolling3M';
+    return 'preset' in initialView.range ? initialView.range.preset : null;
   });
 
   // Sync prop focus to internal state
@@ -47,6 +76,32 @@ export const JournalView: React.FC<JournalViewProps> = ({
     }
   }, [focusedAccountId]);
 
+  const applyView = (view: SavedView) => {
+      setJournalQueryText(view.query);
+      setJournalAccountFilter(view.accountId || null);
+      if (!view.accountId) onClearFocus();
+      setIsRegister(!!view.register);
+      setJournalSort(view.sort || { key: 'date', direction: 'desc' });
+      setJournalRange(resolveViewRange(view));
+      setJournalPreset('preset' in view.range ? view.range.preset : null);
+  };
+
+  useEffect(() => {
+    if (viewRequest?.screen === 'journal') {
+        applyView(viewRequest);
+        onViewRequestHandled();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [viewRequest]);
+
+  const captureView = (name: string) => createSavedView(name, 'journal', {
+      range: journalPreset ? { preset: journalPreset } : { ...journalRange },
+      query: journalQueryText.trim(),
+      accountId: journalAccountFilter || undefined,
+      sort: journalSort,
+      register: isRegister || undefined
+  });
+
   // Derived Data
   const uniquePayees = useMemo(() => {
     const payees = new Set<string>();
@@ -56,6 +111,12 @@ export const JournalView: React.FC<JournalViewProps> = ({
     return Array.from(payees).sort();
   }, [transactions]);
 
+  const uniqueTags = useMemo(() => getAllTags(transactions), [transactions]);
+
+  const querySources = useMemo(() => ({ accounts, payees: uniquePayees, tags: uniqueTags }), [accounts, uniquePayees, uniqueTags]);
+
+  const accountMap = useMemo(() => new Map(accounts.map(a => [a.id, a])), [accounts]);
+
   // Handlers
   const handleJournalSort = (key: keyof Transaction | 'amount') => {
     setJournalSort(prev => ({
@@ -80,80 +141,90 @@ export const JournalView: React.FC<JournalViewProps> = ({
           start: toYMD(newStart),
           end: toYMD(newEnd)
       });
+      setJournalPreset(null);
+  };
+
+  const addTagToQuery = (tag: string) => {
+      const term = `tag:${formatQueryValue(tag)}`;
+      if (parseQuery(journalQueryText).terms.some(t => t.field === 'tag' && !t.negated && t.value === tag)) return;
+      setJournalQueryText(journalQueryText.trim() ? `${journalQueryText.trim()} ${term}` : term);
   };
 
   const resetJournalFilters = () => {
-      setJournalSearch('');
-      setJournalPayeeFilter('');
-      setJournalMinAmount('');
-      setJournalMaxAmount('');
+      setJournalQueryText('');
       setJournalAccountFilter(null);
       onClearFocus();
       setJournalSort({ key: 'date', direction: 'desc' });
-      
-      const end = new Date();
-      const start = new Date();
-      start.setMonth(end.getMonth() - 3);
-      const toYMD = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
-      
-      setJournalRange({ start: toYMD(start), end: toYMD(end) });
+      setJournalRange(resolveDatePreset('rolling3M'));
+      setJournalPreset('rolling3M');
   };
 
+  // Filtering and sorting read deferred copies of the filters: inputs stay responsive while a large
+  // journal is re-filtered in the background, and the previous result stays on screen meanwhile
+  const journalQuery = useMemo(() => {
+      const parsed = parseQuery(journalQueryText);
+      // Dates in the search replace the range picker
+      const queryRange = getQueryDateRange(parsed);
+      return {
+          parsed,
+          range: queryRange || { from: journalRange.start, to: journalRange.end },
+          isQueryRange: queryRange !== null,
+          accountId: journalAccountFilter,
+          sort: journalSort
+      };
+  }, [journalQueryText, journalRange, journalAccountFilter, journalSort]);
+  const deferredQuery = useDeferredValue(journalQuery);
+  const isFiltering = deferredQuery !== journalQuery;
+
   const processedJournalData = useMemo(() => {
-      let data = [...transactions];
+      const query = deferredQuery;
 
       // Date Range Filter
-      data = data.filter(t => t.date >= journalRange.start && t.date <= journalRange.end);
+      const { from, to } = query.range;
+      let data = transactions.filter(t => (from === undefined || t.date >= from) && (to === undefined || t.date <= to));
 
-      // Text Search
-      if (journalSearch) {
-          const term = journalSearch.toLowerCase();
-          data = data.filter(t => (t.description || '').toLowerCase().includes(term));
-      }
-
-      // Payee Filter
-      if (journalPayeeFilter) {
-          data = data.filter(t => t.payee === journalPayeeFilter);
-      }
-
-      // Amount Filter
-      if (journalMinAmount || journalMaxAmount) {
-          const min = journalMinAmount ? parseFloat(journalMinAmount) : -Infinity;
-          const max = journalMaxAmount ? parseFloat(journalMaxAmount) : Infinity;
-          data = data.filter(t => {
-              const positiveSum = t.splits.reduce((sum, s) => s.amount > 0 ? sum + s.amount : sum, 0);
-              return positiveSum >= min && positiveSum <= max;
-          });
-      }
+      // Search Query
+      data = filterTransactionsByQuery(data, query.parsed, accounts);
 
       // Account Filter
-      if (journalAccountFilter) {
-          const descendantIds = getDescendantAccountIds(journalAccountFilter, accounts);
+      if (query.accountId) {
+          const descendantIds = getDescendantAccountIds(query.accountId, accounts);
           data = data.filter(t => t.splits.some(s => descendantIds.has(s.accountId)));
       }
 
-      // Sorting
-      data.sort((a, b) => {
-          let valA: any = a[journalSort.key as keyof Transaction];
-          let valB: any = b[journalSort.key as keyof Transaction];
+      // Sorting: each key is computed once per transaction, not once per comparison
+      const { key, direction } = query.sort;
+      const keyed = data.map(t => ({
+          t,
+          value: key === 'amount'
+              ? sumMoney(t.splits.map(s => Math.abs(s.amount)))
+              : String(t[key] || '').toLowerCase()
+      }));
+      const order = direction === 'asc' ? 1 : -1;
+      keyed.sort((a, b) => (a.value < b.value ? -order : a.value > b.value ? order : 0));
 
-          if (journalSort.key === 'amount') {
-              valA = a.splits.reduce((sum, s) => sum + Math.abs(s.amount), 0);
-              valB = b.splits.reduce((sum, s) => sum + Math.abs(s.amount), 0);
-          }
+      return keyed.map(k => k.t);
+  }, [transactions, deferredQuery, accounts]);
 
-          if (typeof valA === 'string') valA = valA.toLowerCase();
-          if (typeof valB === 'string') valB = valB.toLowerCase();
-          if (!valA) valA = '';
-          if (!valB) valB = '';
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const virtualRows = useVirtualRows(scrollRef, processedJournalData, tx => tx.id, estimateTransactionHeight);
 
-          if (valA < valB) return journalSort.direction === 'asc' ? -1 : 1;
-          if (valA > valB) return journalSort.direction === 'asc' ? 1 : -1;
-          return 0;
-      });
+  // New filters, a new sort or a focus from the dashboard start at the top; edits keep the position
+  useEffect(() => {
+      virtualRows.scrollToTop();
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [deferredQuery]);
+
+  const registerAccount = isRegister && journalAccountFilter ? accounts.find(a => a.id === journalAccountFilter) : undefined;
 
-      return data;
-  }, [transactions, journalRange, journalSearch, journalSort, journalAccountFilter, accounts, journalPayeeFilter, journalMinAmount, journalMaxAmount]);
+  // Balances run over every entry in the range; the other filters only hide lines
+  const register = useMemo(() => {
+      if (!registerAccount) return null;
+      const { from = '0000-01-01', to = '9999-12-31' } = deferredQuery.range;
+      const data = buildAccountRegister(registerAccount.id, accounts, transactions, ledgerIndex, from, to);
+      const shown = new Set(processedJournalData.map(t => t.id));
+      return { ...data, rows: data.rows.filter(row => shown.has(row.transaction.id)) };
+  }, [registerAccount, accounts, transactions, ledgerIndex, deferredQuery, processedJournalData]);
 
   return (
     <div className="flex flex-col h-full animate-in fade-in bg-white">
@@ -163,26 +234,66 @@ export const JournalView: React.FC<JournalViewProps> = ({
         <div className="flex justify-between items-center">
             <div className="flex items-center gap-3">
                 <div className="flex items-center gap-1 bg-white border border-slate-200 rounded p-1 shadow-sm">
-                    <button onClick={() => shiftJournalDate('prev')} className="p-1 hover:bg-slate-100 rounded text-slate-500">
+                    <button onClick={() => shiftJournalDate('prev')} disabled={journalQuery.isQueryRange} className="p-1 hover:bg-slate-100 rounded text-slate-500 disabled:opacity-30">
                         <ChevronLeft size={16} />
                     </button>
                     <div className="text-xs font-medium text-slate-600 px-2 min-w-[150px] text-center">
-                        {journalRange.start} <span className="text-slate-300 mx-1">to</span> {journalRange.end}
+                        {journalQuery.isQueryRange ? (
+                            <span title="Set by the date: term of the search">{journalQuery.range.from || '…'} <span className="text-slate-300 mx-1">to</span> {journalQuery.range.to || '…'}</span>
+                        ) : (
+                            <>{journalRange.start} <span className="text-slate-300 mx-1">to</span> {journalRange.end}</>
+                        )}
                     </div>
-                    <button onClick={() => shiftJournalDate('next')} className="p-1 hover:bg-slate-100 rounded text-slate-500">
+                    <button onClick={() => shiftJournalDate('next')} disabled={journalQuery.isQueryRange} className="p-1 hover:bg-slate-100 rounded text-slate-500 disabled:opacity-30">
                         <ChevronRight size={16} />
                     </button>
                 </div>
+                <SavedViewsMenu
+                    screen="journal"
+                    views={savedViews}
+                    onChange={onSaveViews}
+                    onApply={applyView}
+                    captureView={captureView}
+                />
                 <button 
                     onClick={resetJournalFilters}
                     className="text-xs text-slate-400 hover:text-red-500 flex items-center gap-1"
                 >
                     <Filter size={12} /> Clear Filters
                 </button>
+                <span className="text-xs text-slate-400">
+                    {processedJournalData.length} transaction{processedJournalData.length === 1 ? '' : 's'}{isFiltering && ' · updating…'}
+                </span>
+                {onFindDuplicates && (
+                    <button
+                        onClick={() => onFindDuplicates(processedJournalData)}
+                        className="text-xs text-slate-400 hover:text-blue-600 flex items-center gap-1"
+                        title="Look for entries recorded twice among the transactions shown"
+                    >
+                        <Copy size={12} /> Find Duplicates
+                    </button>
+                )}
+                {onApplyRules && (
+                    <button
+                        onClick={() => onApplyRules(processedJournalData)}
+                        className="text-xs text-slate-400 hover:text-purple-600 flex items-center gap-1"
+                        title="Re-categorize the transactions shown with the categorization rules"
+                    >
+                        <Wand2 size={12} /> Apply Rules
+                    </button>
+                )}
             </div>
             
             {/* ACTIVE ACCOUNT FILTER INDICATOR */}
             {journalAccountFilter && (
+                <div className="flex items-center gap-2">
+                <button
+                    onClick={() => setIsRegister(!isRegister)}
+                    className={`flex items-center gap-1 px-3 py-1 rounded text-xs font-bold border ${isRegister ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:text-blue-600'}`}
+                    title="Show one line per entry with the running balance"
+                >
+                    <BookOpen size={12} /> Register
+                </button>
                 <div className="flex items-center gap-2 bg-blue-100 text-blue-700 px-3 py-1 rounded text-xs font-bold animate-in zoom-in">
                     <span>Viewing: {accounts.find(a => a.id === journalAccountFilter)?.name || 'Account'}</span>
                     <button 
@@ -192,62 +303,39 @@ export const JournalView: React.FC<JournalViewProps> = ({
                         <X size={12} />
                     </button>
                 </div>
+                </div>
             )}
         </div>
 
-        {/* Filter Row */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-                {/* Description Search */}
-                <div>
-                <input 
-                    type="text" 
-                    placeholder="Search Description..."
-                    className="w-full pl-2 pr-3 py-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none"
-                    value={journalSearch}
-                    onChange={(e) => setJournalSearch(e.target.value)}
-                />
-                </div>
-
-                {/* Payee Filter */}
-                <div>
-                <input 
-                    list="journal-payee-list"
-                    type="text" 
-                    placeholder="Filter Payee..."
-                    className="w-full px-3 py-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none"
-                    value={journalPayeeFilter}
-                    onChange={(e) => setJournalPayeeFilter(e.target.value)}
-                />
-                <datalist id="journal-payee-list">
-                    {uniquePayees.map(p => <option key={p} value={p} />)}
-                </datalist>
-                </div>
-
-                {/* Amount Min */}
-                <div>
-                <input 
-                    type="number" 
-                    placeholder="Min Amount"
-                    className="w-full pl-2 pr-3 py-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none"
-                    value={journalMinAmount}
-                    onChange={(e) => setJournalMinAmount(e.target.value)}
-                />
-                </div>
-
-                {/* Amount Max */}
-                <div>
-                <input 
-                    type="number" 
-                    placeholder="Max Amount"
-                    className="w-full pl-2 pr-3 py-2 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none"
-                    value={journalMaxAmount}
-                    onChange={(e) => setJournalMaxAmount(e.target.value)}
-                />
-                </div>
-        </div>
+        {/* Search */}
+        <QueryInput
+            value={journalQueryText}
+            onChange={setJournalQueryText}
+            sources={querySources}
+            placeholder="Search, e.g. account:Expenses:Food amount:>50 payee:~super date:2025-01..2025-03 -tag:work"
+        />
+        <datalist id="journal-payee-list">
+            {uniquePayees.map(p => <option key={p} value={p} />)}
+        </datalist>
         </div>
 
-        <div className="flex-1 overflow-auto relative">
+        <div ref={scrollRef} className="flex-1 overflow-auto relative">
+        {register && registerAccount ? (
+            <RegisterTable
+                scrollRef={scrollRef}
+                account={registerAccount}
+                accounts={accounts}
+                rows={register.rows}
+                openingBalance={register.openingBalance}
+                rangeStart={deferredQuery.range.from || ''}
+                defaultDate={journalRange.end}
+                direction={journalSort.key === 'date' ? journalSort.direction : 'desc'}
+                onToggleDirection={() => handleJournalSort('date')}
+                onEditTransaction={onEditTransaction}
+                onDeleteTransaction={onDeleteTransaction}
+                onAddTransaction={onAddTransaction}
+            />
+        ) : (
         <table className="w-full text-sm text-left border-collapse">
                 <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200 sticky top-0 z-10 shadow-sm">
                     <tr>
@@ -277,17 +365,22 @@ export const JournalView: React.FC<JournalViewProps> = ({
                         <th className="p-3 text-center w-24 whitespace-nowrap">Action</th>
                     </tr>
                 </thead>
-                <tbody className="divide-y divide-slate-100">
-                    {processedJournalData.length === 0 ? (
+                {processedJournalData.length === 0 ? (
+                    <tbody>
                     <tr><td colSpan={8} className="p-12 text-center text-slate-400">
                         No transactions found in this date range matching your filters.
                     </td></tr>
+                    </tbody>
                     ) : (
-                    processedJournalData.map(tx => {
-                        const totalAmount = tx.splits.reduce((sum, s) => sum + s.amount, 0);
-                        const isBalanced = Math.abs(totalAmount) < 0.01;
-                        return tx.splits.map((split, i) => {
-                            const acc = accounts.find(a => a.id === split.accountId);
+                    <>
+                    {virtualRows.paddingTop > 0 && <tbody><tr style={{ height: virtualRows.paddingTop }} /></tbody>}
+                    {virtualRows.visible.map(tx => {
+                        const isBalanced = isTransactionBalanced(tx.splits);
+                        // One body per transaction, so its height can be measured as a unit
+                        return (
+                        <tbody key={tx.id} ref={virtualRows.measure(tx.id)} className="divide-y divide-slate-100">
+                        {tx.splits.map((split, i) => {
+                            const acc = accountMap.get(split.accountId);
                             const debit = split.amount > 0 ? split.amount : null;
                             const credit = split.amount < 0 ? Math.abs(split.amount) : null;
                             const isFirstRow = i === 0;
@@ -295,11 +388,33 @@ export const JournalView: React.FC<JournalViewProps> = ({
                                 <tr key={`${tx.id}-${i}`} className={`hover:bg-slate-50/50 ${isFirstRow ? 'border-t-4 border-slate-50' : ''}`}>
                                     <td className="p-3 text-slate-500 whitespace-nowrap align-top">{isFirstRow && tx.date}</td>
                                     <td className="p-3 font-medium text-slate-700 align-top">{isFirstRow && (tx.payee || '-')}</td>
-                                    <td className="p-3 text-slate-600 align-top">{isFirstRow && (tx.description || '-')}</td>
-                                    <td className="p-3 text-slate-700 align-top whitespace-nowrap">{acc?.name || 'Unknown'}</td>
-                                    <td className="p-3 text-right font-mono text-slate-700 align-top">{debit ? debit.toFixed(2) : ''}</td>
-                                    <td className="p-3 text-right font-mono text-slate-700 align-top">{credit ? credit.toFixed(2) : ''}</td>
-                                    <td className="p-3 text-right font-bold text-slate-800 align-top">{split.amount.toFixed(2)}</td>
+                                    <td className="p-3 text-slate-600 align-top">
+                                        {isFirstRow && (tx.description || '-')}
+                                        {isFirstRow && tx.tags && tx.tags.length > 0 && (
+                                            <div className="flex flex-wrap gap-1 mt-1">
+                                                {tx.tags.map(tag => (
+                                                    <button 
+                                                        key={tag} 
+                                                        onClick={() => addTagToQuery(tag)}
+                                                        className="flex items-center gap-0.5 text-[10px] bg-slate-100 text-slate-500 hover:bg-blue-100 hover:text-blue-700 px-1.5 rounded"
+                                                    >
+                                                        <Tag size={9} /> {tag}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </td>
+                                    <td className="p-3 text-slate-700 align-top whitespace-nowrap">
+                                        {acc?.name || 'Unknown'}
+                                        {split.memo && <div className="text-xs text-slate-400 italic whitespace-normal">{split.memo}</div>}
+                                    </td>
+                                    <td className="p-3 text-right font-mono text-slate-700 align-top">{debit ? formatMoney(debit) : ''}</td>
+                                    <td className="p-3 text-right font-mono text-slate-700 align-top">{credit ? formatMoney(credit) : ''}</td>
+                                    <td className="p-3 text-right font-bold text-slate-800 align-top whitespace-nowrap">
+                                        {formatMoney(split.amount)}
+                                        {split.status === 'cleared' && <span className="ml-1 text-[10px] font-bold text-blue-500" title="Cleared">C</span>}
+                                        {split.status === 'reconciled' && <Lock size={10} className="inline ml-1 text-green-600" />}
+                                    </td>
                                     {isFirstRow && (
                                         <td className="p-3 text-center align-top" rowSpan={tx.splits.length}>
                                             <div className="flex flex-col items-center gap-2">
@@ -311,11 +426,15 @@ export const JournalView: React.FC<JournalViewProps> = ({
                                     )}
                                 </tr>
                             );
-                        });
-                    })
+                        })}
+                        </tbody>
+                        );
+                    })}
+                    {virtualRows.paddingBottom > 0 && <tbody><tr style={{ height: virtualRows.paddingBottom }} /></tbody>}
+                    </>
                     )}
-                </tbody>
         </table>
+        )}
         </div>
     </div>
   );
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Account, MergeConflict, MergeEntity, MergeSide, RecurringTransaction, Transaction } from '../types';
+import { GitMerge } from 'lucide-react';
+import { getAccountPath } from '../services/ledgerService';
+import { formatMoney } from '../services/moneyService';
+
+interface MergeConflictDialogProps {
+  conflicts: MergeConflict[];
+  accounts: Account[]; // For account names in splits
+  onApply: (choices: Record<string, MergeSide>) => void;
+}
+
+const KIND_LABELS: Record<MergeConflict['kind'], string> = {
+  account: 'Account',
+  transaction: 'Transaction',
+  recurring: 'Recurring Rule'
+};
+
+const EntityCard: React.FC<{ title: string; kind: MergeConflict['kind']; entity: MergeEntity | null; accounts: Account[]; selected: boolean; onSelect: () => void }> = ({ title, kind, entity, accounts, selected, onSelect }) => {
+    const accountPath = (id: string) => {
+        const account = accounts.find(a => a.id === id);
+        return account ? getAccountPath(account, accounts) : 'Unknown Account';
+    };
+
+    let body: React.ReactNode;
+    if (!entity) {
+        body = <div className="text-sm text-slate-400 italic">Deleted</div>;
+    } else if (kind === 'account') {
+        const account = entity as Account;
+        body = (
+            <div className="text-sm">
+                <div className="font-medium text-slate-700">{account.name}</div>
+                <div className="text-xs text-slate-500">
+                    {account.type}{account.currency ? ` · ${account.currency}` : ''}{account.budget ? ` · Budget ${formatMoney(account.budget)}` : ''}{account.archived ? ' · Archived' : ''}
+                </div>
+            </div>
+        );
+    } else {
+        const tx = entity as Transaction | RecurringTransaction;
+        const date = kind === 'transaction' ? (tx as Transaction).date : `Next ${(tx as RecurringTransaction).nextDueDate}`;
+        body = (
+            <>
+                <div className="flex justify-between text-sm">
+                    <span className="font-medium text-slate-700 truncate">{tx.payee || tx.description || '(no payee)'}</span>
+                    <span className="font-mono text-xs text-slate-500 shrink-0 ml-2">{date}</span>
+                </div>
+                {tx.payee && tx.description && <div className="text-xs text-slate-500 truncate">{tx.description}</div>}
+                <div className="mt-2 space-y-0.5">
+                    {tx.splits.map((split, i) => (
+                        <div key={i} className="flex justify-between text-xs gap-2">
+                            <span className="text-slate-600 truncate">
+                                {accountPath(split.accountId)}
+                                {split.memo && <span className="text-slate-400"> · {split.memo}</span>}
+                            </span>
+                            <span className={`font-mono shrink-0 ${split.amount < 0 ? 'text-red-600' : 'text-slate-700'}`}>{formatMoney(split.amount)}</span>
+                        </div>
+                    ))}
+                </div>
+            </>
+        );
+    }
+
+    return (
+        <button
+            type="button"
+            onClick={onSelect}
+            className={`flex-1 min-w-0 text-left rounded p-3 border transition-colors ${selected ? 'bg-blue-50 border-blue-300' : 'bg-slate-50 border-slate-100 hover:border-slate-300'}`}
+        >
+            <div className={`text-[10px] font-bold uppercase mb-1 ${selected ? 'text-blue-600' : 'text-slate-400'}`}>{title}</div>
+            {body}
+        </button>
+    );
+};
+
+export const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({ conflicts, accounts, onApply }) => {
+  // The disk version is the default: it is what the other device or program saved on purpose
+  const [choices, setChoices] = useState<Record<string, MergeSide>>(() =>
+      Object.fromEntries(conflicts.map(c => [c.key, 'theirs']))
+  );
+
+  const setAll = (side: MergeSide) => setChoices(Object.fromEntries(conflicts.map(c => [c.key, side])));
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200 max-h-[80vh] flex flex-col">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+            <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><GitMerge size={20} /> Ledger Changed on Disk</h3>
+            <p className="text-xs text-slate-500">
+                The files were edited outside LedgerFlow while you had unsaved changes. Everything else was merged; {conflicts.length} entr{conflicts.length === 1 ? 'y was' : 'ies were'} changed on both sides. Pick the version to keep.
+            </p>
+        </div>
+        <div className="flex gap-1 text-xs shrink-0">
+            <button onClick={() => setAll('ours')} className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded">All: Mine</button>
+            <button onClick={() => setAll('theirs')} className="px-2 py-1 text-slate-500 hover:bg-slate-100 rounded">All: On Disk</button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto space-y-4 flex-1">
+          {conflicts.map(conflict => (
+              <div key={conflict.key} className="border border-slate-200 rounded-lg p-3">
+                  <div className="text-[11px] text-slate-400 mb-2">{KIND_LABELS[conflict.kind]} · {conflict.id}</div>
+                  <div className="flex gap-3">
+                      <EntityCard
+                          title="Mine"
+                          kind={conflict.kind}
+                          entity={conflict.ours}
+                          accounts={accounts}
+                          selected={choices[conflict.key] === 'ours'}
+                          onSelect={() => setChoices(prev => ({ ...prev, [conflict.key]: 'ours' }))}
+                      />
+                      <EntityCard
+                          title="On Disk"
+                          kind={conflict.kind}
+                          entity={conflict.theirs}
+                          accounts={accounts}
+                          selected={choices[conflict.key] === 'theirs'}
+                          onSelect={() => setChoices(prev => ({ ...prev, [conflict.key]: 'theirs' }))}
+                      />
+                  </div>
+              </div>
+          ))}
+      </div>
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 mt-4">
+           <button
+              type="button"
+              onClick={() => onApply(choices)}
+              className="px-6 py-2 text-sm font-bold text-white rounded shadow-sm bg-blue-600 hover:bg-blue-700"
+           >
+               Apply & Save
+           </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState, useMemo } from 'react';
+import { Account, AccountType, ExchangeRateTable, ImportResult, Transaction } from '../types';
+import { Upload, Landmark, AlertCircle } from 'lucide-react';
+import { getAccountPath, getSelectableAccounts } from '../services/ledgerService';
+import { OfxStatement, parseOfx, mapOfxStatements, UNCATEGORIZED_ACCOUNT_NAME } from '../services/ofxImportService';
+
+interface OfxImportDialogProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  exchangeRates: ExchangeRateTable;
+  onImport: (fileName: string, result: ImportResult) => void;
+  onCancel: () => void;
+}
+
+// Bank ACCTID → ledger account id, so the next statement of the same account is pre-assigned
+const ACCOUNT_MAP_KEY = 'ofxAccountMap';
+
+const loadAccountMap = (): Record<string, string> => JSON.parse(localStorage.getItem(ACCOUNT_MAP_KEY) || '{}');
+
+export const OfxImportDialog: React.FC<OfxImportDialogProps> = ({ accounts, transactions, exchangeRates, onImport, onCancel }) => {
+  const [fileName, setFileName] = useState('');
+  const [statements, setStatements] = useState<OfxStatement[]>([]);
+  const [accountIds, setAccountIds] = useState<string[]>([]);
+  const [error, setError] = useState('');
+
+  const result = useMemo(
+      () => mapOfxStatements(statements, accountIds, accounts, transactions, exchangeRates),
+      [statements, accountIds, accounts, transactions, exchangeRates]
+  );
+
+  const statementAccounts = getSelectableAccounts(accounts, accountIds)
+      .filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY)
+      .map(a => ({ id: a.id, path: getAccountPath(a, accounts) }))
+      .sort((a, b) => a.path.localeCompare(b.path));
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const parsed = parseOfx(await file.text());
+      setFileName(file.name);
+      setStatements(parsed);
+      setError(parsed.length === 0 ? 'No bank or credit card statement found in this file.' : '');
+      const map = loadAccountMap();
+      setAccountIds(parsed.map(s => (accounts.some(a => a.id === map[s.bankAccountId]) ? map[s.bankAccountId] : '')));
+  };
+
+  const setAccountAt = (index: number, accountId: string) => {
+      setAccountIds(prev => prev.map((id, i) => (i === index ? accountId : id)));
+  };
+
+  const handleImport = () => {
+      const map = loadAccountMap();
+      statements.forEach((s, i) => { if (s.bankAccountId && accountIds[i]) map[s.bankAccountId] = accountIds[i]; });
+      localStorage.setItem(ACCOUNT_MAP_KEY, JSON.stringify(map));
+      onImport(fileName, result);
+  };
+
+  const isReady = statements.length > 0 && accountIds.every(Boolean) && result.transactions.length > 0;
+
+  return (
+    <div className="bg-white p-6 rounded-lg shadow-sm border border-slate-200">
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-lg font-bold text-slate-800 flex items-center gap-2"><Landmark size={20} /> Import OFX / QFX Statement</h3>
+      </div>
+
+      <label className="flex items-center gap-2 border border-dashed border-slate-300 rounded px-3 py-2 text-sm text-slate-600 cursor-pointer hover:bg-slate-50 mb-4">
+          <Upload size={14} /> <span className="truncate">{fileName || 'Choose .ofx or .qfx file...'}</span>
+          <input type="file" accept=".ofx,.qfx" className="hidden" onChange={handleFile} />
+      </label>
+
+      {error && <div className="text-xs text-orange-600 bg-orange-50 p-2 rounded mb-4">{error}</div>}
+
+      {statements.map((statement, i) => (
+          <div key={i} className="grid grid-cols-12 gap-3 items-center mb-3">
+              <div className="col-span-5 text-sm">
+                  <div className="font-medium text-slate-700">Account {statement.bankAccountId || '(no id)'}</div>
+                  <div className="text-xs text-slate-400">{statement.transactions.length} entries · {statement.currency || 'no currency'}</div>
+              </div>
+              <div className="col-span-7">
+                  <select
+                      className="w-full border border-slate-300 rounded px-2 py-1.5 text-sm bg-white"
+                      value={accountIds[i] || ''}
+                      onChange={e => setAccountAt(i, e.target.value)}
+                  >
+                      <option value="">Book into account...</option>
+                      {statementAccounts.map(a => <option key={a.id} value={a.id}>{a.path}</option>)}
+                  </select>
+              </div>
+          </div>
+      ))}
+
+      {statements.length > 0 && accountIds.every(Boolean) && (
+          <div className="bg-slate-50 p-3 rounded border border-slate-200 text-xs text-slate-600 space-y-1">
+              <div><span className="font-bold text-green-600">{result.transactions.length}</span> new transaction(s)</div>
+              {result.duplicates > 0 && <div><span className="font-bold">{result.duplicates}</span> already imported (same FITID), skipped</div>}
+              {result.createdAccounts.length > 0 && (
+                  <div>Creates {result.createdAccounts.map(a => `"${getAccountPath(a, result.accounts)}"`).join(', ')}</div>
+              )}
+              <div className="text-slate-400">The other side is booked to {UNCATEGORIZED_ACCOUNT_NAME} under Expenses (money out) or Income (money in).</div>
+              {result.warnings.map((w, i) => (
+                  <div key={i} className="flex items-start gap-1 text-orange-600"><AlertCircle size={12} className="mt-0.5 shrink-0" /> {w}</div>
+              ))}
+          </div>
+      )}
+
+      <div className="flex justify-end gap-3 pt-4 border-t border-slate-100 mt-4">
+           <button
+              type="button"
+              onClick={onCancel}
+              className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded"
+           >
+               Cancel
+           </button>
+           <button
+              type="button"
+              onClick={handleImport}
+              disabled={!isReady}
+              className={`flex items-center gap-2 px-6 py-2 text-sm font-bold text-white rounded shadow-sm
+                  ${!isReady ? 'bg-slate-300 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'}
+              `}
+           >
+               <Upload size={16} /> Import {result.transactions.length} Transaction(s)
+           </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { getQuerySuggestions, parseQuery, QuerySuggestion, QuerySuggestionSources } from '../services/queryService';
+import { Search } from 'lucide-react';
+
+interface QueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  sources: QuerySuggestionSources; // Accounts, payees and tags offered while typing
+  placeholder?: string;
+}
+
+// Search box for the query language with completion of field names, account paths, payees and tags
+export const QueryInput: React.FC<QueryInputProps> = ({ value, onChange, sources, placeholder }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [cursor, setCursor] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+      () => isOpen ? getQuerySuggestions(value, cursor, sources) : { start: 0, end: 0, items: [] as QuerySuggestion[] },
+      [isOpen, value, cursor, sources]
+  );
+  const errors = useMemo(() => parseQuery(value).errors, [value]);
+
+  const updateCursor = () => setCursor(inputRef.current?.selectionStart ?? value.length);
+
+  const accept = (suggestion: QuerySuggestion) => {
+      const next = value.slice(0, suggestions.start) + suggestion.insert + value.slice(suggestions.end);
+      const position = suggestions.start + suggestion.insert.length;
+      onChange(next);
+      setCursor(position);
+      setHighlighted(0);
+      // Picking a field keeps the list open for its values
+      setIsOpen(!suggestion.isComplete);
+      requestAnimationFrame(() => {
+          inputRef.current?.focus();
+          inputRef.current?.setSelectionRange(position, position);
+      });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      const items = suggestions.items;
+      if (e.key === 'Escape') {
+          setIsOpen(false);
+          return;
+      }
+      if (items.length === 0) return;
+      if (e.key === 'ArrowDown') {
+          e.preventDefault();
+          setHighlighted(h => (h + 1) % items.length);
+      } else if (e.key === 'ArrowUp') {
+          e.preventDefault();
+          setHighlighted(h => (h - 1 + items.length) % items.length);
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+          e.preventDefault();
+          accept(items[Math.min(highlighted, items.length - 1)]);
+      }
+  };
+
+  return (
+    <div className="relative">
+        <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none" />
+        <input
+            ref={inputRef}
+            type="text"
+            placeholder={placeholder}
+            className={`w-full pl-8 pr-3 py-2 text-sm font-mono border rounded focus:ring-2 focus:ring-blue-100 outline-none ${errors.length > 0 ? 'border-amber-400' : 'border-slate-300'}`}
+            value={value}
+            onChange={(e) => {
+                onChange(e.target.value);
+                setCursor(e.target.selectionStart ?? e.target.value.length);
+                setHighlighted(0);
+                setIsOpen(true);
+            }}
+            onKeyDown={handleKeyDown}
+            onKeyUp={updateCursor}
+            onClick={() => { updateCursor(); setIsOpen(true); }}
+            onFocus={() => { updateCursor(); setIsOpen(true); }}
+            onBlur={() => setIsOpen(false)}
+            title={errors.join('\n')}
+        />
+        {suggestions.items.length > 0 && (
+            <div className="absolute left-0 right-0 top-full mt-1 z-30 bg-white border border-slate-200 rounded shadow-lg max-h-64 overflow-y-auto">
+                {suggestions.items.map((item, i) => (
+                    <button
+                        key={item.label}
+                        type="button"
+                        // Keep the focus in the input so onBlur does not close the list first
+                        onMouseDown={(e) => { e.preventDefault(); accept(item); }}
+                        onMouseEnter={() => setHighlighted(i)}
+                        className={`w-full text-left px-3 py-1.5 text-sm flex justify-between gap-4 ${i === highlighted ? 'bg-blue-50 text-blue-700' : 'text-slate-700'}`}
+                    >
+                        <span className="font-mono truncate">{item.label}</span>
+                        {item.hint && <span className="text-xs text-slate-400 truncate">{item.hint}</span>}
+                    </button>
+                ))}
+            </div>
+        )}
+        {errors.length > 0 && <div className="text-[11px] text-amber-600 mt-1">{errors[0]}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,202 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { Account, AccountType, ExchangeRateTable, ReconciliationItem, SplitRef, SplitStatus, Transaction } from '../types';
+import { getAccountPath, getSelectableAccounts } from '../services/ledgerService';
+import { getReconciliationItems, getReconciledBalance, getClearedBalance } from '../services/reconciliationService';
+import { getAccountCurrency } from '../services/currencyService';
+import { parseMoney, fromMinorUnits, addMoney, isZeroMoney, formatMoney } from '../services/moneyService';
+import { ListChecks, Lock, CheckCircle2, AlertTriangle } from 'lucide-react';
+
+interface ReconciliationViewProps {
+  accounts: Account[];
+  transactions: Transaction[];
+  exchangeRates: ExchangeRateTable;
+  initialAccountId: string | null;
+  onSetStatus: (refs: SplitRef[], status: SplitStatus) => void;
+  onFinish: (accountId: string, items: ReconciliationItem[]) => void;
+}
+
+export const ReconciliationView: React.FC<ReconciliationViewProps> = ({
+  accounts,
+  transactions,
+  exchangeRates,
+  initialAccountId,
+  onSetStatus,
+  onFinish
+}) => {
+  const [accountId, setAccountId] = useState(initialAccountId || '');
+  const [statementDate, setStatementDate] = useState(new Date().toISOString().split('T')[0]);
+  const [statementBalance, setStatementBalance] = useState('');
+
+  // Follow links from the Net Worth Dashboard
+  useEffect(() => {
+      if (initialAccountId) setAccountId(initialAccountId);
+  }, [initialAccountId]);
+
+  // Only balance sheet accounts appear on bank statements
+  const accountOptions = useMemo(() => {
+      return getSelectableAccounts(accounts, accountId ? [accountId] : [])
+        .filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY)
+        .map(a => ({ id: a.id, fullPath: getAccountPath(a, accounts) }))
+        .sort((a, b) => a.fullPath.localeCompare(b.fullPath));
+  }, [accounts, accountId]);
+
+  const account = accounts.find(a => a.id === accountId);
+  const currency = getAccountCurrency(account, exchangeRates);
+
+  // Liabilities are negative in the ledger but statements show the amount owed
+  const sign = account?.type === AccountType.LIABILITY ? -1 : 1;
+
+  const items = useMemo(
+      () => account ? getReconciliationItems(account.id, accounts, transactions, exchangeRates, statementDate) : [],
+      [account, accounts, transactions, exchangeRates, statementDate]
+  );
+  const reconciledBalance = useMemo(
+      () => account ? getReconciledBalance(account.id, accounts, transactions, exchangeRates) : 0,
+      [account, accounts, transactions, exchangeRates]
+  );
+  const clearedBalance = getClearedBalance(reconciledBalance, items);
+
+  const parsedStatement = parseMoney(statementBalance);
+  const targetBalance = parsedStatement === null ? null : sign * fromMinorUnits(parsedStatement);
+  const difference = targetBalance === null ? null : addMoney(targetBalance, -clearedBalance);
+  const clearedCount = items.filter(i => i.status === 'cleared').length;
+  const canFinish = difference !== null && isZeroMoney(difference) && clearedCount > 0;
+
+  const toggleItem = (item: ReconciliationItem) => {
+      onSetStatus([item], item.status === 'cleared' ? 'pending' : 'cleared');
+  };
+
+  const toggleAll = () => {
+      const allCleared = items.length > 0 && clearedCount === items.length;
+      onSetStatus(items, allCleared ? 'pending' : 'cleared');
+  };
+
+  const fmt = (amount: number) => `${formatMoney(sign * amount)} ${currency}`;
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm">
+            <div className="flex items-center gap-3 mb-4">
+                <ListChecks size={28} className="text-blue-500" />
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800">Reconcile Account</h2>
+                    <p className="text-sm text-slate-500">Tick every entry that appears on the statement. Finishing locks the ticked entries as reconciled.</p>
+                </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                    <label className="block text-xs font-semibold text-slate-500 mb-1">Account (incl. sub-accounts)</label>
+                    <select
+                        className="w-full border border-slate-300 rounded p-2 text-sm bg-white"
+                        value={accountId}
+                        onChange={e => setAccountId(e.target.value)}
+                    >
+                        <option value="">Select Account...</option>
+                        {accountOptions.map(a => <option key={a.id} value={a.id}>{a.fullPath}</option>)}
+                    </select>
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-slate-500 mb-1">Statement End Date</label>
+                    <input type="date" className="w-full border border-slate-300 rounded p-2 text-sm" value={statementDate} onChange={e => setStatementDate(e.target.value)} />
+                </div>
+                <div>
+                    <label className="block text-xs font-semibold text-slate-500 mb-1">
+                        Statement Ending Balance ({currency}){account?.type === AccountType.LIABILITY && ', amount owed'}
+                    </label>
+                    <input
+                        type="text"
+                        inputMode="decimal"
+                        placeholder="0.00"
+                        className="w-full border border-slate-300 rounded p-2 text-sm font-mono"
+                        value={statementBalance}
+                        onChange={e => setStatementBalance(e.target.value)}
+                    />
+                </div>
+            </div>
+        </div>
+
+        {account && (
+            <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Previously Reconciled</div>
+                    <div className="text-xl font-bold font-mono text-slate-700">{fmt(reconciledBalance)}</div>
+                </div>
+                <div className="bg-white p-4 rounded-lg border border-slate-200 shadow-sm">
+                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Cleared Balance</div>
+                    <div className="text-xl font-bold font-mono text-blue-600">{fmt(clearedBalance)}</div>
+                </div>
+                <div className={`p-4 rounded-lg border shadow-sm ${difference === null ? 'bg-white border-slate-200' : isZeroMoney(difference) ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'}`}>
+                    <div className="text-slate-500 text-xs font-bold uppercase mb-1">Difference</div>
+                    <div className={`text-xl font-bold font-mono ${difference !== null && isZeroMoney(difference) ? 'text-green-600' : 'text-orange-600'}`}>
+                        {difference === null ? '—' : fmt(difference)}
+                    </div>
+                </div>
+            </div>
+
+            <div className="bg-white rounded-lg border border-slate-200 shadow-sm overflow-hidden">
+                <div className="p-3 border-b border-slate-100 bg-slate-50 flex justify-between items-center">
+                    <h3 className="font-bold text-slate-700 text-sm">Open Entries up to {statementDate}</h3>
+                    <span className="text-xs text-slate-400">{clearedCount} of {items.length} cleared</span>
+                </div>
+                <table className="w-full text-sm text-left">
+                    <thead>
+                        <tr className="text-xs text-slate-500 border-b border-slate-200">
+                            <th className="p-2 pl-4 w-10">
+                                <input type="checkbox" checked={items.length > 0 && clearedCount === items.length} onChange={toggleAll} disabled={items.length === 0} />
+                            </th>
+                            <th className="p-2 w-28">Date</th>
+                            <th className="p-2">Payee / Description</th>
+                            <th className="p-2">Account</th>
+                            <th className="p-2 text-right pr-4">Amount</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {items.length === 0 ? (
+                            <tr><td colSpan={5} className="p-8 text-center text-slate-400">No open entries on or before the statement date.</td></tr>
+                        ) : items.map(item => (
+                            <tr
+                                key={`${item.transactionId}-${item.splitIndex}`}
+                                className={`border-b border-slate-50 cursor-pointer ${item.status === 'cleared' ? 'bg-blue-50/50' : 'hover:bg-slate-50'}`}
+                                onClick={() => toggleItem(item)}
+                            >
+                                <td className="p-2 pl-4">
+                                    <input type="checkbox" checked={item.status === 'cleared'} onChange={() => toggleItem(item)} onClick={e => e.stopPropagation()} />
+                                </td>
+                                <td className="p-2 text-slate-500 whitespace-nowrap">{item.date}</td>
+                                <td className="p-2 text-slate-700">
+                                    <span className="font-medium">{item.payee || '-'}</span>
+                                    {item.description && <span className="text-slate-400"> · {item.description}</span>}
+                                    {item.memo && <div className="text-xs text-slate-400 italic">{item.memo}</div>}
+                                </td>
+                                <td className="p-2 text-slate-500 text-xs">{accounts.find(a => a.id === item.accountId)?.name || 'Unknown'}</td>
+                                <td className={`p-2 pr-4 text-right font-mono font-bold ${item.amount >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {formatMoney(item.amount)}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="p-3 border-t border-slate-100 flex justify-between items-center">
+                    <div className="text-xs text-slate-500 flex items-center gap-2">
+                        {difference !== null && !isZeroMoney(difference) && (
+                            <><AlertTriangle size={14} className="text-orange-500" /> Cleared entries do not match the statement yet.</>
+                        )}
+                        {canFinish && (
+                            <><CheckCircle2 size={14} className="text-green-600" /> Balanced with the statement.</>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => onFinish(account.id, items)}
+                        disabled={!canFinish}
+                        className="flex items-center gap-2 px-4 py-2 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded disabled:bg-slate-300"
+                    >
+                        <Lock size={14} /> Finish Reconciliation
+                    </button>
+                </div>
+            </div>
+            </>
+        )}
+    </div>
+  );
+};
@@ -1,7 +1,8 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Account, RecurringTransaction, Frequency, AccountType, Split, Transaction } from '../types';
 import { CalendarClock, Plus, Trash2, ArrowRight, CheckCircle, XCircle, Edit2, Save, X } from 'lucide-react';
-import { generateId, getAccountPath } from '../services/ledgerService';
+import { generateId, getAccountPath, getSelectableAccounts } from '../services/ledgerService';
+import { parseMoney, fromMinorUnits, formatMoney } from '../services/moneyService';
 
 interface RecurringManagerProps {
     accounts: Account[];
@@ -68,12 +69,13 @@ export const RecurringManager: React.FC<RecurringManagerProps> = ({
         }
     }, [payee, editingId, description, transactions]);
 
+    // Archived accounts stay selectable only when the rule being edited already uses them
     const accountOptions = useMemo(() => {
-        return accounts.map(acc => ({
+        return getSelectableAccounts(accounts, [fromAccount, toAccount]).map(acc => ({
             ...acc,
             fullPath: getAccountPath(acc, accounts)
         })).sort((a, b) => a.fullPath.localeCompare(b.fullPath));
-    }, [accounts]);
+    }, [accounts, fromAccount, toAccount]);
 
     const resetForm = () => {
         setPayee('');
@@ -110,7 +112,8 @@ export const RecurringManager: React.FC<RecurringManagerProps> = ({
         e.preventDefault();
         if (!amount || !fromAccount || !toAccount) return;
 
-        const val = Number(amount);
+        const val = fromMinorUnits(parseMoney(amount) ?? 0);
+        if (!val) return;
         const splits: Split[] = [
             { accountId: toAccount, amount: val },  // Debit (Expense/Asset Increase)
             { accountId: fromAccount, amount: -val } // Credit (Asset Decrease/Income)
@@ -261,7 +264,7 @@ export const RecurringManager: React.FC<RecurringManagerProps> = ({
                                     <p className="text-xs text-slate-500">{rt.description}</p>
                                 </div>
                                 <div className="text-right">
-                                    <div className="font-bold text-lg text-slate-800">${amount.toFixed(2)}</div>
+                                    <div className="font-bold text-lg text-slate-800">${formatMoney(amount)}</div>
                                     <div className="text-[10px] font-bold uppercase bg-slate-100 text-slate-500 px-1.5 py-0.5 rounded inline-block">{rt.frequency}</div>
                                 </div>
                             </div>
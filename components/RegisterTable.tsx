@@ -0,0 +1,185 @@
+import React, { useState, useMemo } from 'react';
+import { Account, RegisterRow, Transaction } from '../types';
+import { getAccountPath, getDescendantAccountIds, getSelectableAccounts, isTransactionBalanced } from '../services/ledgerService';
+import { createRegisterEntry, getRegisterLabels, getRegisterSign } from '../services/registerService';
+import { parseMoney, formatMoney } from '../services/moneyService';
+import { useVirtualRows } from './useVirtualRows';
+import { ArrowUp, ArrowDown, Edit2, Trash2, AlertTriangle, Lock, Plus } from 'lucide-react';
+
+interface RegisterTableProps {
+  scrollRef: React.RefObject<HTMLDivElement>; // The scrolling container, for windowed rendering
+  account: Account; // The account or branch the register is for
+  accounts: Account[];
+  rows: RegisterRow[]; // Oldest first; may be narrowed by the journal filters
+  openingBalance: number;
+  rangeStart: string;
+  defaultDate: string; // Pre-filled in the entry row
+  direction: 'asc' | 'desc';
+  onToggleDirection: () => void;
+  onEditTransaction: (tx: Transaction) => void;
+  onDeleteTransaction: (id: string) => void;
+  onAddTransaction?: (tx: Transaction) => void;
+}
+
+const emptyEntry = (date: string) => ({ date, payee: '', description: '', counterAccountId: '', increase: '', decrease: '' });
+
+export const RegisterTable: React.FC<RegisterTableProps> = ({
+  scrollRef,
+  account,
+  accounts,
+  rows,
+  openingBalance,
+  rangeStart,
+  defaultDate,
+  direction,
+  onToggleDirection,
+  onEditTransaction,
+  onDeleteTransaction,
+  onAddTransaction
+}) => {
+  const [entry, setEntry] = useState(() => emptyEntry(defaultDate));
+
+  const sign = getRegisterSign(account.type);
+  const labels = getRegisterLabels(account.type);
+  const branchIds = useMemo(() => getDescendantAccountIds(account.id, accounts), [account.id, accounts]);
+  const accountNames = useMemo(() => new Map(accounts.map(a => [a.id, a.name])), [accounts]);
+
+  // Anything outside the branch can be the other side of a typed entry
+  const counterOptions = useMemo(() => {
+      return getSelectableAccounts(accounts, entry.counterAccountId ? [entry.counterAccountId] : [])
+        .filter(a => !branchIds.has(a.id))
+        .map(a => ({ id: a.id, fullPath: getAccountPath(a, accounts) }))
+        .sort((a, b) => a.fullPath.localeCompare(b.fullPath));
+  }, [accounts, branchIds, entry.counterAccountId]);
+
+  const increase = entry.increase ? parseMoney(entry.increase) : 0;
+  const decrease = entry.decrease ? parseMoney(entry.decrease) : 0;
+  const entryAmount = increase === null || decrease === null ? null : increase - decrease;
+  const canAdd = !!entry.date && !!entry.counterAccountId && entryAmount !== null && entryAmount !== 0;
+
+  const handleAdd = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!onAddTransaction || !canAdd) return;
+      onAddTransaction(createRegisterEntry(account, entry.counterAccountId, entryAmount!, entry));
+      // Keep the date for the next line, as when working through a statement
+      setEntry(emptyEntry(entry.date));
+  };
+
+  const fmtBalance = (balance: number) => {
+      const shown = sign * balance;
+      return <span className={shown < 0 ? 'text-red-600' : 'text-slate-800'}>{formatMoney(shown)}</span>;
+  };
+
+  // Names on the other side of the entry; branch sub-accounts are shown when the register covers several
+  const describeCounter = (tx: Transaction): string => {
+      const others = tx.splits.filter(s => !branchIds.has(s.accountId));
+      if (others.length === 0) {
+          return tx.splits.map(s => accountNames.get(s.accountId) || 'Unknown').join(' → ');
+      }
+      if (others.length > 1) return `Split (${others.length} accounts)`;
+      return accountNames.get(others[0].accountId) || 'Unknown';
+  };
+
+  const openingRow = (
+      <tr key="opening" className="bg-slate-50/60 text-slate-500">
+          <td className="p-3 whitespace-nowrap">{rangeStart}</td>
+          <td className="p-3 italic" colSpan={5}>Opening balance</td>
+          <td className="p-3 text-right font-mono font-bold">{fmtBalance(openingBalance)}</td>
+          <td />
+      </tr>
+  );
+
+  const orderedRows = useMemo(() => direction === 'asc' ? rows : [...rows].reverse(), [rows, direction]);
+  const virtualRows = useVirtualRows(scrollRef, orderedRows, row => row.transaction.id, () => 45);
+
+  const inputClass = 'w-full px-2 py-1.5 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none bg-white';
+
+  return (
+    <form onSubmit={handleAdd} className="contents">
+    <table className="w-full text-sm text-left border-collapse">
+        <thead className="bg-slate-50 text-slate-500 font-semibold border-b border-slate-200 sticky top-0 z-10 shadow-sm">
+            <tr>
+                <th className="p-3 w-32 whitespace-nowrap cursor-pointer hover:bg-slate-100 select-none" onClick={onToggleDirection}>
+                    <div className="flex items-center gap-1">
+                        Date {direction === 'asc' ? <ArrowUp size={12}/> : <ArrowDown size={12}/>}
+                    </div>
+                </th>
+                <th className="p-3 w-48 whitespace-nowrap">Payee</th>
+                <th className="p-3 min-w-[180px] whitespace-nowrap">Description</th>
+                <th className="p-3 w-48 whitespace-nowrap">Account</th>
+                <th className="p-3 text-right w-28 whitespace-nowrap">{labels.increase}</th>
+                <th className="p-3 text-right w-28 whitespace-nowrap">{labels.decrease}</th>
+                <th className="p-3 text-right w-32 whitespace-nowrap">Balance</th>
+                <th className="p-3 text-center w-24 whitespace-nowrap">Action</th>
+            </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100">
+            {direction === 'asc' && openingRow}
+            {virtualRows.paddingTop > 0 && <tr style={{ height: virtualRows.paddingTop }} />}
+            {orderedRows.length === 0 ? (
+                <tr><td colSpan={8} className="p-12 text-center text-slate-400">
+                    No entries for this account in this date range matching your filters.
+                </td></tr>
+            ) : virtualRows.visible.map(row => {
+                const tx = row.transaction;
+                const shown = sign * row.amount;
+                const branchSplits = tx.splits.filter(s => branchIds.has(s.accountId));
+                const isReconciled = branchSplits.every(s => s.status === 'reconciled');
+                const isCleared = !isReconciled && branchSplits.every(s => s.status === 'cleared' || s.status === 'reconciled');
+                return (
+                    <tr key={tx.id} ref={virtualRows.measure(tx.id)} className="hover:bg-slate-50/50">
+                        <td className="p-3 text-slate-500 whitespace-nowrap align-top">{tx.date}</td>
+                        <td className="p-3 font-medium text-slate-700 align-top">{tx.payee || '-'}</td>
+                        <td className="p-3 text-slate-600 align-top">{tx.description || '-'}</td>
+                        <td className="p-3 text-slate-700 align-top whitespace-nowrap">{describeCounter(tx)}</td>
+                        <td className="p-3 text-right font-mono text-slate-700 align-top">{shown > 0 ? formatMoney(shown) : ''}</td>
+                        <td className="p-3 text-right font-mono text-slate-700 align-top">{shown < 0 ? formatMoney(-shown) : ''}</td>
+                        <td className="p-3 text-right font-mono font-bold align-top whitespace-nowrap">
+                            {fmtBalance(row.balance)}
+                            {isCleared && <span className="ml-1 text-[10px] font-bold text-blue-500" title="Cleared">C</span>}
+                            {isReconciled && <Lock size={10} className="inline ml-1 text-green-600" />}
+                        </td>
+                        <td className="p-3 text-center align-top">
+                            <div className="flex items-center justify-center gap-1">
+                                <button type="button" onClick={() => onEditTransaction(tx)} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors"><Edit2 size={14} /></button>
+                                <button type="button" onClick={() => onDeleteTransaction(tx.id)} className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded transition-colors"><Trash2 size={14} /></button>
+                                {!isTransactionBalanced(tx.splits) && <AlertTriangle size={14} className="text-amber-500 cursor-help" />}
+                            </div>
+                        </td>
+                    </tr>
+                );
+            })}
+            {virtualRows.paddingBottom > 0 && <tr style={{ height: virtualRows.paddingBottom }} />}
+            {direction === 'desc' && openingRow}
+        </tbody>
+        {onAddTransaction && (
+            <tfoot className="bg-blue-50/40 border-t-2 border-blue-100 sticky bottom-0">
+                <tr>
+                    <td className="p-2"><input type="date" className={inputClass} value={entry.date} onChange={e => setEntry({ ...entry, date: e.target.value })} /></td>
+                    <td className="p-2"><input list="journal-payee-list" placeholder="Payee" className={inputClass} value={entry.payee} onChange={e => setEntry({ ...entry, payee: e.target.value })} /></td>
+                    <td className="p-2"><input placeholder="Description" className={inputClass} value={entry.description} onChange={e => setEntry({ ...entry, description: e.target.value })} /></td>
+                    <td className="p-2">
+                        <select className={inputClass} value={entry.counterAccountId} onChange={e => setEntry({ ...entry, counterAccountId: e.target.value })}>
+                            <option value="">Account...</option>
+                            {counterOptions.map(o => <option key={o.id} value={o.id}>{o.fullPath}</option>)}
+                        </select>
+                    </td>
+                    <td className="p-2"><input inputMode="decimal" placeholder="0.00" className={`${inputClass} text-right font-mono ${increase === null ? 'border-red-300' : ''}`} value={entry.increase} onChange={e => setEntry({ ...entry, increase: e.target.value })} /></td>
+                    <td className="p-2"><input inputMode="decimal" placeholder="0.00" className={`${inputClass} text-right font-mono ${decrease === null ? 'border-red-300' : ''}`} value={entry.decrease} onChange={e => setEntry({ ...entry, decrease: e.target.value })} /></td>
+                    <td className="p-2 text-right text-[11px] text-slate-400">Base currency</td>
+                    <td className="p-2 text-center">
+                        <button
+                            type="submit"
+                            disabled={!canAdd}
+                            className="flex items-center gap-1 mx-auto px-3 py-1.5 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-40"
+                        >
+                            <Plus size={12} /> Add
+                        </button>
+                    </td>
+                </tr>
+            </tfoot>
+        )}
+    </table>
+    </form>
+  );
+};
@@ -0,0 +1,300 @@
+import React, { useState, useMemo } from 'react';
+import { Account, AccountType, CategorizationRule, RuleCondition, RuleField, RuleOperator, Transaction } from '../types';
+import { Wand2, Plus, Trash2, Edit2, Save, X, ArrowUp, ArrowDown, CheckCircle, XCircle, ArrowRight, FlaskConical } from 'lucide-react';
+import { getAccountPath, getSelectableAccounts, parseTags } from '../services/ledgerService';
+import { formatMoney } from '../services/moneyService';
+import { RULE_OPERATORS, createRule, getConditionError, getCategorySplitIndex, getRuleSubject, testRuleAgainstHistory } from '../services/rulesService';
+
+interface RulesViewProps {
+  rules: CategorizationRule[];
+  accounts: Account[];
+  transactions: Transaction[];
+  onChange: (rules: CategorizationRule[]) => void;
+}
+
+const FIELD_LABELS: Record<RuleField, string> = { payee: 'Payee', description: 'Description', amount: 'Amount' };
+
+const OPERATOR_LABELS: Record<RuleOperator, string> = {
+    contains: 'contains',
+    equals: 'is',
+    startsWith: 'starts with',
+    matches: 'matches pattern',
+    greaterThan: 'is more than',
+    lessThan: 'is less than'
+};
+
+// How many history matches the preview lists
+const PREVIEW_LIMIT = 25;
+
+const describeCondition = (condition: RuleCondition) =>
+    `${FIELD_LABELS[condition.field]} ${OPERATOR_LABELS[condition.operator]} ${condition.operator === 'matches' ? condition.value : `"${condition.value}"`}`;
+
+export const RulesView: React.FC<RulesViewProps> = ({ rules, accounts, transactions, onChange }) => {
+  const [draft, setDraft] = useState<CategorizationRule | null>(null);
+  const [tagText, setTagText] = useState('');
+
+  const accountPath = (id: string) => {
+      const account = accounts.find(a => a.id === id);
+      return account ? getAccountPath(account, accounts) : 'Unknown Account';
+  };
+
+  // Categories only: a rule books the non-bank side of an entry
+  const categoryOptions = useMemo(() => {
+      return getSelectableAccounts(accounts, draft ? [draft.accountId] : [])
+          .filter(a => a.type !== AccountType.ASSET && a.type !== AccountType.LIABILITY)
+          .map(a => ({ id: a.id, path: getAccountPath(a, accounts) }))
+          .sort((a, b) => a.path.localeCompare(b.path));
+  }, [accounts, draft]);
+
+  const preview = useMemo(
+      () => (draft ? testRuleAgainstHistory(draft, transactions, accounts) : []),
+      [draft, transactions, accounts]
+  );
+  const changeCount = preview.filter(p => p.change).length;
+
+  const openEditor = (rule: CategorizationRule) => {
+      setDraft({ ...rule, conditions: rule.conditions.map(c => ({ ...c })) });
+      setTagText((rule.tags || []).join(', '));
+  };
+
+  const closeEditor = () => {
+      setDraft(null);
+      setTagText('');
+  };
+
+  const updateCondition = (index: number, patch: Partial<RuleCondition>) => {
+      if (!draft) return;
+      const conditions = draft.conditions.map((c, i) => {
+          if (i !== index) return c;
+          const next = { ...c, ...patch };
+          // Switching between text and amount fields resets an operator that no longer applies
+          if (!RULE_OPERATORS[next.field].includes(next.operator)) next.operator = RULE_OPERATORS[next.field][0];
+          return next;
+      });
+      setDraft({ ...draft, conditions });
+  };
+
+  const isDraftValid = !!draft && !!draft.accountId && draft.conditions.length > 0 && draft.conditions.every(c => !getConditionError(c));
+
+  const handleSave = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!draft || !isDraftValid) return;
+      const tags = parseTags(tagText);
+      const rule: CategorizationRule = {
+          ...draft,
+          name: draft.name.trim() || describeCondition(draft.conditions[0]),
+          payee: draft.payee?.trim() || undefined,
+          tags: tags.length > 0 ? tags : undefined
+      };
+      const exists = rules.some(r => r.id === rule.id);
+      onChange(exists ? rules.map(r => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+      closeEditor();
+  };
+
+  const moveRule = (index: number, offset: number) => {
+      const target = index + offset;
+      if (target < 0 || target >= rules.length) return;
+      const next = [...rules];
+      [next[index], next[target]] = [next[target], next[index]];
+      onChange(next);
+  };
+
+  return (
+    <div className="space-y-6 animate-in fade-in duration-500">
+        <div className="bg-white p-6 rounded-lg border border-slate-200 shadow-sm flex flex-col md:flex-row justify-between items-center gap-4">
+            <div>
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                    <Wand2 className="text-purple-600"/> Categorization Rules
+                </h2>
+                <p className="text-sm text-slate-500 mt-1">
+                    Rules are tried from top to bottom; the first match picks the category of imported and newly typed entries.
+                </p>
+            </div>
+            {!draft && (
+                <button
+                    onClick={() => openEditor(createRule())}
+                    className="flex items-center gap-2 bg-purple-600 hover:bg-purple-700 text-white px-4 py-2 rounded-lg font-bold shadow-sm transition-colors"
+                >
+                    <Plus size={18} /> Add Rule
+                </button>
+            )}
+        </div>
+
+        {draft && (
+            <div className="bg-purple-50 p-6 rounded-lg border border-purple-100 shadow-inner animate-in slide-in-from-top-4">
+                <div className="flex justify-between items-center mb-4">
+                    <h3 className="font-bold text-purple-900">
+                        {rules.some(r => r.id === draft.id) ? 'Edit Rule' : 'New Rule'}
+                    </h3>
+                    <button onClick={closeEditor} className="text-slate-400 hover:text-slate-600">
+                        <X size={20} />
+                    </button>
+                </div>
+                <form onSubmit={handleSave}>
+                    <div className="mb-4">
+                        <label className="block text-xs font-bold text-purple-700 mb-1">Name</label>
+                        <input type="text" className="w-full p-2 border rounded text-sm" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="e.g. Amazon purchases" />
+                    </div>
+
+                    <label className="block text-xs font-bold text-purple-700 mb-1">When all of these match</label>
+                    <div className="space-y-2 mb-4 bg-white p-3 rounded border border-purple-100">
+                        {draft.conditions.map((condition, i) => {
+                            const error = getConditionError(condition);
+                            return (
+                                <div key={i} className="flex gap-2 items-start">
+                                    <select className="p-2 border rounded text-sm" value={condition.field} onChange={e => updateCondition(i, { field: e.target.value as RuleField })}>
+                                        {(Object.keys(FIELD_LABELS) as RuleField[]).map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                                    </select>
+                                    <select className="p-2 border rounded text-sm" value={condition.operator} onChange={e => updateCondition(i, { operator: e.target.value as RuleOperator })}>
+                                        {RULE_OPERATORS[condition.field].map(o => <option key={o} value={o}>{OPERATOR_LABELS[o]}</option>)}
+                                    </select>
+                                    <div className="flex-1">
+                                        <input
+                                            type="text"
+                                            className={`w-full p-2 border rounded text-sm ${condition.field === 'amount' || condition.operator === 'matches' ? 'font-mono' : ''}`}
+                                            value={condition.value}
+                                            onChange={e => updateCondition(i, { value: e.target.value })}
+                                            placeholder={condition.field === 'amount' ? '15.99' : condition.operator === 'matches' ? '/netflix/i' : 'AMZN'}
+                                        />
+                                        {error && condition.value && <div className="text-[10px] text-red-500 mt-0.5">{error}</div>}
+                                    </div>
+                                    <button
+                                        type="button"
+                                        onClick={() => setDraft({ ...draft, conditions: draft.conditions.filter((_, j) => j !== i) })}
+                                        disabled={draft.conditions.length === 1}
+                                        className="p-2 text-slate-300 hover:text-red-500 disabled:opacity-30 disabled:hover:text-slate-300"
+                                    >
+                                        <Trash2 size={16} />
+                                    </button>
+                                </div>
+                            );
+                        })}
+                        <button
+                            type="button"
+                            onClick={() => setDraft({ ...draft, conditions: [...draft.conditions, { field: 'amount', operator: 'equals', value: '' }] })}
+                            className="text-xs text-purple-600 hover:text-purple-800 flex items-center gap-1"
+                        >
+                            <Plus size={12} /> Add Condition
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                        <div>
+                            <label className="block text-xs font-bold text-purple-700 mb-1">Book To (Category) *</label>
+                            <select className="w-full p-2 border rounded text-sm" value={draft.accountId} onChange={e => setDraft({ ...draft, accountId: e.target.value })} required>
+                                <option value="">Select Category...</option>
+                                {categoryOptions.map(a => <option key={a.id} value={a.id}>{a.path}</option>)}
+                            </select>
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-purple-700 mb-1">Rename Payee To</label>
+                            <input type="text" className="w-full p-2 border rounded text-sm" value={draft.payee || ''} onChange={e => setDraft({ ...draft, payee: e.target.value })} placeholder="Optional" />
+                        </div>
+                        <div>
+                            <label className="block text-xs font-bold text-purple-700 mb-1">Add Tags</label>
+                            <input type="text" className="w-full p-2 border rounded text-sm" value={tagText} onChange={e => setTagText(e.target.value)} placeholder="Optional, comma separated" />
+                        </div>
+                    </div>
+
+                    {/* Test against history */}
+                    <div className="bg-white p-3 rounded border border-purple-100 mb-6">
+                        <div className="text-xs font-bold text-slate-500 flex items-center gap-1 mb-2">
+                            <FlaskConical size={12} /> Tested Against History
+                        </div>
+                        {draft.conditions.some(c => getConditionError(c)) ? (
+                            <div className="text-xs text-slate-400">Complete the conditions to see which past entries match.</div>
+                        ) : (
+                            <>
+                                <div className="text-xs text-slate-600 mb-2">
+                                    Matches <span className="font-bold">{preview.length}</span> past transaction(s)
+                                    {draft.accountId && <>; <span className="font-bold text-purple-700">{changeCount}</span> would change</>}.
+                                </div>
+                                {preview.length > 0 && (
+                                    <div className="max-h-64 overflow-y-auto">
+                                        <table className="w-full text-xs">
+                                            <tbody>
+                                                {preview.slice(0, PREVIEW_LIMIT).map(({ transaction, change }) => {
+                                                    const index = getCategorySplitIndex(transaction, accounts);
+                                                    return (
+                                                        <tr key={transaction.id} className={`border-t border-slate-50 ${change ? '' : 'text-slate-400'}`}>
+                                                            <td className="py-1 pr-2 font-mono whitespace-nowrap">{transaction.date}</td>
+                                                            <td className="py-1 pr-2 truncate max-w-[160px]">{transaction.payee || transaction.description}</td>
+                                                            <td className="py-1 pr-2 text-right font-mono">{formatMoney(getRuleSubject(transaction).amount)}</td>
+                                                            <td className="py-1 truncate max-w-[260px]">
+                                                                {index === -1 ? 'Split or transfer, left alone' : accountPath(transaction.splits[index].accountId)}
+                                                                {change && index !== -1 && change.splits[index].accountId !== transaction.splits[index].accountId && (
+                                                                    <span className="text-purple-700"> <ArrowRight size={10} className="inline" /> {accountPath(change.splits[index].accountId)}</span>
+                                                                )}
+                                                            </td>
+                                                        </tr>
+                                                    );
+                                                })}
+                                            </tbody>
+                                        </table>
+                                        {preview.length > PREVIEW_LIMIT && <div className="text-[10px] text-slate-400 mt-1">…and {preview.length - PREVIEW_LIMIT} more</div>}
+                                    </div>
+                                )}
+                            </>
+                        )}
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button type="button" onClick={closeEditor} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-100 rounded">Cancel</button>
+                        <button
+                            type="submit"
+                            disabled={!isDraftValid}
+                            className={`flex items-center gap-2 px-4 py-2 text-sm font-bold text-white rounded shadow-sm ${isDraftValid ? 'bg-purple-600 hover:bg-purple-700' : 'bg-slate-300 cursor-not-allowed'}`}
+                        >
+                            <Save size={16} /> Save Rule
+                        </button>
+                    </div>
+                </form>
+            </div>
+        )}
+
+        <div className="bg-white rounded-lg border border-slate-200 shadow-sm divide-y divide-slate-100">
+            {rules.length === 0 && !draft && (
+                <div className="text-center py-12 text-slate-400">
+                    No rules yet. Add one to categorize imports automatically.
+                </div>
+            )}
+            {rules.map((rule, i) => (
+                <div key={rule.id} className={`flex items-center gap-4 p-4 ${rule.active ? '' : 'opacity-60 bg-slate-50'}`}>
+                    <div className="flex flex-col">
+                        <button onClick={() => moveRule(i, -1)} disabled={i === 0} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Try earlier">
+                            <ArrowUp size={14} />
+                        </button>
+                        <button onClick={() => moveRule(i, 1)} disabled={i === rules.length - 1} className="text-slate-400 hover:text-slate-700 disabled:opacity-30" title="Try later">
+                            <ArrowDown size={14} />
+                        </button>
+                    </div>
+                    <div className="flex-1 min-w-0">
+                        <div className="font-bold text-slate-800 text-sm">{rule.name}</div>
+                        <div className="text-xs text-slate-500 truncate">{rule.conditions.map(describeCondition).join(' and ')}</div>
+                    </div>
+                    <div className="flex items-center gap-2 text-xs text-slate-600 max-w-[40%]">
+                        <ArrowRight size={12} className="text-slate-400 shrink-0" />
+                        <span className="truncate font-medium">{accountPath(rule.accountId)}</span>
+                        {rule.payee && <span className="text-slate-400 truncate">as "{rule.payee}"</span>}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => openEditor(rule)} className="p-1.5 text-slate-400 hover:text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Edit">
+                            <Edit2 size={16} />
+                        </button>
+                        <button
+                            onClick={() => onChange(rules.map(r => (r.id === rule.id ? { ...r, active: !r.active } : r)))}
+                            className={`p-1.5 rounded transition-colors ${rule.active ? 'text-green-600 hover:bg-green-50' : 'text-slate-400 hover:bg-slate-100'}`}
+                            title={rule.active ? 'Disable' : 'Enable'}
+                        >
+                            {rule.active ? <CheckCircle size={16}/> : <XCircle size={16} />}
+                        </button>
+                        <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1.5 text-slate-300 hover:text-red-500 hover:bg-red-50 rounded transition-colors" title="Delete">
+                            <Trash2 size={16} />
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    </div>
+  );
+};
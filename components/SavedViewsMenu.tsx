@@ -0,0 +1,95 @@
+import React, { useState } from 'react';
+import { SavedView, SavedViewScreen } from '../types';
+import { DATE_PRESET_LABELS, setDefaultView, upsertSavedView } from '../services/viewService';
+import { Bookmark, ChevronDown, Pin, PinOff, Trash2, Save } from 'lucide-react';
+
+interface SavedViewsMenuProps {
+  screen: SavedViewScreen;
+  views: SavedView[]; // All saved views; only the ones of `screen` are listed
+  onChange: (views: SavedView[]) => void;
+  onApply: (view: SavedView) => void;
+  captureView: (name: string) => SavedView; // The current filters of the screen as a view
+}
+
+const describeRange = (view: SavedView) =>
+  'preset' in view.range ? DATE_PRESET_LABELS[view.range.preset] : `${view.range.start} to ${view.range.end}`;
+
+// Dropdown to recall, save, pin and delete the named filters of a screen
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ screen, views, onChange, onApply, captureView }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [name, setName] = useState('');
+
+  const screenViews = views.filter(v => v.screen === screen);
+  const replaces = screenViews.some(v => v.name.toLowerCase() === name.trim().toLowerCase());
+
+  const handleSave = (e: React.FormEvent) => {
+      e.preventDefault();
+      if (!name.trim()) return;
+      onChange(upsertSavedView(views, captureView(name)));
+      setName('');
+  };
+
+  return (
+    <div className="relative">
+        <button
+            onClick={() => setIsOpen(!isOpen)}
+            className="flex items-center gap-1 text-xs text-slate-500 hover:text-blue-600 bg-white border border-slate-200 rounded px-2 py-1 shadow-sm"
+            title="Saved views"
+        >
+            <Bookmark size={12} /> Views <ChevronDown size={12} />
+        </button>
+        {isOpen && (
+            <>
+            {/* Clicking outside closes the menu */}
+            <div className="fixed inset-0 z-30" onClick={() => setIsOpen(false)} />
+            <div className="absolute left-0 top-full mt-1 z-40 w-80 bg-white border border-slate-200 rounded shadow-lg">
+                <div className="max-h-64 overflow-y-auto divide-y divide-slate-100">
+                    {screenViews.length === 0 ? (
+                        <div className="p-3 text-xs text-slate-400">No saved views yet.</div>
+                    ) : screenViews.map(v => (
+                        <div key={v.id} className="flex items-center gap-1 px-2 py-1.5 hover:bg-slate-50">
+                            <button
+                                onClick={() => { onApply(v); setIsOpen(false); }}
+                                className="flex-1 min-w-0 text-left"
+                            >
+                                <div className="text-sm text-slate-700 truncate">{v.name}</div>
+                                <div className="text-[11px] text-slate-400 truncate">{describeRange(v)}{v.query && ` · ${v.query}`}</div>
+                            </button>
+                            <button
+                                onClick={() => onChange(setDefaultView(views, screen, v.isDefault ? null : v.id))}
+                                className={`p-1 rounded ${v.isDefault ? 'text-blue-600' : 'text-slate-300 hover:text-blue-600'}`}
+                                title={v.isDefault ? 'Unpin as default' : 'Pin as default'}
+                            >
+                                {v.isDefault ? <PinOff size={14} /> : <Pin size={14} />}
+                            </button>
+                            <button
+                                onClick={() => onChange(views.filter(other => other.id !== v.id))}
+                                className="p-1 rounded text-slate-300 hover:text-red-600"
+                                title="Delete view"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+                <form onSubmit={handleSave} className="flex gap-1 p-2 border-t border-slate-200 bg-slate-50">
+                    <input
+                        placeholder="Save current filters as..."
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-slate-300 rounded focus:ring-2 focus:ring-blue-100 outline-none"
+                        value={name}
+                        onChange={e => setName(e.target.value)}
+                    />
+                    <button
+                        type="submit"
+                        disabled={!name.trim()}
+                        className="flex items-center gap-1 px-2 py-1 text-xs font-bold text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-40"
+                    >
+                        <Save size={12} /> {replaces ? 'Replace' : 'Save'}
+                    </button>
+                </form>
+            </div>
+            </>
+        )}
+    </div>
+  );
+};
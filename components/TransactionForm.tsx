@@ -1,11 +1,17 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { Account, Transaction, Split, AccountType } from '../types';
-import { Plus, Trash2, AlertCircle, Save, CreditCard, ArrowRightLeft, ScrollText, TrendingUp } from 'lucide-react';
-import { generateId, getAccountPath } from '../services/ledgerService';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Account, Transaction, Split, AccountType, ExchangeRateTable, CategorizationRule } from '../types';
+import { Plus, Trash2, AlertCircle, Save, CreditCard, ArrowRightLeft, ScrollText, TrendingUp, Wand2 } from 'lucide-react';
+import { generateId, getAccountPath, getSelectableAccounts, parseTags, getAllTags } from '../services/ledgerService';
+import { getAccountCurrency, getExchangeRate, buildForeignSplit } from '../services/currencyService';
+import { parseMoney, fromMinorUnits, multiplyMoney, formatMoney } from '../services/moneyService';
+import { findMatchingRule } from '../services/rulesService';
+import { DEFAULT_EXCHANGE_RATES } from '../constants';
 
 interface TransactionFormProps {
   accounts: Account[];
   transactions: Transaction[];
+  exchangeRates?: ExchangeRateTable;
+  rules?: CategorizationRule[]; // Categorization rules, used to pre-select the category of new entries
   initialData?: Transaction | null;
   onSave: (transaction: Transaction) => void;
   onCancel: () => void;
@@ -16,14 +22,17 @@ type TabMode = 'expense' | 'transfer' | 'journal' | 'income';
 // Local interface for form handling to allow flexible inputs (e.g. empty string, '-')
 interface FormSplit {
     accountId: string;
-    amount: string;
+    amount: string; // Base currency, this is what has to balance
+    originalAmount?: string; // Only used when the account is held in a foreign currency
+    memo?: string;
 }
 
-export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, transactions, initialData, onSave, onCancel }) => {
+export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, transactions, exchangeRates = DEFAULT_EXCHANGE_RATES, rules = [], initialData, onSave, onCancel }) => {
   const [mode, setMode] = useState<TabMode>('expense');
   const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
   const [payee, setPayee] = useState('');
   const [description, setDescription] = useState('');
+  const [tags, setTags] = useState('');
 
   // Get unique payees for autocomplete
   const uniquePayees = useMemo(() => {
@@ -34,6 +43,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
     return Array.from(payees).sort();
   }, [transactions]);
 
+  const knownTags = useMemo(() => getAllTags(transactions), [transactions]);
+
   // Simple Mode State (Expense, Income, Transfer)
   const [amount, setAmount] = useState<string>(''); // String to handle decimals better
   const [primaryAccountId, setPrimaryAccountId] = useState(''); // Debit side (Expense Category OR Destination)
@@ -66,9 +77,10 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
         setDate(initialData.date);
         setPayee(initialData.payee || '');
         setDescription(initialData.description || '');
+        setTags((initialData.tags || []).join(', '));
 
-        // Determine Mode based on splits
-        const hasTwoSplits = initialData.splits.length === 2;
+        // Determine Mode based on splits (memos can only be edited in journal mode)
+        const hasTwoSplits = initialData.splits.length === 2 && !initialData.splits.some(s => s.memo);
         const debitSplit = initialData.splits.find(s => s.amount > 0);
         const creditSplit = initialData.splits.find(s => s.amount < 0);
 
@@ -76,7 +88,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
             const debitAcc = accounts.find(a => a.id === debitSplit.accountId);
             const creditAcc = accounts.find(a => a.id === creditSplit.accountId);
             
-            setAmount(debitSplit.amount.toString());
+            // Simple modes are entered in the currency of the foreign side (funding account first)
+            const foreignSplit = [creditSplit, debitSplit].find(s => s.currency && s.originalAmount !== undefined);
+            setAmount(foreignSplit ? Math.abs(foreignSplit.originalAmount!).toString() : debitSplit.amount.toString());
             setPrimaryAccountId(debitSplit.accountId);
             setFundingAccountId(creditSplit.accountId);
 
@@ -99,12 +113,15 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
             // Convert numbers to strings for the form
             setSplits(initialData.splits.map(s => ({
                 accountId: s.accountId, 
-                amount: s.amount.toString() 
+                amount: s.amount.toString(),
+                originalAmount: s.originalAmount !== undefined ? s.originalAmount.toString() : undefined,
+                memo: s.memo
             })));
         }
     } else {
         // Reset if adding new
         setDate(new Date().toISOString().split('T')[0]);
+        setTags('');
         setAmount('');
         setPrimaryAccountId('');
         setFundingAccountId('');
@@ -125,17 +142,65 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
   }, [mode, initialData]);
 
   // Calculations for Advanced Mode
-  const total = splits.reduce((sum, s) => sum + (parseFloat(s.amount) || 0), 0);
-  const isBalanced = Math.abs(total) < 0.01;
+  // Summed in minor units so that "balanced" means exactly zero
+  const totalMinor = splits.reduce((sum, s) => sum + (parseMoney(s.amount) ?? 0), 0);
+  const total = fromMinorUnits(totalMinor);
+  const isBalanced = totalMinor === 0;
+
+  // Currency Helpers
+  const baseCurrency = exchangeRates.baseCurrency;
+  const currencyOf = (accountId: string) => getAccountCurrency(accounts.find(a => a.id === accountId), exchangeRates);
+  const rateOf = (currency: string) => getExchangeRate(exchangeRates, currency, date) ?? 1;
+
+  // Simple modes: the amount is typed in the funding account's currency, else the primary account's
+  const simpleCurrency = (() => {
+      const fundingCurrency = fundingAccountId ? currencyOf(fundingAccountId) : baseCurrency;
+      if (fundingCurrency !== baseCurrency) return fundingCurrency;
+      return primaryAccountId ? currencyOf(primaryAccountId) : baseCurrency;
+  })();
+  const simpleAmount = fromMinorUnits(parseMoney(amount) ?? 0);
+  const simpleBaseAmount = multiplyMoney(simpleAmount, rateOf(simpleCurrency));
+
+  // Categorization rule matching what has been typed so far (new entries only)
+  const matchedRule = useMemo(() => {
+      if (initialData || (mode !== 'expense' && mode !== 'income')) return null;
+      return findMatchingRule(rules, { payee, description, amount: simpleBaseAmount });
+  }, [rules, initialData, mode, payee, description, simpleBaseAmount]);
+
+  // The rule fills the category field (expense: debit side, income: source) unless the user picked one
+  const ruleFilledAccountId = useRef('');
+  useEffect(() => {
+      const target = matchedRule ? accounts.find(a => a.id === matchedRule.accountId) : undefined;
+      const fitsExpense = mode === 'expense' && target?.type === AccountType.EXPENSE;
+      const fitsIncome = mode === 'income' && (target?.type === AccountType.INCOME || target?.type === AccountType.EQUITY);
+      if (!target || (!fitsExpense && !fitsIncome)) return;
+      const current = fitsExpense ? primaryAccountId : fundingAccountId;
+      if (current && current !== ruleFilledAccountId.current) return;
+      ruleFilledAccountId.current = target.id;
+      if (fitsExpense) setPrimaryAccountId(target.id);
+      else setFundingAccountId(target.id);
+      // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matchedRule, mode]);
+
+  // Build a split for the simple modes, attaching the original amount when the account is foreign
+  const buildSimpleSplit = (accountId: string, baseAmount: number): Split => {
+      const currency = currencyOf(accountId);
+      if (currency === baseCurrency) return { accountId, amount: baseAmount };
+      const sign = baseAmount < 0 ? -1 : 1;
+      const originalAmount = currency === simpleCurrency ? sign * simpleAmount : multiplyMoney(baseAmount, 1 / rateOf(currency));
+      return { ...buildForeignSplit(accountId, originalAmount, currency, rateOf(currency)), amount: baseAmount };
+  };
 
   // Helpers for Dropdowns
   // Pre-calculate and sort accounts with full paths
+  // Archived accounts are hidden unless the transaction being edited already posts to them
   const accountOptions = useMemo(() => {
-    return accounts.map(acc => ({
+    const usedIds = initialData ? initialData.splits.map(s => s.accountId) : [];
+    return getSelectableAccounts(accounts, usedIds).map(acc => ({
         ...acc,
         fullPath: getAccountPath(acc, accounts)
     })).sort((a, b) => a.fullPath.localeCompare(b.fullPath));
-  }, [accounts]);
+  }, [accounts, initialData]);
   
   const getDebitOptions = () => {
       if (mode === 'expense') return accountOptions.filter(a => a.type === AccountType.EXPENSE);
@@ -158,8 +223,19 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
       if (/^[-0-9.]*$/.test(value)) {
           newSplits[index].amount = value;
       }
+    } else if (field === 'originalAmount') {
+      if (/^[-0-9.]*$/.test(value)) {
+          newSplits[index].originalAmount = value;
+          // Derive the base amount from today's table rate; the user may still override it
+          const orig = parseMoney(value);
+          const rate = rateOf(currencyOf(newSplits[index].accountId));
+          newSplits[index].amount = orig === null ? value : formatMoney(multiplyMoney(fromMinorUnits(orig), rate));
+      }
+    } else if (field === 'memo') {
+      newSplits[index].memo = value;
     } else {
       newSplits[index].accountId = value;
+      if (currencyOf(value) === baseCurrency) newSplits[index].originalAmount = undefined;
     }
     setSplits(newSplits);
   };
@@ -184,25 +260,34 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
         if (!isBalanced) return;
         finalSplits = splits
             .filter(s => s.accountId !== '')
-            .map(s => ({
-                accountId: s.accountId,
-                amount: parseFloat(s.amount) || 0
-            }));
+            .map(s => {
+                const baseAmount = fromMinorUnits(parseMoney(s.amount) ?? 0);
+                const currency = currencyOf(s.accountId);
+                const orig = fromMinorUnits(parseMoney(s.originalAmount || '') ?? 0);
+                const memo = s.memo?.trim() ? { memo: s.memo.trim() } : {};
+                if (currency === baseCurrency || orig === 0) {
+                    return { accountId: s.accountId, amount: baseAmount, ...memo };
+                }
+                // Keep the original amount and store the effective rate the entry was booked at
+                return { accountId: s.accountId, amount: baseAmount, currency, originalAmount: orig, rate: baseAmount / orig, ...memo };
+            });
     } else {
-        const numAmount = Number(amount);
+        const numAmount = simpleBaseAmount;
         if (!numAmount || !primaryAccountId || !fundingAccountId) return;
         
         finalSplits = [
-            { accountId: primaryAccountId, amount: numAmount },    // Debit
-            { accountId: fundingAccountId, amount: -numAmount }    // Credit
+            buildSimpleSplit(primaryAccountId, numAmount),    // Debit
+            buildSimpleSplit(fundingAccountId, -numAmount)    // Credit
         ];
     }
 
+    const tagList = parseTags(tags);
     const newTx: Transaction = {
       id: initialData ? initialData.id : generateId(),
       date,
       payee: payee || undefined,
       description: description || undefined,
+      tags: tagList.length > 0 ? tagList : undefined,
       splits: finalSplits,
       createdAt: initialData ? initialData.createdAt : Date.now()
     };
@@ -212,7 +297,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
   const isFormValid = () => {
       // Payee and Description are optional
       if (mode === 'journal') return isBalanced;
-      return Number(amount) > 0 && primaryAccountId !== '' && fundingAccountId !== '';
+      return simpleAmount > 0 && primaryAccountId !== '' && fundingAccountId !== '';
   };
 
   const getPlaceholder = () => {
@@ -298,6 +383,22 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
               onChange={e => setDescription(e.target.value)}
             />
           </div>
+          <div className="col-span-12">
+            <label className="block text-xs font-semibold text-slate-500 mb-1">Tags (Optional, comma separated)</label>
+            <input 
+              type="text" 
+              list="known-tags"
+              placeholder={knownTags.length > 0 ? `e.g. ${knownTags.slice(0, 3).join(', ')}` : 'e.g. vacation, reimbursable'}
+              className="w-full border border-slate-300 rounded p-2 text-sm focus:ring-2 focus:ring-blue-100 outline-none"
+              value={tags}
+              onChange={e => setTags(e.target.value)}
+            />
+            <datalist id="known-tags">
+                {knownTags.map(t => (
+                    <option key={t} value={tags.includes(',') ? `${tags.slice(0, tags.lastIndexOf(',') + 1)} ${t}` : t} />
+                ))}
+            </datalist>
+          </div>
         </div>
 
         {/* SIMPLE MODES (Expense, Income, Transfer) */}
@@ -305,7 +406,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
             <div className={`space-y-4 p-4 rounded border ${mode === 'income' ? 'bg-green-50 border-green-100' : 'bg-slate-50 border-slate-200'}`}>
                 <div className="mb-2">
                     <label className="block text-xs font-bold text-slate-500 uppercase mb-2">
-                        Amount *
+                        Amount ({simpleCurrency}) *
                     </label>
                     <div> 
                         <input 
@@ -319,6 +420,11 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                             required
                         />
                     </div>
+                    {simpleCurrency !== baseCurrency && amount && (
+                        <div className="text-xs text-slate-500 font-mono mt-1 text-right">
+                            ≈ {formatMoney(simpleBaseAmount)} {baseCurrency} @ {rateOf(simpleCurrency)}
+                        </div>
+                    )}
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -329,6 +435,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                             {mode === 'income' && 'Deposit To (Asset) *'}
                             {mode === 'transfer' && 'To Account (Debit) *'}
                         </label>
+                        {matchedRule && mode === 'expense' && primaryAccountId === matchedRule.accountId && (
+                            <div className="text-[10px] text-purple-600 flex items-center gap-1 mb-1"><Wand2 size={10} /> Rule "{matchedRule.name || 'Unnamed'}"</div>
+                        )}
                         <select
                             className="w-full border border-slate-300 rounded px-1 py-1 text-sm bg-white focus:ring-2 focus:ring-blue-200 outline-none"
                             value={primaryAccountId}
@@ -340,7 +449,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                                 <option key={acc.id} value={acc.id}>{acc.fullPath}</option>
                             ))}
                         </select>
-                        {amount && <div className="text-xs text-green-600 font-mono mt-1 text-right font-medium">+ {Number(amount).toFixed(2)}</div>}
+                        {amount && <div className="text-xs text-green-600 font-mono mt-1 text-right font-medium">+ {formatMoney(simpleBaseAmount)} {baseCurrency}</div>}
                     </div>
 
                     {/* Credit Field */}
@@ -350,6 +459,9 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                             {mode === 'income' && 'Source (Income/Equity) *'}
                             {mode === 'transfer' && 'From Account (Credit) *'}
                         </label>
+                        {matchedRule && mode === 'income' && fundingAccountId === matchedRule.accountId && (
+                            <div className="text-[10px] text-purple-600 flex items-center gap-1 mb-1"><Wand2 size={10} /> Rule "{matchedRule.name || 'Unnamed'}"</div>
+                        )}
                         <select
                             className="w-full border border-slate-300 rounded px-1 py-1 text-sm bg-white focus:ring-2 focus:ring-blue-200 outline-none"
                             value={fundingAccountId}
@@ -361,7 +473,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                                 <option key={acc.id} value={acc.id}>{acc.fullPath}</option>
                             ))}
                         </select>
-                        {amount && <div className="text-xs text-red-500 font-mono mt-1 text-right font-medium">- {Number(amount).toFixed(2)}</div>}
+                        {amount && <div className="text-xs text-red-500 font-mono mt-1 text-right font-medium">- {formatMoney(simpleBaseAmount)} {baseCurrency}</div>}
                     </div>
                 </div>
             </div>
@@ -373,21 +485,24 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                 <div className="flex justify-between items-center mb-2">
                     <label className="block text-xs font-semibold text-slate-500">Splits (Double Entry) *</label>
                     <div className={`text-xs font-mono font-bold px-2 py-1 rounded ${isBalanced ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
-                        Imbalance: {total.toFixed(2)}
+                        Imbalance: {formatMoney(total)} {baseCurrency}
                     </div>
                 </div>
                 
                 <div className="space-y-2 bg-slate-50 p-3 rounded border border-slate-100">
                     <div className="grid grid-cols-12 gap-2 text-xs text-slate-400 mb-1">
-                        <div className="col-span-7">Account</div>
-                        <div className="col-span-4">Amount (+ Dr / - Cr)</div>
+                        <div className="col-span-4">Account</div>
+                        <div className="col-span-3">Memo</div>
+                        <div className="col-span-4">Amount {baseCurrency} (+ Dr / - Cr)</div>
                         <div className="col-span-1"></div>
                     </div>
                     {splits.map((split, idx) => {
                         const valNum = parseFloat(split.amount);
+                        const splitCurrency = split.accountId ? currencyOf(split.accountId) : baseCurrency;
                         return (
-                        <div key={idx} className="grid grid-cols-12 gap-2 items-center">
-                            <div className="col-span-7">
+                        <React.Fragment key={idx}>
+                        <div className="grid grid-cols-12 gap-2 items-center">
+                            <div className="col-span-4">
                                 <select 
                                     className="w-full border border-slate-300 rounded px-1 py-1 text-sm bg-white"
                                     value={split.accountId}
@@ -402,6 +517,15 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                                     ))}
                                 </select>
                             </div>
+                            <div className="col-span-3">
+                                <input 
+                                    type="text" 
+                                    placeholder="Line note"
+                                    className="w-full border border-slate-300 rounded p-2 text-sm outline-none focus:ring-1 focus:ring-blue-300"
+                                    value={split.memo || ''}
+                                    onChange={e => handleSplitChange(idx, 'memo', e.target.value)}
+                                />
+                            </div>
                             <div className="col-span-4">
                                 <input 
                                     type="text" 
@@ -422,6 +546,24 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({ accounts, tran
                                  </button>
                             </div>
                         </div>
+                        {splitCurrency !== baseCurrency && (
+                            <div className="grid grid-cols-12 gap-2 items-center -mt-1">
+                                <div className="col-span-7 text-right text-[10px] text-slate-400 font-mono">
+                                    Original amount in {splitCurrency} (rate {rateOf(splitCurrency)})
+                                </div>
+                                <div className="col-span-4">
+                                    <input 
+                                        type="text" 
+                                        inputMode="decimal"
+                                        placeholder={`0.00 ${splitCurrency}`}
+                                        className="w-full border border-amber-200 bg-amber-50 rounded p-1 text-xs font-mono outline-none focus:ring-1 focus:ring-amber-300"
+                                        value={split.originalAmount || ''}
+                                        onChange={e => handleSplitChange(idx, 'originalAmount', e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                        )}
+                        </React.Fragment>
                     )})}
                     <button 
                         type="button" 
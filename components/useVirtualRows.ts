@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+
+// Windowed rendering for long tables inside a scrolling container. Only the items near the
+// viewport are rendered; spacer rows of the computed height stand in for the rest. Item heights
+// start from an estimate and are replaced by measurements as items are rendered.
+
+// Extra pixels rendered above and below the viewport, so fast scrolling does not show gaps
+const OVERSCAN = 800;
+
+export interface VirtualRows<T> {
+  visible: T[];
+  paddingTop: number; // Height of the items before `visible`
+  paddingBottom: number; // Height of the items after `visible`
+  measure: (key: string) => (element: HTMLElement | null) => void; // Ref callback for a rendered item
+  scrollToTop: () => void;
+}
+
+// Last index whose offset is at or above `position`
+const findIndex = (offsets: number[], position: number): number => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+export const useVirtualRows = <T>(
+  containerRef: React.RefObject<HTMLElement>,
+  items: T[],
+  getKey: (item: T) => string,
+  estimateHeight: (item: T) => number
+): VirtualRows<T> => {
+  const [viewport, setViewport] = useState({ top: 0, height: 800 });
+  const heights = useRef(new Map<string, number>());
+  const [measuredVersion, setMeasuredVersion] = useState(0);
+  const pendingFrame = useRef<number | null>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    let frame: number | null = null;
+    const update = () => {
+      frame = null;
+      setViewport({ top: container.scrollTop, height: container.clientHeight });
+    };
+    const onScroll = () => {
+      if (frame === null) frame = requestAnimationFrame(update);
+    };
+    update();
+    container.addEventListener('scroll', onScroll, { passive: true });
+    const observer = new ResizeObserver(onScroll);
+    observer.observe(container);
+    return () => {
+      container.removeEventListener('scroll', onScroll);
+      observer.disconnect();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [containerRef]);
+
+  useEffect(() => () => {
+    if (pendingFrame.current !== null) cancelAnimationFrame(pendingFrame.current);
+  }, []);
+
+  // offsets[i] is the top of item i; the last entry is the total height
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, i) => {
+      result[i + 1] = result[i] + (heights.current.get(getKey(item)) ?? estimateHeight(item));
+    });
+    return result;
+    // getKey and estimateHeight are expected to be pure; measuredVersion covers new measurements
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [items, measuredVersion]);
+
+  const start = findIndex(offsets, Math.max(0, viewport.top - OVERSCAN));
+  const end = Math.min(items.length, findIndex(offsets, viewport.top + viewport.height + OVERSCAN) + 1);
+
+  // Measurements are collected during commit and applied once per frame
+  const measure = useCallback((key: string) => (element: HTMLElement | null) => {
+    if (!element) return;
+    const height = element.getBoundingClientRect().height;
+    if (height <= 0 || heights.current.get(key) === height) return;
+    heights.current.set(key, height);
+    if (pendingFrame.current === null) {
+      pendingFrame.current = requestAnimationFrame(() => {
+        pendingFrame.current = null;
+        setMeasuredVersion(v => v + 1);
+      });
+    }
+  }, []);
+
+  const scrollToTop = useCallback(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+  }, [containerRef]);
+
+  return {
+    visible: items.slice(start, end),
+    paddingTop: offsets[start],
+    paddingBottom: offsets[items.length] - offsets[end],
+    measure,
+    scrollToTop
+  };
+};
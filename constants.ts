@@ -1,4 +1,4 @@
-import { Account, AccountType } from './types';
+import { Account, AccountType, ExchangeRateTable } from './types';
 
 export const INITIAL_ACCOUNTS: Account[] = [
   { id: 'root_assets', parentId: null, name: 'Assets', type: AccountType.ASSET },
@@ -17,6 +17,11 @@ export const INITIAL_ACCOUNTS: Account[] = [
   { id: 'acc_transport', parentId: 'root_expenses', name: 'Transportation', type: AccountType.EXPENSE },
 ];
 
+export const DEFAULT_EXCHANGE_RATES: ExchangeRateTable = {
+  baseCurrency: 'USD',
+  rates: []
+};
+
 export const MOCK_TRANSACTIONS = [
   {
     id: 'tx_1',
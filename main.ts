@@ -1,16 +1,27 @@
 import { Plugin, WorkspaceLeaf, PluginSettingTab, App, Setting, Notice } from 'obsidian';
 import { LedgerFlowView, VIEW_TYPE_LEDGER } from './view';
 import { NewTransactionModal } from './modals/NewTransactionModal';
+import { SavedViewModal } from './modals/SavedViewModal';
 import { ObsidianVaultAdapter } from './adapter';
-import { INITIAL_ACCOUNTS } from './constants';
-import { parseTransactionsFromCSV, serializeTransactionsToCSV } from './services/ledgerService';
+import { loadLedger, readManifest, saveLedgerChanges, setTransactionLayout, TransactionLayout } from './services/storageService';
+import { createLedgerCommand } from './services/historyService';
+import { AUDIT_FILE, createAuditEntries, serializeAuditEntries } from './services/auditService';
+import { DEFAULT_BACKUP_SCHEDULE } from './services/backupService';
+import { readSavedViews } from './services/viewService';
+import { BackupInterval } from './types';
 
 interface LedgerFlowSettings {
 	ledgerFolder: string;
+	authorName: string;
+	backupInterval: BackupInterval;
+	backupKeep: number;
 }
 
 const DEFAULT_SETTINGS: LedgerFlowSettings = {
-	ledgerFolder: 'LedgerFlow'
+	ledgerFolder: 'LedgerFlow',
+	authorName: '',
+	backupInterval: DEFAULT_BACKUP_SCHEDULE.interval,
+	backupKeep: DEFAULT_BACKUP_SCHEDULE.keep
 }
 
 export default class LedgerFlowPlugin extends Plugin {
@@ -22,7 +33,10 @@ export default class LedgerFlowPlugin extends Plugin {
     // Register the View
     this.registerView(
       VIEW_TYPE_LEDGER,
-      (leaf: WorkspaceLeaf) => new LedgerFlowView(leaf, this.settings.ledgerFolder)
+      (leaf: WorkspaceLeaf) => new LedgerFlowView(leaf, this.settings.ledgerFolder, this.settings.authorName, {
+        interval: this.settings.backupInterval,
+        keep: this.settings.backupKeep
+      })
     );
 
     // Add Ribbon Icon
@@ -49,26 +63,42 @@ export default class LedgerFlowPlugin extends Plugin {
         callback: async () => {
             const adapter = new ObsidianVaultAdapter(this.app.vault, this.settings.ledgerFolder);
             
-            // 1. Load necessary data for the form
-            let accounts = INITIAL_ACCOUNTS;
-            if (await adapter.exists('Accounts.json')) {
-                const accText = await adapter.read('Accounts.json');
-                if (accText) accounts = JSON.parse(accText);
+            // 1. Load necessary data for the form (same upgrade path as the view)
+            let ledger;
+            try {
+                ledger = await loadLedger(adapter);
+            } catch (e) {
+                new Notice('Could not load ledger: ' + (e instanceof Error ? e.message : e));
+                return;
             }
-
-            let transactions: any[] = [];
-            if (await adapter.exists('Transaction.csv')) {
-                const txText = await adapter.read('Transaction.csv');
-                if (txText) transactions = parseTransactionsFromCSV(txText);
+            const { accounts, transactions, recurring, exchangeRates, rules, layout, files } = ledger;
+            if (ledger.migration && ledger.migration.backupFile) {
+                new Notice(`Ledger files upgraded. Originals saved to ${ledger.migration.backupFile}.`);
             }
 
             // 2. Open Modal
-            new NewTransactionModal(this.app, accounts, transactions, async (newTx) => {
+            new NewTransactionModal(this.app, accounts, transactions, exchangeRates, rules, async (newTx) => {
                 try {
-                    // 3. Save Logic
+                    // 3. Save Logic (with per-year files only the year of the new transaction is written)
                     const updatedTransactions = [newTx, ...transactions];
-                    const csvContent = serializeTransactionsToCSV(updatedTransactions);
-                    await adapter.write('Transaction.csv', csvContent);
+                    const { changedOnDisk } = await saveLedgerChanges(
+                        adapter,
+                        layout,
+                        { accounts, transactions, recurring },
+                        { accounts, transactions: updatedTransactions, recurring },
+                        files
+                    );
+                    if (changedOnDisk.length > 0) {
+                        new Notice(`Not saved: ${changedOnDisk.join(', ')} changed while the form was open. Please enter the transaction again.`);
+                        return;
+                    }
+
+                    const command = createLedgerCommand(
+                        `Add transaction "${newTx.payee || newTx.description || newTx.date}"`,
+                        { accounts, transactions, recurring },
+                        { accounts, transactions: updatedTransactions, recurring }
+                    );
+                    await adapter.append(AUDIT_FILE, serializeAuditEntries(createAuditEntries(command, this.settings.authorName)));
                     
                     new Notice('Transaction saved!');
 
@@ -83,6 +113,23 @@ export default class LedgerFlowPlugin extends Plugin {
         }
     });
 
+    // Add Commands: Undo / Redo the last ledger change in the open view
+    this.addCommand({
+        id: 'undo-ledger-change',
+        name: 'Undo Last Ledger Change',
+        callback: () => {
+            window.dispatchEvent(new CustomEvent('ledger-flow:undo'));
+        }
+    });
+
+    this.addCommand({
+        id: 'redo-ledger-change',
+        name: 'Redo Ledger Change',
+        callback: () => {
+            window.dispatchEvent(new CustomEvent('ledger-flow:redo'));
+        }
+    });
+
     // Add Command: New Recurring Transaction
     this.addCommand({
         id: 'new-recurring-transaction',
@@ -96,6 +143,135 @@ export default class LedgerFlowPlugin extends Plugin {
             }, 200);
         }
     });
+
+    // Add Command: Bank statement import wizard
+    this.addCommand({
+        id: 'import-bank-csv',
+        name: 'Import Bank Statement (CSV)',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:import-bank-csv'));
+            }, 200);
+        }
+    });
+
+    this.addCommand({
+        id: 'import-ofx',
+        name: 'Import Bank Statement (OFX/QFX)',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:import-ofx'));
+            }, 200);
+        }
+    });
+
+    // Add Commands: Plain-text journal (ledger / hledger)
+    this.addCommand({
+        id: 'export-ledger-journal',
+        name: 'Export Ledger Journal (ledger/hledger)',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:export-journal'));
+            }, 200);
+        }
+    });
+
+    this.addCommand({
+        id: 'import-ledger-journal',
+        name: 'Import Ledger Journal (ledger/hledger)',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:import-journal'));
+            }, 200);
+        }
+    });
+
+    // Add Commands: QIF (Quicken Interchange Format)
+    this.addCommand({
+        id: 'export-qif',
+        name: 'Export QIF',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:export-qif'));
+            }, 200);
+        }
+    });
+
+    this.addCommand({
+        id: 'import-qif',
+        name: 'Import QIF',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:import-qif'));
+            }, 200);
+        }
+    });
+
+    // Add Command: Beancount export (for Fava and bean-check)
+    this.addCommand({
+        id: 'export-beancount',
+        name: 'Export Beancount',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:export-beancount'));
+            }, 200);
+        }
+    });
+
+    // Add Commands: Single-file backups
+    this.addCommand({
+        id: 'create-backup',
+        name: 'Create Backup',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:create-backup'));
+            }, 200);
+        }
+    });
+
+    this.addCommand({
+        id: 'restore-backup',
+        name: 'Restore Backup',
+        callback: async () => {
+            await this.activateView();
+            setTimeout(() => {
+                window.dispatchEvent(new CustomEvent('ledger-flow:restore-backup'));
+            }, 200);
+        }
+    });
+
+    // Add Command: Saved journal and dashboard views
+    this.addCommand({
+        id: 'open-saved-view',
+        name: 'Open Saved View',
+        callback: async () => {
+            let views;
+            try {
+                views = await readSavedViews(new ObsidianVaultAdapter(this.app.vault, this.settings.ledgerFolder));
+            } catch (e) {
+                new Notice('Could not read saved views: ' + (e instanceof Error ? e.message : e));
+                return;
+            }
+            if (views.length === 0) {
+                new Notice('No saved views yet. Save one from the Views menu of the journal or the dashboard.');
+                return;
+            }
+            new SavedViewModal(this.app, views, async (view) => {
+                await this.activateView();
+                setTimeout(() => {
+                    window.dispatchEvent(new CustomEvent('ledger-flow:open-view', { detail: { id: view.id } }));
+                }, 200);
+            }).open();
+        }
+    });
   }
 
   async loadSettings() {
@@ -142,7 +318,7 @@ class LedgerFlowSettingTab extends PluginSettingTab {
 
 		new Setting(containerEl)
 			.setName('Ledger Data Folder')
-			.setDesc('The folder where LedgerFlow saves your financial data (Accounts.json, Transaction.csv, Recurring.json).')
+			.setDesc('The folder where LedgerFlow saves your financial data (Accounts.json, Transaction.csv, Recurring.json, ExchangeRates.json, ImportProfiles.json, Rules.json, Audit.jsonl).')
 			.addText(text => text
 				.setPlaceholder('LedgerFlow')
 				.setValue(this.plugin.settings.ledgerFolder)
@@ -150,5 +326,65 @@ class LedgerFlowSettingTab extends PluginSettingTab {
 					this.plugin.settings.ledgerFolder = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName('Your Name')
+			.setDesc('Recorded with every change in Audit.jsonl so that a shared vault shows who changed what. Reopen the ledger view to apply.')
+			.addText(text => text
+				.setPlaceholder('e.g. Alex')
+				.setValue(this.plugin.settings.authorName)
+				.onChange(async (value) => {
+					this.plugin.settings.authorName = value.trim();
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Transaction Storage')
+			.setDesc('One Transaction.csv, or one file per year (Transactions/2025.csv) so that a change only rewrites the file of its year. Switching moves the existing transactions.')
+			.addDropdown(dropdown => {
+				dropdown
+					.addOptions({ single: 'One file', yearly: 'One file per year' })
+					.onChange(async (value) => {
+						const adapter = new ObsidianVaultAdapter(this.app.vault, this.plugin.settings.ledgerFolder);
+						try {
+							if (await setTransactionLayout(adapter, value as TransactionLayout)) {
+								new Notice(value === 'yearly' ? 'Transactions moved to one file per year.' : 'Transactions moved to Transaction.csv.');
+								window.dispatchEvent(new CustomEvent('ledger-flow:data-changed'));
+							}
+						} catch (e) {
+							new Notice('Could not change the transaction storage: ' + (e instanceof Error ? e.message : e));
+							dropdown.setValue(value === 'yearly' ? 'single' : 'yearly');
+						}
+					});
+				// The layout is recorded in the data folder, not in the plugin settings
+				readManifest(new ObsidianVaultAdapter(this.app.vault, this.plugin.settings.ledgerFolder))
+					.then(manifest => dropdown.setValue(manifest.transactionLayout || 'single'))
+					.catch(() => dropdown.setValue('single'));
+			});
+
+		new Setting(containerEl)
+			.setName('Automatic Backups')
+			.setDesc('Write a backup file (Backup-auto-<date>.json) into the data folder while the ledger view is open. Reopen the ledger view to apply.')
+			.addDropdown(dropdown => dropdown
+				.addOptions({ off: 'Off', daily: 'Daily', weekly: 'Weekly' })
+				.setValue(this.plugin.settings.backupInterval)
+				.onChange(async (value) => {
+					this.plugin.settings.backupInterval = value as BackupInterval;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Automatic Backups to Keep')
+			.setDesc('Older automatic backups are deleted. Manual backups are never deleted.')
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_BACKUP_SCHEDULE.keep))
+				.setValue(String(this.plugin.settings.backupKeep))
+				.onChange(async (value) => {
+					const keep = parseInt(value, 10);
+					if (!isNaN(keep) && keep > 0) {
+						this.plugin.settings.backupKeep = keep;
+						await this.plugin.saveSettings();
+					}
+				}));
 	}
 }
\ No newline at end of file
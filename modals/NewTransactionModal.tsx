@@ -2,7 +2,7 @@ import { App, Modal } from 'obsidian';
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import { TransactionForm } from '../components/TransactionForm';
-import { Account, Transaction } from '../types';
+import { Account, Transaction, ExchangeRateTable, CategorizationRule } from '../types';
 
 export class NewTransactionModal extends Modal {
   private root: ReactDOM.Root | null = null;
@@ -11,6 +11,8 @@ export class NewTransactionModal extends Modal {
     app: App,
     private accounts: Account[],
     private transactions: Transaction[],
+    private exchangeRates: ExchangeRateTable,
+    private rules: CategorizationRule[],
     private onSave: (transaction: Transaction) => void
   ) {
     super(app);
@@ -32,6 +34,8 @@ export class NewTransactionModal extends Modal {
             <TransactionForm 
                 accounts={this.accounts} 
                 transactions={this.transactions}
+                exchangeRates={this.exchangeRates}
+                rules={this.rules}
                 onSave={(tx) => {
                     this.onSave(tx);
                     this.close();
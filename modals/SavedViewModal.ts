@@ -0,0 +1,27 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { SavedView } from '../types';
+
+const SCREEN_LABELS: Record<SavedView['screen'], string> = {
+  journal: 'Journal',
+  expense: 'Expense dashboard'
+};
+
+// Picker for the "Open Saved View" command
+export class SavedViewModal extends FuzzySuggestModal<SavedView> {
+  constructor(app: App, private views: SavedView[], private onChoose: (view: SavedView) => void) {
+    super(app);
+    this.setPlaceholder('Open a saved view...');
+  }
+
+  getItems(): SavedView[] {
+    return this.views;
+  }
+
+  getItemText(view: SavedView): string {
+    return `${SCREEN_LABELS[view.screen]}: ${view.name}${view.isDefault ? ' (default)' : ''}`;
+  }
+
+  onChooseItem(view: SavedView) {
+    this.onChoose(view);
+  }
+}
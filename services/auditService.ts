@@ -0,0 +1,98 @@
+import { AuditEntry, EntityChange, LedgerCommand, LedgerEntity } from '../types';
+import { generateId, LedgerData } from './ledgerService';
+import { applyLedgerCommand } from './historyService';
+
+// Append-only log stored next to Transaction.csv, one JSON object per line
+export const AUDIT_FILE = 'Audit.jsonl';
+
+// Used when no author name is configured
+export const UNKNOWN_AUTHOR = 'Unknown';
+
+// --- RECORDING ---
+
+const getAction = (change: EntityChange): AuditEntry['action'] => {
+    if (!change.before) return 'create';
+    if (!change.after) return 'delete';
+    return 'update';
+};
+
+// One audit entry per entity touched by the command.
+// Undo is logged as a change of its own, with before and after swapped.
+export const createAuditEntries = (command: LedgerCommand, author: string, mode: 'do' | 'undo' = 'do'): AuditEntry[] => {
+    const timestamp = new Date().toISOString();
+    return command.changes.map(change => {
+        const before = mode === 'undo' ? change.after : change.before;
+        const after = mode === 'undo' ? change.before : change.after;
+        return {
+            id: generateId(),
+            timestamp,
+            author: author || UNKNOWN_AUTHOR,
+            action: getAction({ ...change, before, after }),
+            entity: change.entity,
+            entityId: change.id,
+            label: mode === 'undo' ? `Undo: ${command.label}` : command.label,
+            before,
+            after
+        };
+    });
+};
+
+export const serializeAuditEntries = (entries: AuditEntry[]): string => {
+    return entries.map(entry => JSON.stringify(entry) + '\n').join('');
+};
+
+// Newest first. Lines that fail to parse (e.g. a half-written last line) are skipped.
+export const parseAuditLog = (content: string): AuditEntry[] => {
+    const entries: AuditEntry[] = [];
+    content.split(/\r?\n/).forEach(line => {
+        if (!line.trim()) return;
+        try {
+            entries.push(JSON.parse(line));
+        } catch (e) {
+            console.warn('Skipping unreadable audit line:', line);
+        }
+    });
+    return entries.reverse();
+};
+
+// --- VIEWING ---
+
+export interface AuditFilter {
+    entity: LedgerEntity | '';
+    entityId: string;
+    search: string;
+}
+
+export const filterAuditEntries = (entries: AuditEntry[], filter: AuditFilter): AuditEntry[] => {
+    const term = filter.search.toLowerCase();
+    return entries.filter(entry => {
+        if (filter.entity && entry.entity !== filter.entity) return false;
+        if (filter.entityId && entry.entityId !== filter.entityId) return false;
+        if (term) {
+            const haystack = `${entry.label} ${entry.author} ${JSON.stringify(entry.before)} ${JSON.stringify(entry.after)}`.toLowerCase();
+            if (!haystack.includes(term)) return false;
+        }
+        return true;
+    });
+};
+
+// Short human label for the entity in an entry
+export const describeAuditEntity = (entry: AuditEntry): string => {
+    const snapshot = entry.after || entry.before;
+    if (!snapshot) return entry.entityId;
+    // Transactions and recurring rules have splits, accounts do not
+    if (!('splits' in snapshot)) return snapshot.name;
+    return ['date' in snapshot ? snapshot.date : snapshot.nextDueDate, snapshot.payee || snapshot.description].filter(Boolean).join(' ');
+};
+
+// --- RESTORING ---
+
+// Put the entity back to the snapshot recorded in the entry. A `null` snapshot removes the entity.
+export const restoreAuditVersion = (data: LedgerData, entry: AuditEntry, version: 'before' | 'after'): LedgerData => {
+    const snapshot = version === 'before' ? entry.before : entry.after;
+    return applyLedgerCommand(data, {
+        label: 'Restore',
+        timestamp: Date.now(),
+        changes: [{ entity: entry.entity, id: entry.entityId, before: null, after: snapshot }]
+    });
+};
@@ -0,0 +1,201 @@
+import { AccountType, BackupBundle, BackupManifestEntry, BackupSchedule, StorageAdapter } from '../types';
+import { CURRENT_FORMAT_VERSION, LedgerContents, LedgerFiles, migrateLedgerFiles, parseLedgerFiles, serializeLedgerFiles } from './storageService';
+import { MinorUnits, fromMinorUnits, toMinorUnits } from './moneyService';
+
+// Single-file snapshots of the ledger folder. A bundle holds every ledger file, a manifest with
+// SHA-256 checksums and the format version, and is written next to the ledger files through the
+// StorageAdapter (vault folder, picked folder or localStorage). Upgrade backups written by
+// loadLedger ("Backup-v0-...") have no manifest but can be restored as well.
+
+export const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = { interval: 'daily', keep: 7 };
+
+const INTERVAL_DAYS: Record<Exclude<BackupSchedule['interval'], 'off'>, number> = { daily: 1, weekly: 7 };
+
+// Reason → file name part after "Backup-"
+const FILE_TAGS: Record<BackupBundle['reason'], string> = { manual: '', scheduled: 'auto-', restore: 'before-restore-' };
+
+export interface BackupInfo {
+    fileName: string;
+    createdAt: string | null; // From the file name; null when it cannot be read
+    reason: BackupBundle['reason'] | 'upgrade';
+}
+
+// --- WRITING ---
+
+const sha256 = async (text: string): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const buildManifest = async (files: LedgerFiles): Promise<BackupManifestEntry[]> => {
+    const manifest: BackupManifestEntry[] = [];
+    for (const name of Object.keys(files).sort()) {
+        const content = files[name];
+        if (content === null || content === undefined) continue;
+        manifest.push({ name, size: content.length, sha256: await sha256(content) });
+    }
+    return manifest;
+};
+
+export const createBackupBundle = async (contents: LedgerContents, reason: BackupBundle['reason'], now = new Date()): Promise<BackupBundle> => {
+    const files = serializeLedgerFiles(contents);
+    return {
+        format: 'ledgerflow-backup',
+        formatVersion: CURRENT_FORMAT_VERSION,
+        createdAt: now.toISOString(),
+        reason,
+        manifest: await buildManifest(files),
+        files
+    };
+};
+
+// "2024-03-01T08:30:00.000Z" ↔ "2024-03-01T08-30-00-000Z", safe in file names on every platform
+const toFileStamp = (iso: string) => iso.replace(/[:.]/g, '-');
+
+const fromFileStamp = (stamp: string): string | null => {
+    const match = /(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z/.exec(stamp);
+    return match ? `${match[1]}T${match[2]}:${match[3]}:${match[4]}.${match[5]}Z` : null;
+};
+
+export const getBackupFileName = (bundle: BackupBundle): string =>
+    `Backup-${FILE_TAGS[bundle.reason]}${toFileStamp(bundle.createdAt)}.json`;
+
+// Write a snapshot of `contents` and return the file name
+export const createBackup = async (adapter: StorageAdapter, contents: LedgerContents, reason: BackupBundle['reason']): Promise<string> => {
+    const bundle = await createBackupBundle(contents, reason);
+    const fileName = getBackupFileName(bundle);
+    await adapter.write(fileName, JSON.stringify(bundle, null, 2));
+    return fileName;
+};
+
+// --- LISTING & RETENTION ---
+
+export const describeBackupFile = (fileName: string): BackupInfo | null => {
+    const match = /^Backup-(auto-|before-restore-|v\d+-)?(.+)\.json$/.exec(fileName);
+    if (!match) return null;
+    const tag = match[1] || '';
+    const reason = tag === 'auto-' ? 'scheduled' : tag === 'before-restore-' ? 'restore' : tag ? 'upgrade' : 'manual';
+    return { fileName, createdAt: fromFileStamp(match[2]), reason };
+};
+
+// Every backup in the folder, newest first
+export const listBackups = async (adapter: StorageAdapter): Promise<BackupInfo[]> => {
+    const backups = (await adapter.list())
+        .map(describeBackupFile)
+        .filter((info): info is BackupInfo => info !== null);
+    return backups.sort((a, b) => (b.createdAt || '').localeCompare(a.createdAt || ''));
+};
+
+export const isBackupDue = (backups: BackupInfo[], schedule: BackupSchedule, now = new Date()): boolean => {
+    if (schedule.interval === 'off') return false;
+    // A manual backup also counts, so a scheduled one does not follow right after it
+    const latest = backups.find(b => b.createdAt && (b.reason === 'scheduled' || b.reason === 'manual'));
+    if (!latest) return true;
+    return now.getTime() - Date.parse(latest.createdAt!) >= INTERVAL_DAYS[schedule.interval] * 86400000;
+};
+
+// Delete scheduled backups beyond the newest `keep`. Manual, restore and upgrade backups are kept.
+export const pruneBackups = async (adapter: StorageAdapter, keep: number): Promise<string[]> => {
+    const scheduled = (await listBackups(adapter)).filter(b => b.reason === 'scheduled');
+    const expired = scheduled.slice(Math.max(0, keep)).map(b => b.fileName);
+    for (const fileName of expired) {
+        await adapter.remove(fileName);
+    }
+    return expired;
+};
+
+// Create a scheduled backup when one is due, then apply the retention. Returns the new file name.
+export const runScheduledBackup = async (adapter: StorageAdapter, contents: LedgerContents, schedule: BackupSchedule): Promise<string | null> => {
+    if (!isBackupDue(await listBackups(adapter), schedule)) return null;
+    const fileName = await createBackup(adapter, contents, 'scheduled');
+    await pruneBackups(adapter, schedule.keep);
+    return fileName;
+};
+
+// --- RESTORING ---
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Parse a bundle, verify its checksums and upgrade its files to the current format
+export const readBackupBundle = async (text: string): Promise<{ createdAt: string | null; contents: LedgerContents }> => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch (e) {
+        throw new Error('This is not a LedgerFlow backup (invalid JSON).');
+    }
+    if (!isRecord(parsed) || !isRecord(parsed.files)) {
+        throw new Error('This is not a LedgerFlow backup (no files).');
+    }
+    const bundledFiles = parsed.files;
+
+    const formatVersion = typeof parsed.formatVersion === 'number' ? parsed.formatVersion : 0;
+    if (formatVersion > CURRENT_FORMAT_VERSION) {
+        throw new Error(`This backup was written by a newer LedgerFlow (format ${formatVersion}, supported ${CURRENT_FORMAT_VERSION}).`);
+    }
+
+    if (Array.isArray(parsed.manifest)) {
+        for (const entry of parsed.manifest as BackupManifestEntry[]) {
+            const content = bundledFiles[entry.name];
+            if (typeof content !== 'string' || (await sha256(content)) !== entry.sha256) {
+                throw new Error(`Backup is damaged: ${entry.name} does not match its checksum.`);
+            }
+        }
+    }
+
+    // Anything but text is treated as a missing file
+    const stored: LedgerFiles = {};
+    Object.keys(bundledFiles).forEach(name => {
+        const content = bundledFiles[name];
+        stored[name] = typeof content === 'string' ? content : null;
+    });
+    const files = migrateLedgerFiles(stored, formatVersion);
+    return { createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : null, contents: await parseLedgerFiles(files) };
+};
+
+export interface RestoreSummary {
+    accounts: { current: number; backup: number };
+    transactions: { current: number; backup: number; added: number; removed: number; changed: number };
+    recurring: { current: number; backup: number };
+    rules: { current: number; backup: number };
+    netWorth: { current: number; backup: number; delta: number }; // Base currency
+}
+
+// Assets plus liabilities (liabilities carry negative balances)
+const getNetWorthMinor = (contents: LedgerContents): MinorUnits => {
+    const types = new Map(contents.accounts.map(a => [a.id, a.type]));
+    let total = 0;
+    contents.transactions.forEach(tx => tx.splits.forEach(split => {
+        const type = types.get(split.accountId);
+        if (type === AccountType.ASSET || type === AccountType.LIABILITY) total += toMinorUnits(split.amount);
+    }));
+    return total;
+};
+
+// What restoring `backup` over `current` changes, shown before anything is replaced
+export const summarizeRestore = (current: LedgerContents, backup: LedgerContents): RestoreSummary => {
+    const currentById = new Map(current.transactions.map(tx => [tx.id, JSON.stringify(tx)]));
+    const backupIds = new Set(backup.transactions.map(tx => tx.id));
+    let added = 0;
+    let changed = 0;
+    backup.transactions.forEach(tx => {
+        const existing = currentById.get(tx.id);
+        if (existing === undefined) added++;
+        else if (existing !== JSON.stringify(tx)) changed++;
+    });
+    const removed = current.transactions.filter(tx => !backupIds.has(tx.id)).length;
+
+    const currentNetWorth = getNetWorthMinor(current);
+    const backupNetWorth = getNetWorthMinor(backup);
+    return {
+        accounts: { current: current.accounts.length, backup: backup.accounts.length },
+        transactions: { current: current.transactions.length, backup: backup.transactions.length, added, removed, changed },
+        recurring: { current: current.recurring.length, backup: backup.recurring.length },
+        rules: { current: current.rules.length, backup: backup.rules.length },
+        netWorth: {
+            current: fromMinorUnits(currentNetWorth),
+            backup: fromMinorUnits(backupNetWorth),
+            delta: fromMinorUnits(backupNetWorth - currentNetWorth)
+        }
+    };
+};
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { ExchangeRateTable } from '../types';
+import { createBankImportProfile, detectDelimiter, mapBankStatement, parseBankAmount, parseBankDate, parseDelimitedRows } from './bankImportService';
+
+const table: ExchangeRateTable = { baseCurrency: 'USD', rates: [] };
+
+describe('parseBankDate', () => {
+    it('reads every supported format', () => {
+        expect(parseBankDate('2025-3-7', 'YYYY-MM-DD')).toBe('2025-03-07');
+        expect(parseBankDate('07/03/2025', 'DD/MM/YYYY')).toBe('2025-03-07');
+        expect(parseBankDate('03/07/25', 'MM/DD/YYYY')).toBe('2025-03-07');
+        expect(parseBankDate('7.3.2025', 'DD.MM.YYYY')).toBe('2025-03-07');
+        expect(parseBankDate('20250307', 'YYYYMMDD')).toBe('2025-03-07');
+    });
+
+    it('rejects dates that do not exist', () => {
+        expect(parseBankDate('2025-02-30', 'YYYY-MM-DD')).toBeNull();
+        expect(parseBankDate('31/04/2025', 'DD/MM/YYYY')).toBeNull();
+        expect(parseBankDate('2025-13-01', 'YYYY-MM-DD')).toBeNull();
+        expect(parseBankDate('29/02/2023', 'DD/MM/YYYY')).toBeNull();
+        expect(parseBankDate('29/02/2024', 'DD/MM/YYYY')).toBe('2024-02-29');
+    });
+});
+
+describe('parseBankAmount', () => {
+    it('reads signs, currency symbols and separators', () => {
+        expect(parseBankAmount('1.234,56 €', ',')).toBe(1234.56);
+        expect(parseBankAmount('(12.00)', '.')).toBe(-12);
+        expect(parseBankAmount('-$5', '.')).toBe(-5);
+        expect(parseBankAmount('12.00-', '.')).toBe(-12);
+        expect(parseBankAmount('1,234.50', '.')).toBe(1234.5);
+        expect(parseBankAmount('', '.')).toBeNull();
+    });
+});
+
+describe('statement rows', () => {
+    it('detects the delimiter and keeps quoted cells together', () => {
+        const text = 'Account export\nDate;Amount;Payee\n2025-01-02;-4.50;"Cafe; Bar"\n2025-01-03;1200;"Salary\nJanuary"';
+        expect(detectDelimiter(text)).toBe(';');
+        expect(parseDelimitedRows(text, ';')).toEqual([
+            ['Account export'],
+            ['Date', 'Amount', 'Payee'],
+            ['2025-01-02', '-4.50', 'Cafe; Bar'],
+            ['2025-01-03', '1200', 'Salary\nJanuary']
+        ]);
+    });
+
+    it('maps rows to two-split transactions and reports unreadable rows', () => {
+        const profile = { ...createBankImportProfile('Test', ';'), accountId: 'acc_checking', counterAccountId: 'acc_bills' };
+        const rows = parseDelimitedRows('Date;Amount;Payee\n2025-01-02;-4,50;Cafe\n2025-02-30;10,00;Nobody', ';');
+        const [cafe, invalid] = mapBankStatement(rows, profile, INITIAL_ACCOUNTS, table);
+        expect(cafe.transaction!.splits).toEqual([{ accountId: 'acc_checking', amount: -4.5 }, { accountId: 'acc_bills', amount: 4.5 }]);
+        expect(cafe.transaction!.payee).toBe('Cafe');
+        expect(invalid.transaction).toBeNull();
+        expect(invalid.error).toMatch(/Unreadable date/);
+    });
+});
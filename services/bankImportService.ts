@@ -0,0 +1,229 @@
+import { Account, BankDateFormat, BankImportProfile, ExchangeRateTable, Split, Transaction } from '../types';
+import { generateId } from './ledgerService';
+import { getAccountCurrency, getExchangeRate, buildForeignSplit } from './currencyService';
+import { parseMoney, fromMinorUnits, toMinorUnits } from './moneyService';
+import { isValidLedgerDate } from './validationService';
+
+// Maps an arbitrary bank statement CSV onto two-split transactions:
+// the statement account on one side, a holding (counter) account on the other.
+
+// Saved mapping profiles, stored next to Transaction.csv
+export const BANK_PROFILES_FILE = 'ImportProfiles.json';
+
+export const BANK_DATE_FORMATS: BankDateFormat[] = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYYMMDD'];
+
+export const createBankImportProfile = (name: string, delimiter: BankImportProfile['delimiter'] = ','): BankImportProfile => ({
+    id: generateId(),
+    name,
+    delimiter,
+    skipRows: 0,
+    hasHeader: true,
+    dateColumn: 0,
+    dateFormat: 'YYYY-MM-DD',
+    amountMode: 'single',
+    amountColumn: 1,
+    debitColumn: -1,
+    creditColumn: -1,
+    invertSign: false,
+    decimalSeparator: delimiter === ';' ? ',' : '.',
+    payeeColumn: 2,
+    memoColumn: -1,
+    accountId: '',
+    counterAccountId: ''
+});
+
+// --- PARSING ---
+
+// Pick the separator that splits most of the first lines into the same number of cells.
+// Banner lines above the header do not count against a candidate.
+export const detectDelimiter = (text: string): BankImportProfile['delimiter'] => {
+    const sample = text.split(/\r?\n/).filter(l => l.trim()).slice(0, 10);
+    const candidates: BankImportProfile['delimiter'][] = [',', ';', '\t'];
+    let best = candidates[0];
+    let bestScore = 0;
+    candidates.forEach(d => {
+        const frequency = new Map<number, number>();
+        sample.forEach(line => {
+            const count = line.split(d).length - 1;
+            if (count > 0) frequency.set(count, (frequency.get(count) || 0) + 1);
+        });
+        const score = Math.max(0, ...Array.from(frequency.values()));
+        if (score > bestScore) {
+            best = d;
+            bestScore = score;
+        }
+    });
+    return best;
+};
+
+// Quote-aware split into rows and cells. Quoted cells may contain the delimiter, "" and newlines.
+export const parseDelimitedRows = (text: string, delimiter: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let inQuotes = false;
+    const content = text.replace(/^\uFEFF/, '');
+
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (inQuotes) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') i++;
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+export const parseBankDate = (text: string, format: BankDateFormat): string | null => {
+    const value = text.trim();
+    let match: RegExpExecArray | null;
+    let year: string, month: string, day: string;
+    switch (format) {
+        case 'YYYY-MM-DD':
+            match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(value);
+            if (!match) return null;
+            [, year, month, day] = match;
+            break;
+        case 'DD/MM/YYYY':
+        case 'DD.MM.YYYY':
+            match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(value);
+            if (!match) return null;
+            [, day, month, year] = match;
+            break;
+        case 'MM/DD/YYYY':
+            match = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/.exec(value);
+            if (!match) return null;
+            [, month, day, year] = match;
+            break;
+        case 'YYYYMMDD':
+            match = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+            if (!match) return null;
+            [, year, month, day] = match;
+            break;
+    }
+    if (year.length === 2) year = `20${year}`;
+    // Rejects days the month does not have, such as 31/04
+    const date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    return isValidLedgerDate(date) ? date : null;
+};
+
+// "1.234,56 €", "(12.00)", "-$5", "12.00-" → major units. Empty cells are null.
+export const parseBankAmount = (text: string, decimalSeparator: BankImportProfile['decimalSeparator']): number | null => {
+    let value = text.trim();
+    if (!value) return null;
+    let negative = false;
+    if (/^\(.*\)$/.test(value)) {
+        negative = true;
+        value = value.slice(1, -1);
+    }
+    if (/-\s*$/.test(value) || /^[^\d]*-/.test(value)) negative = true;
+
+    const thousands = decimalSeparator === ',' ? '.' : ',';
+    value = value.replace(/[^\d.,]/g, '').split(thousands).join('');
+    if (decimalSeparator === ',') value = value.replace(',', '.');
+
+    const minor = parseMoney(value);
+    if (minor === null) return null;
+    return fromMinorUnits(negative ? -minor : minor);
+};
+
+// --- MAPPING ---
+
+export interface BankImportRow {
+    line: number; // 1-based row in the file, blank lines not counted
+    cells: string[];
+    transaction: Transaction | null;
+    error?: string;
+}
+
+// Multi-line quoted cells are folded into one line
+const cellAt = (cells: string[], column: number) => (column >= 0 && column < cells.length ? cells[column].replace(/\s*\r?\n\s*/g, ' ').trim() : '');
+
+// Names for the column pickers: header cells when present, otherwise "Column N"
+export const getStatementColumns = (rows: string[][], profile: BankImportProfile): string[] => {
+    const body = rows.slice(profile.skipRows);
+    const width = Math.max(0, ...body.slice(0, 20).map(r => r.length));
+    const header = profile.hasHeader ? body[0] || [] : [];
+    return Array.from({ length: width }, (_, i) => (header[i] || '').trim() || `Column ${i + 1}`);
+};
+
+// Signed amount for the statement account: positive means money coming in
+const getRowAmount = (cells: string[], profile: BankImportProfile): number | null => {
+    let amount: number | null;
+    if (profile.amountMode === 'single') {
+        amount = parseBankAmount(cellAt(cells, profile.amountColumn), profile.decimalSeparator);
+    } else {
+        const out = parseBankAmount(cellAt(cells, profile.debitColumn), profile.decimalSeparator);
+        const incoming = parseBankAmount(cellAt(cells, profile.creditColumn), profile.decimalSeparator);
+        if (out === null && incoming === null) return null;
+        amount = fromMinorUnits(toMinorUnits(incoming ?? 0) - toMinorUnits(Math.abs(out ?? 0)));
+    }
+    if (amount === null) return null;
+    return profile.invertSign ? -amount : amount;
+};
+
+export const mapBankStatement = (
+    rows: string[][],
+    profile: BankImportProfile,
+    accounts: Account[],
+    table: ExchangeRateTable
+): BankImportRow[] => {
+    const account = accounts.find(a => a.id === profile.accountId);
+    const currency = getAccountCurrency(account, table);
+    const firstDataRow = profile.skipRows + (profile.hasHeader ? 1 : 0);
+    const now = Date.now();
+
+    return rows.slice(firstDataRow).map((cells, i) => {
+        const line = firstDataRow + i + 1;
+        const date = parseBankDate(cellAt(cells, profile.dateColumn), profile.dateFormat);
+        if (!date) return { line, cells, transaction: null, error: `Unreadable date "${cellAt(cells, profile.dateColumn)}"` };
+
+        const amount = getRowAmount(cells, profile);
+        if (amount === null) return { line, cells, transaction: null, error: 'No amount' };
+        if (!account || !profile.counterAccountId) return { line, cells, transaction: null, error: 'Choose both accounts' };
+
+        let accountSplit: Split;
+        if (currency !== table.baseCurrency) {
+            const rate = getExchangeRate(table, currency, date);
+            if (rate === null) return { line, cells, transaction: null, error: `No exchange rate for ${currency}` };
+            accountSplit = buildForeignSplit(account.id, amount, currency, rate);
+        } else {
+            accountSplit = { accountId: account.id, amount };
+        }
+
+        const payee = cellAt(cells, profile.payeeColumn);
+        const memo = cellAt(cells, profile.memoColumn);
+        const transaction: Transaction = {
+            id: generateId(),
+            date,
+            payee: payee || undefined,
+            description: memo || undefined,
+            splits: [accountSplit, { accountId: profile.counterAccountId, amount: -accountSplit.amount }],
+            createdAt: now + i // Keeps the statement order
+        };
+        return { line, cells, transaction };
+    });
+};
@@ -0,0 +1,198 @@
+import { Account, AccountType, Split, Transaction } from '../types';
+import { getDescendantAccountIds, getFlattenedBalances } from './ledgerService';
+import { MinorUnits, parseMoney, toMinorUnits, fromMinorUnits, formatMoney } from './moneyService';
+
+// Exporter for beancount (and Fava). Unlike ledger-cli, beancount is strict: every account needs an
+// `open` directive, account names must start with one of the five root names and may only contain
+// letters, digits and dashes, and every transaction must balance. verifyBeancountExport re-reads
+// the written file and compares its balances with the ledger.
+
+const ROOT_NAMES: Record<AccountType, string> = {
+    [AccountType.ASSET]: 'Assets',
+    [AccountType.LIABILITY]: 'Liabilities',
+    [AccountType.INCOME]: 'Income',
+    [AccountType.EXPENSE]: 'Expenses',
+    [AccountType.EQUITY]: 'Equity'
+};
+
+// A top-level LedgerFlow account whose first word is one of these ("Equity/Starting Balance")
+// is the beancount root itself, not a component below it
+const ROOT_ALIASES: Record<AccountType, string[]> = {
+    [AccountType.ASSET]: ['assets', 'asset'],
+    [AccountType.LIABILITY]: ['liabilities', 'liability'],
+    [AccountType.INCOME]: ['income', 'revenue', 'revenues'],
+    [AccountType.EXPENSE]: ['expenses', 'expense'],
+    [AccountType.EQUITY]: ['equity']
+};
+
+// Postings to accounts that no longer exist are kept here, so the file still balances
+const UNKNOWN_ACCOUNT = 'Equity:Unknown-Account';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// --- NAMES ---
+
+// "Café & Bar" → "Cafe-Bar", "401k" stays, "ètudes" → "Etudes"
+export const sanitizeBeancountComponent = (name: string): string => {
+    const ascii = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+    const cleaned = ascii.replace(/[^A-Za-z0-9-]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+    if (!cleaned) return 'Account';
+    const capitalized = cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+    return /^[A-Z0-9]/.test(capitalized) ? capitalized : `X${capitalized}`;
+};
+
+const getAncestry = (account: Account, accounts: Account[]): Account[] => {
+    const chain = [account];
+    let current = account;
+    // Same depth guard as getAccountPath
+    while (current.parentId && chain.length < 20) {
+        const parent = accounts.find(a => a.id === current.parentId);
+        if (!parent) break;
+        chain.unshift(parent);
+        current = parent;
+    }
+    return chain;
+};
+
+// Beancount name for every account id. The root comes from the account type; names that collide
+// after sanitizing get a numeric suffix.
+export const getBeancountAccountNames = (accounts: Account[]): Map<string, string> => {
+    const names = new Map<string, string>();
+    const taken = new Set<string>();
+    // Parents first, so a child is named below its parent's final (possibly suffixed) name
+    const ordered = [...accounts].sort((a, b) => getAncestry(a, accounts).length - getAncestry(b, accounts).length);
+
+    ordered.forEach(account => {
+        const chain = getAncestry(account, accounts);
+        const parent = chain.length > 1 ? chain[chain.length - 2] : null;
+        let base: string;
+        if (parent && names.has(parent.id)) {
+            base = `${names.get(parent.id)}:${sanitizeBeancountComponent(account.name)}`;
+        } else {
+            const root = ROOT_NAMES[account.type];
+            const firstWord = account.name.trim().toLowerCase().split(/[^a-z]+/)[0];
+            // A second top-level account of the same type becomes a component, roots cannot take a suffix
+            const isRoot = !parent && ROOT_ALIASES[account.type].includes(firstWord) && !taken.has(root);
+            base = isRoot ? root : `${root}:${sanitizeBeancountComponent(account.name)}`;
+        }
+        let name = base;
+        for (let i = 2; taken.has(name); i++) name = `${base}-${i}`;
+        taken.add(name);
+        names.set(account.id, name);
+    });
+    return names;
+};
+
+// --- EXPORT ---
+
+const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\s*\r?\n\s*/g, ' ')}"`;
+
+const formatTag = (tag: string) => `#${tag.trim().replace(/[^A-Za-z0-9\-_/.]+/g, '-')}`;
+
+const formatPostingAmount = (split: Split, baseCurrency: string): string => {
+    if (split.currency && split.currency !== baseCurrency && split.originalAmount !== undefined) {
+        // A total cost keeps the base weight exact
+        return `${formatMoney(split.originalAmount)} ${split.currency} @@ ${formatMoney(Math.abs(split.amount))} ${baseCurrency}`;
+    }
+    return `${formatMoney(split.amount)} ${baseCurrency}`;
+};
+
+export const exportToBeancount = (transactions: Transaction[], accounts: Account[], baseCurrency: string): string => {
+    const names = getBeancountAccountNames(accounts);
+    const sorted = transactions
+        .filter(tx => tx.splits.length > 0)
+        .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+    const dated = sorted.filter(tx => DATE_PATTERN.test(tx.date));
+    // Accounts are opened on the first day of the ledger, so every posting falls after its open
+    const openDate = dated.length > 0 ? dated[0].date : new Date().toISOString().split('T')[0];
+    const needsUnknown = dated.some(tx => tx.splits.some(s => !names.has(s.accountId)));
+
+    const lines: string[] = [
+        `; Exported from LedgerFlow on ${new Date().toISOString().split('T')[0]}`,
+        `option "title" "LedgerFlow"`,
+        `option "operating_currency" "${baseCurrency}"`,
+        ''
+    ];
+
+    [...Array.from(names.values()), ...(needsUnknown ? [UNKNOWN_ACCOUNT] : [])]
+        .sort()
+        .forEach(name => lines.push(`${openDate} open ${name}`));
+    lines.push('');
+
+    sorted.forEach(tx => {
+        if (!DATE_PATTERN.test(tx.date)) {
+            lines.push(`; Skipped, invalid date "${tx.date}": ${tx.payee || tx.description || tx.id}`, '');
+            return;
+        }
+        const header = tx.payee
+            ? `${quote(tx.payee)} ${quote(tx.description || '')}`
+            : quote(tx.description || '');
+        const tags = (tx.tags || []).map(formatTag).join(' ');
+        lines.push(`${tx.date} * ${header}${tags ? ` ${tags}` : ''}`);
+        tx.splits.forEach(split => {
+            const memo = split.memo ? `  ; ${split.memo.replace(/\r?\n/g, ' ')}` : '';
+            lines.push(`  ${names.get(split.accountId) || UNKNOWN_ACCOUNT}  ${formatPostingAmount(split, baseCurrency)}${memo}`);
+            // Bank status and statement ids survive as posting metadata, which Fava shows
+            if (split.status && split.status !== 'pending') lines.push(`    status: ${quote(split.status)}`);
+            if (split.externalId) lines.push(`    external-id: ${quote(split.externalId)}`);
+        });
+        lines.push('');
+    });
+
+    return lines.join('\n');
+};
+
+// --- ROUND-TRIP CHECK ---
+
+export interface BeancountBalanceMismatch {
+    accountId: string;
+    name: string; // Beancount account name
+    expected: number; // getFlattenedBalances, base currency
+    exported: number;
+}
+
+// Base-currency weight of each posting line in the file, summed per beancount account
+const readPostingWeights = (content: string, baseCurrency: string): Map<string, MinorUnits> => {
+    const totals = new Map<string, MinorUnits>();
+    const posting = /^\s+([A-Z][A-Za-z0-9-]*(?::[A-Z0-9][A-Za-z0-9-]*)*)\s{2,}(-?[\d.]+)\s+([A-Z][A-Z0-9'._-]*)(?:\s+@@\s+([\d.]+)\s+([A-Z][A-Z0-9'._-]*))?/;
+    content.split('\n').forEach(line => {
+        const match = posting.exec(line);
+        if (!match) return;
+        const units = parseMoney(match[2]);
+        if (units === null) return;
+        let weight = units;
+        if (match[4] && match[5] === baseCurrency) {
+            const cost = parseMoney(match[4]) ?? 0;
+            weight = units < 0 ? -cost : cost;
+        } else if (match[3] !== baseCurrency) {
+            return; // Not valued in the base currency, nothing to compare
+        }
+        totals.set(match[1], (totals.get(match[1]) || 0) + weight);
+    });
+    return totals;
+};
+
+// Re-read an exported file and compare every account's balance (including sub-accounts)
+// with getFlattenedBalances. An empty list means the export is faithful.
+export const verifyBeancountExport = (
+    content: string,
+    accounts: Account[],
+    transactions: Transaction[],
+    baseCurrency: string
+): BeancountBalanceMismatch[] => {
+    const names = getBeancountAccountNames(accounts);
+    const totals = readPostingWeights(content, baseCurrency);
+    const exportedOwn = new Map(accounts.map(a => [a.id, totals.get(names.get(a.id)!) || 0]));
+
+    return getFlattenedBalances(accounts, transactions).flatMap(balance => {
+        let exportedMinor = 0;
+        getDescendantAccountIds(balance.id, accounts).forEach(id => { exportedMinor += exportedOwn.get(id) || 0; });
+        if (exportedMinor === toMinorUnits(balance.balance)) return [];
+        return [{
+            accountId: balance.id,
+            name: names.get(balance.id)!,
+            expected: balance.balance,
+            exported: fromMinorUnits(exportedMinor)
+        }];
+    });
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { Transaction } from '../types';
+import { createCsvReader, formatCsvRow, parseCsv, parseCsvChunked } from './csvService';
+import { parseTransactionsFromCSV, parseTransactionsFromCSVAsync, serializeTransactionsToCSV } from './ledgerService';
+
+const TRICKY = '﻿id,text\r\n1,"a, ""quoted""\r\nline"\n2,plain\n\n3,""';
+
+describe('parseCsv', () => {
+    it('reads quotes, embedded line breaks and blank lines with their line numbers', () => {
+        expect(parseCsv(TRICKY)).toEqual([
+            { line: 1, cells: ['id', 'text'] },
+            { line: 2, cells: ['1', 'a, "quoted"\r\nline'] },
+            { line: 4, cells: ['2', 'plain'] },
+            { line: 5, cells: [''] },
+            { line: 6, cells: ['3', ''] }
+        ]);
+    });
+
+    it('gives the same records whatever the chunk boundaries', async () => {
+        const whole = parseCsv(TRICKY);
+        for (const size of [1, 2, 3, 7]) {
+            const records: ReturnType<typeof parseCsv> = [];
+            await parseCsvChunked(TRICKY, chunk => records.push(...chunk), size);
+            expect(records).toEqual(whole);
+        }
+    });
+
+    it('does not emit a record before its line break arrives', () => {
+        const reader = createCsvReader();
+        expect(reader.push('a,b\r')).toEqual([]);
+        expect(reader.push('\nc,"d')).toEqual([{ line: 1, cells: ['a', 'b'] }]);
+        expect(reader.push('"')).toEqual([]);
+        expect(reader.end()).toEqual([{ line: 2, cells: ['c', 'd'] }]);
+    });
+
+    it('rejects malformed quoting with the line number', () => {
+        expect(() => parseCsv('a,b\n1,"open')).toThrow('Line 2: Quoted field is never closed.');
+        expect(() => parseCsv('a\n\n"x"y')).toThrow('Line 3: Unexpected "y" after a closing quote.');
+        expect(() => parseCsv('a\nsay "hi"')).toThrow(/^Line 2: Quote inside an unquoted field/);
+    });
+});
+
+describe('formatCsvRow', () => {
+    it('quotes only when needed unless the column is always quoted', () => {
+        expect(formatCsvRow(['1', 'a,b', 'say "hi"', ' pad', 'x'], new Set([4]))).toBe('1,"a,b","say ""hi"""," pad","x"');
+    });
+});
+
+describe('Transaction.csv', () => {
+    const transactions: Transaction[] = [
+        {
+            id: 't2',
+            date: '2025-01-02',
+            createdAt: 2,
+            payee: 'Café "Central", Vienna',
+            description: 'Line one\nline two',
+            tags: ['trip', 'food'],
+            splits: [
+                { accountId: 'acc_checking', amount: -45, currency: 'EUR', originalAmount: -41.4, rate: 1.087, status: 'reconciled', externalId: 'X1' },
+                { accountId: 'acc_food', amount: 45, memo: 'Lunch, tip included' }
+            ]
+        },
+        {
+            id: 't1',
+            date: '2025-01-01',
+            createdAt: 1,
+            payee: 'Shop',
+            description: '',
+            splits: [{ accountId: 'acc_checking', amount: -0.1, status: 'cleared' }, { accountId: 'acc_food', amount: 0.1 }]
+        }
+    ];
+
+    it('round trips every column', async () => {
+        const csv = serializeTransactionsToCSV(transactions);
+        expect(parseTransactionsFromCSV(csv)).toEqual(transactions);
+        expect(await parseTransactionsFromCSVAsync(csv)).toEqual(transactions);
+    });
+
+    it('reads files written before the optional columns existed', () => {
+        const csv = 'Transaction ID,Date,Created At,Payee,Description,Account ID,Amount\nt1,2025-01-01,1,Shop,,acc_checking,-1203.4999999\nt1,2025-01-01,1,Shop,,acc_food,1203.5';
+        const [tx] = parseTransactionsFromCSV(csv);
+        expect(tx.splits).toEqual([{ accountId: 'acc_checking', amount: -1203.5 }, { accountId: 'acc_food', amount: 1203.5 }]);
+    });
+
+    it('rejects the whole file and lists the bad rows', () => {
+        const csv = 'header\nt1,2025-01-01,1,Shop,,acc_checking,abc\n,2025-01-01,1,Shop,,acc_food,1\nshort,row';
+        expect(() => parseTransactionsFromCSV(csv, '2025.csv')).toThrow(
+            '2025.csv has 3 invalid row(s):\nLine 2: invalid amount "abc".\nLine 3: missing transaction ID.\nLine 4: expected at least 7 columns, found 2.'
+        );
+    });
+});
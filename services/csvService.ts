@@ -0,0 +1,156 @@
+// RFC 4180 reader and writer for Transaction.csv. Quoted fields may contain commas, "" and line
+// breaks; a leading BOM is dropped and both \n and \r\n end a record. The reader takes the text in
+// chunks, so large files can be parsed a piece at a time without blocking the UI.
+
+export interface CsvRecord {
+    line: number; // 1-based line on which the record starts
+    cells: string[];
+}
+
+// Text handed to the reader per step by parseCsvChunked
+export const CSV_CHUNK_SIZE = 256 * 1024;
+
+// Malformed quoting cannot be recovered from, so these errors end the parse
+export const csvError = (line: number, message: string) => new Error(`Line ${line}: ${message}`);
+
+const countLineBreaks = (text: string): number => {
+    const breaks = text.match(/\r\n|\r|\n/g);
+    return breaks ? breaks.length : 0;
+};
+
+// --- READING ---
+
+interface RecordResult {
+    cells: string[];
+    end: number; // Index after the record, including its line break
+}
+
+// One record starting at `start`, or null when the buffer ends before the record does
+const readRecord = (buffer: string, start: number, line: number, isFinal: boolean): RecordResult | null => {
+    const cells: string[] = [];
+    let i = start;
+
+    while (true) {
+        let cell = '';
+        if (buffer[i] === '"') {
+            let from = i + 1;
+            while (true) {
+                const quote = buffer.indexOf('"', from);
+                if (quote === -1) {
+                    if (!isFinal) return null;
+                    throw csvError(line + countLineBreaks(buffer.slice(start, i)), 'Quoted field is never closed.');
+                }
+                // A quote at the very end of a chunk may be the first half of ""
+                if (quote === buffer.length - 1 && !isFinal) return null;
+                if (buffer[quote + 1] === '"') {
+                    cell += buffer.slice(from, quote) + '"';
+                    from = quote + 2;
+                    continue;
+                }
+                cell += buffer.slice(from, quote);
+                i = quote + 1;
+                break;
+            }
+            const next = buffer[i];
+            if (i < buffer.length && next !== ',' && next !== '\n' && next !== '\r') {
+                throw csvError(line + countLineBreaks(buffer.slice(start, i)), `Unexpected "${next}" after a closing quote.`);
+            }
+        } else {
+            let end = i;
+            while (end < buffer.length) {
+                const char = buffer[end];
+                if (char === ',' || char === '\n' || char === '\r') break;
+                if (char === '"') throw csvError(line + countLineBreaks(buffer.slice(start, i)), 'Quote inside an unquoted field; quote the whole field and double the quote.');
+                end++;
+            }
+            if (end === buffer.length && !isFinal) return null;
+            cell = buffer.slice(i, end);
+            i = end;
+        }
+        cells.push(cell);
+
+        if (i >= buffer.length) return { cells, end: i };
+        if (buffer[i] === ',') {
+            i++;
+            continue;
+        }
+        if (buffer[i] === '\r') {
+            // "\r" at the end of a chunk may be the first half of "\r\n"
+            if (i === buffer.length - 1 && !isFinal) return null;
+            return { cells, end: buffer[i + 1] === '\n' ? i + 2 : i + 1 };
+        }
+        return { cells, end: i + 1 };
+    }
+};
+
+export interface CsvReader {
+    push: (chunk: string) => CsvRecord[]; // Records completed by this chunk
+    end: () => CsvRecord[]; // The rest, once there is no more input
+}
+
+export const createCsvReader = (): CsvReader => {
+    let buffer = '';
+    let line = 1;
+    let isFirstChunk = true;
+
+    const drain = (isFinal: boolean): CsvRecord[] => {
+        const records: CsvRecord[] = [];
+        let position = 0;
+        while (position < buffer.length) {
+            const result = readRecord(buffer, position, line, isFinal);
+            if (!result) break;
+            records.push({ line, cells: result.cells });
+            line += countLineBreaks(buffer.slice(position, result.end));
+            position = result.end;
+        }
+        buffer = buffer.slice(position);
+        return records;
+    };
+
+    return {
+        push: (chunk) => {
+            if (isFirstChunk) {
+                chunk = chunk.replace(/^\uFEFF/, '');
+                isFirstChunk = false;
+            }
+            buffer += chunk;
+            return drain(false);
+        },
+        end: () => drain(true)
+    };
+};
+
+// Empty lines come back as a record with one empty cell
+export const isBlankRecord = (record: CsvRecord) => record.cells.length === 1 && record.cells[0].trim() === '';
+
+export const parseCsv = (text: string): CsvRecord[] => {
+    const reader = createCsvReader();
+    return [...reader.push(text), ...reader.end()];
+};
+
+// Hands the records to `onRecords` one chunk at a time and yields to the event loop in between
+export const parseCsvChunked = async (
+    text: string,
+    onRecords: (records: CsvRecord[]) => void,
+    chunkSize = CSV_CHUNK_SIZE
+): Promise<void> => {
+    const reader = createCsvReader();
+    for (let offset = 0; offset < text.length; offset += chunkSize) {
+        onRecords(reader.push(text.slice(offset, offset + chunkSize)));
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+    onRecords(reader.end());
+};
+
+// --- WRITING ---
+
+// Fields are only quoted when they need it, unless `alwaysQuote` is set (free-text columns)
+export const formatCsvField = (value: string, alwaysQuote = false): string => {
+    if (alwaysQuote || /[",\r\n]/.test(value) || value !== value.trim()) {
+        return `"${value.replace(/"/g, '""')}"`;
+    }
+    return value;
+};
+
+export const formatCsvRow = (cells: string[], quotedColumns: ReadonlySet<number> = new Set()): string =>
+    cells.map((cell, index) => formatCsvField(cell, quotedColumns.has(index))).join(',');
@@ -0,0 +1,147 @@
+import { Account, AccountType, ExchangeRateTable, FlattenedAccountBalance, Split, Transaction } from '../types';
+import { MinorUnits, toMinorUnits, fromMinorUnits, multiplyMoney, roundMoney } from './moneyService';
+import { BalanceRange, LedgerIndex, createLedgerIndex } from './ledgerIndexService';
+
+// --- EXCHANGE RATE LOOKUP ---
+
+export const getAccountCurrency = (account: Account | undefined, table: ExchangeRateTable): string => {
+    return account?.currency || table.baseCurrency;
+};
+
+// All currencies known to the ledger: the base currency, every rate entry and every account currency
+export const getAvailableCurrencies = (table: ExchangeRateTable, accounts: Account[]): string[] => {
+    const currencies = new Set<string>([table.baseCurrency]);
+    table.rates.forEach(r => currencies.add(r.currency));
+    accounts.forEach(a => { if (a.currency) currencies.add(a.currency); });
+    return Array.from(currencies).sort();
+};
+
+// Rate (base units per 1 unit of currency) valid on the given date.
+// Uses the latest entry on or before the date, falling back to the earliest entry when the date predates the table.
+export const getExchangeRate = (table: ExchangeRateTable, currency: string, date: string): number | null => {
+    if (currency === table.baseCurrency) return 1;
+
+    const entries = table.rates
+        .filter(r => r.currency === currency && r.rate > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    if (entries.length === 0) return null;
+
+    let match = entries[0];
+    for (const entry of entries) {
+        if (entry.date <= date) match = entry;
+        else break;
+    }
+    return match.rate;
+};
+
+// Convert between any two currencies through the base currency.
+// Missing rates are treated as 1:1 so dashboards keep rendering; the rate table UI flags them.
+export const convertCurrency = (
+    amount: number,
+    from: string,
+    to: string,
+    table: ExchangeRateTable,
+    date: string
+): number => {
+    if (from === to) return amount;
+    const fromRate = getExchangeRate(table, from, date) ?? 1;
+    const toRate = getExchangeRate(table, to, date) ?? 1;
+    return (amount * fromRate) / toRate;
+};
+
+// --- SPLIT HELPERS ---
+
+// Build a split for an account held in a foreign currency. `amount` is derived in the base currency.
+export const buildForeignSplit = (accountId: string, originalAmount: number, currency: string, rate: number): Split => ({
+    accountId,
+    amount: multiplyMoney(originalAmount, rate),
+    currency,
+    originalAmount,
+    rate
+});
+
+// Amount of a split expressed in its account's own currency
+export const getSplitNativeAmount = (
+    split: Split,
+    accountCurrency: string,
+    table: ExchangeRateTable,
+    date: string
+): number => {
+    if (split.currency === accountCurrency && split.originalAmount !== undefined) {
+        return split.originalAmount;
+    }
+    return convertCurrency(split.amount, table.baseCurrency, accountCurrency, table, date);
+};
+
+// --- REPORTING ---
+
+const isRevalued = (account: Account) => account.type === AccountType.ASSET || account.type === AccountType.LIABILITY;
+
+// Tree balances converted to the reporting currency, read from a ledger index (optionally limited
+// to a date range). Asset and Liability accounts held in a foreign currency are revalued at the
+// as-of rate; every other split keeps the base value it was booked at.
+export const getIndexedReportingBalances = (
+    index: LedgerIndex,
+    table: ExchangeRateTable,
+    reportingCurrency: string,
+    asOfDate: string,
+    range?: BalanceRange
+): FlattenedAccountBalance[] => {
+    const { accounts } = index;
+
+    // Own balance per account in base minor units; foreign holdings are summed in their own
+    // currency day by day (splits booked in base are converted at their date) and revalued once
+    const ownBalance = (acc: Account): MinorUnits => {
+        const accCurrency = getAccountCurrency(acc, table);
+        if (!isRevalued(acc) || accCurrency === table.baseCurrency) return index.getBalance(acc.id, range);
+        let native = 0;
+        index.getDays(acc.id, range).forEach(([date, day]) => {
+            native += fromMinorUnits(day.native) + convertCurrency(fromMinorUnits(day.unconverted), table.baseCurrency, accCurrency, table, date);
+        });
+        return toMinorUnits(convertCurrency(native, accCurrency, table.baseCurrency, table, asOfDate));
+    };
+
+    const rolledUp = new Map<string, MinorUnits>();
+    const rollUp = (account: Account, depth: number): MinorUnits => {
+        if (rolledUp.has(account.id)) return rolledUp.get(account.id)!;
+        let total = ownBalance(account);
+        if (depth < 20) {
+            index.getChildren(account.id).forEach(child => {
+                total += rollUp(child, depth + 1);
+            });
+        }
+        rolledUp.set(account.id, total);
+        return total;
+    };
+
+    return accounts.map(acc => ({
+        id: acc.id,
+        name: acc.name,
+        type: acc.type,
+        balance: roundMoney(convertCurrency(fromMinorUnits(rollUp(acc, 0)), table.baseCurrency, reportingCurrency, table, asOfDate)),
+        budget: roundMoney(convertCurrency(acc.budget || 0, table.baseCurrency, reportingCurrency, table, asOfDate))
+    }));
+};
+
+// Same as getIndexedReportingBalances for callers without an index at hand
+export const getReportingBalances = (
+    accounts: Account[],
+    transactions: Transaction[],
+    table: ExchangeRateTable,
+    reportingCurrency: string,
+    asOfDate: string
+): FlattenedAccountBalance[] =>
+    getIndexedReportingBalances(createLedgerIndex(accounts, transactions), table, reportingCurrency, asOfDate);
+
+export const formatCurrency = (amount: number, currency: string, options?: Intl.NumberFormatOptions): string => {
+    try {
+        return new Intl.NumberFormat(undefined, {
+            style: 'currency',
+            currency,
+            ...options
+        }).format(amount);
+    } catch (e) {
+        // Unknown ISO code, fall back to a plain number with the code appended
+        return `${amount.toFixed(2)} ${currency}`;
+    }
+};
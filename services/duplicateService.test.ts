@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { Split, Transaction } from '../types';
+import { findImportDuplicates, getPayeeSimilarity, mergeDuplicate, resolveDuplicates, scanForDuplicates } from './duplicateService';
+
+const tx = (id: string, date: string, payee: string, amount: number, createdAt = 0, extra: Partial<Split> = {}): Transaction => ({
+    id,
+    date,
+    payee: payee || undefined,
+    createdAt,
+    splits: [{ accountId: 'acc_checking', amount: -amount, ...extra }, { accountId: 'acc_food', amount }]
+});
+
+describe('getPayeeSimilarity', () => {
+    it('ignores bank noise and matches contained names', () => {
+        expect(getPayeeSimilarity('POS PURCHASE STARBUCKS #123', 'Starbucks')).toBe(1);
+        expect(getPayeeSimilarity('AMAZON MKTPLACE', 'Amazon')).toBe(0.9);
+        expect(getPayeeSimilarity('Starbucks', 'Shell')).toBeLessThan(0.5);
+        expect(getPayeeSimilarity('', 'Shell')).toBe(0);
+    });
+});
+
+describe('findImportDuplicates', () => {
+    it('matches the same amount a few days apart with a similar payee', () => {
+        const existing = [tx('a', '2025-03-01', 'Starbucks', 4.5)];
+        const [pair] = findImportDuplicates([tx('b', '2025-03-03', 'STARBUCKS STORE 42', 4.5)], existing);
+        expect(pair.existing.id).toBe('a');
+        expect(pair.reasons).toContain('2 day(s) apart');
+    });
+
+    it('does not match same-amount entries with different or missing payees', () => {
+        const existing = [tx('a', '2025-03-01', 'Starbucks', 4.5), tx('c', '2025-03-01', '', 4.5)];
+        expect(findImportDuplicates([tx('b', '2025-03-01', 'Shell', 4.5)], existing)).toEqual([]);
+        expect(findImportDuplicates([tx('d', '2025-03-01', '', 4.5)], existing)).toEqual([]);
+    });
+
+    it('matches the same bank id regardless of payee and never two different ones', () => {
+        const existing = [tx('a', '2025-03-01', 'Card 1234', 4.5, 0, { externalId: 'X1' })];
+        const [pair] = findImportDuplicates([tx('b', '2025-03-02', 'Shell', 4.5, 0, { externalId: 'X1' })], existing);
+        expect(pair.reasons).toContain('Same bank id');
+        expect(findImportDuplicates([tx('c', '2025-03-01', 'Card 1234', 4.5, 0, { externalId: 'X2' })], existing)).toEqual([]);
+    });
+
+    it('leaves entries outside the date window alone', () => {
+        expect(findImportDuplicates([tx('b', '2025-03-10', 'Starbucks', 4.5)], [tx('a', '2025-03-01', 'Starbucks', 4.5)])).toEqual([]);
+    });
+});
+
+describe('scanForDuplicates', () => {
+    it('pairs each entry once with the later one as incoming', () => {
+        const pairs = scanForDuplicates([
+            tx('late', '2025-03-01', 'Starbucks', 4.5, 3),
+            tx('early', '2025-03-01', 'Starbucks', 4.5, 1),
+            tx('third', '2025-03-02', 'Starbucks', 4.5, 5)
+        ]);
+        expect(pairs.map(p => [p.incoming.id, p.existing.id])).toEqual([['late', 'early']]);
+    });
+});
+
+describe('resolving', () => {
+    it('merges statuses and bank ids into the existing entry', () => {
+        const existing = tx('a', '2025-03-01', 'Starbucks', 4.5);
+        const incoming = tx('b', '2025-03-02', 'STARBUCKS', 4.5, 1, { status: 'cleared', externalId: 'X1' });
+        const merged = mergeDuplicate(existing, incoming);
+        expect(merged.id).toBe('a');
+        expect(merged.date).toBe('2025-03-01');
+        expect(merged.splits[0]).toEqual({ accountId: 'acc_checking', amount: -4.5, status: 'cleared', externalId: 'X1' });
+    });
+
+    it('keeps reconciled entries and applies the other decisions', () => {
+        const a = tx('a', '2025-03-01', 'Starbucks', 4.5);
+        const b = tx('b', '2025-03-01', 'Starbucks', 4.5, 1);
+        const c = tx('c', '2025-04-01', 'Shell', 30);
+        const d = tx('d', '2025-04-01', 'Shell', 30, 1, { status: 'reconciled' });
+        const pairs = [
+            { incoming: b, existing: a, score: 1, reasons: [] },
+            { incoming: d, existing: c, score: 1, reasons: [] }
+        ];
+        const result = resolveDuplicates([a, b, c, d], pairs, { b: 'skip', d: 'skip' });
+        expect(result.transactions.map(t => t.id)).toEqual(['a', 'c', 'd']);
+        expect(result.warnings).toEqual(['"Shell" has reconciled splits and was kept.']);
+    });
+});
@@ -0,0 +1,229 @@
+import { DuplicatePair, DuplicateResolution, Split, SplitStatus, Transaction } from '../types';
+import { toMinorUnits } from './moneyService';
+import { getReconciledChangeBlocker } from './reconciliationService';
+
+// Statements often post a few days after the purchase was typed in
+export const DUPLICATE_DATE_WINDOW_DAYS = 4;
+
+// Pairs scoring below this are not shown
+export const DUPLICATE_THRESHOLD = 0.6;
+
+// Same account, amount and date alone is common (two coffees, a monthly transfer): the payees must
+// be at least this similar too, unless both entries carry the same bank id
+export const MIN_PAYEE_SIMILARITY = 0.5;
+
+// --- MATCHING ---
+
+// Words banks add around the merchant name
+const NOISE_WORDS = new Set(['pos', 'card', 'purchase', 'debit', 'credit', 'payment', 'visa', 'mastercard', 'sepa', 'the', 'inc', 'llc', 'ltd', 'gmbh', 'co']);
+
+const normalizePayee = (text: string): string => text
+    .toLowerCase()
+    .replace(/[^a-zÀ-ɏ\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !NOISE_WORDS.has(word))
+    .join(' ');
+
+const bigrams = (text: string): string[] => {
+    const compact = text.replace(/\s/g, '');
+    return Array.from({ length: Math.max(0, compact.length - 1) }, (_, i) => compact.slice(i, i + 2));
+};
+
+// 0..1 similarity of two payee texts; "AMAZON MKTPLACE 123" and "Amazon" count as close
+export const getPayeeSimilarity = (a: string, b: string): number => {
+    const left = normalizePayee(a);
+    const right = normalizePayee(b);
+    if (!left || !right) return 0;
+    if (left === right) return 1;
+    if ((left.length >= 3 && right.includes(left)) || (right.length >= 3 && left.includes(right))) return 0.9;
+
+    // Dice coefficient on character pairs
+    const leftPairs = bigrams(left);
+    const rightPairs = bigrams(right);
+    if (leftPairs.length === 0 || rightPairs.length === 0) return 0;
+    const remaining = [...rightPairs];
+    let shared = 0;
+    leftPairs.forEach(pair => {
+        const index = remaining.indexOf(pair);
+        if (index !== -1) {
+            shared++;
+            remaining.splice(index, 1);
+        }
+    });
+    return (2 * shared) / (leftPairs.length + rightPairs.length);
+};
+
+const daysBetween = (a: string, b: string) => Math.abs(Date.parse(a) - Date.parse(b)) / 86400000;
+
+const splitKey = (split: Split) => `${split.accountId}|${toMinorUnits(split.amount)}`;
+
+const payeeText = (tx: Transaction) => tx.payee || tx.description || '';
+
+// Same account and amount on at least one split, dates within the window and similar payees,
+// then weighted by date distance and payee similarity
+const scoreDuplicate = (a: Transaction, b: Transaction): { score: number; reasons: string[] } | null => {
+    const shared = a.splits.find(sa => b.splits.some(sb => splitKey(sa) === splitKey(sb)));
+    if (!shared) return null;
+
+    // Two different bank lines are never the same movement
+    const otherSplit = b.splits.find(sb => splitKey(sb) === splitKey(shared))!;
+    if (shared.externalId && otherSplit.externalId && shared.externalId !== otherSplit.externalId) return null;
+    const sameBankLine = !!shared.externalId && shared.externalId === otherSplit.externalId;
+
+    const days = daysBetween(a.date, b.date);
+    if (days > DUPLICATE_DATE_WINDOW_DAYS) return null;
+
+    const similarity = getPayeeSimilarity(payeeText(a), payeeText(b));
+    if (similarity < MIN_PAYEE_SIMILARITY && !sameBankLine) return null;
+    const score = 0.5 + 0.2 * (1 - days / (DUPLICATE_DATE_WINDOW_DAYS + 1)) + 0.3 * similarity;
+    const reasons = [
+        'Same account and amount',
+        days === 0 ? 'Same date' : `${Math.round(days)} day(s) apart`,
+        ...(sameBankLine ? ['Same bank id'] : []),
+        ...(similarity >= MIN_PAYEE_SIMILARITY ? [`Similar payee (${Math.round(similarity * 100)}%)`] : [])
+    ];
+    return { score: sameBankLine ? Math.max(score, DUPLICATE_THRESHOLD) : score, reasons };
+};
+
+// Index by account and amount so that only plausible candidates are scored
+const buildIndex = (transactions: Transaction[]): Map<string, Transaction[]> => {
+    const index = new Map<string, Transaction[]>();
+    transactions.forEach(tx => {
+        new Set(tx.splits.map(splitKey)).forEach(key => {
+            if (!index.has(key)) index.set(key, []);
+            index.get(key)!.push(tx);
+        });
+    });
+    return index;
+};
+
+const findBestMatch = (
+    tx: Transaction,
+    index: Map<string, Transaction[]>,
+    isAllowed: (candidate: Transaction) => boolean
+): DuplicatePair | null => {
+    let best: DuplicatePair | null = null;
+    const seen = new Set<string>();
+    tx.splits.forEach(split => {
+        (index.get(splitKey(split)) || []).forEach(candidate => {
+            if (seen.has(candidate.id) || candidate.id === tx.id || !isAllowed(candidate)) return;
+            seen.add(candidate.id);
+            const result = scoreDuplicate(tx, candidate);
+            if (result && result.score >= DUPLICATE_THRESHOLD && (!best || result.score > best.score)) {
+                best = { incoming: tx, existing: candidate, ...result };
+            }
+        });
+    });
+    return best;
+};
+
+// Likely doubles between freshly imported entries and the ledger; each existing entry is matched once
+export const findImportDuplicates = (incoming: Transaction[], existing: Transaction[]): DuplicatePair[] => {
+    const index = buildIndex(existing);
+    const claimed = new Set<string>();
+    const pairs: DuplicatePair[] = [];
+    incoming.forEach(tx => {
+        const pair = findBestMatch(tx, index, candidate => !claimed.has(candidate.id));
+        if (pair) {
+            claimed.add(pair.existing.id);
+            pairs.push(pair);
+        }
+    });
+    return pairs;
+};
+
+// Likely doubles inside the ledger. The later-created entry of each pair is the `incoming` one.
+export const scanForDuplicates = (transactions: Transaction[]): DuplicatePair[] => {
+    const ordered = [...transactions].sort((a, b) => a.createdAt - b.createdAt);
+    const position = new Map(ordered.map((tx, i) => [tx.id, i]));
+    const index = buildIndex(ordered);
+    const paired = new Set<string>();
+    const pairs: DuplicatePair[] = [];
+    ordered.forEach(tx => {
+        if (paired.has(tx.id)) return;
+        const pair = findBestMatch(tx, index, candidate => !paired.has(candidate.id) && position.get(candidate.id)! < position.get(tx.id)!);
+        if (pair) {
+            paired.add(pair.existing.id);
+            paired.add(tx.id);
+            pairs.push(pair);
+        }
+    });
+    return pairs;
+};
+
+// --- MERGING ---
+
+const STATUS_RANK: Record<SplitStatus, number> = { pending: 0, cleared: 1, reconciled: 2 };
+
+const higherStatus = (a?: SplitStatus, b?: SplitStatus): SplitStatus | undefined => {
+    if (!a) return b;
+    if (!b) return a;
+    return STATUS_RANK[a] >= STATUS_RANK[b] ? a : b;
+};
+
+// Splits with memos and more lines carry more information
+const getRichness = (tx: Transaction) => tx.splits.length * 10 + tx.splits.filter(s => s.memo).length;
+
+const buildMerged = (existing: Transaction, base: Transaction, other: Transaction): Transaction => {
+    const unmatched = [...other.splits];
+    const splits = base.splits.map(split => {
+        const index = unmatched.findIndex(s => splitKey(s) === splitKey(split));
+        if (index === -1) return split;
+        const [match] = unmatched.splice(index, 1);
+        const merged: Split = { ...split };
+        const status = higherStatus(split.status, match.status);
+        if (status) merged.status = status;
+        if (!merged.memo && match.memo) merged.memo = match.memo;
+        if (!merged.externalId && match.externalId) merged.externalId = match.externalId;
+        return merged;
+    });
+
+    const tags = Array.from(new Set([...(existing.tags || []), ...(base.tags || []), ...(other.tags || [])]));
+    return {
+        ...existing,
+        payee: existing.payee || other.payee || base.payee,
+        description: existing.description || base.description || other.description,
+        ...(tags.length > 0 ? { tags } : {}),
+        splits
+    };
+};
+
+// Fold `incoming` into `existing`: the richer split breakdown wins, ids, statuses and missing
+// details are carried over. The result keeps the existing id, date and creation time.
+export const mergeDuplicate = (existing: Transaction, incoming: Transaction): Transaction => {
+    if (getRichness(incoming) > getRichness(existing)) {
+        const merged = buildMerged(existing, incoming, existing);
+        // Reconciled lines of the existing entry may not be replaced
+        if (!getReconciledChangeBlocker(existing, merged)) return merged;
+    }
+    return buildMerged(existing, existing, incoming);
+};
+
+// Apply the chosen resolution (by incoming id, default keep) to a list holding both sides of every pair
+export const resolveDuplicates = (
+    transactions: Transaction[],
+    pairs: DuplicatePair[],
+    decisions: Record<string, DuplicateResolution>
+): { transactions: Transaction[]; warnings: string[] } => {
+    const removed = new Set<string>();
+    const replaced = new Map<string, Transaction>();
+    const warnings: string[] = [];
+
+    pairs.forEach(pair => {
+        const decision = decisions[pair.incoming.id] || 'keep';
+        if (decision === 'keep') return;
+        if (getReconciledChangeBlocker(pair.incoming, null)) {
+            warnings.push(`"${payeeText(pair.incoming) || pair.incoming.date}" has reconciled splits and was kept.`);
+            return;
+        }
+        removed.add(pair.incoming.id);
+        if (decision === 'merge') replaced.set(pair.existing.id, mergeDuplicate(pair.existing, pair.incoming));
+    });
+
+    return {
+        transactions: transactions
+            .filter(tx => !removed.has(tx.id))
+            .map(tx => replaced.get(tx.id) || tx),
+        warnings
+    };
+};
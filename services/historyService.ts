@@ -0,0 +1,79 @@
+import { Account, EntityChange, LedgerCommand, LedgerEntity, LedgerEntityValue, RecurringTransaction, Transaction } from '../types';
+import { LedgerData } from './ledgerService';
+
+// Number of commands kept on the undo stack
+export const HISTORY_LIMIT = 100;
+
+// --- DIFFING ---
+
+// Unchanged entities usually keep their object identity; the JSON check catches rebuilt but equal ones
+const isSameEntity = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const diffList = <T extends LedgerEntityValue>(entity: LedgerEntity, before: T[], after: T[]): EntityChange[] => {
+    const changes: EntityChange[] = [];
+    const afterMap = new Map(after.map(item => [item.id, item]));
+    const beforeIds = new Set(before.map(item => item.id));
+
+    before.forEach((item, index) => {
+        const next = afterMap.get(item.id);
+        if (!next) {
+            changes.push({ entity, id: item.id, before: item, after: null, index });
+        } else if (!isSameEntity(item, next)) {
+            changes.push({ entity, id: item.id, before: item, after: next });
+        }
+    });
+    after.forEach((item, index) => {
+        if (!beforeIds.has(item.id)) {
+            changes.push({ entity, id: item.id, before: null, after: item, index });
+        }
+    });
+    return changes;
+};
+
+// Describe the difference between two ledger states as one undoable command
+export const createLedgerCommand = (label: string, before: LedgerData, after: LedgerData): LedgerCommand => ({
+    label,
+    timestamp: Date.now(),
+    changes: [
+        ...diffList('account', before.accounts, after.accounts),
+        ...diffList('transaction', before.transactions, after.transactions),
+        ...diffList('recurring', before.recurring, after.recurring)
+    ]
+});
+
+// --- APPLYING ---
+
+const setInList = <T extends LedgerEntityValue>(list: T[], change: EntityChange, target: T | null): T[] => {
+    const result = [...list];
+    const position = result.findIndex(item => item.id === change.id);
+    if (target === null) {
+        if (position !== -1) result.splice(position, 1);
+    } else if (position !== -1) {
+        result[position] = target;
+    } else {
+        result.splice(Math.min(change.index ?? 0, result.length), 0, target);
+    }
+    return result;
+};
+
+const applyChange = (data: LedgerData, change: EntityChange, direction: 'forward' | 'backward'): LedgerData => {
+    const target = direction === 'forward' ? change.after : change.before;
+    switch (change.entity) {
+        case 'account':
+            return { ...data, accounts: setInList(data.accounts, change, target as Account | null) };
+        case 'transaction':
+            return { ...data, transactions: setInList(data.transactions, change, target as Transaction | null) };
+        case 'recurring':
+            return { ...data, recurring: setInList(data.recurring, change, target as RecurringTransaction | null) };
+    }
+};
+
+// Redo: put every entity into its `after` state
+export const applyLedgerCommand = (data: LedgerData, command: LedgerCommand): LedgerData => {
+    return command.changes.reduce((acc, change) => applyChange(acc, change, 'forward'), data);
+};
+
+// Undo: put every entity back into its `before` state, last change first
+export const revertLedgerCommand = (data: LedgerData, command: LedgerCommand): LedgerData => {
+    return [...command.changes].reverse().reduce((acc, change) => applyChange(acc, change, 'backward'), data);
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { Account, AccountType, Transaction } from '../types';
+import { createLedgerIndex, LedgerIndex, syncLedgerIndex } from './ledgerIndexService';
+
+const tx = (id: string, date: string, accountId: string, amount: number): Transaction => ({
+    id,
+    date,
+    createdAt: 0,
+    splits: [{ accountId: 'acc_checking', amount: -amount }, { accountId, amount }]
+});
+
+const LEDGER = [
+    tx('t1', '2025-01-05', 'acc_grocery', 40.1),
+    tx('t2', '2025-01-05', 'acc_treat', 5.2),
+    tx('t3', '2025-02-10', 'acc_grocery', 60),
+    tx('t4', '2025-03-01', 'acc_bills', 100)
+];
+
+// Everything a view can ask for, to compare an incrementally updated index with a fresh one
+const snapshot = (index: LedgerIndex) => ({
+    balances: Object.fromEntries(index.getTreeBalances()),
+    february: Object.fromEntries(index.getTreeBalances({ from: '2025-02-01', to: '2025-02-28' })),
+    days: index.getDays('acc_checking'),
+    bounds: index.getDateBounds()
+});
+
+describe('createLedgerIndex', () => {
+    const index = createLedgerIndex(INITIAL_ACCOUNTS, LEDGER);
+
+    it('answers own, ranged and rolled-up balances in minor units', () => {
+        expect(index.getBalance('acc_grocery')).toBe(10010);
+        expect(index.getBalance('acc_grocery', { to: '2025-01-31' })).toBe(4010);
+        expect(index.getBalance('acc_grocery', { from: '2025-01-06' })).toBe(6000);
+        expect(index.getBalance('acc_grocery', { from: '2025-02-10', to: '2025-02-10' })).toBe(6000);
+        expect(index.getBalance('acc_grocery', { from: '2025-02-11', to: '2025-02-28' })).toBe(0);
+        expect(index.getBalance('acc_food')).toBe(0);
+        expect(index.getTreeBalance('acc_food')).toBe(10530);
+        expect(index.getTreeBalance('root_expenses')).toBe(20530);
+        expect(index.getTreeBalances().get('root_assets')).toBe(-20530);
+    });
+
+    it('keeps one entry per account and day', () => {
+        expect(index.getDays('acc_checking', { to: '2025-02-28' })).toEqual([
+            ['2025-01-05', { amount: -4530, native: 0, unconverted: -4530, count: 2 }],
+            ['2025-02-10', { amount: -6000, native: 0, unconverted: -6000, count: 1 }]
+        ]);
+        expect(index.getDateBounds()).toEqual({ first: '2025-01-05', last: '2025-03-01' });
+    });
+
+    it('separates native amounts of foreign accounts', () => {
+        const accounts: Account[] = [...INITIAL_ACCOUNTS, { id: 'acc_eur', parentId: 'root_assets', name: 'Euro', type: AccountType.ASSET, currency: 'EUR' }];
+        const foreign = createLedgerIndex(accounts, [{
+            id: 'f1',
+            date: '2025-01-01',
+            createdAt: 0,
+            splits: [{ accountId: 'acc_eur', amount: 110, currency: 'EUR', originalAmount: 100, rate: 1.1 }, { accountId: 'acc_checking', amount: -110 }]
+        }]);
+        expect(foreign.getDays('acc_eur')).toEqual([['2025-01-01', { amount: 11000, native: 10000, unconverted: 0, count: 1 }]]);
+    });
+});
+
+describe('syncLedgerIndex', () => {
+    it('matches a full rebuild after adds, edits and deletes', () => {
+        const index = createLedgerIndex(INITIAL_ACCOUNTS, LEDGER);
+        const edited = [
+            { ...LEDGER[0], date: '2025-01-06' }, // Moved to another day
+            LEDGER[1],
+            // t3 deleted; its day disappears
+            { ...LEDGER[3], splits: [{ accountId: 'acc_checking', amount: -80 }, { accountId: 'acc_transport', amount: 80 }] },
+            tx('t5', '2024-12-31', 'acc_activity', 12.34)
+        ];
+        const synced = syncLedgerIndex(index, INITIAL_ACCOUNTS, edited);
+
+        expect(synced).not.toBe(index);
+        expect(synced.transactions).toBe(edited);
+        expect(index.transactions).toBe(LEDGER);
+        expect(snapshot(synced)).toEqual(snapshot(createLedgerIndex(INITIAL_ACCOUNTS, edited)));
+        expect(synced.getDays('acc_grocery')).toEqual([['2025-01-06', { amount: 4010, native: 0, unconverted: 4010, count: 1 }]]);
+        expect(synced.getBalance('acc_bills')).toBe(0);
+    });
+
+    it('returns the same index when nothing changed and rebuilds for new accounts', () => {
+        const index = createLedgerIndex(INITIAL_ACCOUNTS, LEDGER);
+        expect(syncLedgerIndex(index, INITIAL_ACCOUNTS, LEDGER)).toBe(index);
+
+        const accounts = [...INITIAL_ACCOUNTS, { id: 'acc_snacks', parentId: 'acc_food', name: 'Snacks', type: AccountType.EXPENSE }];
+        const rebuilt = syncLedgerIndex(index, accounts, LEDGER);
+        expect(rebuilt).not.toBe(index);
+        expect(rebuilt.getChildren('acc_food').map(a => a.id)).toContain('acc_snacks');
+        expect(syncLedgerIndex(null, INITIAL_ACCOUNTS, []).getDateBounds()).toBeNull();
+    });
+});
@@ -0,0 +1,204 @@
+import { Account, FlattenedAccountBalance, Transaction } from '../types';
+import { MinorUnits, toMinorUnits, fromMinorUnits } from './moneyService';
+
+// Per-account balances by day, built in one pass over the transactions. Date-range and as-of
+// queries use prefix sums over each account's days; roll-ups walk the account tree once.
+// The index follows the ledger incrementally: syncLedgerIndex only re-books the transactions
+// that were added, edited (a new object) or deleted since the last sync, and returns a new index
+// object whenever the balances changed, so React memos keyed on the index recompute.
+
+// Inclusive YYYY-MM-DD bounds; a missing bound is open
+export interface BalanceRange {
+    from?: string;
+    to?: string;
+}
+
+// Everything booked to one account on one day, in minor units
+export interface DayTotals {
+    amount: MinorUnits; // Base currency
+    native: MinorUnits; // Original amounts of splits in the account's own currency
+    unconverted: MinorUnits; // Base amounts of the remaining splits, for revaluing foreign accounts
+    count: number; // Splits, so that emptied days can be dropped
+}
+
+export interface LedgerIndex {
+    accounts: Account[];
+    readonly transactions: Transaction[]; // As of the sync that returned this index
+    getBalance: (accountId: string, range?: BalanceRange) => MinorUnits; // Own splits only
+    getTreeBalance: (accountId: string, range?: BalanceRange) => MinorUnits; // Including sub-accounts
+    getTreeBalances: (range?: BalanceRange) => Map<string, MinorUnits>; // Every account, including sub-accounts
+    getFlattenedBalances: (range?: BalanceRange) => FlattenedAccountBalance[];
+    getDays: (accountId: string, range?: BalanceRange) => [string, DayTotals][]; // Sorted by date
+    getDateBounds: () => { first: string; last: string } | null;
+    getChildren: (accountId: string) => Account[];
+    addTransaction: (tx: Transaction) => void;
+    removeTransaction: (tx: Transaction) => void;
+}
+
+// Same depth guard as getAccountPath, against circular parent links in hand-edited files
+const MAX_DEPTH = 20;
+
+interface AccountDays {
+    days: Map<string, DayTotals>;
+    // Sorted dates with running base totals, rebuilt on the first query after a change
+    sorted: { dates: string[]; running: MinorUnits[] } | null;
+    total: MinorUnits;
+}
+
+// First index whose date is >= `date` (or > `date` when `inclusive` is false)
+const searchDates = (dates: string[], date: string, inclusive: boolean): number => {
+    let low = 0;
+    let high = dates.length;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        if (inclusive ? dates[mid] < date : dates[mid] <= date) low = mid + 1;
+        else high = mid;
+    }
+    return low;
+};
+
+export const createLedgerIndex = (accounts: Account[], transactions: Transaction[]): LedgerIndex => {
+    const accountMap = new Map(accounts.map(a => [a.id, a]));
+    const childrenMap = new Map<string, Account[]>();
+    accounts.forEach(a => {
+        if (!a.parentId) return;
+        if (!childrenMap.has(a.parentId)) childrenMap.set(a.parentId, []);
+        childrenMap.get(a.parentId)!.push(a);
+    });
+    const byAccount = new Map<string, AccountDays>();
+
+    const book = (tx: Transaction, sign: 1 | -1) => {
+        tx.splits.forEach(split => {
+            let entry = byAccount.get(split.accountId);
+            if (!entry) {
+                entry = { days: new Map(), sorted: null, total: 0 };
+                byAccount.set(split.accountId, entry);
+            }
+            let day = entry.days.get(tx.date);
+            if (!day) {
+                day = { amount: 0, native: 0, unconverted: 0, count: 0 };
+                entry.days.set(tx.date, day);
+            }
+            const amount = toMinorUnits(split.amount) * sign;
+            const account = accountMap.get(split.accountId);
+            const isNative = !!account && !!account.currency && split.currency === account.currency && split.originalAmount !== undefined;
+            day.amount += amount;
+            if (isNative) day.native += toMinorUnits(split.originalAmount!) * sign;
+            else day.unconverted += amount;
+            day.count += sign;
+            entry.total += amount;
+            if (day.count <= 0) entry.days.delete(tx.date);
+            entry.sorted = null;
+        });
+    };
+
+    const getSorted = (entry: AccountDays) => {
+        if (!entry.sorted) {
+            const dates = Array.from(entry.days.keys()).sort();
+            const running: MinorUnits[] = [0];
+            dates.forEach((date, i) => running.push(running[i] + entry.days.get(date)!.amount));
+            entry.sorted = { dates, running };
+        }
+        return entry.sorted;
+    };
+
+    const getBalance = (accountId: string, range: BalanceRange = {}): MinorUnits => {
+        const entry = byAccount.get(accountId);
+        if (!entry) return 0;
+        if (range.from === undefined && range.to === undefined) return entry.total;
+        const { dates, running } = getSorted(entry);
+        const start = range.from === undefined ? 0 : searchDates(dates, range.from, true);
+        const end = range.to === undefined ? dates.length : searchDates(dates, range.to, false);
+        return end > start ? running[end] - running[start] : 0;
+    };
+
+    // One walk over the tree; each account's own balance is looked up once
+    const getTreeBalances = (range: BalanceRange = {}): Map<string, MinorUnits> => {
+        const rolledUp = new Map<string, MinorUnits>();
+        const rollUp = (account: Account, depth: number): MinorUnits => {
+            if (rolledUp.has(account.id)) return rolledUp.get(account.id)!;
+            let total = getBalance(account.id, range);
+            if (depth < MAX_DEPTH) {
+                (childrenMap.get(account.id) || []).forEach(child => {
+                    total += rollUp(child, depth + 1);
+                });
+            }
+            rolledUp.set(account.id, total);
+            return total;
+        };
+        accounts.forEach(a => rollUp(a, 0));
+        return rolledUp;
+    };
+
+    const getTreeBalance = (accountId: string, range: BalanceRange = {}): MinorUnits => {
+        let total = 0;
+        const visit = (id: string, depth: number) => {
+            total += getBalance(id, range);
+            if (depth < MAX_DEPTH) (childrenMap.get(id) || []).forEach(child => visit(child.id, depth + 1));
+        };
+        visit(accountId, 0);
+        return total;
+    };
+
+    const getDays = (accountId: string, range: BalanceRange = {}): [string, DayTotals][] => {
+        const entry = byAccount.get(accountId);
+        if (!entry) return [];
+        const { dates } = getSorted(entry);
+        const start = range.from === undefined ? 0 : searchDates(dates, range.from, true);
+        const end = range.to === undefined ? dates.length : searchDates(dates, range.to, false);
+        return dates.slice(start, end).map(date => [date, entry.days.get(date)!]);
+    };
+
+    const getDateBounds = () => {
+        let first: string | null = null;
+        let last: string | null = null;
+        byAccount.forEach(entry => {
+            const { dates } = getSorted(entry);
+            if (dates.length === 0) return;
+            if (first === null || dates[0] < first) first = dates[0];
+            if (last === null || dates[dates.length - 1] > last) last = dates[dates.length - 1];
+        });
+        return first !== null && last !== null ? { first, last } : null;
+    };
+
+    const index: LedgerIndex = {
+        accounts,
+        transactions,
+        getBalance,
+        getTreeBalance,
+        getTreeBalances,
+        getFlattenedBalances: (range) => {
+            const balances = getTreeBalances(range);
+            return accounts.map(acc => ({
+                id: acc.id,
+                name: acc.name,
+                type: acc.type,
+                balance: fromMinorUnits(balances.get(acc.id) || 0),
+                budget: acc.budget || 0
+            }));
+        },
+        getDays,
+        getDateBounds,
+        getChildren: (accountId) => childrenMap.get(accountId) || [],
+        addTransaction: (tx) => book(tx, 1),
+        removeTransaction: (tx) => book(tx, -1)
+    };
+
+    transactions.forEach(tx => book(tx, 1));
+    return index;
+};
+
+// Bring `index` up to date with the ledger. Unchanged transactions keep their object identity
+// across edits, so only entries missing from either list are re-booked. The result shares the
+// booked days with `index` but is a new object; pass it, not `index`, to the next sync. A changed
+// account list (new parents, currencies) rebuilds the index.
+export const syncLedgerIndex = (index: LedgerIndex | null, accounts: Account[], transactions: Transaction[]): LedgerIndex => {
+    if (!index || index.accounts !== accounts) return createLedgerIndex(accounts, transactions);
+    if (index.transactions === transactions) return index;
+
+    const before = new Set(index.transactions);
+    const after = new Set(transactions);
+    index.transactions.forEach(tx => { if (!after.has(tx)) index.removeTransaction(tx); });
+    transactions.forEach(tx => { if (!before.has(tx)) index.addTransaction(tx); });
+    return { ...index, transactions };
+};
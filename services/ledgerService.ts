@@ -1,4 +1,7 @@
 import { Account, AccountType, Transaction, FlattenedAccountBalance, Split, RecurringTransaction, Frequency } from '../types';
+import { MinorUnits, toMinorUnits, fromMinorUnits, parseMoney, formatMoney } from './moneyService';
+import { CsvRecord, formatCsvRow, isBlankRecord, parseCsv, parseCsvChunked } from './csvService';
+import { createLedgerIndex } from './ledgerIndexService';
 
 // Helper to generate IDs
 export const generateId = () => Math.random().toString(36).substr(2, 9);
@@ -52,6 +55,8 @@ export const getDescendantAccountIds = (rootId: string, allAccounts: Account[]):
 
     while (stack.length > 0) {
         const currentId = stack.pop()!;
+        // Guard against circular parent links in hand-edited files
+        if (result.has(currentId)) continue;
         result.add(currentId);
         
         const children = allAccounts.filter(a => a.parentId === currentId);
@@ -60,40 +65,195 @@ export const getDescendantAccountIds = (rootId: string, allAccounts: Account[]):
     return result;
 };
 
-// Calculate balances for a specific account based on transactions
-export const calculateAccountBalance = (accountId: string, transactions: Transaction[]): number => {
+// Balances are accumulated in integer minor units and only converted back at the edges
+const calculateAccountBalanceMinor = (accountId: string, transactions: Transaction[]): MinorUnits => {
   let balance = 0;
   transactions.forEach(tx => {
     tx.splits.forEach(split => {
       if (split.accountId === accountId) {
-        balance += split.amount;
+        balance += toMinorUnits(split.amount);
       }
     });
   });
   return balance;
 };
 
-// Recursive balance calculation (including children)
+// Calculate balances for a specific account based on transactions
+export const calculateAccountBalance = (accountId: string, transactions: Transaction[]): number => {
+  return fromMinorUnits(calculateAccountBalanceMinor(accountId, transactions));
+};
+
+// Balance including children. Builds an index per call; keep a LedgerIndex for repeated lookups.
 export const calculateTreeBalance = (account: Account, allAccounts: Account[], transactions: Transaction[]): number => {
-  let total = calculateAccountBalance(account.id, transactions);
-  
-  // Find children
-  const children = allAccounts.filter(a => a.parentId === account.id);
-  children.forEach(child => {
-    total += calculateTreeBalance(child, allAccounts, transactions);
-  });
-  
-  return total;
+  return fromMinorUnits(createLedgerIndex(allAccounts, transactions).getTreeBalance(account.id));
 };
 
+// Sum of all splits in minor units; a transaction is balanced when this is exactly zero
+export const getTransactionImbalance = (splits: Split[]): MinorUnits => {
+  return splits.reduce((sum, s) => sum + toMinorUnits(s.amount), 0);
+};
+
+export const isTransactionBalanced = (splits: Split[]): boolean => getTransactionImbalance(splits) === 0;
+
 export const getFlattenedBalances = (accounts: Account[], transactions: Transaction[]): FlattenedAccountBalance[] => {
-  return accounts.map(acc => ({
-    id: acc.id,
-    name: acc.name,
-    type: acc.type,
-    balance: calculateTreeBalance(acc, accounts, transactions),
-    budget: acc.budget || 0
-  }));
+  return createLedgerIndex(accounts, transactions).getFlattenedBalances();
+};
+
+// --- ACCOUNT OPERATIONS ---
+// All operations return new arrays so the caller can persist Accounts.json, Transaction.csv
+// and Recurring.json together and keep them consistent.
+
+export interface LedgerData {
+  accounts: Account[];
+  transactions: Transaction[];
+  recurring: RecurringTransaction[];
+}
+
+// Move every transaction split from one account to another; reassignRecurringSplits does the same for recurring rules
+export const reassignSplits = (transactions: Transaction[], fromAccountId: string, toAccountId: string): Transaction[] => {
+    return transactions.map(tx => {
+        if (!tx.splits.some(s => s.accountId === fromAccountId)) return tx;
+        return {
+            ...tx,
+            splits: tx.splits.map(s => s.accountId === fromAccountId ? { ...s, accountId: toAccountId } : s)
+        };
+    });
+};
+
+const reassignRecurringSplits = (recurring: RecurringTransaction[], fromAccountId: string, toAccountId: string): RecurringTransaction[] => {
+    return recurring.map(rt => {
+        if (!rt.splits.some(s => s.accountId === fromAccountId)) return rt;
+        return {
+            ...rt,
+            splits: rt.splits.map(s => s.accountId === fromAccountId ? { ...s, accountId: toAccountId } : s)
+        };
+    });
+};
+
+export const countAccountSplits = (accountId: string, transactions: Transaction[]): number => {
+    let count = 0;
+    transactions.forEach(tx => tx.splits.forEach(s => { if (s.accountId === accountId) count++; }));
+    return count;
+};
+
+// Returns the reason an account cannot be deleted, or null when it is safe
+export const getAccountDeletionBlocker = (accountId: string, data: LedgerData, reassignToId?: string): string | null => {
+    const account = data.accounts.find(a => a.id === accountId);
+    if (!account) return 'Account not found.';
+    if (!account.parentId) return 'Top-level accounts cannot be deleted.';
+    if (data.accounts.some(a => a.parentId === accountId)) return 'Move or delete the sub-accounts first.';
+
+    const isUsed = countAccountSplits(accountId, data.transactions) > 0 || data.recurring.some(rt => rt.splits.some(s => s.accountId === accountId));
+    if (isUsed && !reassignToId) return 'The account is used by transactions or recurring rules. Choose an account to reassign them to.';
+    if (reassignToId === accountId) return 'Cannot reassign splits to the account being deleted.';
+    if (reassignToId && !data.accounts.some(a => a.id === reassignToId)) return 'Reassignment target not found.';
+    return null;
+};
+
+export const deleteAccount = (accountId: string, data: LedgerData, reassignToId?: string): LedgerData => {
+    return {
+        accounts: data.accounts.filter(a => a.id !== accountId),
+        transactions: reassignToId ? reassignSplits(data.transactions, accountId, reassignToId) : data.transactions,
+        recurring: reassignToId ? reassignRecurringSplits(data.recurring, accountId, reassignToId) : data.recurring
+    };
+};
+
+// Returns the reason an account cannot be moved under newParentId, or null
+export const getMoveBlocker = (accountId: string, newParentId: string, accounts: Account[]): string | null => {
+    const account = accounts.find(a => a.id === accountId);
+    const parent = accounts.find(a => a.id === newParentId);
+    if (!account || !parent) return 'Account not found.';
+    if (!account.parentId) return 'Top-level accounts cannot be moved.';
+    if (getDescendantAccountIds(accountId, accounts).has(newParentId)) return 'An account cannot be moved under itself or one of its sub-accounts.';
+    if (parent.type !== account.type) return `"${parent.name}" is a ${parent.type} account; "${account.name}" must stay under ${account.type} accounts.`;
+    return null;
+};
+
+export const moveAccount = (accountId: string, newParentId: string, accounts: Account[]): Account[] => {
+    return accounts.map(acc => acc.id === accountId ? { ...acc, parentId: newParentId } : acc);
+};
+
+// Returns the reason source cannot be merged into target, or null
+export const getMergeBlocker = (sourceId: string, targetId: string, accounts: Account[]): string | null => {
+    const source = accounts.find(a => a.id === sourceId);
+    const target = accounts.find(a => a.id === targetId);
+    if (!source || !target) return 'Account not found.';
+    if (sourceId === targetId) return 'Choose a different account to merge into.';
+    if (!source.parentId) return 'Top-level accounts cannot be merged.';
+    if (getDescendantAccountIds(sourceId, accounts).has(targetId)) return 'Cannot merge an account into one of its own sub-accounts.';
+    if (source.type !== target.type) return 'Only accounts of the same type can be merged.';
+    if ((source.currency || '') !== (target.currency || '')) return 'Only accounts in the same currency can be merged.';
+    return null;
+};
+
+// Fold source into target: splits and recurring rules are reassigned, sub-accounts move under target
+export const mergeAccounts = (sourceId: string, targetId: string, data: LedgerData): LedgerData => {
+    return {
+        accounts: data.accounts
+            .filter(a => a.id !== sourceId)
+            .map(a => a.parentId === sourceId ? { ...a, parentId: targetId } : a),
+        transactions: reassignSplits(data.transactions, sourceId, targetId),
+        recurring: reassignRecurringSplits(data.recurring, sourceId, targetId)
+    };
+};
+
+// Archived accounts (and their sub-accounts) are hidden from pickers but stay in reports
+export const setAccountArchived = (accountId: string, archived: boolean, accounts: Account[]): Account[] => {
+    const ids = getDescendantAccountIds(accountId, accounts);
+    return accounts.map(acc => ids.has(acc.id) ? { ...acc, archived: archived || undefined } : acc);
+};
+
+// Accounts offered in pickers: active ones plus any archived account the current entry already uses
+export const getSelectableAccounts = (accounts: Account[], keepIds: string[] = []): Account[] => {
+    const keep = new Set(keepIds);
+    return accounts.filter(a => !a.archived || keep.has(a.id));
+};
+
+// Top-level names used by other tools, matched when no root account has the exact name
+const ROOT_KEYWORDS: { pattern: RegExp; type: AccountType }[] = [
+    { pattern: /^assets?$/i, type: AccountType.ASSET },
+    { pattern: /^liabilit(y|ies)$/i, type: AccountType.LIABILITY },
+    { pattern: /^(income|revenues?)$/i, type: AccountType.INCOME },
+    { pattern: /^expenses?$/i, type: AccountType.EXPENSE },
+    { pattern: /^equity/i, type: AccountType.EQUITY }
+];
+
+// Find the account at a ':' separated path such as "Expenses:Food:Groceries", listing the accounts that
+// have to be created for it. The first segment names the root (or a keyword such as "Revenue").
+// With `fallbackType`, a path that names no root is placed below the root of that type instead.
+// Returns null when no root matches.
+export const resolveAccountPath = (
+    path: string,
+    accounts: Account[],
+    fallbackType?: AccountType
+): { account: Account; created: Account[] } | null => {
+    const segments = path.split(':').map(s => s.trim()).filter(Boolean);
+    if (segments.length === 0) return null;
+
+    const roots = accounts.filter(a => !a.parentId);
+    const keyword = ROOT_KEYWORDS.find(k => k.pattern.test(segments[0]));
+    let root = roots.find(r => r.name.toLowerCase() === segments[0].toLowerCase())
+        || (keyword ? roots.find(r => r.type === keyword.type) : undefined);
+    let rest = segments.slice(1);
+    if (!root && fallbackType) {
+        root = roots.find(r => r.type === fallbackType);
+        rest = segments;
+    }
+    if (!root) return null;
+
+    const created: Account[] = [];
+    let current = root;
+    rest.forEach(name => {
+        const child = [...accounts, ...created].find(a => a.parentId === current.id && a.name.toLowerCase() === name.toLowerCase());
+        if (child) {
+            current = child;
+            return;
+        }
+        const account: Account = { id: generateId(), parentId: current.id, name, type: root!.type };
+        created.push(account);
+        current = account;
+    });
+    return { account: current, created };
 };
 
 export type DateRangeOption = 'MTD' | '1M' | '3M' | '6M' | '1Y';
@@ -146,92 +306,156 @@ export const filterTransactions = (
     });
 };
 
+// --- TAGS ---
+
+// Normalise free-form tag input ("#food, Trip 2025; food") into a unique list.
+// Tags are separated by commas or semicolons so that they may contain spaces.
+export const parseTags = (input: string): string[] => {
+  const tags = input
+    .split(/[,;]/)
+    .map(t => t.trim().replace(/^#/, '').trim())
+    .filter(t => t !== '');
+  return Array.from(new Set(tags));
+};
+
+export const getAllTags = (transactions: Transaction[]): string[] => {
+  const tags = new Set<string>();
+  transactions.forEach(tx => (tx.tags || []).forEach(t => tags.add(t)));
+  return Array.from(tags).sort((a, b) => a.localeCompare(b));
+};
+
 // --- DATA PERSISTENCE HELPERS ---
 
+export const TRANSACTION_CSV_HEADER = ['Transaction ID', 'Date', 'Created At', 'Payee', 'Description', 'Account ID', 'Amount', 'Currency', 'Original Amount', 'Rate', 'Memo', 'Tags', 'Status', 'External ID'];
+
+// Free-text columns are always quoted (payee, description, memo, tags, external id)
+const QUOTED_TRANSACTION_COLUMNS = new Set([3, 4, 10, 11, 13]);
+
+// Problems listed in the error before the rest is summarized
+const MAX_REPORTED_CSV_ERRORS = 10;
+
 // Convert Transactions to a storage-ready CSV format
 export const serializeTransactionsToCSV = (transactions: Transaction[]): string => {
-  const header = "Transaction ID,Date,Created At,Payee,Description,Account ID,Amount\n";
+  const header = formatCsvRow(TRANSACTION_CSV_HEADER) + '\n';
   const rows = transactions.flatMap(tx =>
     tx.splits.map(split => {
-       // Escape quotes in strings
-       const cleanPayee = (tx.payee || '').replace(/"/g, '""');
-       const cleanDesc = (tx.description || '').replace(/"/g, '""');
-       return `${tx.id},${tx.date},${tx.createdAt},"${cleanPayee}","${cleanDesc}",${split.accountId},${split.amount}`;
+       // Foreign currency columns stay empty for base currency splits
+       const currency = split.currency || '';
+       const originalAmount = split.originalAmount !== undefined ? formatMoney(split.originalAmount) : '';
+       const rate = split.rate !== undefined ? String(split.rate) : '';
+       // Tags belong to the transaction and are repeated on each of its rows
+       const tags = (tx.tags || []).join(';');
+       // Pending is the default and written as an empty cell
+       const status = split.status && split.status !== 'pending' ? split.status : '';
+       return formatCsvRow([
+         tx.id, tx.date, String(tx.createdAt), tx.payee || '', tx.description || '', split.accountId,
+         formatMoney(split.amount), currency, originalAmount, rate, split.memo || '', tags, status, split.externalId || ''
+       ], QUOTED_TRANSACTION_COLUMNS);
     })
   );
   return header + rows.join('\n');
 };
 
-// Parse storage CSV back to Transactions
-export const parseTransactionsFromCSV = (csvContent: string): Transaction[] => {
-  const lines = csvContent.split(/\r?\n/);
+// Collects split rows into transactions. Bad rows are recorded with their line number, and the
+// file is rejected as a whole in finish(): saving after skipping them would delete them for good.
+const createTransactionCsvBuilder = (fileName: string) => {
   const txMap = new Map<string, Transaction>();
-
-  // Skip header (row 0)
-  for (let i = 1; i < lines.length; i++) {
-    const line = lines[i].trim();
-    if (!line) continue;
-
-    // Regex to split by comma while respecting quotes: "val1",val2,"val,3"
-    const regex = /(?:^|,)(?:"([^"]*(?:""[^"]*)*)"|([^",]*))/g;
-    const matches = [];
-    let match;
-    while ((match = regex.exec(line)) !== null) {
-        // match[1] is quoted value, match[2] is unquoted
-        let val = match[1] !== undefined ? match[1].replace(/""/g, '"') : match[2];
-        matches.push(val);
+  const errors: string[] = [];
+  let isHeader = true;
+
+  const addRecord = (record: CsvRecord) => {
+    const { line, cells } = record;
+    if (isHeader) {
+      isHeader = false;
+      return;
+    }
+    if (isBlankRecord(record)) return;
+
+    // Columns 7-9 (currency, original amount, rate) are absent in files written before multi-currency support,
+    // columns 10-11 (memo, tags) in files written before memos and tags, column 12 (status) before reconciliation,
+    // column 13 (external id) before statement imports
+    if (cells.length < 7) {
+      errors.push(`Line ${line}: expected at least 7 columns, found ${cells.length}.`);
+      return;
+    }
+    const [id, date, createdAtStr, payee, desc, accId, amountStr, currency, originalAmountStr, rateStr, memo, tagsStr, status, externalId] = cells;
+    if (!id) {
+      errors.push(`Line ${line}: missing transaction ID.`);
+      return;
+    }
+    // Older files may hold float artefacts such as 1203.4999999; parsing snaps them to whole cents
+    const amount = parseMoney(amountStr);
+    if (amount === null) {
+      errors.push(`Line ${line}: invalid amount "${amountStr}".`);
+      return;
+    }
+    const originalAmount = originalAmountStr ? parseMoney(originalAmountStr) : null;
+    if (currency && originalAmountStr && originalAmount === null) {
+      errors.push(`Line ${line}: invalid original amount "${originalAmountStr}".`);
+      return;
     }
 
-    if (matches.length < 7) continue;
-
-    // Indexes: 0:ID, 1:Date, 2:CreatedAt, 3:Payee, 4:Desc, 5:AccID, 6:Amount
-    // Note: Regex might produce empty strings for start/end, cleaner mapping below:
-    
-    // Re-implementation of simple parser loop
-    const row: string[] = [];
-    let inQuote = false;
-    let currentVal = '';
-    for(let char of line) {
-        if(char === '"') {
-            inQuote = !inQuote;
-        } else if (char === ',' && !inQuote) {
-            row.push(currentVal);
-            currentVal = '';
-        } else {
-            currentVal += char;
-        }
+    if (!txMap.has(id)) {
+      const tags = parseTags(tagsStr || '');
+      txMap.set(id, {
+        id,
+        date,
+        createdAt: Number(createdAtStr),
+        payee,
+        description: desc,
+        ...(tags.length > 0 ? { tags } : {}),
+        splits: []
+      });
     }
-    row.push(currentVal);
 
-    // Clean up quotes from start/end
-    const cleanRow = row.map(c => {
-        if (c.startsWith('"') && c.endsWith('"')) {
-            return c.slice(1, -1).replace(/""/g, '"');
-        }
-        return c;
-    });
+    const split: Split = { accountId: accId, amount: fromMinorUnits(amount) };
+    if (currency) {
+      split.currency = currency;
+      if (originalAmount !== null) split.originalAmount = fromMinorUnits(originalAmount);
+      if (rateStr) split.rate = Number(rateStr);
+    }
+    if (memo) split.memo = memo;
+    if (status === 'cleared' || status === 'reconciled') split.status = status;
+    if (externalId) split.externalId = externalId;
+    txMap.get(id)!.splits.push(split);
+  };
+
+  const finish = (): Transaction[] => {
+    if (errors.length > 0) {
+      const listed = errors.slice(0, MAX_REPORTED_CSV_ERRORS).join('\n');
+      const more = errors.length > MAX_REPORTED_CSV_ERRORS ? `\n...and ${errors.length - MAX_REPORTED_CSV_ERRORS} more.` : '';
+      throw new Error(`${fileName} has ${errors.length} invalid row(s):\n${listed}${more}`);
+    }
+    return Array.from(txMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+  };
 
-    const [id, date, createdAtStr, payee, desc, accId, amountStr] = cleanRow;
+  return { addRecord, finish };
+};
 
-    if (!txMap.has(id)) {
-        txMap.set(id, {
-            id,
-            date,
-            createdAt: Number(createdAtStr),
-            payee,
-            description: desc,
-            splits: []
-        });
-    }
+const withFileName = (fileName: string, e: unknown) => new Error(`${fileName}: ${e instanceof Error ? e.message : e}`);
 
-    const tx = txMap.get(id)!;
-    tx.splits.push({
-        accountId: accId,
-        amount: Number(amountStr)
-    });
+// Parse storage CSV back to Transactions. Throws with line numbers when the file is malformed.
+export const parseTransactionsFromCSV = (csvContent: string, fileName = 'Transaction.csv'): Transaction[] => {
+  const builder = createTransactionCsvBuilder(fileName);
+  let records: CsvRecord[];
+  try {
+    records = parseCsv(csvContent);
+  } catch (e) {
+    throw withFileName(fileName, e);
   }
+  records.forEach(builder.addRecord);
+  return builder.finish();
+};
 
-  return Array.from(txMap.values()).sort((a, b) => b.createdAt - a.createdAt);
+// Same as parseTransactionsFromCSV, but yields to the UI between chunks of a large file
+export const parseTransactionsFromCSVAsync = async (csvContent: string, fileName = 'Transaction.csv'): Promise<Transaction[]> => {
+  const builder = createTransactionCsvBuilder(fileName);
+  try {
+    await parseCsvChunked(csvContent, records => records.forEach(builder.addRecord));
+  } catch (e) {
+    throw withFileName(fileName, e);
+  }
+  return builder.finish();
 };
 
 
@@ -245,13 +469,13 @@ export const exportToCSV = (transactions: Transaction[], accounts: Account[]) =>
   transactions.forEach(tx => {
     tx.splits.forEach(split => {
       const accountName = accountMap.get(split.accountId) || 'Unknown';
-      const debit = split.amount > 0 ? split.amount.toFixed(2) : '';
-      const credit = split.amount < 0 ? Math.abs(split.amount).toFixed(2) : '';
+      const debit = split.amount > 0 ? formatMoney(split.amount) : '';
+      const credit = split.amount < 0 ? formatMoney(Math.abs(split.amount)) : '';
       
       const payee = `"${(tx.payee || '').replace(/"/g, '""')}"`;
       const desc = `"${(tx.description || '').replace(/"/g, '""')}"`;
       
-      csvContent += `${tx.date},${payee},${desc},${accountName},${debit},${credit},${split.amount}\n`;
+      csvContent += `${tx.date},${payee},${desc},${accountName},${debit},${credit},${formatMoney(split.amount)}\n`;
     });
   });
 
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { Transaction } from '../types';
+import { LedgerData, parseTransactionsFromCSV, serializeTransactionsToCSV } from './ledgerService';
+import { mergeLedgerData, resolveMergeConflicts } from './mergeService';
+
+const tx = (id: string, amount: number, createdAt: number, payee = 'Shop'): Transaction => ({
+    id,
+    date: '2025-01-01',
+    createdAt,
+    payee,
+    splits: [{ accountId: 'acc_checking', amount: -amount }, { accountId: 'acc_food', amount }]
+});
+
+const ledger = (transactions: Transaction[], accounts = INITIAL_ACCOUNTS): LedgerData => ({ accounts, transactions, recurring: [] });
+
+describe('mergeLedgerData', () => {
+    const base = ledger([tx('a', 10, 1), tx('b', 20, 2), tx('c', 30, 3)]);
+
+    it('takes one-sided changes from either side', () => {
+        const ours = ledger([{ ...base.transactions[0], payee: 'Ours' }, base.transactions[1], tx('new-ours', 5, 4)]); // c deleted
+        const theirs = ledger([base.transactions[0], { ...base.transactions[1], payee: 'Theirs' }, base.transactions[2], tx('new-theirs', 6, 5)]);
+        const { merged, conflicts } = mergeLedgerData(base, ours, theirs);
+
+        expect(conflicts).toEqual([]);
+        expect(merged.transactions.map(t => `${t.id}:${t.payee}`)).toEqual(['new-theirs:Shop', 'new-ours:Shop', 'b:Theirs', 'a:Ours']);
+        expect(merged.accounts).toBe(theirs.accounts);
+    });
+
+    it('treats an entry read back from disk as unchanged', () => {
+        const fromDisk = ledger(parseTransactionsFromCSV(serializeTransactionsToCSV(base.transactions)));
+        const ours = ledger([{ ...base.transactions[0], payee: 'Ours' }, ...base.transactions.slice(1)]);
+        const { merged, conflicts } = mergeLedgerData(base, ours, fromDisk);
+        expect(conflicts).toEqual([]);
+        expect(merged.transactions.find(t => t.id === 'a')!.payee).toBe('Ours');
+        expect(merged.transactions.find(t => t.id === 'b')).toBe(fromDisk.transactions.find(t => t.id === 'b'));
+    });
+
+    it('keeps the disk list when nothing of ours made it in', () => {
+        const theirs = ledger([...base.transactions, tx('d', 40, 4)].sort((x, y) => y.createdAt - x.createdAt));
+        expect(mergeLedgerData(base, base, theirs).merged.transactions).toBe(theirs.transactions);
+    });
+
+    it('reports entries changed on both sides and lets the user pick', () => {
+        // c was deleted on both sides, b was deleted by us but edited on disk
+        const ours = ledger([{ ...base.transactions[0], payee: 'Ours' }]);
+        const theirs = ledger([{ ...base.transactions[0], payee: 'Theirs' }, { ...base.transactions[1], payee: 'Edited' }]);
+        const { merged, conflicts } = mergeLedgerData(base, ours, theirs);
+
+        expect(conflicts.map(c => [c.key, (c.ours as Transaction | null)?.payee ?? null, (c.theirs as Transaction | null)?.payee ?? null]))
+            .toEqual([['transaction:a', 'Ours', 'Theirs'], ['transaction:b', null, 'Edited']]);
+        expect(merged.transactions.map(t => t.payee)).toEqual(['Ours']);
+
+        const resolved = resolveMergeConflicts(merged, conflicts, { 'transaction:b': 'theirs' });
+        expect(resolved.transactions.map(t => `${t.id}:${t.payee}`)).toEqual(['b:Edited', 'a:Ours']);
+    });
+});
@@ -0,0 +1,104 @@
+import { MergeConflict, MergeEntity, MergeSide, Transaction } from '../types';
+import { LedgerData, serializeTransactionsToCSV } from './ledgerService';
+
+// Three-way merge of the ledger, used when the files change on disk (spreadsheet edits, Obsidian
+// Sync) while the open view holds changes of its own. Entries are matched by id; `base` is the
+// ledger as the view last loaded or saved it. An entry changed on one side only takes that side;
+// an entry changed differently on both sides becomes a conflict for the user to decide.
+
+// Entries are compared in their stored form, so an entry read back from disk equals the in-memory
+// original even when optional fields or key order differ
+const sortKeys = (_key: string, value: unknown) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)))
+        : value;
+
+const fingerprints = new WeakMap<object, string>();
+
+const fingerprint = (kind: MergeConflict['kind'], entity: MergeEntity | null): string => {
+    if (!entity) return '';
+    let print = fingerprints.get(entity);
+    if (print === undefined) {
+        print = kind === 'transaction'
+            ? serializeTransactionsToCSV([entity as Transaction])
+            : JSON.stringify(entity, sortKeys);
+        fingerprints.set(entity, print);
+    }
+    return print;
+};
+
+const mergeById = <T extends MergeEntity>(
+    kind: MergeConflict['kind'],
+    base: T[],
+    ours: T[],
+    theirs: T[],
+    conflicts: MergeConflict[]
+): T[] => {
+    const baseById = new Map(base.map(e => [e.id, e]));
+    const oursById = new Map(ours.map(e => [e.id, e]));
+    const theirsById = new Map(theirs.map(e => [e.id, e]));
+    const same = (a: T | null, b: T | null) => a === b || fingerprint(kind, a) === fingerprint(kind, b);
+
+    // Our order first, then entries added on disk, then entries deleted in the view
+    const ids = new Set([...ours.map(e => e.id), ...theirs.map(e => e.id), ...base.map(e => e.id)]);
+    const merged: T[] = [];
+    ids.forEach(id => {
+        const b = baseById.get(id) || null;
+        const o = oursById.get(id) || null;
+        const t = theirsById.get(id) || null;
+        let result: T | null;
+        // The disk copy is preferred when both agree, so unchanged entries keep the identity the
+        // year files are compared by
+        if (same(o, t) || same(o, b)) result = t;
+        else if (same(t, b)) result = o;
+        else {
+            conflicts.push({ key: `${kind}:${id}`, kind, id, base: b, ours: o, theirs: t });
+            result = o; // Until the user decides
+        }
+        if (result) merged.push(result);
+    });
+    return merged;
+};
+
+// The disk list itself when nothing of ours made it in, so saving the result skips that file
+const preferTheirs = <T>(merged: T[], theirs: T[]): T[] =>
+    merged.length === theirs.length && merged.every((e, i) => e === theirs[i]) ? theirs : merged;
+
+export interface LedgerMergeResult {
+    merged: LedgerData; // Conflicting entries hold our version
+    conflicts: MergeConflict[];
+}
+
+export const mergeLedgerData = (base: LedgerData, ours: LedgerData, theirs: LedgerData): LedgerMergeResult => {
+    const conflicts: MergeConflict[] = [];
+    const transactions = mergeById('transaction', base.transactions, ours.transactions, theirs.transactions, conflicts)
+        .sort((a, b) => b.createdAt - a.createdAt);
+    const merged: LedgerData = {
+        accounts: preferTheirs(mergeById('account', base.accounts, ours.accounts, theirs.accounts, conflicts), theirs.accounts),
+        transactions: preferTheirs(transactions, theirs.transactions),
+        recurring: preferTheirs(mergeById('recurring', base.recurring, ours.recurring, theirs.recurring, conflicts), theirs.recurring)
+    };
+    return { merged, conflicts };
+};
+
+// Swap in the disk version of every conflict decided for 'theirs'
+export const resolveMergeConflicts = (
+    merged: LedgerData,
+    conflicts: MergeConflict[],
+    choices: Record<string, MergeSide>
+): LedgerData => {
+    const pick = <T extends MergeEntity>(list: T[], kind: MergeConflict['kind']): T[] => {
+        const theirs = conflicts.filter(c => c.kind === kind && choices[c.key] === 'theirs');
+        if (theirs.length === 0) return list;
+        const replaced = new Set(theirs.map(c => c.id));
+        return [
+            ...list.filter(e => !replaced.has(e.id)),
+            ...theirs.flatMap(c => (c.theirs ? [c.theirs as T] : []))
+        ];
+    };
+    return {
+        accounts: pick(merged.accounts, 'account'),
+        transactions: pick(merged.transactions, 'transaction').sort((a, b) => b.createdAt - a.createdAt),
+        recurring: pick(merged.recurring, 'recurring')
+    };
+};
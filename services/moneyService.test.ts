@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { toMinorUnits, parseMoney, sumMoney, multiplyMoney, formatMoney, moneyEquals } from './moneyService';
+
+describe('moneyService', () => {
+    it('converts to minor units without float noise', () => {
+        expect(toMinorUnits(1.005)).toBe(101);
+        expect(toMinorUnits(-12.3)).toBe(-1230);
+        expect(toMinorUnits(-0.001)).toBe(0);
+        expect(toMinorUnits(NaN)).toBe(0);
+    });
+
+    it('rounds halves away from zero on both sides', () => {
+        expect(toMinorUnits(-1.005)).toBe(-101);
+        expect(toMinorUnits(-1.005)).toBe(parseMoney('-1.005'));
+        expect(toMinorUnits(0.125)).toBe(13);
+        expect(toMinorUnits(-0.125)).toBe(-13);
+    });
+
+    it('parses decimal strings exactly', () => {
+        expect(parseMoney('1203.5')).toBe(120350);
+        expect(parseMoney('-12.345')).toBe(-1235);
+        expect(parseMoney('.5')).toBe(50);
+        expect(parseMoney('1,234.50')).toBeNull();
+        expect(parseMoney('abc')).toBeNull();
+        expect(parseMoney('')).toBeNull();
+    });
+
+    it('sums without drift', () => {
+        expect(sumMoney([0.1, 0.2, 0.3])).toBe(0.6);
+        expect(sumMoney(Array(1000).fill(0.01))).toBe(10);
+        expect(moneyEquals(0.1 + 0.2, 0.3)).toBe(true);
+    });
+
+    it('rounds products to minor units', () => {
+        expect(multiplyMoney(100, 1.08125)).toBe(108.13);
+        expect(multiplyMoney(-10, 0.3333)).toBe(-3.33);
+        expect(multiplyMoney(10, 0.1005)).toBe(1.01);
+        expect(multiplyMoney(-10, 0.1005)).toBe(-1.01);
+    });
+
+    it('formats fixed-point', () => {
+        expect(formatMoney(-12.3)).toBe('-12.30');
+        expect(formatMoney(0.05)).toBe('0.05');
+        expect(formatMoney(1234567.891)).toBe('1234567.89');
+    });
+});
@@ -0,0 +1,67 @@
+// Money arithmetic on integer minor units (cents).
+// Split amounts are kept as plain numbers in major units for storage and display, but every sum,
+// comparison and conversion goes through these helpers so that results never drift (e.g. 1203.4999999).
+
+export type MinorUnits = number;
+
+export const MINOR_UNIT_SCALE = 100;
+const FRACTION_DIGITS = 2;
+
+// Convert a major-unit number to integer minor units, rounding halves away from zero like parseMoney.
+// The intermediate toFixed absorbs binary float noise such as 1.005 * 100 = 100.49999999999999.
+export const toMinorUnits = (amount: number): MinorUnits => {
+    if (!isFinite(amount)) return 0;
+    const scaled = Number((amount * MINOR_UNIT_SCALE).toFixed(4));
+    const minor = Math.round(Math.abs(scaled));
+    return scaled < 0 && minor !== 0 ? -minor : minor;
+};
+
+export const fromMinorUnits = (minor: MinorUnits): number => minor / MINOR_UNIT_SCALE;
+
+// Parse a decimal string exactly ("1,234.5" is not accepted, "-12.345" rounds half away from zero).
+// Returns null when the input is not a number.
+export const parseMoney = (input: string): MinorUnits | null => {
+    const text = (input || '').trim();
+    const match = /^([+-])?(\d*)(?:\.(\d*))?$/.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+        // Scientific notation and other exotic forms still go through Number()
+        const fallback = Number(text);
+        return text !== '' && isFinite(fallback) ? toMinorUnits(fallback) : null;
+    }
+
+    const negative = match[1] === '-';
+    const whole = match[2] || '0';
+    const fraction = (match[3] || '').padEnd(FRACTION_DIGITS + 1, '0');
+
+    let minor = Number(whole) * MINOR_UNIT_SCALE + Number(fraction.slice(0, FRACTION_DIGITS));
+    if (Number(fraction[FRACTION_DIGITS]) >= 5) minor += 1;
+    return negative ? -minor : minor;
+};
+
+// Round a major-unit number to the nearest minor unit
+export const roundMoney = (amount: number): number => fromMinorUnits(toMinorUnits(amount));
+
+export const addMoney = (a: number, b: number): number => fromMinorUnits(toMinorUnits(a) + toMinorUnits(b));
+
+export const sumMoney = (amounts: number[]): number => {
+    let total = 0;
+    amounts.forEach(a => { total += toMinorUnits(a); });
+    return fromMinorUnits(total);
+};
+
+// Scale an amount (e.g. by an exchange rate) and round to minor units
+export const multiplyMoney = (amount: number, factor: number): number => roundMoney(amount * factor);
+
+export const isZeroMoney = (amount: number): boolean => toMinorUnits(amount) === 0;
+
+export const moneyEquals = (a: number, b: number): boolean => toMinorUnits(a) === toMinorUnits(b);
+
+// Exact fixed-point rendering ("-12.30"), used for storage and monospace columns
+export const formatMoney = (amount: number): string => {
+    const minor = toMinorUnits(amount);
+    const sign = minor < 0 ? '-' : '';
+    const abs = Math.abs(minor);
+    const whole = Math.floor(abs / MINOR_UNIT_SCALE);
+    const fraction = String(abs % MINOR_UNIT_SCALE).padStart(FRACTION_DIGITS, '0');
+    return `${sign}${whole}.${fraction}`;
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { ExchangeRateTable, Transaction } from '../types';
+import { mapOfxStatement, parseOfx, parseOfxAmount, parseOfxDate } from './ofxImportService';
+
+const table: ExchangeRateTable = { baseCurrency: 'USD', rates: [] };
+
+// OFX 1.x: leaf elements are not closed
+const SGML = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><ACCTID>12345<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250105120000.000[-5:EST]<TRNAMT>-1,234.56<FITID>A1<NAME>Rent &amp; Co</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250106<TRNAMT>2500.00<FITID>A2<NAME>Salary<MEMO>January</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>soon<TRNAMT>-1.00<FITID>A3</STMTTRN>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250107<TRNAMT>n/a</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+// OFX 2.x: well-formed XML
+const XML = `<?xml version="1.0"?>
+<OFX><CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+<CURDEF>usd</CURDEF>
+<CCACCTFROM><ACCTID>9999</ACCTID></CCACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>POS</TRNTYPE><DTPOSTED>20250210</DTPOSTED><TRNAMT>-4,50</TRNAMT><FITID>C1</FITID><NAME>Cafe</NAME></STMTTRN>
+</BANKTRANLIST>
+</CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1></OFX>`;
+
+describe('OFX values', () => {
+    it('reads dates with a time and zone suffix', () => {
+        expect(parseOfxDate('20240105120000.000[-5:EST]')).toBe('2024-01-05');
+        expect(parseOfxDate('Jan 5')).toBeNull();
+        expect(parseOfxDate('20240231')).toBeNull();
+        expect(parseOfxDate('20241301')).toBeNull();
+        expect(parseOfxDate('20240229')).toBe('2024-02-29');
+    });
+
+    it('reads decimal commas and thousands separators', () => {
+        expect(parseOfxAmount('-1234.56')).toBe(-1234.56);
+        expect(parseOfxAmount('-12,50')).toBe(-12.5);
+        expect(parseOfxAmount('1,234.56')).toBe(1234.56);
+        expect(parseOfxAmount('1,234,567')).toBe(1234567);
+        expect(parseOfxAmount('')).toBeNull();
+    });
+});
+
+describe('parseOfx', () => {
+    it('reads SGML statements and reports unreadable records', () => {
+        const [statement] = parseOfx(SGML);
+        expect(statement.bankAccountId).toBe('12345');
+        expect(statement.currency).toBe('USD');
+        expect(statement.transactions.map(t => [t.fitId, t.date, t.amount, t.name])).toEqual([
+            ['A1', '2025-01-05', -1234.56, 'Rent & Co'],
+            ['A2', '2025-01-06', 2500, 'Salary']
+        ]);
+        expect(statement.transactions[1].memo).toBe('January');
+        expect(statement.warnings).toEqual([
+            'Statement line A3: cannot read date "soon"; skipped.',
+            'Statement line #4: cannot read amount "n/a"; skipped.'
+        ]);
+    });
+
+    it('reads XML credit card statements', () => {
+        const [statement] = parseOfx(XML);
+        expect(statement.bankAccountId).toBe('9999');
+        expect(statement.currency).toBe('USD');
+        expect(statement.transactions).toHaveLength(1);
+        expect(statement.transactions[0].amount).toBe(-4.5);
+        expect(statement.warnings).toEqual([]);
+    });
+});
+
+describe('mapOfxStatement', () => {
+    it('books against Uncategorized, skips known FITIDs and keeps parse warnings', () => {
+        const [statement] = parseOfx(SGML);
+        const existing: Transaction = {
+            id: 'old',
+            date: '2025-01-06',
+            createdAt: 1,
+            splits: [{ accountId: 'acc_checking', amount: 2500, externalId: 'A2' }, { accountId: 'root_income', amount: -2500 }]
+        };
+        const result = mapOfxStatement(statement, 'acc_checking', INITIAL_ACCOUNTS, [existing], table);
+
+        expect(result.duplicates).toBe(1);
+        expect(result.transactions).toHaveLength(1);
+        expect(result.createdAccounts.map(a => [a.name, a.parentId])).toEqual([['Uncategorized', 'root_expenses']]);
+        expect(result.transactions[0].splits).toEqual([
+            { accountId: 'acc_checking', amount: -1234.56, externalId: 'A1' },
+            { accountId: result.createdAccounts[0].id, amount: 1234.56 }
+        ]);
+        expect(result.warnings).toEqual(statement.warnings);
+    });
+});
@@ -0,0 +1,214 @@
+import { Account, AccountType, ExchangeRateTable, ImportResult, Split, Transaction } from '../types';
+import { generateId } from './ledgerService';
+import { getAccountCurrency, getExchangeRate, buildForeignSplit } from './currencyService';
+import { parseMoney, fromMinorUnits } from './moneyService';
+import { isValidLedgerDate } from './validationService';
+
+// OFX / QFX statement import. Both flavors are handled by the same tag scanner:
+// OFX 1.x is SGML where leaf elements have no closing tag, OFX 2.x is XML.
+
+export const UNCATEGORIZED_ACCOUNT_NAME = 'Uncategorized';
+
+export interface OfxTransaction {
+    fitId: string;
+    type: string; // DEBIT, CREDIT, POS, ATM, ...
+    date: string; // YYYY-MM-DD
+    amount: number; // Signed, in the statement currency
+    name?: string;
+    memo?: string;
+    checkNumber?: string;
+}
+
+export interface OfxStatement {
+    bankAccountId: string; // ACCTID as reported by the bank
+    currency: string; // CURDEF
+    transactions: OfxTransaction[];
+    warnings: string[]; // STMTTRN records that could not be read
+}
+
+// --- PARSING ---
+
+// Contents of every <TAG>...</TAG> aggregate; aggregates are closed in both flavors
+const getBlocks = (text: string, tag: string): string[] => {
+    const regex = new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi');
+    const blocks: string[] = [];
+    let match;
+    while ((match = regex.exec(text)) !== null) blocks.push(match[1]);
+    return blocks;
+};
+
+// Value of a leaf element: runs until the next tag (SGML) or its closing tag (XML)
+const getValue = (block: string, tag: string): string => {
+    const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+    return match ? decodeEntities(match[1].trim()) : '';
+};
+
+const decodeEntities = (value: string) => value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// "20240105120000.000[-5:EST]" → "2024-01-05"; days the month does not have are rejected
+export const parseOfxDate = (value: string): string | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(value);
+    if (!match) return null;
+    const date = `${match[1]}-${match[2]}-${match[3]}`;
+    return isValidLedgerDate(date) ? date : null;
+};
+
+// "-1234.56", "-1234,56" (decimal comma) or "-1,234.56" (thousands separators)
+export const parseOfxAmount = (value: string): number | null => {
+    const compact = value.replace(/\s/g, '');
+    // A single comma without a point is a decimal comma; any other comma separates thousands
+    const isDecimalComma = !compact.includes('.') && compact.indexOf(',') === compact.lastIndexOf(',');
+    const minor = parseMoney(isDecimalComma ? compact.replace(',', '.') : compact.replace(/,/g, ''));
+    return minor === null ? null : fromMinorUnits(minor);
+};
+
+// Bank (STMTRS) and credit card (CCSTMTRS) statements in the file
+export const parseOfx = (text: string): OfxStatement[] => {
+    const statements = [...getBlocks(text, 'STMTRS'), ...getBlocks(text, 'CCSTMTRS')];
+    return statements.map(block => {
+        const transactions: OfxTransaction[] = [];
+        const warnings: string[] = [];
+        getBlocks(block, 'STMTTRN').forEach((trn, i) => {
+            const date = parseOfxDate(getValue(trn, 'DTPOSTED'));
+            const amount = parseOfxAmount(getValue(trn, 'TRNAMT'));
+            if (!date || amount === null) {
+                const label = getValue(trn, 'FITID') || `#${i + 1}`;
+                warnings.push(`Statement line ${label}: cannot read ${!date ? `date "${getValue(trn, 'DTPOSTED')}"` : `amount "${getValue(trn, 'TRNAMT')}"`}; skipped.`);
+                return;
+            }
+            transactions.push({
+                fitId: getValue(trn, 'FITID'),
+                type: getValue(trn, 'TRNTYPE'),
+                date,
+                amount,
+                name: getValue(trn, 'NAME') || getValue(trn, 'PAYEEID') || undefined,
+                memo: getValue(trn, 'MEMO') || undefined,
+                checkNumber: getValue(trn, 'CHECKNUM') || undefined
+            });
+        });
+        return {
+            bankAccountId: getValue(block, 'ACCTID'),
+            currency: getValue(block, 'CURDEF').toUpperCase(),
+            transactions,
+            warnings
+        };
+    });
+};
+
+// --- MAPPING ---
+
+// "Expenses:Uncategorized" / "Income:Uncategorized", created under the first root of the type when missing
+const findOrCreateUncategorized = (accounts: Account[], created: Account[], type: AccountType): Account | null => {
+    const root = accounts.find(a => !a.parentId && a.type === type);
+    if (!root) return null;
+    const existing = accounts.find(a => a.parentId === root.id && a.name === UNCATEGORIZED_ACCOUNT_NAME);
+    if (existing) return existing;
+    const account: Account = { id: generateId(), parentId: root.id, name: UNCATEGORIZED_ACCOUNT_NAME, type };
+    accounts.push(account);
+    created.push(account);
+    return account;
+};
+
+// Ids already booked against the account, so the same statement can be imported again safely
+const getKnownExternalIds = (transactions: Transaction[], accountId: string): Set<string> => {
+    const ids = new Set<string>();
+    transactions.forEach(tx => tx.splits.forEach(split => {
+        if (split.accountId === accountId && split.externalId) ids.add(split.externalId);
+    }));
+    return ids;
+};
+
+// Turn one statement into two-split transactions against `accountId`.
+// Money out is booked to Expenses:Uncategorized, money in to Income:Uncategorized.
+export const mapOfxStatement = (
+    statement: OfxStatement,
+    accountId: string,
+    accounts: Account[],
+    transactions: Transaction[],
+    table: ExchangeRateTable
+): ImportResult & { duplicates: number } => {
+    const workingAccounts = [...accounts];
+    const createdAccounts: Account[] = [];
+    const warnings: string[] = [...statement.warnings];
+    const imported: Transaction[] = [];
+    const account = workingAccounts.find(a => a.id === accountId);
+    if (!account) {
+        return { transactions: [], accounts, createdAccounts, warnings: ['Choose the account this statement belongs to.'], duplicates: 0 };
+    }
+
+    const currency = getAccountCurrency(account, table);
+    if (statement.currency && statement.currency !== currency) {
+        warnings.push(`Statement is in ${statement.currency} but "${account.name}" is kept in ${currency}; amounts are taken as ${currency}.`);
+    }
+
+    const known = getKnownExternalIds(transactions, accountId);
+    let duplicates = 0;
+    const now = Date.now();
+
+    statement.transactions.forEach((trn, i) => {
+        if (trn.fitId && known.has(trn.fitId)) {
+            duplicates++;
+            return;
+        }
+        if (!trn.fitId) warnings.push(`${trn.date} ${trn.name || ''}: no FITID, cannot be matched on re-import.`);
+
+        const counter = findOrCreateUncategorized(workingAccounts, createdAccounts, trn.amount < 0 ? AccountType.EXPENSE : AccountType.INCOME);
+        if (!counter) {
+            warnings.push(`No ${trn.amount < 0 ? 'expense' : 'income'} root account to book ${trn.date} ${trn.name || ''} against; skipped.`);
+            return;
+        }
+
+        let accountSplit: Split;
+        if (currency !== table.baseCurrency) {
+            const rate = getExchangeRate(table, currency, trn.date);
+            if (rate === null) {
+                warnings.push(`${trn.date} ${trn.name || ''}: no exchange rate for ${currency}; skipped.`);
+                return;
+            }
+            accountSplit = buildForeignSplit(accountId, trn.amount, currency, rate);
+        } else {
+            accountSplit = { accountId, amount: trn.amount };
+        }
+        if (trn.fitId) {
+            accountSplit.externalId = trn.fitId;
+            known.add(trn.fitId);
+        }
+
+        const description = [trn.memo, trn.checkNumber ? `Check #${trn.checkNumber}` : ''].filter(Boolean).join(' · ');
+        imported.push({
+            id: generateId(),
+            date: trn.date,
+            payee: trn.name,
+            description: description || undefined,
+            splits: [accountSplit, { accountId: counter.id, amount: -accountSplit.amount }],
+            createdAt: now + i // Keeps the statement order
+        });
+    });
+
+    return { transactions: imported, accounts: workingAccounts, createdAccounts, warnings, duplicates };
+};
+
+// Map every statement of a file; later statements see the accounts and transactions of earlier ones
+export const mapOfxStatements = (
+    statements: OfxStatement[],
+    accountIds: string[],
+    accounts: Account[],
+    transactions: Transaction[],
+    table: ExchangeRateTable
+): ImportResult & { duplicates: number } => {
+    return statements.reduce<ImportResult & { duplicates: number }>((acc, statement, i) => {
+        const result = mapOfxStatement(statement, accountIds[i], acc.accounts, [...transactions, ...acc.transactions], table);
+        return {
+            transactions: [...acc.transactions, ...result.transactions],
+            accounts: result.accounts,
+            createdAccounts: [...acc.createdAccounts, ...result.createdAccounts],
+            warnings: [...acc.warnings, ...result.warnings],
+            duplicates: acc.duplicates + result.duplicates
+        };
+    }, { transactions: [], accounts, createdAccounts: [], warnings: [], duplicates: 0 });
+};
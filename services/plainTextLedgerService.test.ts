@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { ExchangeRateTable } from '../types';
+import { exportToLedgerJournal, importLedgerJournal } from './plainTextLedgerService';
+import { getAccountPath } from './ledgerService';
+
+const table: ExchangeRateTable = { baseCurrency: 'USD', rates: [{ date: '2025-01-01', currency: 'EUR', rate: 1.1 }] };
+
+describe('importLedgerJournal', () => {
+    it('reads * as cleared and ! as pending, never reconciled', () => {
+        const journal = [
+            '2025-01-05 * Grocer | Weekly shop',
+            '    Expenses:Food  42.10 USD',
+            '    ! Assets:Checking',
+            '',
+            '2025-01-06 ! Landlord',
+            '    Expenses:Rent  900 USD',
+            '    * Assets:Checking  -900 USD'
+        ].join('\n');
+        const result = importLedgerJournal(journal, INITIAL_ACCOUNTS, table);
+        expect(result.warnings).toEqual([]);
+        const [shop, rent] = result.transactions;
+        expect(shop.payee).toBe('Grocer');
+        expect(shop.description).toBe('Weekly shop');
+        expect(shop.splits.map(s => [s.amount, s.status])).toEqual([[42.1, 'cleared'], [-42.1, undefined]]);
+        expect(rent.splits.map(s => s.status)).toEqual([undefined, 'cleared']);
+    });
+
+    it('creates only the missing parts of account paths', () => {
+        const result = importLedgerJournal('2025-01-05 Cafe\n    Expenses:Food:Coffee  4.50\n    Assets:Cash', INITIAL_ACCOUNTS, table);
+        expect(result.createdAccounts.map(a => getAccountPath(a, result.accounts)).sort()).toEqual(['Assets:Cash', 'Expenses:Food:Coffee']);
+        expect(result.createdAccounts.find(a => a.name === 'Coffee')!.parentId).toBe('acc_food');
+    });
+
+    it('drops accounts created for a skipped transaction', () => {
+        const journal = [
+            '2025-01-05 Broken',
+            '    Expenses:Mystery  abc',
+            '    Assets:Nowhere',
+            '',
+            '2025-01-06 Two elided',
+            '    Expenses:Other',
+            '    Assets:Elsewhere'
+        ].join('\n');
+        const result = importLedgerJournal(journal, INITIAL_ACCOUNTS, table);
+        expect(result.transactions).toEqual([]);
+        expect(result.warnings).toHaveLength(2);
+        expect(result.createdAccounts).toEqual([]);
+        expect(result.accounts).toHaveLength(INITIAL_ACCOUNTS.length);
+    });
+
+    it('converts foreign postings at their cost or the rate table', () => {
+        const journal = [
+            '2025-02-01 Hotel',
+            '    Expenses:Travel  100.00 EUR @@ 108.00 USD',
+            '    Assets:Checking  -108 USD',
+            '',
+            '2025-02-02 Taxi',
+            '    Expenses:Travel  10 EUR',
+            '    Assets:Checking'
+        ].join('\n');
+        const [hotel, taxi] = importLedgerJournal(journal, INITIAL_ACCOUNTS, table).transactions;
+        expect(hotel.splits[0]).toMatchObject({ amount: 108, currency: 'EUR', originalAmount: 100 });
+        expect(taxi.splits.map(s => s.amount)).toEqual([11, -11]);
+    });
+});
+
+describe('exportToLedgerJournal', () => {
+    it('round-trips amounts, tags, memos and status', () => {
+        const imported = importLedgerJournal([
+            '2025-03-01 * Bookshop | Novels  ; gift:',
+            '    Expenses:Books  25.99 USD  ; paperback',
+            '    Assets:Checking  -25.99 USD'
+        ].join('\n'), INITIAL_ACCOUNTS, table);
+        const text = exportToLedgerJournal(imported.transactions, imported.accounts, 'USD');
+        expect(text).toContain('    * Expenses:Books  25.99 USD  ; paperback');
+
+        const again = importLedgerJournal(text, imported.accounts, table);
+        expect(again.createdAccounts).toEqual([]);
+        expect(again.transactions[0]).toMatchObject({ payee: 'Bookshop', description: 'Novels', tags: ['gift'] });
+        expect(again.transactions[0].splits).toEqual(imported.transactions[0].splits);
+    });
+
+    it('writes reconciled splits as cleared', () => {
+        const accounts = INITIAL_ACCOUNTS;
+        const text = exportToLedgerJournal([{
+            id: 't1', date: '2025-01-01', createdAt: 1,
+            splits: [{ accountId: 'root_assets', amount: 5, status: 'reconciled' }, { accountId: 'root_income', amount: -5 }]
+        }], accounts, 'USD');
+        expect(text).toContain('    * Assets  5.00 USD');
+        expect(importLedgerJournal(text, accounts, table).transactions[0].splits[0].status).toBe('cleared');
+    });
+});
@@ -0,0 +1,319 @@
+import { Account, ExchangeRateTable, ImportResult, Split, SplitStatus, Transaction } from '../types';
+import { generateId, getAccountPath, resolveAccountPath } from './ledgerService';
+import { getExchangeRate } from './currencyService';
+import { MinorUnits, parseMoney, fromMinorUnits, toMinorUnits, multiplyMoney, formatMoney } from './moneyService';
+
+// Two-way converter for the plain-text journal format shared by ledger-cli and hledger.
+// Account paths map to LedgerFlow accounts via getAccountPath ("Assets:Checking").
+// Header text is "Payee | Description" (hledger's payee/note convention), tags are hledger
+// style "name:" comments, split memos are posting comments, and posting marks carry the
+// split status as in ledger and hledger: "*" for cleared, "!" for pending. Reconciled splits
+// are exported as cleared and nothing is imported as reconciled, so imported history stays
+// editable until it is reconciled in LedgerFlow.
+
+// --- EXPORT ---
+
+const STATUS_MARKS: Partial<Record<SplitStatus, string>> = { cleared: '* ', reconciled: '* ' };
+
+const formatTag = (tag: string) => `${tag.trim().replace(/[\s,:]+/g, '-')}:`;
+
+const formatPostingAmount = (split: Split, baseCurrency: string): string => {
+    if (split.currency && split.currency !== baseCurrency && split.originalAmount !== undefined) {
+        // "@@" gives the total base cost, so the base amount survives the round trip exactly
+        return `${formatMoney(split.originalAmount)} ${split.currency} @@ ${formatMoney(Math.abs(split.amount))} ${baseCurrency}`;
+    }
+    return `${formatMoney(split.amount)} ${baseCurrency}`;
+};
+
+export const exportToLedgerJournal = (transactions: Transaction[], accounts: Account[], baseCurrency: string): string => {
+    const paths = new Map(accounts.map(a => [a.id, getAccountPath(a, accounts)]));
+    const lines: string[] = [`; Exported from LedgerFlow on ${new Date().toISOString().split('T')[0]}`, ''];
+
+    // Declaring every account keeps empty ones and the hierarchy on re-import
+    Array.from(paths.values()).sort().forEach(path => lines.push(`account ${path}`));
+    lines.push('');
+
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+    sorted.forEach(tx => {
+        const text = tx.description ? `${tx.payee || ''} | ${tx.description}` : (tx.payee || '');
+        lines.push(`${tx.date} ${text}`.trimEnd());
+        if (tx.tags && tx.tags.length > 0) {
+            lines.push(`    ; ${tx.tags.map(formatTag).join(', ')}`);
+        }
+        tx.splits.forEach(split => {
+            const path = paths.get(split.accountId) || `Unknown:${split.accountId}`;
+            const mark = (split.status && STATUS_MARKS[split.status]) || '';
+            const memo = split.memo ? `  ; ${split.memo}` : '';
+            lines.push(`    ${mark}${path}  ${formatPostingAmount(split, baseCurrency)}${memo}`);
+        });
+        lines.push('');
+    });
+
+    return lines.join('\n');
+};
+
+// --- IMPORT ---
+
+interface ParsedAmount {
+    quantity: MinorUnits;
+    commodity: string;
+}
+
+// "-12.50 USD", "$1,200", "EUR -3" → quantity and commodity (empty when none)
+const parseAmount = (text: string): ParsedAmount | null => {
+    const compact = text.trim();
+    const match = /^(-)?\s*([^\d\s.,+\-"]*)\s*([+-])?\s*([\d][\d,]*(?:\.\d*)?|\.\d+)\s*([^\d\s.,+\-"]*)$/.exec(compact);
+    if (!match) return null;
+    const minor = parseMoney(match[4].replace(/,/g, ''));
+    if (minor === null) return null;
+    const negative = match[1] === '-' || match[3] === '-';
+    return { quantity: negative ? -minor : minor, commodity: match[2] || match[5] || '' };
+};
+
+const normalizeDate = (text: string): string | null => {
+    const match = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(text);
+    if (!match) return null;
+    return `${match[1]}-${match[2].padStart(2, '0')}-${match[3].padStart(2, '0')}`;
+};
+
+const parseTags = (comment: string): string[] => {
+    // hledger "name:" / "name: value" tags, and ledger-cli ":a:b:" tag lists
+    if (/^\s*:[^\s:]+(:[^\s:]+)*:\s*$/.test(comment)) {
+        return comment.trim().split(':').filter(Boolean);
+    }
+    const tags: string[] = [];
+    const regex = /(?:^|[\s,])([^\s,:]+):/g;
+    let match;
+    while ((match = regex.exec(comment)) !== null) tags.push(match[1]);
+    return tags;
+};
+
+interface PendingPosting {
+    path: string;
+    amountText: string;
+    status?: SplitStatus;
+    memo?: string;
+    line: number;
+}
+
+interface PendingTransaction {
+    line: number;
+    date: string;
+    status?: SplitStatus;
+    payee?: string;
+    description?: string;
+    tags: string[];
+    postings: PendingPosting[];
+}
+
+// "!" is an explicit pending mark, which overrides a cleared transaction header
+const markToStatus = (mark: string | undefined): SplitStatus | undefined => {
+    if (mark === '*') return 'cleared';
+    if (mark === '!') return 'pending';
+    return undefined;
+};
+
+// Pending is stored as a missing status
+const statusField = (status: SplitStatus | undefined) => status && status !== 'pending' ? { status } : {};
+
+// Parse a journal into LedgerFlow transactions, creating accounts that do not exist yet
+export const importLedgerJournal = (content: string, accounts: Account[], table: ExchangeRateTable): ImportResult => {
+    const workingAccounts = [...accounts];
+    const createdAccounts: Account[] = [];
+    const warnings: string[] = [];
+    const transactions: Transaction[] = [];
+
+    // Resolve "Assets:Bank:Checking", creating missing children under the matching root
+    const resolveAccount = (path: string, currency?: string): Account | null => {
+        const resolved = resolveAccountPath(path, workingAccounts);
+        if (!resolved) return null;
+        // A new leaf booked in a foreign commodity is held in that currency
+        if (resolved.created.length > 0 && currency && currency !== table.baseCurrency) {
+            resolved.account.currency = currency;
+        }
+        workingAccounts.push(...resolved.created);
+        createdAccounts.push(...resolved.created);
+        return resolved.account;
+    };
+
+    // Base amount and foreign details of one posting
+    const buildSplit = (posting: PendingPosting, date: string): { split: Omit<Split, 'accountId'>; currency?: string } | string => {
+        const [amountPart] = posting.amountText.split(/\s=\s*|^=/); // Drop balance assertions
+        const costMatch = /^(.*?)\s*(@@|@)\s*(.*)$/.exec(amountPart);
+        const primary = parseAmount(costMatch ? costMatch[1] : amountPart);
+        if (!primary) return `Line ${posting.line}: cannot read amount "${posting.amountText}".`;
+
+        const isBase = !primary.commodity || primary.commodity === table.baseCurrency || (primary.commodity === '$' && table.baseCurrency === 'USD');
+        if (isBase) return { split: { amount: fromMinorUnits(primary.quantity) } };
+
+        const original = fromMinorUnits(primary.quantity);
+        let amount: number;
+        if (costMatch) {
+            const cost = parseAmount(costMatch[3]);
+            if (!cost) return `Line ${posting.line}: cannot read price "${costMatch[3]}".`;
+            amount = costMatch[2] === '@@'
+                ? fromMinorUnits(Math.sign(primary.quantity) * Math.abs(cost.quantity))
+                : multiplyMoney(original, fromMinorUnits(cost.quantity));
+        } else {
+            const rate = getExchangeRate(table, primary.commodity, date);
+            if (rate === null) warnings.push(`Line ${posting.line}: no exchange rate for ${primary.commodity}, converted 1:1.`);
+            amount = multiplyMoney(original, rate ?? 1);
+        }
+        const rate = original !== 0 ? amount / original : 1;
+        return { split: { amount, currency: primary.commodity, originalAmount: original, rate }, currency: primary.commodity };
+    };
+
+    const finishTransaction = (pending: PendingTransaction | null) => {
+        if (!pending) return;
+        if (pending.postings.length === 0) {
+            warnings.push(`Line ${pending.line}: transaction has no postings, skipped.`);
+            return;
+        }
+
+        // Accounts created for the postings of a skipped transaction are dropped again
+        const accountCount = workingAccounts.length;
+        const createdCount = createdAccounts.length;
+        const skip = (warning: string) => {
+            warnings.push(warning);
+            workingAccounts.length = accountCount;
+            createdAccounts.length = createdCount;
+        };
+
+        const splits: Split[] = [];
+        let elided: { posting: PendingPosting; account: Account } | null = null;
+        for (const posting of pending.postings) {
+            const parsed = posting.amountText ? buildSplit(posting, pending.date) : null;
+            if (typeof parsed === 'string') {
+                skip(`${parsed} Transaction skipped.`);
+                return;
+            }
+            const account = resolveAccount(posting.path, parsed?.currency);
+            if (!account) {
+                skip(`Line ${posting.line}: "${posting.path}" does not start with Assets, Liabilities, Income, Expenses or Equity. Transaction skipped.`);
+                return;
+            }
+            if (!parsed) {
+                if (elided) {
+                    skip(`Line ${posting.line}: more than one posting without an amount. Transaction skipped.`);
+                    return;
+                }
+                elided = { posting, account };
+                continue;
+            }
+            const status = posting.status || pending.status;
+            splits.push({
+                accountId: account.id,
+                ...parsed.split,
+                ...(posting.memo ? { memo: posting.memo } : {}),
+                ...statusField(status)
+            });
+        }
+
+        const total = splits.reduce((sum, s) => sum + toMinorUnits(s.amount), 0);
+        if (elided) {
+            const status = elided.posting.status || pending.status;
+            splits.push({
+                accountId: elided.account.id,
+                amount: fromMinorUnits(-total),
+                ...(elided.posting.memo ? { memo: elided.posting.memo } : {}),
+                ...statusField(status)
+            });
+        } else if (total !== 0) {
+            warnings.push(`Line ${pending.line}: transaction is out of balance by ${formatMoney(fromMinorUnits(total))}; imported as is.`);
+        }
+
+        transactions.push({
+            id: generateId(),
+            date: pending.date,
+            payee: pending.payee || undefined,
+            description: pending.description || undefined,
+            ...(pending.tags.length > 0 ? { tags: Array.from(new Set(pending.tags)) } : {}),
+            splits,
+            createdAt: Date.now() + transactions.length
+        });
+    };
+
+    let current: PendingTransaction | null = null;
+    let skippingBlock = false;
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const lineNo = index + 1;
+        const line = rawLine.replace(/\s+$/, '');
+        if (!line.trim()) return;
+
+        const indented = /^\s/.test(line);
+        if (!indented) {
+            finishTransaction(current);
+            current = null;
+            skippingBlock = false;
+
+            if (/^[;#%|*]/.test(line)) return; // Top-level comment
+
+            const accountDirective = /^account\s+(.+?)(\s{2,}.*)?$/.exec(line);
+            if (accountDirective) {
+                if (!resolveAccount(accountDirective[1].trim())) {
+                    warnings.push(`Line ${lineNo}: account "${accountDirective[1].trim()}" has an unknown top-level name, skipped.`);
+                }
+                return;
+            }
+
+            const header = /^(\S+?)(?:=\S+)?\s+(?:([*!])\s*)?(?:\([^)]*\)\s*)?(.*)$/.exec(line) || /^(\S+)$/.exec(line);
+            const date = header ? normalizeDate(header[1]) : null;
+            if (!header || !date) {
+                // Periodic (~), automated (=) transactions and other directives carry no entries
+                skippingBlock = true;
+                return;
+            }
+
+            const [text, comment] = (header[3] || '').split(/\s*;\s*(.*)/);
+            const [payee, description] = text.includes('|') ? text.split(/\s*\|\s*/, 2) : [text, ''];
+            current = {
+                line: lineNo,
+                date,
+                status: markToStatus(header[2]),
+                payee: payee.trim(),
+                description: (description || '').trim(),
+                tags: comment ? parseTags(comment) : [],
+                postings: []
+            };
+            return;
+        }
+
+        if (skippingBlock || !current) return;
+        const tx: PendingTransaction = current;
+        const trimmed = line.trim();
+
+        // Comment lines: tags for the transaction, memo for the posting above
+        if (trimmed.startsWith(';') || trimmed.startsWith('#')) {
+            const comment = trimmed.replace(/^[;#]\s*/, '');
+            const last = tx.postings[tx.postings.length - 1];
+            if (last) {
+                last.memo = last.memo ? `${last.memo} ${comment}` : comment;
+            } else {
+                tx.tags.push(...parseTags(comment));
+            }
+            return;
+        }
+
+        const posting = /^(?:([*!])\s*)?(.+?)(?:(?:\s{2,}|\t)(.*))?$/.exec(trimmed);
+        if (!posting) return;
+        let path = posting[2].trim();
+        if (/^\(.*\)$/.test(path)) {
+            warnings.push(`Line ${lineNo}: unbalanced virtual posting ${path} ignored.`);
+            return;
+        }
+        path = path.replace(/^\[(.*)\]$/, '$1');
+
+        const [amountText, memo] = (posting[3] || '').split(/\s*;\s*(.*)/);
+        tx.postings.push({
+            path,
+            amountText: (amountText || '').trim(),
+            status: markToStatus(posting[1]),
+            memo: memo ? memo.trim() : undefined,
+            line: lineNo
+        });
+    });
+    finishTransaction(current);
+
+    return { transactions, accounts: workingAccounts, createdAccounts, warnings };
+};
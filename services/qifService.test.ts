@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { Account, AccountType, ExchangeRateTable, Transaction } from '../types';
+import { getAccountPath } from './ledgerService';
+import { exportToQif, importQif } from './qifService';
+
+const table: ExchangeRateTable = { baseCurrency: 'USD', rates: [] };
+
+const pathOf = (id: string, accounts: Account[]) => getAccountPath(accounts.find(a => a.id === id)!, accounts);
+
+// Splits as "path amount" pairs, independent of generated ids
+const describeSplits = (tx: Transaction, accounts: Account[]) => tx.splits.map(s => `${pathOf(s.accountId, accounts)} ${s.amount}`);
+
+describe('importQif', () => {
+    it('books records to the default account and creates categories by sign', () => {
+        const qif = [
+            '!Type:Bank',
+            'D1/5/25', 'T-45.10', 'PWhole Foods', 'LFood:Grocery', 'C*', 'N1042', 'MWeekly', '^',
+            'D1/6/25', 'T1,200.00', 'PEmployer', 'LSalary', '^',
+            'D1/7/25', 'T-3.00', 'PCafe', 'LFood/Work', '^'
+        ].join('\n');
+        const result = importQif(qif, INITIAL_ACCOUNTS, table, 'Wallet');
+
+        expect(result.warnings).toEqual([]);
+        expect(result.createdAccounts.map(a => pathOf(a.id, result.accounts))).toEqual(['Assets:Wallet', 'Income:Salary']);
+        const [grocery, salary, cafe] = result.transactions;
+        expect(describeSplits(grocery, result.accounts)).toEqual(['Assets:Wallet -45.1', 'Expenses:Food:Grocery 45.1']);
+        expect(grocery.splits[0].status).toBe('cleared');
+        expect(grocery.description).toBe('Weekly · Check #1042');
+        expect(salary.date).toBe('2025-01-06');
+        expect(describeSplits(salary, result.accounts)).toEqual(['Assets:Wallet 1200', 'Income:Salary -1200']);
+        expect(describeSplits(cafe, result.accounts)).toEqual(['Assets:Wallet -3', 'Expenses:Food 3']);
+    });
+
+    it('reads day-first dates, split lines and reports what it skips', () => {
+        const qif = [
+            '!Type:Invst',
+            'D25/01/2025', 'T-10', '^',
+            '!Type:CCard',
+            'D25/01/2025', 'T-30.00', 'PMarket', 'SFood:Grocery', 'EVeg', '$-20.00', 'SFood:Treats', '$-9.00', '^',
+            'D26/01/2025', 'PNo amount', '^'
+        ].join('\n');
+        const result = importQif(qif, INITIAL_ACCOUNTS, table, 'Visa');
+
+        expect(result.createdAccounts.map(a => [a.name, a.type])).toEqual([['Visa', AccountType.LIABILITY]]);
+        const [market] = result.transactions;
+        expect(market.date).toBe('2025-01-25');
+        expect(describeSplits(market, result.accounts)).toEqual(['Liabilities:Visa -30', 'Expenses:Food:Grocery 20', 'Expenses:Food:Treats 9']);
+        expect(market.splits[1].memo).toBe('Veg');
+        expect(result.warnings).toEqual([
+            'Line 6: split lines do not add up to the total (off by -1.00).',
+            'Line 15: missing date or amount, skipped.',
+            'Sections not imported: Invst.'
+        ]);
+    });
+
+    it('keeps identical entries that are not transfers', () => {
+        const coffee = ['D01/05/2024', 'T-5.00', 'PCoffee', 'LFood', '^'];
+        const result = importQif(['!Type:Bank', ...coffee, ...coffee].join('\n'), INITIAL_ACCOUNTS, table, 'Checking Account');
+        expect(result.transactions).toHaveLength(2);
+        expect(result.warnings).toEqual([]);
+    });
+
+    it('reads space-padded dates and skips days that do not exist', () => {
+        const qif = ['!Type:Bank', "D 1/ 5'24", 'T-5.00', 'LFood', '^', 'D02/31/2024', 'T-6.00', 'LFood', '^'].join('\n');
+        const result = importQif(qif, INITIAL_ACCOUNTS, table, 'Checking Account');
+        expect(result.transactions.map(tx => tx.date)).toEqual(['2024-01-05']);
+        expect(result.warnings).toEqual(['Line 6: missing date or amount, skipped.']);
+    });
+});
+
+describe('exportToQif', () => {
+    const transactions: Transaction[] = [
+        {
+            id: 't1',
+            date: '2025-03-02',
+            createdAt: 1,
+            payee: 'Grocer',
+            splits: [{ accountId: 'acc_checking', amount: -25, status: 'reconciled' }, { accountId: 'acc_grocery', amount: 25 }]
+        },
+        {
+            id: 't2',
+            date: '2025-03-03',
+            createdAt: 2,
+            payee: 'Card payment',
+            splits: [{ accountId: 'acc_checking', amount: -100 }, { accountId: 'acc_card', amount: 100 }]
+        }
+    ];
+    const accounts: Account[] = [...INITIAL_ACCOUNTS, { id: 'acc_card', parentId: 'root_liabilities', name: 'Card', type: AccountType.LIABILITY }];
+
+    it('writes one register per account with categories and transfers', () => {
+        const qif = exportToQif(transactions, accounts, table);
+        expect(qif).toContain('!Account\nNAssets:Checking Account\nTBank\n^\n!Type:Bank\nD03/02/2025\nT-25.00\nCX\nPGrocer\nLFood:Grocery\n^');
+        expect(qif).toContain('D03/03/2025\nT-100.00\nPCard payment\nL[Liabilities:Card]\n^');
+        expect(qif).toContain('!Account\nNLiabilities:Card\nTCCard\n^\n!Type:CCard\nD03/03/2025\nT100.00\nPCard payment\nL[Assets:Checking Account]\n^');
+    });
+
+    it('imports its own output with transfers booked once', () => {
+        const result = importQif(exportToQif(transactions, accounts, table), accounts, table, 'Unused');
+        expect(result.createdAccounts).toEqual([]);
+        expect(result.transactions.map(tx => describeSplits(tx, accounts))).toEqual([
+            ['Assets:Checking Account -25', 'Expenses:Food:Grocery 25'],
+            ['Assets:Checking Account -100', 'Liabilities:Card 100']
+        ]);
+        expect(result.transactions[0].splits[0].status).toBe('reconciled');
+        expect(result.warnings).toEqual(['1 transfer(s) appeared in both accounts and were imported once.']);
+    });
+});
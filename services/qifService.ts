@@ -0,0 +1,339 @@
+import { Account, AccountType, ExchangeRateTable, ImportResult, Split, SplitStatus, Transaction } from '../types';
+import { generateId, getAccountPath, resolveAccountPath } from './ledgerService';
+import { getAccountCurrency, getExchangeRate, getSplitNativeAmount } from './currencyService';
+import { MinorUnits, parseMoney, fromMinorUnits, toMinorUnits, multiplyMoney, formatMoney } from './moneyService';
+import { isValidLedgerDate } from './validationService';
+
+// Quicken Interchange Format. Each record belongs to one bank/card account; its category (L) or
+// split lines (S/E/$) name the other side. Categories are paths below Income/Expenses
+// ("Food:Groceries"), transfers name an account in brackets ("[Assets:Savings]").
+
+const ASSET_SECTIONS = ['bank', 'cash', 'oth a'];
+const LIABILITY_SECTIONS = ['ccard', 'oth l'];
+
+// "/" starts a QIF class and brackets mark transfers, so they cannot appear in names
+const cleanName = (path: string) => path.replace(/\//g, '-').replace(/[[\]]/g, '');
+
+// --- EXPORT ---
+
+const STATUS_CODES: Partial<Record<SplitStatus, string>> = { cleared: '*', reconciled: 'X' };
+
+const formatQifDate = (date: string) => {
+    const [year, month, day] = date.split('-');
+    return `${month}/${day}/${year}`;
+};
+
+// Category field for the other side of an entry
+const getQifCategory = (account: Account | undefined, accounts: Account[]): string => {
+    if (!account) return '';
+    const path = cleanName(getAccountPath(account, accounts));
+    if (account.type === AccountType.ASSET || account.type === AccountType.LIABILITY) return `[${path}]`;
+    if (account.type === AccountType.EQUITY || !account.parentId) return path;
+    // Income and expense categories are written without their root, as Quicken expects
+    return path.split(':').slice(1).join(':');
+};
+
+// One section per asset/liability account. A transfer appears in both accounts, as in Quicken;
+// entries that touch no asset or liability account have no register to appear in and are left out.
+export const exportToQif = (transactions: Transaction[], accounts: Account[], table: ExchangeRateTable): string => {
+    const byId = new Map(accounts.map(a => [a.id, a]));
+    const registers = accounts
+        .filter(a => a.type === AccountType.ASSET || a.type === AccountType.LIABILITY)
+        .map(a => ({ account: a, path: getAccountPath(a, accounts) }))
+        .sort((a, b) => a.path.localeCompare(b.path));
+    const sorted = [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+    const lines: string[] = [];
+
+    registers.forEach(({ account, path }) => {
+        const entries = sorted.filter(tx => tx.splits.some(s => s.accountId === account.id));
+        if (entries.length === 0) return;
+
+        const isLiability = account.type === AccountType.LIABILITY;
+        lines.push('!Account', `N${cleanName(path)}`, `T${isLiability ? 'CCard' : 'Bank'}`, '^');
+        lines.push(`!Type:${isLiability ? 'CCard' : 'Bank'}`);
+
+        const currency = getAccountCurrency(account, table);
+        entries.forEach(tx => {
+            const own = tx.splits.filter(s => s.accountId === account.id);
+            const others = tx.splits.filter(s => s.accountId !== account.id);
+            let total: MinorUnits = 0;
+            own.forEach(s => { total += toMinorUnits(getSplitNativeAmount(s, currency, table, tx.date)); });
+
+            lines.push(`D${formatQifDate(tx.date)}`, `T${formatMoney(fromMinorUnits(total))}`);
+            const status = own.map(s => s.status && STATUS_CODES[s.status]).find(Boolean);
+            if (status) lines.push(`C${status}`);
+            if (tx.payee) lines.push(`P${tx.payee}`);
+            if (tx.description) lines.push(`M${tx.description}`);
+            if (others.length === 1 && !others[0].memo) {
+                lines.push(`L${getQifCategory(byId.get(others[0].accountId), accounts)}`);
+            } else {
+                others.forEach(s => {
+                    lines.push(`S${getQifCategory(byId.get(s.accountId), accounts)}`);
+                    if (s.memo) lines.push(`E${s.memo}`);
+                    lines.push(`$${formatMoney(-s.amount)}`);
+                });
+            }
+            lines.push('^');
+        });
+    });
+
+    return lines.join('\n') + '\n';
+};
+
+// --- IMPORT ---
+
+interface QifSplit {
+    category: string;
+    memo?: string;
+    amount: number | null;
+}
+
+interface QifRecord {
+    line: number;
+    fields: Record<string, string>;
+    splits: QifSplit[];
+}
+
+const parseQifAmount = (value: string): number | null => {
+    const minor = parseMoney(value.replace(/,/g, ''));
+    return minor === null ? null : fromMinorUnits(minor);
+};
+
+// Quicken writes "1/5/24", "01/05'24", "1/5/2024" and pads with spaces (" 1/ 5'24"); European
+// exports swap day and month. Days the month does not have are rejected.
+const parseQifDate = (value: string, dayFirst: boolean): string | null => {
+    let date: string;
+    const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value.trim());
+    if (iso) {
+        date = `${iso[1]}-${iso[2].padStart(2, '0')}-${iso[3].padStart(2, '0')}`;
+    } else {
+        const match = /^(\d{1,2})\s*[/.-]\s*(\d{1,2})\s*(?:[/.-]|')\s*(\d{2}|\d{4})$/.exec(value.trim());
+        if (!match) return null;
+        const [first, second] = [match[1], match[2]];
+        const [month, day] = dayFirst ? [second, first] : [first, second];
+        let year = match[3];
+        if (year.length === 2) year = value.includes("'") || Number(year) < 70 ? `20${year}` : `19${year}`;
+        date = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+    }
+    return isValidLedgerDate(date) ? date : null;
+};
+
+// Day-first when any date has a first part above 12
+const detectDayFirst = (content: string): boolean => {
+    const regex = /^D\s*(\d{1,2})\s*[/.-]/gm;
+    let match;
+    while ((match = regex.exec(content)) !== null) {
+        if (Number(match[1]) > 12) return true;
+    }
+    return false;
+};
+
+const statusFromCode = (code: string | undefined): SplitStatus | undefined => {
+    if (!code) return undefined;
+    if (/^[xr]$/i.test(code.trim())) return 'reconciled';
+    if (code.trim() === '*' || /^c$/i.test(code.trim())) return 'cleared';
+    return undefined;
+};
+
+// "[Assets:Savings]", optionally followed by a class
+const isTransferCategory = (category: string) => /^\[.*\]$/.test(category.split('/')[0].trim());
+
+// Parse a QIF file. Records outside an !Account block are booked to `defaultAccountName`
+// (usually the file name), created under Assets or Liabilities when missing.
+export const importQif = (content: string, accounts: Account[], table: ExchangeRateTable, defaultAccountName: string): ImportResult => {
+    const workingAccounts = [...accounts];
+    const createdAccounts: Account[] = [];
+    const warnings: string[] = [];
+    const transactions: Transaction[] = [];
+    const dayFirst = detectDayFirst(content);
+    const categoryTypes = new Map<string, AccountType>(); // From the !Type:Cat list
+    // Transfers booked from one register whose mirror in the other register has not been read yet
+    const unmatchedTransfers = new Map<string, number>();
+    let skippedTransfers = 0;
+
+    const addResolved = (resolved: { account: Account; created: Account[] } | null): Account | null => {
+        if (!resolved) return null;
+        workingAccounts.push(...resolved.created);
+        createdAccounts.push(...resolved.created);
+        return resolved.account;
+    };
+
+    const findByPathOrName = (name: string, types: AccountType[]): Account | undefined => {
+        const lower = name.toLowerCase();
+        const candidates = workingAccounts.filter(a => types.includes(a.type));
+        return candidates.find(a => cleanName(getAccountPath(a, workingAccounts)).toLowerCase() === lower)
+            || candidates.find(a => a.name.toLowerCase() === lower);
+    };
+
+    // Register (bank / card) account by name
+    const resolveRegister = (name: string, type: AccountType): Account | null => {
+        return findByPathOrName(name, [AccountType.ASSET, AccountType.LIABILITY])
+            || addResolved(resolveAccountPath(name, workingAccounts, type));
+    };
+
+    // Other side of an entry from its category field; `amount` is as seen from the register
+    const resolveCategory = (category: string, amount: number): Account | null => {
+        const name = category.split('/')[0].trim(); // Drop the class
+        const transfer = /^\[(.*)\]$/.exec(name);
+        if (transfer) return resolveRegister(transfer[1].trim(), AccountType.ASSET);
+
+        const path = name || 'Uncategorized';
+        const listed = categoryTypes.get(path.toLowerCase());
+        if (!listed) {
+            // An existing category wins over the sign, so a refund lands back in its expense account
+            const existing = [AccountType.EXPENSE, AccountType.INCOME]
+                .map(type => resolveAccountPath(path, workingAccounts, type))
+                .find(r => r && r.created.length === 0);
+            if (existing) return existing.account;
+        }
+        const type = listed || (amount > 0 ? AccountType.INCOME : AccountType.EXPENSE);
+        return addResolved(resolveAccountPath(path, workingAccounts, type));
+    };
+
+    const toSplit = (accountId: string, amount: number, currency: string, date: string): Split | string => {
+        if (currency === table.baseCurrency) return { accountId, amount };
+        const rate = getExchangeRate(table, currency, date);
+        if (rate === null) return `no exchange rate for ${currency}`;
+        return { accountId, amount: multiplyMoney(amount, rate), currency, originalAmount: amount, rate };
+    };
+
+    const buildTransaction = (record: QifRecord, register: Account) => {
+        const { fields } = record;
+        const date = parseQifDate(fields.D || '', dayFirst);
+        const total = parseQifAmount(fields.T || fields.U || '');
+        if (!date || total === null) {
+            warnings.push(`Line ${record.line}: missing date or amount, skipped.`);
+            return;
+        }
+
+        const currency = getAccountCurrency(register, table);
+        const registerSplit = toSplit(register.id, total, currency, date);
+        if (typeof registerSplit === 'string') {
+            warnings.push(`Line ${record.line}: ${registerSplit}, skipped.`);
+            return;
+        }
+        const status = statusFromCode(fields.C);
+        if (status) registerSplit.status = status;
+
+        const parts: QifSplit[] = record.splits.length > 0
+            ? record.splits
+            : [{ category: fields.L || '', amount: total }];
+        const splits: Split[] = [registerSplit];
+        let remaining = toMinorUnits(-registerSplit.amount);
+
+        for (const [i, part] of parts.entries()) {
+            const amount = part.amount ?? 0;
+            const account = resolveCategory(part.category, amount);
+            if (!account) {
+                warnings.push(`Line ${record.line}: no root account for category "${part.category}", skipped.`);
+                return;
+            }
+            // The last line absorbs rounding from currency conversion so the entry stays balanced
+            const isLast = i === parts.length - 1;
+            const base = currency === table.baseCurrency || !isLast
+                ? multiplyMoney(-amount, registerSplit.rate ?? 1)
+                : fromMinorUnits(remaining);
+            remaining -= toMinorUnits(base);
+            splits.push({ accountId: account.id, amount: base, ...(part.memo ? { memo: part.memo } : {}) });
+        }
+        if (remaining !== 0 && currency === table.baseCurrency) {
+            warnings.push(`Line ${record.line}: split lines do not add up to the total (off by ${formatMoney(fromMinorUnits(-remaining))}).`);
+        }
+
+        // A transfer exported from both of its accounts must only be booked once: an entry is the
+        // mirror of one read earlier from the register it transfers to
+        if (parts.length === 1 && isTransferCategory(parts[0].category) && splits[1].accountId !== register.id) {
+            const key = `${date}|${[register.id, splits[1].accountId].sort().join('|')}|${Math.abs(toMinorUnits(registerSplit.amount))}`;
+            const mirrorKey = `${key}|${splits[1].accountId}`;
+            const waiting = unmatchedTransfers.get(mirrorKey) || 0;
+            if (waiting > 0) {
+                unmatchedTransfers.set(mirrorKey, waiting - 1);
+                skippedTransfers++;
+                return;
+            }
+            const ownKey = `${key}|${register.id}`;
+            unmatchedTransfers.set(ownKey, (unmatchedTransfers.get(ownKey) || 0) + 1);
+        }
+
+        const checkNumber = /^\d+$/.test((fields.N || '').trim()) ? `Check #${fields.N.trim()}` : '';
+        const description = [fields.M, checkNumber].filter(Boolean).join(' · ');
+        transactions.push({
+            id: generateId(),
+            date,
+            payee: fields.P || undefined,
+            description: description || undefined,
+            splits,
+            createdAt: Date.now() + transactions.length
+        });
+    };
+
+    let section = '';
+    let register: Account | null = null;
+    let record: QifRecord | null = null;
+    const unsupported = new Set<string>();
+
+    const finishRecord = () => {
+        if (!record) return;
+        const current = record;
+        record = null;
+        const { fields } = current;
+
+        if (section === 'account') {
+            const type = LIABILITY_SECTIONS.includes((fields.T || '').toLowerCase()) ? AccountType.LIABILITY : AccountType.ASSET;
+            register = fields.N ? resolveRegister(fields.N, type) : null;
+            if (fields.N && !register) warnings.push(`Line ${current.line}: cannot place account "${fields.N}".`);
+        } else if (section === 'cat') {
+            if (fields.N) categoryTypes.set(fields.N.trim().toLowerCase(), 'I' in fields ? AccountType.INCOME : AccountType.EXPENSE);
+        } else if (ASSET_SECTIONS.includes(section) || LIABILITY_SECTIONS.includes(section)) {
+            if (!register) {
+                register = resolveRegister(defaultAccountName, LIABILITY_SECTIONS.includes(section) ? AccountType.LIABILITY : AccountType.ASSET);
+            }
+            if (register) buildTransaction(current, register);
+        }
+    };
+
+    content.split(/\r?\n/).forEach((rawLine, index) => {
+        const line = rawLine.replace(/\s+$/, '');
+        if (!line) return;
+
+        if (line.startsWith('!')) {
+            finishRecord();
+            const header = line.toLowerCase();
+            if (header.startsWith('!type:')) {
+                section = header.slice(6).trim();
+                if (!['cat', 'class', 'memorized'].includes(section) && !ASSET_SECTIONS.includes(section) && !LIABILITY_SECTIONS.includes(section)) {
+                    unsupported.add(line.slice(6));
+                }
+            } else if (header === '!account') {
+                section = 'account';
+            }
+            // !Option:AutoSwitch and !Clear:AutoSwitch only matter to Quicken
+            return;
+        }
+
+        if (line === '^') {
+            finishRecord();
+            return;
+        }
+
+        if (!record) record = { line: index + 1, fields: {}, splits: [] };
+        const code = line[0];
+        const value = line.slice(1).trim();
+        const current: QifRecord = record;
+        if (code === 'S') {
+            current.splits.push({ category: value, amount: null });
+        } else if (code === 'E' && current.splits.length > 0) {
+            current.splits[current.splits.length - 1].memo = value;
+        } else if (code === '$' && current.splits.length > 0) {
+            current.splits[current.splits.length - 1].amount = parseQifAmount(value);
+        } else if (!(code in current.fields)) {
+            current.fields[code] = value;
+        }
+    });
+    finishRecord();
+
+    if (unsupported.size > 0) warnings.push(`Sections not imported: ${Array.from(unsupported).join(', ')}.`);
+    if (skippedTransfers > 0) warnings.push(`${skippedTransfers} transfer(s) appeared in both accounts and were imported once.`);
+
+    return { transactions, accounts: workingAccounts, createdAccounts, warnings };
+};
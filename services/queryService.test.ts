@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { Transaction } from '../types';
+import { filterTransactionsByQuery, formatQueryValue, getQueryDateRange, parseQuery } from './queryService';
+
+const LEDGER: Transaction[] = [
+    {
+        id: 'groceries',
+        date: '2025-01-15',
+        createdAt: 1,
+        payee: 'Whole Foods',
+        description: 'Weekly shop',
+        tags: ['home'],
+        splits: [{ accountId: 'acc_checking', amount: -82.5, status: 'cleared' }, { accountId: 'acc_grocery', amount: 82.5, memo: 'Organic' }]
+    },
+    {
+        id: 'cinema',
+        date: '2025-02-14',
+        createdAt: 2,
+        payee: 'Cinema',
+        tags: ['vacation'],
+        splits: [{ accountId: 'acc_checking', amount: -20 }, { accountId: 'acc_activity', amount: 20 }]
+    },
+    {
+        id: 'refund',
+        date: '2025-03-01',
+        createdAt: 3,
+        payee: 'Whole Foods Market',
+        description: 'Refund',
+        splits: [{ accountId: 'acc_grocery', amount: -10, status: 'reconciled' }, { accountId: 'acc_checking', amount: 10 }]
+    }
+];
+
+const ids = (query: string) => filterTransactionsByQuery(LEDGER, query, INITIAL_ACCOUNTS).map(tx => tx.id);
+
+describe('parseQuery', () => {
+    it('reads fields, negation, quotes and match modes', () => {
+        const { terms, errors } = parseQuery('payee:"Whole Foods" -description:refund payee:~whole coffee');
+        expect(errors).toEqual([]);
+        expect(terms).toEqual([
+            { field: 'payee', negated: false, value: 'Whole Foods', match: 'equals' },
+            { field: 'desc', negated: true, value: 'refund', match: 'contains' },
+            { field: 'payee', negated: false, value: 'whole', match: 'contains' },
+            { field: 'text', negated: false, value: 'coffee', match: 'contains' }
+        ]);
+    });
+
+    it('expands amounts and dates into bounds', () => {
+        const [over, range, month, open] = parseQuery('amount:>50 amount:10..20 date:2024-02 date:2025-02-01..').terms;
+        expect([over.min, over.max, over.minExclusive]).toEqual([50, undefined, true]);
+        expect([range.min, range.max]).toEqual([10, 20]);
+        expect([month.from, month.to]).toEqual(['2024-02-01', '2024-02-29']);
+        expect([open.from, open.to]).toEqual(['2025-02-01', undefined]);
+    });
+
+    it('reports bad terms and keeps the rest', () => {
+        const { terms, errors } = parseQuery('colour:red amount:lots date:2025-13 status:done payee: cinema');
+        expect(terms.map(t => t.value)).toEqual(['cinema']);
+        expect(errors).toEqual([
+            'Unknown field "colour:". Use account, payee, desc, memo, tag, amount, date, status.',
+            '"lots" is not an amount.',
+            '"2025-13" is not a date (use YYYY, YYYY-MM or YYYY-MM-DD).',
+            'Status must be pending, cleared or reconciled.',
+            '"payee:" needs a value.'
+        ]);
+    });
+
+    it('quotes values that contain spaces', () => {
+        expect(formatQueryValue('Whole Foods')).toBe('"Whole Foods"');
+        expect(formatQueryValue('Food')).toBe('Food');
+    });
+});
+
+describe('filterTransactionsByQuery', () => {
+    it('matches accounts with their sub-accounts, by path or by name', () => {
+        expect(ids('account:Expenses:Food')).toEqual(['groceries', 'refund']);
+        expect(ids('account:grocery')).toEqual(['groceries', 'refund']);
+        expect(ids('account:~activ')).toEqual(['cinema']);
+    });
+
+    it('combines terms and negations', () => {
+        expect(ids('payee:~"whole foods" -desc:refund')).toEqual(['groceries']);
+        expect(ids('amount:>=20 date:2025-02..')).toEqual(['cinema']);
+        expect(ids('amount:<20')).toEqual(['refund']);
+        expect(ids('status:reconciled')).toEqual(['refund']);
+        expect(ids('tag:vacation')).toEqual(['cinema']);
+        expect(ids('organic')).toEqual(['groceries']);
+        expect(ids('')).toEqual(['groceries', 'cinema', 'refund']);
+    });
+
+    it('narrows the date range to the overlap of the date terms', () => {
+        expect(getQueryDateRange(parseQuery('date:2025 date:..2025-02 -date:2025-01'))).toEqual({ from: '2025-01-01', to: '2025-02-28' });
+        expect(getQueryDateRange(parseQuery('payee:Cinema'))).toBeNull();
+    });
+});
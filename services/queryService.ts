@@ -0,0 +1,326 @@
+import { Account, ParsedQuery, QueryField, QueryTerm, SplitStatus, Transaction } from '../types';
+import { getAccountPath, getDescendantAccountIds } from './ledgerService';
+import { getSplitStatus } from './reconciliationService';
+import { parseMoney, fromMinorUnits, sumMoney } from './moneyService';
+
+// Search queries for the journal and the dashboards, e.g.
+//   account:Expenses:Food amount:>50 payee:~super date:2025-01..2025-03 tag:vacation -desc:refund
+// Terms are separated by spaces and must all match; `-` negates a term and values with spaces are
+// quoted (payee:"Whole Foods"). Words without a field search description, payee, memos and tags.
+
+export const QUERY_FIELDS: { field: Exclude<QueryField, 'text'>; hint: string }[] = [
+    { field: 'account', hint: 'Account path and its sub-accounts, e.g. account:Expenses:Food' },
+    { field: 'payee', hint: 'Exact payee; payee:~text for part of it' },
+    { field: 'desc', hint: 'Description contains' },
+    { field: 'memo', hint: 'A split memo contains' },
+    { field: 'tag', hint: 'Has the tag' },
+    { field: 'amount', hint: 'amount:>50, amount:<=20, amount:10..50' },
+    { field: 'date', hint: 'date:2025, date:2025-01..2025-03, date:2025-02-01..' },
+    { field: 'status', hint: 'A split is pending, cleared or reconciled' }
+];
+
+const FIELD_ALIASES: Record<string, Exclude<QueryField, 'text'>> = { description: 'desc' };
+
+const STATUSES: SplitStatus[] = ['pending', 'cleared', 'reconciled'];
+
+// Free text is searched for by default; names and tags are matched whole unless `~` is given
+const CONTAINS_BY_DEFAULT = new Set<QueryField>(['text', 'desc', 'memo']);
+
+// --- PARSING ---
+
+interface Token {
+    text: string;
+    start: number;
+    end: number;
+}
+
+// Split on spaces outside double quotes. An unclosed quote runs to the end of the text.
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let start = -1;
+    let inQuotes = false;
+    for (let i = 0; i <= text.length; i++) {
+        const char = text[i];
+        const isBreak = i === text.length || (!inQuotes && /\s/.test(char));
+        if (isBreak) {
+            if (start !== -1) tokens.push({ text: text.slice(start, i), start, end: i });
+            start = -1;
+            continue;
+        }
+        if (start === -1) start = i;
+        if (char === '"') inQuotes = !inQuotes;
+    }
+    return tokens;
+};
+
+const unquote = (value: string) => value.replace(/"/g, '');
+
+// Quote values that would otherwise be split into several terms
+export const formatQueryValue = (value: string): string => /[\s"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+
+const parseAmount = (value: string): number | null => {
+    const minor = parseMoney(value);
+    return minor === null ? null : fromMinorUnits(minor);
+};
+
+const readAmount = (term: QueryTerm): string | null => {
+    const value = term.value;
+    const comparison = /^(>=|<=|>|<|=)?(.+)$/.exec(value);
+    if (value.includes('..')) {
+        const [low, high] = value.split('..');
+        const min = low ? parseAmount(low) : null;
+        const max = high ? parseAmount(high) : null;
+        if ((low && min === null) || (high && max === null) || (!low && !high)) return `"${value}" is not an amount range.`;
+        if (min !== null) term.min = min;
+        if (max !== null) term.max = max;
+        return null;
+    }
+    const amount = comparison ? parseAmount(comparison[2]) : null;
+    if (!comparison || amount === null) return `"${value}" is not an amount.`;
+    const operator = comparison[1] || '=';
+    if (operator === '=' || operator.startsWith('>')) term.min = amount;
+    if (operator === '=' || operator.startsWith('<')) term.max = amount;
+    term.minExclusive = operator === '>';
+    term.maxExclusive = operator === '<';
+    return null;
+};
+
+// "2025" → 2025-01-01..2025-12-31, "2025-02" → the whole month, "2025-02-14" → that day
+const expandDate = (value: string): { from: string; to: string } | null => {
+    let match = /^(\d{4})$/.exec(value);
+    if (match) return { from: `${match[1]}-01-01`, to: `${match[1]}-12-31` };
+    match = /^(\d{4})-(\d{2})$/.exec(value);
+    if (match) {
+        const month = parseInt(match[2], 10);
+        if (month < 1 || month > 12) return null;
+        const lastDay = new Date(Date.UTC(parseInt(match[1], 10), month, 0)).getUTCDate();
+        return { from: `${value}-01`, to: `${value}-${String(lastDay).padStart(2, '0')}` };
+    }
+    match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+    if (match && !isNaN(Date.parse(value))) return { from: value, to: value };
+    return null;
+};
+
+const readDate = (term: QueryTerm): string | null => {
+    const value = term.value;
+    if (value.includes('..')) {
+        const [low, high] = value.split('..');
+        const from = low ? expandDate(low) : null;
+        const to = high ? expandDate(high) : null;
+        if ((low && !from) || (high && !to) || (!low && !high)) return `"${value}" is not a date range (use YYYY, YYYY-MM or YYYY-MM-DD).`;
+        if (from) term.from = from.from;
+        if (to) term.to = to.to;
+        return null;
+    }
+    const day = expandDate(value);
+    if (!day) return `"${value}" is not a date (use YYYY, YYYY-MM or YYYY-MM-DD).`;
+    term.from = day.from;
+    term.to = day.to;
+    return null;
+};
+
+export const parseQuery = (text: string): ParsedQuery => {
+    const terms: QueryTerm[] = [];
+    const errors: string[] = [];
+
+    tokenize(text).forEach(({ text: raw }) => {
+        const negated = raw.startsWith('-') && raw.length > 1;
+        const body = negated ? raw.slice(1) : raw;
+        const fieldMatch = /^([a-zA-Z]+):(.*)$/.exec(body);
+
+        let field: QueryField = 'text';
+        let value = body;
+        if (fieldMatch) {
+            const name = fieldMatch[1].toLowerCase();
+            const known = FIELD_ALIASES[name] || QUERY_FIELDS.find(f => f.field === name)?.field;
+            if (!known) {
+                errors.push(`Unknown field "${fieldMatch[1]}:". Use ${QUERY_FIELDS.map(f => f.field).join(', ')}.`);
+                return;
+            }
+            field = known;
+            value = fieldMatch[2];
+        }
+
+        let match: QueryTerm['match'] = CONTAINS_BY_DEFAULT.has(field) ? 'contains' : 'equals';
+        if (field !== 'amount' && field !== 'date') {
+            if (value.startsWith('~')) { match = 'contains'; value = value.slice(1); }
+            else if (value.startsWith('=')) { match = 'equals'; value = value.slice(1); }
+        }
+        value = unquote(value);
+        if (!value) {
+            if (field !== 'text') errors.push(`"${raw}" needs a value.`);
+            return;
+        }
+
+        const term: QueryTerm = { field, negated, value, match };
+        const error = field === 'amount' ? readAmount(term)
+            : field === 'date' ? readDate(term)
+            : field === 'status' && !STATUSES.includes(value.toLowerCase() as SplitStatus) ? 'Status must be pending, cleared or reconciled.'
+            : null;
+        if (error) errors.push(error);
+        else terms.push(term);
+    });
+
+    return { terms, errors };
+};
+
+// --- EVALUATION ---
+
+export type TransactionPredicate = (tx: Transaction) => boolean;
+
+// Account paths ("Expenses:Food") by id, lowercased for matching
+const getAccountPaths = (accounts: Account[]): Map<string, string> =>
+    new Map(accounts.map(a => [a.id, getAccountPath(a, accounts).toLowerCase()]));
+
+// Accounts named by an account term, with their sub-accounts. A whole path is tried first,
+// then a plain account name, so account:Food works when the name is unique.
+const resolveAccountTerm = (term: QueryTerm, accounts: Account[], paths: Map<string, string>): Set<string> => {
+    const value = term.value.toLowerCase();
+    let roots: Account[];
+    if (term.match === 'contains') {
+        roots = accounts.filter(a => paths.get(a.id)!.includes(value));
+    } else {
+        roots = accounts.filter(a => paths.get(a.id) === value);
+        if (roots.length === 0) roots = accounts.filter(a => a.name.toLowerCase() === value);
+    }
+    const ids = new Set<string>();
+    roots.forEach(root => getDescendantAccountIds(root.id, accounts).forEach(id => ids.add(id)));
+    return ids;
+};
+
+const matchesText = (candidate: string | undefined, term: QueryTerm): boolean => {
+    const text = (candidate || '').toLowerCase();
+    const value = term.value.toLowerCase();
+    return term.match === 'contains' ? text.includes(value) : text === value;
+};
+
+// Same measure as the journal's amount filter: the sum of the debit side
+const getTransactionSize = (tx: Transaction): number => sumMoney(tx.splits.filter(s => s.amount > 0).map(s => s.amount));
+
+const compileTerm = (term: QueryTerm, accounts: Account[], paths: () => Map<string, string>): TransactionPredicate => {
+    switch (term.field) {
+        case 'account': {
+            const ids = resolveAccountTerm(term, accounts, paths());
+            return tx => tx.splits.some(s => ids.has(s.accountId));
+        }
+        case 'payee':
+            return tx => matchesText(tx.payee, term);
+        case 'desc':
+            return tx => matchesText(tx.description, term);
+        case 'memo':
+            return tx => tx.splits.some(s => matchesText(s.memo, term));
+        case 'tag':
+            return tx => (tx.tags || []).some(tag => matchesText(tag, term));
+        case 'status': {
+            const status = term.value.toLowerCase();
+            return tx => tx.splits.some(s => getSplitStatus(s) === status);
+        }
+        case 'amount':
+            return tx => {
+                const size = getTransactionSize(tx);
+                if (term.min !== undefined && (term.minExclusive ? size <= term.min : size < term.min)) return false;
+                if (term.max !== undefined && (term.maxExclusive ? size >= term.max : size > term.max)) return false;
+                return true;
+            };
+        case 'date':
+            return tx => (term.from === undefined || tx.date >= term.from) && (term.to === undefined || tx.date <= term.to);
+        default:
+            return tx =>
+                matchesText(tx.description, term) ||
+                matchesText(tx.payee, term) ||
+                tx.splits.some(s => matchesText(s.memo, term)) ||
+                (tx.tags || []).some(tag => matchesText(tag, term));
+    }
+};
+
+// One predicate for the whole query; account lookups are resolved once, not per transaction
+export const compileQuery = (query: ParsedQuery, accounts: Account[]): TransactionPredicate => {
+    let paths: Map<string, string> | null = null;
+    const getPaths = () => paths || (paths = getAccountPaths(accounts));
+    const predicates = query.terms.map(term => {
+        const predicate = compileTerm(term, accounts, getPaths);
+        return term.negated ? (tx: Transaction) => !predicate(tx) : predicate;
+    });
+    return tx => predicates.every(predicate => predicate(tx));
+};
+
+// The dates a query is limited to: the overlap of its date terms, null when it has none.
+// Callers that page through dates (journal, dashboards) use these bounds instead of their own.
+export const getQueryDateRange = (query: ParsedQuery): { from?: string; to?: string } | null => {
+    const dateTerms = query.terms.filter(t => t.field === 'date' && !t.negated);
+    if (dateTerms.length === 0) return null;
+    const range: { from?: string; to?: string } = {};
+    dateTerms.forEach(t => {
+        if (t.from !== undefined && (range.from === undefined || t.from > range.from)) range.from = t.from;
+        if (t.to !== undefined && (range.to === undefined || t.to < range.to)) range.to = t.to;
+    });
+    return range;
+};
+
+export const filterTransactionsByQuery = (transactions: Transaction[], query: string | ParsedQuery, accounts: Account[]): Transaction[] => {
+    const parsed = typeof query === 'string' ? parseQuery(query) : query;
+    if (parsed.terms.length === 0) return transactions;
+    return transactions.filter(compileQuery(parsed, accounts));
+};
+
+// --- AUTOCOMPLETE ---
+
+export interface QuerySuggestion {
+    label: string;
+    hint?: string;
+    insert: string; // Replaces the term under the cursor
+    isComplete: boolean; // false while only the field name has been picked
+}
+
+export interface QuerySuggestionSources {
+    accounts: Account[];
+    payees: string[];
+    tags: string[];
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// Suggestions for the term under the cursor, and the part of the text they replace
+export const getQuerySuggestions = (
+    text: string,
+    cursor: number,
+    sources: QuerySuggestionSources
+): { start: number; end: number; items: QuerySuggestion[] } => {
+    const token = tokenize(text).find(t => t.start <= cursor && cursor <= t.end);
+    const start = token ? token.start : cursor;
+    const end = token ? token.end : cursor;
+    const raw = token ? token.text : '';
+    const prefix = raw.startsWith('-') ? '-' : '';
+    const body = raw.slice(prefix.length);
+    const fieldMatch = /^([a-zA-Z]+):(.*)$/.exec(body);
+
+    if (!fieldMatch) {
+        const partial = body.toLowerCase();
+        const items = QUERY_FIELDS
+            .filter(f => f.field.startsWith(partial))
+            .map(f => ({ label: `${f.field}:`, hint: f.hint, insert: `${prefix}${f.field}:`, isComplete: false }));
+        return { start, end, items };
+    }
+
+    const name = fieldMatch[1].toLowerCase();
+    const field = FIELD_ALIASES[name] || name;
+    const operator = /^[~=]/.test(fieldMatch[2]) ? fieldMatch[2][0] : '';
+    const partial = unquote(fieldMatch[2].slice(operator.length)).toLowerCase();
+
+    let candidates: string[] = [];
+    if (field === 'account') {
+        candidates = sources.accounts.map(a => getAccountPath(a, sources.accounts)).sort((a, b) => a.localeCompare(b));
+    } else if (field === 'payee') {
+        candidates = sources.payees;
+    } else if (field === 'tag') {
+        candidates = sources.tags;
+    } else if (field === 'status') {
+        candidates = STATUSES;
+    }
+
+    const items = candidates
+        .filter(c => c.toLowerCase().includes(partial) && c.toLowerCase() !== partial)
+        .slice(0, MAX_SUGGESTIONS)
+        .map(c => ({ label: c, insert: `${prefix}${fieldMatch[1]}:${operator}${formatQueryValue(c)} `, isComplete: true }));
+    return { start, end, items };
+};
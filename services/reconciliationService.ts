@@ -0,0 +1,144 @@
+import { Account, ExchangeRateTable, ReconciliationItem, Split, SplitRef, SplitStatus, Transaction } from '../types';
+import { getDescendantAccountIds } from './ledgerService';
+import { getAccountCurrency, getSplitNativeAmount } from './currencyService';
+import { MinorUnits, toMinorUnits, fromMinorUnits } from './moneyService';
+
+// --- STATUS ---
+
+export const getSplitStatus = (split: Split): SplitStatus => split.status || 'pending';
+
+const isReconciled = (split: Split) => split.status === 'reconciled';
+
+// Apply a status to the referenced splits. Reconciled splits are locked and never change.
+export const setSplitStatus = (transactions: Transaction[], refs: SplitRef[], status: SplitStatus): Transaction[] => {
+    const byTx = new Map<string, Set<number>>();
+    refs.forEach(ref => {
+        if (!byTx.has(ref.transactionId)) byTx.set(ref.transactionId, new Set());
+        byTx.get(ref.transactionId)!.add(ref.splitIndex);
+    });
+
+    return transactions.map(tx => {
+        const indexes = byTx.get(tx.id);
+        if (!indexes) return tx;
+        return {
+            ...tx,
+            splits: tx.splits.map((split, i) => {
+                if (!indexes.has(i) || isReconciled(split)) return split;
+                // Pending is the default, so it is stored as a missing status
+                const { status: _previous, ...rest } = split;
+                return status === 'pending' ? rest : { ...rest, status };
+            })
+        };
+    });
+};
+
+// --- RECONCILIATION ---
+
+// Open (not yet reconciled) splits of the account branch up to the statement date
+export const getReconciliationItems = (
+    accountId: string,
+    accounts: Account[],
+    transactions: Transaction[],
+    table: ExchangeRateTable,
+    statementDate: string
+): ReconciliationItem[] => {
+    const branchIds = getDescendantAccountIds(accountId, accounts);
+    const currency = getAccountCurrency(accounts.find(a => a.id === accountId), table);
+    const items: ReconciliationItem[] = [];
+
+    transactions.forEach(tx => {
+        if (tx.date > statementDate) return;
+        tx.splits.forEach((split, splitIndex) => {
+            if (!branchIds.has(split.accountId) || isReconciled(split)) return;
+            items.push({
+                transactionId: tx.id,
+                splitIndex,
+                date: tx.date,
+                payee: tx.payee,
+                description: tx.description,
+                memo: split.memo,
+                accountId: split.accountId,
+                amount: getSplitNativeAmount(split, currency, table, tx.date),
+                status: getSplitStatus(split)
+            });
+        });
+    });
+
+    return items.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Balance carried over from earlier statements: every reconciled split in the branch
+export const getReconciledBalance = (
+    accountId: string,
+    accounts: Account[],
+    transactions: Transaction[],
+    table: ExchangeRateTable
+): number => {
+    const branchIds = getDescendantAccountIds(accountId, accounts);
+    const currency = getAccountCurrency(accounts.find(a => a.id === accountId), table);
+    let total: MinorUnits = 0;
+
+    transactions.forEach(tx => {
+        tx.splits.forEach(split => {
+            if (branchIds.has(split.accountId) && isReconciled(split)) {
+                total += toMinorUnits(getSplitNativeAmount(split, currency, table, tx.date));
+            }
+        });
+    });
+    return fromMinorUnits(total);
+};
+
+// Reconciled balance plus every ticked (cleared) item
+export const getClearedBalance = (reconciledBalance: number, items: ReconciliationItem[]): number => {
+    let total = toMinorUnits(reconciledBalance);
+    items.forEach(item => {
+        if (item.status === 'cleared') total += toMinorUnits(item.amount);
+    });
+    return fromMinorUnits(total);
+};
+
+// Lock the cleared items once the cleared balance matches the statement
+export const finishReconciliation = (transactions: Transaction[], items: ReconciliationItem[]): Transaction[] => {
+    return setSplitStatus(transactions, items.filter(i => i.status === 'cleared'), 'reconciled');
+};
+
+// --- LOCKING ---
+
+// Keep split statuses when a transaction is rebuilt by the form, matching on account and amount.
+// Bank ids (externalId) follow the account alone, so that correcting an imported amount keeps the link.
+export const carryOverSplitStatus = (previous: Transaction, updated: Transaction): Transaction => {
+    const remaining = previous.splits.filter(s => s.status);
+    const withExternalId = previous.splits.filter(s => s.externalId);
+    return {
+        ...updated,
+        splits: updated.splits.map(split => {
+            let result = split;
+            const idIndex = withExternalId.findIndex(s => s.accountId === split.accountId);
+            if (idIndex !== -1 && !split.externalId) {
+                const [linked] = withExternalId.splice(idIndex, 1);
+                result = { ...result, externalId: linked.externalId };
+            }
+            const index = remaining.findIndex(s => s.accountId === split.accountId && toMinorUnits(s.amount) === toMinorUnits(split.amount));
+            if (index === -1) return result;
+            const [match] = remaining.splice(index, 1);
+            return { ...result, status: match.status };
+        })
+    };
+};
+
+// Reconciled splits may not be removed, re-dated or changed. Pass `updated = null` for a delete.
+export const getReconciledChangeBlocker = (previous: Transaction, updated: Transaction | null): string | null => {
+    const locked = previous.splits.filter(isReconciled);
+    if (locked.length === 0) return null;
+    if (!updated) return 'This transaction has reconciled splits and cannot be deleted.';
+    if (updated.date !== previous.date) return 'This transaction has reconciled splits; its date cannot change.';
+
+    const remaining = updated.splits.filter(isReconciled);
+    const allKept = locked.every(split => {
+        const index = remaining.findIndex(s => s.accountId === split.accountId && toMinorUnits(s.amount) === toMinorUnits(split.amount));
+        if (index === -1) return false;
+        remaining.splice(index, 1);
+        return true;
+    });
+    return allKept ? null : 'Reconciled splits are locked; only unreconciled lines of this transaction can change.';
+};
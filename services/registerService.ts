@@ -0,0 +1,87 @@
+import { Account, AccountType, RegisterRow, Transaction } from '../types';
+import { generateId, getDescendantAccountIds } from './ledgerService';
+import { LedgerIndex } from './ledgerIndexService';
+import { MinorUnits, toMinorUnits, fromMinorUnits } from './moneyService';
+
+// Bank-register view of one account or branch: every entry that touches it in date order, with the
+// balance after each one. Balances stay in the ledger's sign (debits positive); getRegisterSign
+// turns them into what a statement shows.
+
+// Liabilities, income and equity grow with credits, so their registers show credits as increases
+export const getRegisterSign = (type: AccountType): 1 | -1 =>
+    type === AccountType.LIABILITY || type === AccountType.INCOME || type === AccountType.EQUITY ? -1 : 1;
+
+// Column headings for increases and decreases, in the order they appear
+export const getRegisterLabels = (type: AccountType): { increase: string; decrease: string } => {
+    switch (type) {
+        case AccountType.ASSET: return { increase: 'Deposit', decrease: 'Withdrawal' };
+        case AccountType.LIABILITY: return { increase: 'Charge', decrease: 'Payment' };
+        case AccountType.EXPENSE: return { increase: 'Expense', decrease: 'Refund' };
+        case AccountType.INCOME: return { increase: 'Income', decrease: 'Refund' };
+        default: return { increase: 'Increase', decrease: 'Decrease' };
+    }
+};
+
+export interface AccountRegister {
+    openingBalance: number; // Balance before `start`
+    rows: RegisterRow[]; // Oldest first; same-day entries keep their ledger order
+    closingBalance: number;
+}
+
+// `start` and `end` are inclusive YYYY-MM-DD dates. The opening balance comes from the index, so
+// only the entries within the range are walked.
+export const buildAccountRegister = (
+    accountId: string,
+    accounts: Account[],
+    transactions: Transaction[],
+    index: LedgerIndex,
+    start: string,
+    end: string
+): AccountRegister => {
+    const branchIds = getDescendantAccountIds(accountId, accounts);
+    const opening: MinorUnits = index.getTreeBalance(accountId) - index.getTreeBalance(accountId, { from: start });
+
+    const entries: { transaction: Transaction; amount: MinorUnits; order: number }[] = [];
+    transactions.forEach((transaction, order) => {
+        if (transaction.date < start || transaction.date > end) return;
+        let amount: MinorUnits = 0;
+        let touches = false;
+        transaction.splits.forEach(split => {
+            if (!branchIds.has(split.accountId)) return;
+            amount += toMinorUnits(split.amount);
+            touches = true;
+        });
+        if (touches) entries.push({ transaction, amount, order });
+    });
+    entries.sort((a, b) => a.transaction.date.localeCompare(b.transaction.date) || a.order - b.order);
+
+    let balance = opening;
+    const rows = entries.map(entry => {
+        balance += entry.amount;
+        return { transaction: entry.transaction, amount: fromMinorUnits(entry.amount), balance: fromMinorUnits(balance) };
+    });
+
+    return { openingBalance: fromMinorUnits(opening), rows, closingBalance: fromMinorUnits(balance) };
+};
+
+// A two-split entry typed into the register. `amount` is in the register's sign: positive increases
+// the account (a deposit, a charge on a card), negative decreases it.
+export const createRegisterEntry = (
+    account: Account,
+    counterAccountId: string,
+    amount: MinorUnits,
+    fields: { date: string; payee?: string; description?: string }
+): Transaction => {
+    const booked = fromMinorUnits(amount * getRegisterSign(account.type));
+    return {
+        id: generateId(),
+        date: fields.date,
+        payee: fields.payee || undefined,
+        description: fields.description || undefined,
+        splits: [
+            { accountId: account.id, amount: booked },
+            { accountId: counterAccountId, amount: -booked }
+        ],
+        createdAt: Date.now()
+    };
+};
@@ -0,0 +1,174 @@
+import { Account, AccountType, CategorizationRule, ImportResult, RuleCondition, RuleField, RuleOperator, Transaction } from '../types';
+import { generateId } from './ledgerService';
+import { parseMoney, sumMoney, toMinorUnits } from './moneyService';
+import { getReconciledChangeBlocker } from './reconciliationService';
+
+// Ordered payee/description rules that pick the category of an entry.
+// A rule only rewrites the category side of a two-split entry; the bank side is never touched.
+
+// Stored next to Transaction.csv
+export const RULES_FILE = 'Rules.json';
+
+export const RULE_OPERATORS: Record<RuleField, RuleOperator[]> = {
+    payee: ['contains', 'equals', 'startsWith', 'matches'],
+    description: ['contains', 'equals', 'startsWith', 'matches'],
+    amount: ['equals', 'greaterThan', 'lessThan']
+};
+
+export const createRule = (name = ''): CategorizationRule => ({
+    id: generateId(),
+    name,
+    conditions: [{ field: 'payee', operator: 'contains', value: '' }],
+    accountId: '',
+    active: true
+});
+
+// What a rule looks at. Quick entry builds this from the form before a transaction exists.
+export interface RuleSubject {
+    payee?: string;
+    description?: string;
+    amount: number; // Money moved, always positive
+}
+
+export const getRuleSubject = (tx: Transaction): RuleSubject => ({
+    payee: tx.payee,
+    description: tx.description,
+    amount: sumMoney(tx.splits.filter(s => s.amount > 0).map(s => s.amount))
+});
+
+// --- MATCHING ---
+
+// "/netflix/i" is a regular expression with flags, anything else is matched case-insensitively as written
+export const parseRulePattern = (value: string): RegExp | null => {
+    const literal = /^\/(.+)\/([a-z]*)$/.exec(value.trim());
+    try {
+        return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value.trim(), 'i');
+    } catch (e) {
+        return null;
+    }
+};
+
+// Why a condition can never match, for the rule editor
+export const getConditionError = (condition: RuleCondition): string | null => {
+    if (!condition.value.trim()) return 'Enter a value';
+    if (condition.field === 'amount' && parseMoney(condition.value.trim()) === null) return 'Not an amount';
+    if (condition.operator === 'matches' && !parseRulePattern(condition.value)) return 'Invalid pattern';
+    return null;
+};
+
+const matchesCondition = (condition: RuleCondition, subject: RuleSubject): boolean => {
+    if (getConditionError(condition)) return false;
+
+    if (condition.field === 'amount') {
+        const actual = toMinorUnits(subject.amount);
+        const expected = Math.abs(parseMoney(condition.value.trim())!);
+        if (condition.operator === 'greaterThan') return actual > expected;
+        if (condition.operator === 'lessThan') return actual < expected;
+        return actual === expected;
+    }
+
+    const text = (subject[condition.field] || '').trim();
+    const value = condition.value.trim().toLowerCase();
+    switch (condition.operator) {
+        case 'equals': return text.toLowerCase() === value;
+        case 'startsWith': return text.toLowerCase().startsWith(value);
+        case 'matches': return parseRulePattern(condition.value)!.test(text);
+        default: return text.toLowerCase().includes(value);
+    }
+};
+
+export const matchesRule = (rule: CategorizationRule, subject: RuleSubject): boolean =>
+    rule.active && rule.conditions.length > 0 && rule.conditions.every(c => matchesCondition(c, subject));
+
+export const findMatchingRule = (rules: CategorizationRule[], subject: RuleSubject): CategorizationRule | null =>
+    rules.find(rule => rule.accountId && matchesRule(rule, subject)) || null;
+
+// --- APPLYING ---
+
+const isRegisterAccount = (account?: Account) => account?.type === AccountType.ASSET || account?.type === AccountType.LIABILITY;
+
+// The split a rule may rewrite: the one non-bank side of a two-split entry.
+// Transfers between bank accounts and multi-line entries have no single category and are left alone.
+export const getCategorySplitIndex = (tx: Transaction, accounts: Account[]): number => {
+    if (tx.splits.length !== 2) return -1;
+    const registers = tx.splits.map(s => isRegisterAccount(accounts.find(a => a.id === s.accountId)));
+    if (registers[0] === registers[1]) return -1;
+    return registers[0] ? 1 : 0;
+};
+
+// The entry with the rule applied, or null when the rule changes nothing
+export const applyRule = (tx: Transaction, rule: CategorizationRule, accounts: Account[]): Transaction | null => {
+    const index = getCategorySplitIndex(tx, accounts);
+    if (index === -1) return null;
+
+    const tags = Array.from(new Set([...(tx.tags || []), ...(rule.tags || [])]));
+    const updated: Transaction = {
+        ...tx,
+        payee: rule.payee || tx.payee,
+        ...(tags.length > 0 ? { tags } : {}),
+        splits: tx.splits.map((split, i) => (i === index ? { ...split, accountId: rule.accountId } : split))
+    };
+
+    const changed = updated.payee !== tx.payee
+        || tags.length !== (tx.tags || []).length
+        || tx.splits[index].accountId !== rule.accountId;
+    return changed ? updated : null;
+};
+
+export interface RuleChange {
+    rule: CategorizationRule;
+    before: Transaction;
+    after: Transaction;
+}
+
+// First matching rule for every entry that it would change. Entries with reconciled lines are skipped.
+export const getRuleChanges = (transactions: Transaction[], rules: CategorizationRule[], accounts: Account[]): RuleChange[] => {
+    const changes: RuleChange[] = [];
+    transactions.forEach(tx => {
+        const rule = findMatchingRule(rules, getRuleSubject(tx));
+        if (!rule || !accounts.some(a => a.id === rule.accountId)) return;
+        const after = applyRule(tx, rule, accounts);
+        if (after && !getReconciledChangeBlocker(tx, after)) changes.push({ rule, before: tx, after });
+    });
+    return changes;
+};
+
+export const applyRuleChanges = (transactions: Transaction[], changes: RuleChange[]): Transaction[] => {
+    const updated = new Map(changes.map(c => [c.before.id, c.after]));
+    return transactions.map(tx => updated.get(tx.id) || tx);
+};
+
+// Categorize freshly imported entries. Holding accounts the import created and no entry uses any more are dropped.
+export const applyRulesToImport = (result: ImportResult, rules: CategorizationRule[]): ImportResult => {
+    const changes = getRuleChanges(result.transactions, rules, result.accounts);
+    if (changes.length === 0) return result;
+
+    const transactions = applyRuleChanges(result.transactions, changes);
+    const used = new Set(transactions.flatMap(tx => tx.splits.map(s => s.accountId)));
+    const unused = new Set(result.createdAccounts
+        .filter(a => !used.has(a.id) && !result.accounts.some(child => child.parentId === a.id))
+        .map(a => a.id));
+    return {
+        ...result,
+        transactions,
+        accounts: result.accounts.filter(a => !unused.has(a.id)),
+        createdAccounts: result.createdAccounts.filter(a => !unused.has(a.id))
+    };
+};
+
+// Past entries one rule matches, newest first, for the "test against history" preview.
+// `change` is null when the entry already looks the way the rule would leave it or cannot be changed.
+export const testRuleAgainstHistory = (
+    rule: CategorizationRule,
+    transactions: Transaction[],
+    accounts: Account[]
+): { transaction: Transaction; change: Transaction | null }[] => {
+    const probe = { ...rule, active: true };
+    return transactions
+        .filter(tx => matchesRule(probe, getRuleSubject(tx)))
+        .sort((a, b) => b.date.localeCompare(a.date))
+        .map(tx => {
+            const change = probe.accountId ? applyRule(tx, probe, accounts) : null;
+            return { transaction: tx, change: change && !getReconciledChangeBlocker(tx, change) ? change : null };
+        });
+};
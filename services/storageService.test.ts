@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { INITIAL_ACCOUNTS } from '../constants';
+import { StorageAdapter, Transaction } from '../types';
+import { CURRENT_FORMAT_VERSION, MANIFEST_FILE, loadLedger, migrateLedgerFiles, saveLedgerChanges, setTransactionLayout, writeManifest } from './storageService';
+import { serializeTransactionsToCSV } from './ledgerService';
+
+// Ledger folder kept in memory; subfolders are part of the file name as with the real adapters
+const createMemoryAdapter = (initial: Record<string, string> = {}): StorageAdapter & { files: Map<string, string> } => {
+    const files = new Map(Object.entries(initial));
+    return {
+        files,
+        read: async (name) => files.get(name) ?? null,
+        write: async (name, content) => { files.set(name, content); },
+        append: async (name, content) => { files.set(name, (files.get(name) || '') + content); },
+        exists: async (name) => files.has(name),
+        list: async (folder) => Array.from(files.keys())
+            .filter(name => folder ? name.startsWith(`${folder}/`) : !name.includes('/'))
+            .map(name => folder ? name.slice(folder.length + 1) : name),
+        remove: async (name) => { files.delete(name); }
+    };
+};
+
+const tx = (id: string, date: string, amount = 10): Transaction => ({
+    id,
+    date,
+    payee: `Payee ${id}`,
+    splits: [{ accountId: 'cash', amount: -amount }, { accountId: 'food', amount }],
+    createdAt: 1700000000000
+});
+
+describe('migrations', () => {
+    it('flattens a hierarchical Accounts.json', () => {
+        const tree = [{ id: 'a', name: 'Assets', type: 'ASSET', children: [{ id: 'b', name: 'Bank', type: 'ASSET', children: [{ id: 'c', name: 'Checking', type: 'ASSET' }] }] }];
+        const migrated = migrateLedgerFiles({ 'Accounts.json': JSON.stringify(tree) }, 0);
+        const accounts = JSON.parse(migrated['Accounts.json']!);
+        expect(accounts.map((a: { id: string; parentId: string | null }) => [a.id, a.parentId])).toEqual([['a', null], ['b', 'a'], ['c', 'b']]);
+        expect(accounts[0].children).toBeUndefined();
+    });
+
+    it('marks recurring rules active unless disabled', () => {
+        const migrated = migrateLedgerFiles({ 'Recurring.json': JSON.stringify([{ id: 'r1' }, { id: 'r2', active: false }]) }, 0);
+        expect(JSON.parse(migrated['Recurring.json']!).map((r: { active: boolean }) => r.active)).toEqual([true, false]);
+    });
+
+    it('tolerates a Recurring.json that is not a list', () => {
+        expect(JSON.parse(migrateLedgerFiles({ 'Recurring.json': '{"id":"r1"}' }, 0)['Recurring.json']!)).toEqual([]);
+        expect(JSON.parse(migrateLedgerFiles({ 'Recurring.json': 'null' }, 0)['Recurring.json']!)).toEqual([]);
+    });
+
+    it('runs only the steps above the stored version', () => {
+        const files = { 'Recurring.json': JSON.stringify([{ id: 'r1' }]) };
+        expect(migrateLedgerFiles(files, CURRENT_FORMAT_VERSION)).toBe(files);
+    });
+});
+
+describe('loadLedger', () => {
+    it('upgrades an old folder after writing a backup', async () => {
+        const adapter = createMemoryAdapter({
+            'Transaction.csv': serializeTransactionsToCSV([tx('t1', '2025-01-02')]),
+            'Recurring.json': JSON.stringify([{ id: 'r1', splits: [] }])
+        });
+        const ledger = await loadLedger(adapter);
+        expect(ledger.migration?.fromVersion).toBe(0);
+        expect(ledger.migration?.backupFile).toMatch(/^Backup-v0-/);
+        expect(adapter.files.has(ledger.migration!.backupFile!)).toBe(true);
+        expect(JSON.parse(adapter.files.get(MANIFEST_FILE)!).formatVersion).toBe(CURRENT_FORMAT_VERSION);
+        expect(ledger.recurring[0].active).toBe(true);
+        expect(ledger.transactions.map(t => t.id)).toEqual(['t1']);
+    });
+
+    it('refuses a folder written by a newer version', async () => {
+        const adapter = createMemoryAdapter({ [MANIFEST_FILE]: JSON.stringify({ formatVersion: CURRENT_FORMAT_VERSION + 1 }) });
+        await expect(loadLedger(adapter)).rejects.toThrow(/newer LedgerFlow/);
+    });
+});
+
+describe('yearly layout', () => {
+    const transactions = [tx('t1', '2024-12-31'), tx('t2', '2025-01-01'), tx('t3', '2025-03-04')];
+
+    const createSingleLedger = async () => {
+        const adapter = createMemoryAdapter({
+            'Accounts.json': JSON.stringify(INITIAL_ACCOUNTS),
+            'Transaction.csv': serializeTransactionsToCSV(transactions)
+        });
+        await writeManifest(adapter);
+        return adapter;
+    };
+
+    it('moves transactions into one file per year and back', async () => {
+        const adapter = await createSingleLedger();
+        expect(await setTransactionLayout(adapter, 'yearly')).toBe(true);
+        expect(adapter.files.has('Transaction.csv')).toBe(false);
+        expect(Array.from(adapter.files.keys()).filter(n => n.startsWith('Transactions/')).sort()).toEqual(['Transactions/2024.csv', 'Transactions/2025.csv']);
+        expect((await loadLedger(adapter)).transactions.map(t => t.id).sort()).toEqual(['t1', 't2', 't3']);
+
+        expect(await setTransactionLayout(adapter, 'single')).toBe(true);
+        expect(Array.from(adapter.files.keys()).some(n => n.startsWith('Transactions/'))).toBe(false);
+        expect((await loadLedger(adapter)).transactions).toHaveLength(3);
+    });
+
+    it('ignores a Transaction.csv left behind by an interrupted switch', async () => {
+        const adapter = await createSingleLedger();
+        await setTransactionLayout(adapter, 'yearly');
+        // As if the switch stopped after writing the manifest
+        adapter.files.set('Transaction.csv', serializeTransactionsToCSV(transactions));
+        const ledger = await loadLedger(adapter);
+        expect(ledger.layout).toBe('yearly');
+        expect(ledger.transactions.map(t => t.id).sort()).toEqual(['t1', 't2', 't3']);
+    });
+
+    it('rewrites only the years that changed', async () => {
+        const adapter = await createSingleLedger();
+        await setTransactionLayout(adapter, 'yearly');
+        const ledger = await loadLedger(adapter);
+        const edited = ledger.transactions.map(t => t.id === 't3' ? { ...t, payee: 'Edited' } : t);
+        const previous = { accounts: ledger.accounts, transactions: ledger.transactions, recurring: ledger.recurring };
+        const result = await saveLedgerChanges(adapter, 'yearly', previous, { ...previous, transactions: edited });
+        expect(Object.keys(result.written)).toEqual(['Transactions/2025.csv']);
+    });
+
+    it('loads a transaction id found in two year files once', async () => {
+        const adapter = await createSingleLedger();
+        await setTransactionLayout(adapter, 'yearly');
+        // The date was edited by hand into another year without removing the old row
+        adapter.files.set('Transactions/2025.csv', serializeTransactionsToCSV([tx('t1', '2025-02-01'), tx('t2', '2025-01-01'), tx('t3', '2025-03-04')]));
+        const ledger = await loadLedger(adapter);
+        expect(ledger.transactions).toHaveLength(3);
+        expect(ledger.transactions.find(t => t.id === 't1')!.date).toBe('2025-02-01');
+    });
+});
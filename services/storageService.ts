@@ -0,0 +1,352 @@
+import { Account, BankImportProfile, CategorizationRule, ExchangeRateTable, RecurringTransaction, SavedView, StorageAdapter, Transaction } from '../types';
+import { INITIAL_ACCOUNTS, DEFAULT_EXCHANGE_RATES } from '../constants';
+import { LedgerData, parseTransactionsFromCSV, parseTransactionsFromCSVAsync, serializeTransactionsToCSV } from './ledgerService';
+import { BANK_PROFILES_FILE } from './bankImportService';
+import { RULES_FILE } from './rulesService';
+import { VIEWS_FILE } from './viewService';
+
+// Shared loading path for the ledger view and the Obsidian commands in main.ts.
+// Every file is upgraded to the current format before it is parsed.
+
+// Bump together with a new entry in MIGRATIONS whenever a stored shape changes
+export const CURRENT_FORMAT_VERSION = 2;
+
+// Holds the format version of the whole ledger folder. A missing manifest means version 0.
+export const MANIFEST_FILE = 'LedgerFlow.json';
+
+export const LEDGER_FILES = ['Accounts.json', 'Transaction.csv', 'Recurring.json', 'ExchangeRates.json', BANK_PROFILES_FILE, RULES_FILE, VIEWS_FILE];
+
+// Transactions live either in one Transaction.csv or in one file per year below Transactions/
+export type TransactionLayout = 'single' | 'yearly';
+
+export const TRANSACTION_SHARD_FOLDER = 'Transactions';
+
+export interface LedgerManifest {
+    formatVersion: number;
+    transactionLayout?: TransactionLayout; // Missing means 'single'
+}
+
+// Raw file contents by file name; null when the file does not exist
+export type LedgerFiles = Record<string, string | null>;
+
+export interface Migration {
+    version: number; // Format version after this step
+    description: string;
+    migrate: (files: LedgerFiles) => LedgerFiles;
+}
+
+// Everything kept in the ledger folder, parsed
+export interface LedgerContents {
+    accounts: Account[];
+    transactions: Transaction[];
+    recurring: RecurringTransaction[];
+    exchangeRates: ExchangeRateTable;
+    importProfiles: BankImportProfile[];
+    rules: CategorizationRule[];
+    views: SavedView[];
+}
+
+export interface LoadedLedger extends LedgerContents {
+    layout: TransactionLayout;
+    files: LedgerFiles; // As read (and upgraded), to tell later changes on disk apart from our own writes
+    migration: { fromVersion: number; backupFile: string | null } | null;
+}
+
+// --- MIGRATIONS ---
+
+// Early versions (and the README) described Accounts.json as a tree with `children`
+type LegacyAccountNode = Omit<Account, 'parentId' | 'children'> & { parentId?: string | null; children?: unknown };
+
+// Recurring rules before version 1 had no `active` flag
+type LegacyRecurringTransaction = Omit<RecurringTransaction, 'active'> & { active?: boolean };
+
+// Entries of the old files must be objects; their fields are taken as they are
+const isLegacyEntry = <T>(value: unknown): value is T => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const flattenAccountTree = (nodes: LegacyAccountNode[], parentId: string | null): Account[] => {
+    return nodes.flatMap(node => {
+        const { children, ...account } = node;
+        const flat: Account = { ...account, parentId: account.parentId !== undefined ? account.parentId : parentId };
+        const childNodes: LegacyAccountNode[] = Array.isArray(children) ? children.filter<LegacyAccountNode>(isLegacyEntry) : [];
+        return [flat, ...flattenAccountTree(childNodes, flat.id)];
+    });
+};
+
+export const MIGRATIONS: Migration[] = [
+    {
+        version: 1,
+        description: 'Flatten hierarchical Accounts.json, rewrite Transaction.csv with the full header, default recurring rules to active',
+        migrate: (files) => {
+            const result = { ...files };
+
+            if (files['Accounts.json']) {
+                const parsed: unknown = JSON.parse(files['Accounts.json']);
+                const nodes: LegacyAccountNode[] = (Array.isArray(parsed) ? parsed : [parsed]).filter<LegacyAccountNode>(isLegacyEntry);
+                result['Accounts.json'] = JSON.stringify(flattenAccountTree(nodes, null), null, 2);
+            }
+
+            if (files['Transaction.csv']) {
+                // The parser accepts every older column layout
+                result['Transaction.csv'] = serializeTransactionsToCSV(parseTransactionsFromCSV(files['Transaction.csv']));
+            }
+
+            if (files['Recurring.json']) {
+                const parsed: unknown = JSON.parse(files['Recurring.json']);
+                const rules: LegacyRecurringTransaction[] = Array.isArray(parsed) ? parsed.filter<LegacyRecurringTransaction>(isLegacyEntry) : [];
+                result['Recurring.json'] = JSON.stringify(rules.map(rule => ({ ...rule, active: rule.active !== false })), null, 2);
+            }
+
+            return result;
+        }
+    },
+    {
+        version: 2,
+        description: 'Record the transaction layout in LedgerFlow.json; older versions would not see transactions stored per year',
+        migrate: (files) => files
+    }
+];
+
+// Run every step above `fromVersion` in order
+export const migrateLedgerFiles = (files: LedgerFiles, fromVersion: number): LedgerFiles => {
+    return MIGRATIONS
+        .filter(m => m.version > fromVersion)
+        .sort((a, b) => a.version - b.version)
+        .reduce((acc, m) => m.migrate(acc), files);
+};
+
+// --- YEAR SHARDS ---
+
+const SHARD_NAME_PATTERN = /^(\d{4}|Undated)\.csv$/;
+
+// "Transactions/2025.csv"; dates without a year go to "Transactions/Undated.csv"
+export const getTransactionShard = (tx: Transaction): string =>
+    `${TRANSACTION_SHARD_FOLDER}/${/^\d{4}/.test(tx.date) ? tx.date.slice(0, 4) : 'Undated'}.csv`;
+
+export const isTransactionShard = (fileName: string): boolean =>
+    fileName.startsWith(`${TRANSACTION_SHARD_FOLDER}/`) && SHARD_NAME_PATTERN.test(fileName.slice(TRANSACTION_SHARD_FOLDER.length + 1));
+
+const groupByShard = (transactions: Transaction[]): Map<string, Transaction[]> => {
+    const shards = new Map<string, Transaction[]>();
+    transactions.forEach(tx => {
+        const shard = getTransactionShard(tx);
+        if (!shards.has(shard)) shards.set(shard, []);
+        shards.get(shard)!.push(tx);
+    });
+    return shards;
+};
+
+const listTransactionShards = async (adapter: StorageAdapter): Promise<string[]> =>
+    (await adapter.list(TRANSACTION_SHARD_FOLDER))
+        .map(name => `${TRANSACTION_SHARD_FOLDER}/${name}`)
+        .filter(isTransactionShard)
+        .sort();
+
+// The years whose transactions changed, as file contents (null: remove the file). Unchanged
+// transactions keep their object identity across edits, so a transaction that is not in both lists
+// was added, edited or removed. Without `previous` every year is written and files of years
+// without transactions are removed.
+const getShardChanges = async (adapter: StorageAdapter, previous: Transaction[] | null, next: Transaction[]): Promise<LedgerFiles> => {
+    const shards = groupByShard(next);
+    let dirty: Set<string>;
+    if (previous) {
+        const before = new Set(previous);
+        const after = new Set(next);
+        dirty = new Set();
+        next.forEach(tx => { if (!before.has(tx)) dirty.add(getTransactionShard(tx)); });
+        previous.forEach(tx => { if (!after.has(tx)) dirty.add(getTransactionShard(tx)); });
+    } else {
+        dirty = new Set([...Array.from(shards.keys()), ...(await listTransactionShards(adapter))]);
+    }
+
+    const changes: LedgerFiles = {};
+    Array.from(dirty).sort().forEach(shard => {
+        const transactions = shards.get(shard);
+        changes[shard] = transactions ? serializeTransactionsToCSV(transactions) : null;
+    });
+    return changes;
+};
+
+const writeLedgerFiles = async (adapter: StorageAdapter, files: LedgerFiles): Promise<void> => {
+    for (const name of Object.keys(files)) {
+        const content = files[name];
+        if (content === null) await adapter.remove(name);
+        else await adapter.write(name, content);
+    }
+};
+
+// --- LOADING ---
+
+// Parse files of the current format; missing files fall back to the defaults.
+// Transaction.csv (or each year file) is parsed in chunks so that a large journal does not block the UI.
+// A transaction id found in more than one file is loaded once, from the last file.
+export const parseLedgerFiles = async (files: LedgerFiles): Promise<LedgerContents> => {
+    const rateText = files['ExchangeRates.json'];
+    const transactionFiles = ['Transaction.csv', ...Object.keys(files).filter(isTransactionShard).sort()];
+    const transactions = new Map<string, Transaction>();
+    for (const name of transactionFiles) {
+        const content = files[name];
+        if (content) (await parseTransactionsFromCSVAsync(content, name)).forEach(tx => transactions.set(tx.id, tx));
+    }
+    return {
+        accounts: files['Accounts.json'] ? JSON.parse(files['Accounts.json']) : INITIAL_ACCOUNTS,
+        transactions: Array.from(transactions.values()).sort((a, b) => b.createdAt - a.createdAt),
+        recurring: files['Recurring.json'] ? JSON.parse(files['Recurring.json']) : [],
+        exchangeRates: rateText ? { ...DEFAULT_EXCHANGE_RATES, ...JSON.parse(rateText) } : DEFAULT_EXCHANGE_RATES,
+        importProfiles: files[BANK_PROFILES_FILE] ? JSON.parse(files[BANK_PROFILES_FILE]!) : [],
+        rules: files[RULES_FILE] ? JSON.parse(files[RULES_FILE]!) : [],
+        views: files[VIEWS_FILE] ? JSON.parse(files[VIEWS_FILE]!) : []
+    };
+};
+
+// The files as they are written to disk, the inverse of parseLedgerFiles
+export const serializeLedgerFiles = (contents: LedgerContents): LedgerFiles => ({
+    'Accounts.json': JSON.stringify(contents.accounts, null, 2),
+    'Transaction.csv': serializeTransactionsToCSV(contents.transactions),
+    'Recurring.json': JSON.stringify(contents.recurring, null, 2),
+    'ExchangeRates.json': JSON.stringify(contents.exchangeRates, null, 2),
+    [BANK_PROFILES_FILE]: JSON.stringify(contents.importProfiles, null, 2),
+    [RULES_FILE]: JSON.stringify(contents.rules, null, 2),
+    [VIEWS_FILE]: JSON.stringify(contents.views, null, 2)
+});
+
+export const readManifest = async (adapter: StorageAdapter): Promise<LedgerManifest> => {
+    const text = await adapter.read(MANIFEST_FILE);
+    if (!text) return { formatVersion: 0 };
+    const manifest: Partial<LedgerManifest> = JSON.parse(text);
+    return {
+        formatVersion: typeof manifest.formatVersion === 'number' ? manifest.formatVersion : 0,
+        transactionLayout: manifest.transactionLayout === 'yearly' ? 'yearly' : 'single'
+    };
+};
+
+export const readFormatVersion = async (adapter: StorageAdapter): Promise<number> => (await readManifest(adapter)).formatVersion;
+
+export const writeManifest = async (adapter: StorageAdapter, layout: TransactionLayout = 'single'): Promise<void> => {
+    const manifest: LedgerManifest = { formatVersion: CURRENT_FORMAT_VERSION, ...(layout === 'yearly' ? { transactionLayout: layout } : {}) };
+    await adapter.write(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+};
+
+// In the yearly layout Transaction.csv is not read: one left behind by an interrupted layout
+// switch would load every transaction twice
+const readLedgerFiles = async (adapter: StorageAdapter, layout: TransactionLayout): Promise<LedgerFiles> => {
+    const files: LedgerFiles = {};
+    for (const name of LEDGER_FILES) {
+        const skipped = layout === 'yearly' && name === 'Transaction.csv';
+        files[name] = !skipped && (await adapter.exists(name)) ? await adapter.read(name) : null;
+    }
+    if (layout === 'yearly') {
+        for (const shard of await listTransactionShards(adapter)) {
+            files[shard] = await adapter.read(shard);
+        }
+    }
+    return files;
+};
+
+// Copy of the original files, written before anything is upgraded
+const writeBackup = async (adapter: StorageAdapter, files: LedgerFiles, fromVersion: number): Promise<string> => {
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupFile = `Backup-v${fromVersion}-${stamp}.json`;
+    await adapter.write(backupFile, JSON.stringify({ formatVersion: fromVersion, createdAt: new Date().toISOString(), files }, null, 2));
+    return backupFile;
+};
+
+// Read the ledger folder, upgrading older formats in place (after a backup) and creating a fresh ledger when empty
+export const loadLedger = async (adapter: StorageAdapter): Promise<LoadedLedger> => {
+    const manifest = await readManifest(adapter);
+    const version = manifest.formatVersion;
+    const layout = manifest.transactionLayout || 'single';
+    if (version > CURRENT_FORMAT_VERSION) {
+        throw new Error(`This ledger was written by a newer LedgerFlow (format ${version}, supported ${CURRENT_FORMAT_VERSION}). Please update the plugin.`);
+    }
+
+    let files = await readLedgerFiles(adapter, layout);
+    let migration: LoadedLedger['migration'] = null;
+    const isEmpty = Object.keys(files).every(name => !files[name]);
+
+    if (isEmpty) {
+        files['Accounts.json'] = JSON.stringify(INITIAL_ACCOUNTS, null, 2);
+        await adapter.write('Accounts.json', files['Accounts.json']!);
+        await writeManifest(adapter);
+    } else if (version < CURRENT_FORMAT_VERSION) {
+        const migrated = migrateLedgerFiles(files, version);
+        const changed = Object.keys(migrated).filter(name => {
+            const content = migrated[name];
+            return content !== null && content !== undefined && content !== files[name];
+        });
+        // Steps that only bump the version leave the files as they are and need no backup
+        const backupFile = changed.length > 0 ? await writeBackup(adapter, files, version) : null;
+        for (const name of changed) {
+            await adapter.write(name, migrated[name]!);
+        }
+        await writeManifest(adapter, layout);
+        files = migrated;
+        migration = { fromVersion: version, backupFile };
+    }
+
+    return { ...(await parseLedgerFiles(files)), layout, files, migration };
+};
+
+// --- SAVING ---
+
+export interface LedgerSaveResult {
+    written: LedgerFiles; // Contents written (null: removed)
+    changedOnDisk: string[]; // Files that no longer match `known`; when not empty nothing was written
+}
+
+// Write the parts of the ledger that changed since `previous` (the data as last loaded or saved).
+// Without `previous` everything is written. With `known` (the file contents as last loaded or
+// saved), files that were changed outside LedgerFlow in the meantime are reported instead of
+// being overwritten. Saves must not overlap: both must already include what the last save wrote.
+export const saveLedgerChanges = async (
+    adapter: StorageAdapter,
+    layout: TransactionLayout,
+    previous: LedgerData | null,
+    next: LedgerData,
+    known: LedgerFiles | null = null
+): Promise<LedgerSaveResult> => {
+    let changes: LedgerFiles = {};
+    if (!previous || previous.accounts !== next.accounts) {
+        changes['Accounts.json'] = JSON.stringify(next.accounts, null, 2);
+    }
+    if (!previous || previous.transactions !== next.transactions) {
+        if (layout === 'yearly') {
+            changes = { ...changes, ...(await getShardChanges(adapter, previous && previous.transactions, next.transactions)) };
+        } else {
+            changes['Transaction.csv'] = serializeTransactionsToCSV(next.transactions);
+        }
+    }
+    if (!previous || previous.recurring !== next.recurring) {
+        changes['Recurring.json'] = JSON.stringify(next.recurring, null, 2);
+    }
+
+    if (known) {
+        const changedOnDisk: string[] = [];
+        for (const name of Object.keys(changes)) {
+            if ((await adapter.read(name)) !== (known[name] ?? null)) changedOnDisk.push(name);
+        }
+        if (changedOnDisk.length > 0) return { written: {}, changedOnDisk };
+    }
+    await writeLedgerFiles(adapter, changes);
+    return { written: changes, changedOnDisk: [] };
+};
+
+// Move the transactions to the other layout. The new files and the manifest are written before
+// the old files are removed, so an interruption never leaves the folder without a complete copy.
+// Old files left behind that way are not read: the manifest's layout decides which copy loads.
+export const setTransactionLayout = async (adapter: StorageAdapter, layout: TransactionLayout): Promise<boolean> => {
+    const ledger = await loadLedger(adapter);
+    if (ledger.layout === layout) return false;
+
+    if (layout === 'yearly') {
+        await writeLedgerFiles(adapter, await getShardChanges(adapter, null, ledger.transactions));
+        await writeManifest(adapter, layout);
+        await adapter.remove('Transaction.csv');
+    } else {
+        await adapter.write('Transaction.csv', serializeTransactionsToCSV(ledger.transactions));
+        await writeManifest(adapter, layout);
+        for (const shard of await listTransactionShards(adapter)) {
+            await adapter.remove(shard);
+        }
+    }
+    return true;
+};
@@ -0,0 +1,157 @@
+import { Account, LedgerIssue, Transaction } from '../types';
+import { getTransactionImbalance } from './ledgerService';
+import { fromMinorUnits, formatMoney } from './moneyService';
+
+// --- VALIDATION ---
+
+// Strict YYYY-MM-DD that also exists on the calendar (rejects 2025-02-30)
+export const isValidLedgerDate = (date: string): boolean => {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date || '')) return false;
+    const [y, m, d] = date.split('-').map(Number);
+    const parsed = new Date(Date.UTC(y, m - 1, d));
+    return parsed.getUTCFullYear() === y && parsed.getUTCMonth() === m - 1 && parsed.getUTCDate() === d;
+};
+
+const validateAccounts = (accounts: Account[]): LedgerIssue[] => {
+    const issues: LedgerIssue[] = [];
+    const accountMap = new Map<string, Account>();
+
+    accounts.forEach(acc => {
+        if (accountMap.has(acc.id)) {
+            issues.push({
+                id: `duplicate_account:${acc.id}`,
+                type: 'duplicate_account',
+                severity: 'error',
+                message: `Account id "${acc.id}" is used by more than one account ("${accountMap.get(acc.id)!.name}" and "${acc.name}").`,
+                accountId: acc.id
+            });
+        } else {
+            accountMap.set(acc.id, acc);
+        }
+    });
+
+    const reportedCycles = new Set<string>();
+    accountMap.forEach(acc => {
+        if (acc.parentId && !accountMap.has(acc.parentId)) {
+            issues.push({
+                id: `missing_parent:${acc.id}`,
+                type: 'missing_parent',
+                severity: 'warning',
+                message: `Account "${acc.name}" points to parent "${acc.parentId}", which does not exist.`,
+                accountId: acc.id
+            });
+            return;
+        }
+
+        // Walk up the chain; revisiting an account means the parent links loop
+        const visited = new Set<string>([acc.id]);
+        let current = acc;
+        while (current.parentId && accountMap.has(current.parentId)) {
+            if (visited.has(current.parentId)) {
+                if (current.parentId === acc.id && !reportedCycles.has(acc.id)) {
+                    visited.forEach(id => reportedCycles.add(id));
+                    issues.push({
+                        id: `account_cycle:${acc.id}`,
+                        type: 'account_cycle',
+                        severity: 'error',
+                        message: `Account "${acc.name}" is its own ancestor: ${Array.from(visited).map(id => accountMap.get(id)!.name).join(' > ')}.`,
+                        accountId: acc.id
+                    });
+                }
+                break;
+            }
+            visited.add(current.parentId);
+            current = accountMap.get(current.parentId)!;
+        }
+    });
+
+    return issues;
+};
+
+const validateTransactions = (transactions: Transaction[], accounts: Account[]): LedgerIssue[] => {
+    const issues: LedgerIssue[] = [];
+    const accountIds = new Set(accounts.map(a => a.id));
+
+    transactions.forEach(tx => {
+        const label = tx.payee || tx.description || tx.id;
+
+        if (!isValidLedgerDate(tx.date)) {
+            issues.push({
+                id: `invalid_date:${tx.id}`,
+                type: 'invalid_date',
+                severity: 'error',
+                message: `Transaction "${label}" has an invalid date "${tx.date}" (expected YYYY-MM-DD).`,
+                transactionId: tx.id
+            });
+        }
+
+        if (tx.splits.length < 2) {
+            issues.push({
+                id: `empty_transaction:${tx.id}`,
+                type: 'empty_transaction',
+                severity: 'warning',
+                message: `Transaction "${label}" on ${tx.date} has ${tx.splits.length} split(s); double entry needs at least two.`,
+                transactionId: tx.id
+            });
+        }
+
+        const imbalance = getTransactionImbalance(tx.splits);
+        if (imbalance !== 0) {
+            issues.push({
+                id: `unbalanced_transaction:${tx.id}`,
+                type: 'unbalanced_transaction',
+                severity: 'error',
+                message: `Transaction "${label}" on ${tx.date} is out of balance by ${formatMoney(fromMinorUnits(imbalance))}.`,
+                transactionId: tx.id,
+                imbalance: fromMinorUnits(imbalance)
+            });
+        }
+
+        tx.splits.forEach(split => {
+            if (!accountIds.has(split.accountId)) {
+                issues.push({
+                    id: `orphan_split:${tx.id}:${split.accountId}`,
+                    type: 'orphan_split',
+                    severity: 'error',
+                    message: `Transaction "${label}" on ${tx.date} posts to unknown account "${split.accountId}".`,
+                    transactionId: tx.id,
+                    accountId: split.accountId
+                });
+            }
+        });
+    });
+
+    return issues;
+};
+
+// Structured list of every problem found in the ledger, errors first
+export const validateLedger = (accounts: Account[], transactions: Transaction[]): LedgerIssue[] => {
+    const issues = [...validateAccounts(accounts), ...validateTransactions(transactions, accounts)];
+    return issues.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+};
+
+// --- REPAIRS ---
+// Each repair returns new arrays and never mutates its input.
+// Orphan splits are repaired with reassignSplits from ledgerService.
+
+// Append a split that brings the transaction back to zero
+export const addBalancingSplit = (transactions: Transaction[], transactionId: string, accountId: string): Transaction[] => {
+    return transactions.map(tx => {
+        if (tx.id !== transactionId) return tx;
+        const imbalance = getTransactionImbalance(tx.splits);
+        if (imbalance === 0) return tx;
+        return { ...tx, splits: [...tx.splits, { accountId, amount: fromMinorUnits(-imbalance) }] };
+    });
+};
+
+export const setTransactionDate = (transactions: Transaction[], transactionId: string, date: string): Transaction[] => {
+    return transactions.map(tx => tx.id === transactionId ? { ...tx, date } : tx);
+};
+
+// Re-attach an account to the root of its type, which breaks cycles and fixes dangling parents
+export const reattachAccountToRoot = (accounts: Account[], accountId: string): Account[] => {
+    const target = accounts.find(a => a.id === accountId);
+    if (!target) return accounts;
+    const root = accounts.find(a => a.type === target.type && !a.parentId && a.id !== accountId);
+    return accounts.map(acc => acc.id === accountId ? { ...acc, parentId: root ? root.id : null } : acc);
+};
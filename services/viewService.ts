@@ -0,0 +1,73 @@
+import { DatePreset, SavedView, SavedViewScreen, StorageAdapter } from '../types';
+import { generateId } from './ledgerService';
+
+// Named journal and dashboard filters. They are settings like Rules.json: kept in the ledger
+// folder, included in backups, but neither undoable nor audited.
+
+// Stored next to Transaction.csv
+export const VIEWS_FILE = 'Views.json';
+
+export const DATE_PRESET_LABELS: Record<DatePreset, string> = {
+    MTD: 'Month to date',
+    '1M': 'Last month',
+    '3M': 'Last 3 months',
+    '6M': 'Last 6 months',
+    '1Y': 'Last 12 months',
+    rolling3M: 'Past 3 months'
+};
+
+const toYMD = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+
+// Local dates, so "this month" follows the user's calendar
+export const resolveDatePreset = (preset: DatePreset, now = new Date()): { start: string; end: string } => {
+    if (preset === 'MTD') {
+        return { start: toYMD(new Date(now.getFullYear(), now.getMonth(), 1)), end: toYMD(now) };
+    }
+    if (preset === 'rolling3M') {
+        const start = new Date(now);
+        start.setMonth(now.getMonth() - 3);
+        return { start: toYMD(start), end: toYMD(now) };
+    }
+    // Whole previous months, ending with the last day of last month
+    const months = { '1M': 1, '3M': 3, '6M': 6, '1Y': 12 }[preset];
+    return {
+        start: toYMD(new Date(now.getFullYear(), now.getMonth() - months, 1)),
+        end: toYMD(new Date(now.getFullYear(), now.getMonth(), 0))
+    };
+};
+
+export const resolveViewRange = (view: SavedView, now = new Date()): { start: string; end: string } =>
+    'preset' in view.range ? resolveDatePreset(view.range.preset, now) : view.range;
+
+export const createSavedView = (name: string, screen: SavedViewScreen, fields: Omit<SavedView, 'id' | 'name' | 'screen'>): SavedView => ({
+    ...fields,
+    id: generateId(),
+    name: name.trim(),
+    screen
+});
+
+// A new view with the name of an existing one on the same screen replaces it
+export const upsertSavedView = (views: SavedView[], view: SavedView): SavedView[] => {
+    const existing = views.find(v => v.screen === view.screen && v.name.toLowerCase() === view.name.toLowerCase());
+    if (!existing) return [...views, view];
+    return views.map(v => v.id === existing.id ? { ...view, id: existing.id, isDefault: existing.isDefault } : v);
+};
+
+// Pin `id` as its screen's default, or clear the default of `screen` when id is null
+export const setDefaultView = (views: SavedView[], screen: SavedViewScreen, id: string | null): SavedView[] =>
+    views.map(v => {
+        if (v.screen !== screen) return v;
+        const { isDefault: _previous, ...rest } = v;
+        return v.id === id ? { ...rest, isDefault: true } : rest;
+    });
+
+export const getDefaultView = (views: SavedView[], screen: SavedViewScreen): SavedView | undefined =>
+    views.find(v => v.screen === screen && v.isDefault);
+
+// For the Obsidian command, which runs without the ledger view
+export const readSavedViews = async (adapter: StorageAdapter): Promise<SavedView[]> => {
+    const text = await adapter.read(VIEWS_FILE);
+    if (!text) return [];
+    const views = JSON.parse(text);
+    return Array.isArray(views) ? views : [];
+};
@@ -14,12 +14,23 @@ export interface Account {
   type: AccountType;
   budget?: number; // Monthly budget target
   description?: string;
+  currency?: string; // ISO code, defaults to the ledger base currency
+  archived?: boolean; // Hidden from pickers, still included in reports
   children?: Account[]; // For tree traversal
 }
 
+// Bank status of a split: pending until it shows on a statement, reconciled once a statement is closed
+export type SplitStatus = 'pending' | 'cleared' | 'reconciled';
+
 export interface Split {
   accountId: string;
-  amount: number; // Positive for Debit, Negative for Credit usually
+  amount: number; // Positive for Debit, Negative for Credit usually (base currency)
+  currency?: string; // Original currency when it differs from the base currency
+  originalAmount?: number; // Amount in `currency`, same sign as `amount`
+  rate?: number; // Base currency units per 1 unit of `currency`
+  memo?: string; // Note for this line only, e.g. what part of a receipt it covers
+  status?: SplitStatus; // Missing means pending
+  externalId?: string; // Bank's id for the statement line (OFX FITID), used to skip re-imports
 }
 
 export interface Transaction {
@@ -27,6 +38,7 @@ export interface Transaction {
   date: string;
   payee?: string;
   description?: string;
+  tags?: string[];
   splits: Split[];
   createdAt: number;
 }
@@ -52,10 +64,265 @@ export interface FlattenedAccountBalance {
   budget: number;
 }
 
-export type ViewMode = 'dashboard_expense' | 'dashboard_networth' | 'journal' | 'ledger' | 'analysis' | 'recurring';
+export interface ExchangeRate {
+  date: string; // YYYY-MM-DD, rate is valid from this date onwards
+  currency: string;
+  rate: number; // Base currency units per 1 unit of `currency`
+}
+
+export interface ExchangeRateTable {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+}
+
+// Points at one split inside a transaction
+export interface SplitRef {
+  transactionId: string;
+  splitIndex: number;
+}
+
+// A split in the branch being reconciled, amount in the account's own currency
+export interface ReconciliationItem extends SplitRef {
+  date: string;
+  payee?: string;
+  description?: string;
+  memo?: string;
+  accountId: string;
+  amount: number;
+  status: SplitStatus;
+}
+
+// One transaction in an account register, amounts in base currency as booked (not sign-adjusted)
+export interface RegisterRow {
+  transaction: Transaction;
+  amount: number; // Sum of the transaction's splits within the branch
+  balance: number; // Branch balance after this entry
+}
+
+export type LedgerIssueType =
+  | 'unbalanced_transaction'
+  | 'orphan_split'
+  | 'invalid_date'
+  | 'empty_transaction'
+  | 'missing_parent'
+  | 'account_cycle'
+  | 'duplicate_account';
+
+export interface LedgerIssue {
+  id: string; // Stable key, e.g. `${type}:${transactionId}`
+  type: LedgerIssueType;
+  severity: 'error' | 'warning';
+  message: string;
+  transactionId?: string;
+  accountId?: string;
+  imbalance?: number; // For unbalanced transactions, in base currency
+}
+
+export type ViewMode = 'dashboard_expense' | 'dashboard_networth' | 'journal' | 'ledger' | 'analysis' | 'recurring' | 'integrity' | 'reconcile' | 'audit' | 'rules' | 'backups';
+
+// Outcome of parsing an external file. Nothing is saved until the caller commits it.
+export interface ImportResult {
+  transactions: Transaction[];
+  accounts: Account[]; // Full account list, including any accounts the import created
+  createdAccounts: Account[];
+  warnings: string[];
+}
+
+// --- BANK IMPORT ---
+
+export type BankDateFormat = 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+
+// Saved column mapping for one bank's CSV export. Columns are zero-based, -1 when unmapped.
+export interface BankImportProfile {
+  id: string;
+  name: string;
+  delimiter: ',' | ';' | '\t';
+  skipRows: number; // Banner lines above the header
+  hasHeader: boolean;
+  dateColumn: number;
+  dateFormat: BankDateFormat;
+  amountMode: 'single' | 'debitCredit';
+  amountColumn: number;
+  debitColumn: number; // Money out
+  creditColumn: number; // Money in
+  invertSign: boolean; // For statements that show spending as positive (most credit cards)
+  decimalSeparator: '.' | ',';
+  payeeColumn: number;
+  memoColumn: number;
+  accountId: string; // Asset or liability the statement belongs to
+  counterAccountId: string; // Holds the other side until the entries are categorized
+}
+
+// --- DUPLICATES ---
+
+// Two transactions that probably record the same money movement
+export interface DuplicatePair {
+  incoming: Transaction; // The imported entry, or the later-created one in a ledger scan
+  existing: Transaction;
+  score: number; // 0 to 1
+  reasons: string[];
+}
+
+// skip: drop `incoming`; merge: fold both into `existing`; keep: keep both
+export type DuplicateResolution = 'skip' | 'merge' | 'keep';
+
+// --- EXTERNAL CHANGES ---
+
+// 'ours': the version in the open view, 'theirs': the version now on disk
+export type MergeSide = 'ours' | 'theirs';
+
+export type MergeEntity = Account | Transaction | RecurringTransaction;
+
+// An entry changed both in the view and on disk since the view last loaded or saved it.
+// null means the entry was deleted (or never existed) on that side.
+export interface MergeConflict {
+  key: string; // `${kind}:${id}`
+  kind: 'account' | 'transaction' | 'recurring';
+  id: string;
+  base: MergeEntity | null;
+  ours: MergeEntity | null;
+  theirs: MergeEntity | null;
+}
+
+// --- SEARCH ---
+
+export type QueryField = 'text' | 'account' | 'payee' | 'desc' | 'memo' | 'tag' | 'amount' | 'date' | 'status';
+
+// contains: `~value` (the default for free text); equals: `=value` (the default for payee and tag)
+export type QueryMatch = 'contains' | 'equals';
+
+// One term of a search such as `-payee:~super`. Bare words search with field 'text'.
+export interface QueryTerm {
+  field: QueryField;
+  negated: boolean;
+  value: string; // As typed, without the operator prefix and quotes
+  match: QueryMatch;
+  min?: number; // amount: bounds in base currency; date: unused
+  max?: number;
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+  from?: string; // date: inclusive YYYY-MM-DD bounds
+  to?: string;
+}
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[]; // Terms that could not be read are reported here and left out
+}
+
+// --- SAVED VIEWS ---
+
+export type SavedViewScreen = 'journal' | 'expense';
+
+// Relative ranges, resolved when the view is opened. MTD: this month so far; 1M-1Y: the last
+// full months; rolling3M: the three months up to today.
+export type DatePreset = 'MTD' | '1M' | '3M' | '6M' | '1Y' | 'rolling3M';
+
+// Named filters of the journal or the expense dashboard, stored in Views.json
+export interface SavedView {
+  id: string;
+  name: string;
+  screen: SavedViewScreen;
+  range: { preset: DatePreset } | { start: string; end: string };
+  query: string; // Search query (payee, amount bounds, tags...), see queryService
+  accountId?: string; // Journal: account focus; expense dashboard: the category drilled into
+  sort?: { key: keyof Transaction | 'amount'; direction: 'asc' | 'desc' }; // Journal only
+  register?: boolean; // Journal only
+  isDefault?: boolean; // Opened instead of the built-in filters; at most one per screen
+}
+
+// --- CATEGORIZATION RULES ---
+
+export type RuleField = 'payee' | 'description' | 'amount';
+
+// Text fields: contains, equals, startsWith, matches. Amount: equals, greaterThan, lessThan.
+export type RuleOperator = 'contains' | 'equals' | 'startsWith' | 'matches' | 'greaterThan' | 'lessThan';
+
+export interface RuleCondition {
+  field: RuleField;
+  operator: RuleOperator;
+  value: string; // Text, a pattern such as "/netflix/i", or an amount in base currency
+}
+
+// One entry of Rules.json. Rules are tried in order and the first one whose conditions all match wins.
+export interface CategorizationRule {
+  id: string;
+  name: string;
+  conditions: RuleCondition[]; // All must match
+  accountId: string; // Category the non-bank side is booked to
+  payee?: string; // Replaces the payee, e.g. "AMZN MKTP US*2K4" → "Amazon"
+  tags?: string[]; // Added to matching transactions
+  active: boolean;
+}
+
+// --- BACKUPS ---
+
+export type BackupInterval = 'off' | 'daily' | 'weekly';
+
+export interface BackupSchedule {
+  interval: BackupInterval;
+  keep: number; // Scheduled backups kept; older ones are deleted. Manual backups are never deleted.
+}
+
+// One file inside a backup bundle
+export interface BackupManifestEntry {
+  name: string;
+  size: number; // Characters
+  sha256: string; // Hex digest of the file content
+}
+
+// A single-file snapshot of the whole ledger folder
+export interface BackupBundle {
+  format: 'ledgerflow-backup';
+  formatVersion: number; // Ledger format of the files inside
+  createdAt: string; // ISO 8601
+  reason: 'manual' | 'scheduled' | 'restore'; // `restore`: the state replaced by a restore
+  manifest: BackupManifestEntry[];
+  files: Record<string, string | null>;
+}
+
+// --- CHANGE HISTORY ---
+
+export type LedgerEntity = 'transaction' | 'account' | 'recurring';
+
+export type LedgerEntityValue = Transaction | Account | RecurringTransaction;
+
+// One entity before and after a change; `null` on either side means created or deleted
+export interface EntityChange {
+  entity: LedgerEntity;
+  id: string;
+  before: LedgerEntityValue | null;
+  after: LedgerEntityValue | null;
+  index?: number; // Position in its list on the side where it exists, so it is re-inserted in place
+}
+
+// A user action that can be undone and redone as a unit
+export interface LedgerCommand {
+  label: string;
+  timestamp: number;
+  changes: EntityChange[];
+}
+
+// One line of Audit.jsonl
+export interface AuditEntry {
+  id: string;
+  timestamp: string; // ISO 8601
+  author: string;
+  action: 'create' | 'update' | 'delete';
+  entity: LedgerEntity;
+  entityId: string;
+  label: string; // The user action that caused the change, e.g. "Delete transaction "Supermart""
+  before: LedgerEntityValue | null;
+  after: LedgerEntityValue | null;
+}
 
 export interface StorageAdapter {
   read(filename: string): Promise<string | null>;
   write(filename: string, content: string): Promise<void>;
-  exists(filename: string): Promise<boolean>;
+  append(filename: string, content: string): Promise<void>; // Creates the file when missing
+  exists(filename: string): Promise<boolean>; // File names may include a subfolder ("Transactions/2025.csv")
+  list(folder?: string): Promise<string[]>; // Names of the files in the ledger folder, or in one of its subfolders
+  remove(filename: string): Promise<void>;
+  // Calls back with the file name whenever a file in the ledger folder changes on disk; returns the unsubscribe
+  watch?(onChange: (filename: string) => void): () => void;
 }
\ No newline at end of file
@@ -3,16 +3,21 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ObsidianVaultAdapter } from './adapter';
+import { BackupSchedule } from './types';
 
 export const VIEW_TYPE_LEDGER = 'ledger-flow-view';
 
 export class LedgerFlowView extends ItemView {
   private root: ReactDOM.Root | null = null;
   private ledgerFolderPath: string;
+  private authorName: string;
+  private backupSchedule: BackupSchedule;
 
-  constructor(leaf: WorkspaceLeaf, ledgerFolderPath: string) {
+  constructor(leaf: WorkspaceLeaf, ledgerFolderPath: string, authorName: string, backupSchedule: BackupSchedule) {
     super(leaf);
     this.ledgerFolderPath = ledgerFolderPath || 'LedgerFlow';
+    this.authorName = authorName;
+    this.backupSchedule = backupSchedule;
   }
 
   getViewType() {
@@ -44,7 +49,7 @@ export class LedgerFlowView extends ItemView {
     this.root = ReactDOM.createRoot(rootEl);
     this.root.render(
       <React.StrictMode>
-        <App adapter={adapter} />
+        <App adapter={adapter} author={this.authorName || undefined} backupSchedule={this.backupSchedule} />
       </React.StrictMode>
     );
   }
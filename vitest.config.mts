@@ -0,0 +1,9 @@
+import { defineConfig } from 'vitest/config';
+
+// Unit tests for the services; vite.config.ts belongs to the standalone web app
+export default defineConfig({
+    test: {
+        include: ['services/**/*.test.ts'],
+        environment: 'node'
+    }
+});
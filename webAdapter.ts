@@ -0,0 +1,117 @@
+import { StorageAdapter } from './types';
+
+// The DOM lib of TypeScript 4.7 declares the handles without writing and listing
+declare global {
+    interface FileSystemWritableFileStream extends WritableStream {
+        write(data: string): Promise<void>;
+        seek(position: number): Promise<void>;
+    }
+    interface FileSystemFileHandle {
+        createWritable(options?: { keepExistingData?: boolean }): Promise<FileSystemWritableFileStream>;
+    }
+    interface FileSystemDirectoryHandle {
+        entries(): AsyncIterableIterator<[string, FileSystemHandle]>;
+    }
+}
+
+// Storage for the standalone web app: a folder picked with the File System Access API
+export class DirectoryHandleAdapter implements StorageAdapter {
+    constructor(private dirHandle: FileSystemDirectoryHandle) {}
+
+    // Handle of the folder that holds `path` ("Transactions/2025.csv" → the Transactions folder)
+    private async getFolder(path: string, create: boolean): Promise<{ folder: FileSystemDirectoryHandle; name: string }> {
+        const parts = path.split('/');
+        let folder = this.dirHandle;
+        for (const part of parts.slice(0, -1)) {
+            folder = await folder.getDirectoryHandle(part, { create });
+        }
+        return { folder, name: parts[parts.length - 1] };
+    }
+
+    async read(filename: string): Promise<string | null> {
+        try {
+            const { folder, name } = await this.getFolder(filename, false);
+            const fileHandle = await folder.getFileHandle(name);
+            return await (await fileHandle.getFile()).text();
+        } catch (e) {
+            return null;
+        }
+    }
+
+    async write(filename: string, content: string): Promise<void> {
+        const { folder, name } = await this.getFolder(filename, true);
+        const fileHandle = await folder.getFileHandle(name, { create: true });
+        const writable = await fileHandle.createWritable();
+        await writable.write(content);
+        await writable.close();
+    }
+
+    async append(filename: string, content: string): Promise<void> {
+        const { folder, name } = await this.getFolder(filename, true);
+        const fileHandle = await folder.getFileHandle(name, { create: true });
+        const existing = await fileHandle.getFile();
+        const writable = await fileHandle.createWritable({ keepExistingData: true });
+        await writable.seek(existing.size);
+        await writable.write(content);
+        await writable.close();
+    }
+
+    async exists(filename: string): Promise<boolean> {
+        return (await this.read(filename)) !== null;
+    }
+
+    async list(subfolder?: string): Promise<string[]> {
+        const names: string[] = [];
+        try {
+            const { folder } = subfolder ? await this.getFolder(`${subfolder}/`, false) : { folder: this.dirHandle };
+            for await (const [name, handle] of folder.entries()) {
+                if (handle.kind === 'file') names.push(name);
+            }
+        } catch (e) {
+            // Missing subfolder
+        }
+        return names;
+    }
+
+    async remove(filename: string): Promise<void> {
+        try {
+            const { folder, name } = await this.getFolder(filename, false);
+            await folder.removeEntry(name);
+        } catch (e) {
+            // Already gone
+        }
+    }
+}
+
+// Fallback when no folder is connected: every file is one localStorage entry
+export class LocalStorageAdapter implements StorageAdapter {
+    constructor(private prefix = 'file:') {}
+
+    async read(filename: string): Promise<string | null> {
+        return localStorage.getItem(this.prefix + filename);
+    }
+
+    async write(filename: string, content: string): Promise<void> {
+        localStorage.setItem(this.prefix + filename, content);
+    }
+
+    async append(filename: string, content: string): Promise<void> {
+        localStorage.setItem(this.prefix + filename, (localStorage.getItem(this.prefix + filename) || '') + content);
+    }
+
+    async exists(filename: string): Promise<boolean> {
+        return localStorage.getItem(this.prefix + filename) !== null;
+    }
+
+    async list(folder?: string): Promise<string[]> {
+        const prefix = this.prefix + (folder ? `${folder}/` : '');
+        return Object.keys(localStorage)
+            .filter(key => key.startsWith(prefix))
+            .map(key => key.slice(prefix.length))
+            .filter(name => !name.includes('/'));
+    }
+
+    async remove(filename: string): Promise<void> {
+        localStorage.removeItem(this.prefix + filename);
+    }
+}